@@ -0,0 +1,125 @@
+package com.visionml
+
+import com.facebook.react.bridge.ReadableMap
+import kotlin.math.abs
+import kotlin.math.max
+
+/**
+ * Decides which detections count as flagged content
+ * Matches on class labels rather than indices, so models with a different label order still work
+ *
+ * Ported from iOS ContentPolicy.swift
+ */
+data class ContentPolicy(
+    /** Class labels that count as flagged */
+    val flaggedLabels: Set<String>,
+    /** Per-class minimum scores, keyed by class label */
+    val classThresholds: Map<String, Float> = emptyMap(),
+    /** Minimum score for flagged labels without their own threshold (null = detection confidence threshold) */
+    val defaultThreshold: Float? = null,
+    /** Minimum box area as a fraction of the image area (0.0 - 1.0) */
+    val minBoxArea: Float = 0f
+) {
+    companion object {
+        /** NudeNet exposed classes (previously hardcoded as indices [2, 3, 4, 6, 14]) */
+        val NUDENET_DEFAULT = ContentPolicy(
+            flaggedLabels = setOf(
+                "BUTTOCKS_EXPOSED",
+                "FEMALE_BREAST_EXPOSED",
+                "FEMALE_GENITALIA_EXPOSED",
+                "ANUS_EXPOSED",
+                "MALE_GENITALIA_EXPOSED"
+            )
+        )
+
+        /**
+         * Build a policy from the JS bridge map, falling back to the NudeNet default when null
+         */
+        fun fromReadableMap(map: ReadableMap?): ContentPolicy {
+            if (map == null) return NUDENET_DEFAULT
+
+            val labels = mutableSetOf<String>()
+            map.getArray("flaggedLabels")?.let { array ->
+                for (i in 0 until array.size()) {
+                    array.getString(i)?.let { labels.add(it) }
+                }
+            }
+
+            val thresholds = mutableMapOf<String, Float>()
+            map.getMap("classThresholds")?.let { raw ->
+                val iterator = raw.keySetIterator()
+                while (iterator.hasNextKey()) {
+                    val label = iterator.nextKey()
+                    thresholds[label] = raw.getDouble(label).toFloat()
+                }
+            }
+
+            return ContentPolicy(
+                flaggedLabels = labels,
+                classThresholds = thresholds,
+                defaultThreshold = if (map.hasKey("defaultThreshold") && !map.isNull("defaultThreshold")) {
+                    map.getDouble("defaultThreshold").toFloat()
+                } else {
+                    null
+                },
+                minBoxArea = if (map.hasKey("minBoxArea") && !map.isNull("minBoxArea")) {
+                    map.getDouble("minBoxArea").toFloat()
+                } else {
+                    0f
+                }
+            )
+        }
+    }
+
+    /**
+     * Minimum score for a flagged label
+     * @param fallback Detection confidence threshold, used when the policy sets none
+     */
+    fun threshold(label: String, fallback: Float): Float {
+        return classThresholds[label] ?: defaultThreshold ?: fallback
+    }
+
+    /**
+     * Lowest score any flagged label can be accepted at
+     * Used as the all-class parse threshold so per-class thresholds below the detection threshold still apply
+     */
+    fun recoveryThreshold(fallback: Float): Float {
+        return flaggedLabels.minOfOrNull { threshold(it, fallback) } ?: fallback
+    }
+
+    /**
+     * Copy with the fallback and every per-class threshold lowered by [margin]
+     * Detecting with it also returns near misses, for adaptive video sampling
+     */
+    fun lowered(margin: Float): ContentPolicy {
+        return copy(
+            classThresholds = classThresholds.mapValues { max(0f, it.value - margin) },
+            defaultThreshold = defaultThreshold?.let { max(0f, it - margin) }
+        )
+    }
+
+    /** Whether a detection of a flagged label scores within [margin] of its threshold, on either side */
+    fun isNearThreshold(detection: NMS.Detection, fallbackThreshold: Float, margin: Float): Boolean {
+        if (detection.className !in flaggedLabels) return false
+        return abs(detection.score - threshold(detection.className, fallbackThreshold)) <= margin
+    }
+
+    /** Indices of flagged labels within a model's class list */
+    fun flaggedClassIndices(classLabels: List<String>): Set<Int> {
+        return classLabels.indices.filter { classLabels[it] in flaggedLabels }.toSet()
+    }
+
+    /** Whether a detection counts as flagged content under this policy */
+    fun isFlagged(detection: NMS.Detection, imageWidth: Int, imageHeight: Int, fallbackThreshold: Float): Boolean {
+        if (detection.className !in flaggedLabels) return false
+        if (detection.score < threshold(detection.className, fallbackThreshold)) return false
+
+        if (minBoxArea > 0f && imageWidth > 0 && imageHeight > 0) {
+            val boxArea = (detection.box[2] - detection.box[0]) * (detection.box[3] - detection.box[1])
+            val imageArea = (imageWidth * imageHeight).toFloat()
+            if (boxArea / imageArea < minBoxArea) return false
+        }
+
+        return true
+    }
+}
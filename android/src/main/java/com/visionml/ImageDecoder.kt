@@ -8,10 +8,16 @@ import android.graphics.Color
 import android.graphics.Matrix
 import android.media.ExifInterface
 import android.net.Uri
+import android.provider.MediaStore
+import android.util.Base64
 import android.util.Log
+import com.facebook.react.bridge.ReadableMap
+import java.io.ByteArrayInputStream
 import java.io.File
 import java.io.FileInputStream
+import java.io.FileNotFoundException
 import java.io.InputStream
+import java.nio.ByteBuffer
 import kotlin.math.max
 
 /**
@@ -31,6 +37,63 @@ class ImageDecoder(private val context: Context) {
         object FailedToCreateBitmap : DecodeError()
         object FailedToResize : DecodeError()
         object ImageTooLarge : DecodeError()
+        object AssetNotFound : DecodeError()
+        object InvalidImageInput : DecodeError()
+    }
+
+    /**
+     * Where an image comes from, as sent by JS detect()
+     */
+    sealed class Source {
+        /** file:// or content:// URI, absolute path, or base64 data: URI */
+        data class FromUri(val uri: String) : Source()
+        /** MediaStore image ID (or its content:// URI) */
+        data class FromAsset(val assetId: String) : Source()
+        /** 8-bit RGBA pixels, row-major without padding (alpha is ignored) */
+        class FromPixels(val rgba: ByteArray, val width: Int, val height: Int) : Source()
+
+        companion object {
+            /** Parse the JS bridge map: { uri } | { assetId } | { rgba: base64, width, height } */
+            fun fromReadableMap(map: ReadableMap): Source {
+                fun has(key: String): Boolean = map.hasKey(key) && !map.isNull(key)
+
+                return when {
+                    has("uri") -> FromUri(map.getString("uri")!!)
+                    has("assetId") -> FromAsset(map.getString("assetId")!!)
+                    has("rgba") && has("width") && has("height") -> {
+                        val rgba = try {
+                            Base64.decode(map.getString("rgba"), Base64.DEFAULT)
+                        } catch (e: IllegalArgumentException) {
+                            throw DecodeError.InvalidImageInput
+                        }
+                        FromPixels(rgba, map.getInt("width"), map.getInt("height"))
+                    }
+                    else -> throw DecodeError.InvalidImageInput
+                }
+            }
+        }
+    }
+
+    /**
+     * Placement of the original image inside the model input: model = original * scale + pad
+     */
+    data class LetterboxInfo(
+        val scaleX: Float,
+        val scaleY: Float,
+        val padX: Float,
+        val padY: Float,
+        val mode: ModelConfig.Letterbox
+    ) {
+        companion object {
+            /** Mapping for an image scaled to width x height without padding */
+            fun stretch(originalWidth: Int, originalHeight: Int, width: Int, height: Int) = LetterboxInfo(
+                scaleX = width.toFloat() / max(originalWidth, 1),
+                scaleY = height.toFloat() / max(originalHeight, 1),
+                padX = 0f,
+                padY = 0f,
+                mode = ModelConfig.Letterbox.STRETCH
+            )
+        }
     }
 
     data class DecodedImage(
@@ -38,7 +101,8 @@ class ImageDecoder(private val context: Context) {
         val height: Int,          // Resized height (or original if no resize)
         val originalWidth: Int,   // Original image width before resize
         val originalHeight: Int,  // Original image height before resize
-        val data: FloatArray      // Normalized RGB pixel data (0.0-1.0), HWC format
+        val data: FloatArray,     // Normalized RGB pixel data (0.0-1.0), HWC format
+        val letterbox: LetterboxInfo  // How the original maps into the resized image
     ) {
         override fun equals(other: Any?): Boolean {
             if (this === other) return true
@@ -46,7 +110,7 @@ class ImageDecoder(private val context: Context) {
             other as DecodedImage
             return width == other.width && height == other.height &&
                    originalWidth == other.originalWidth && originalHeight == other.originalHeight &&
-                   data.contentEquals(other.data)
+                   data.contentEquals(other.data) && letterbox == other.letterbox
         }
 
         override fun hashCode(): Int {
@@ -55,6 +119,7 @@ class ImageDecoder(private val context: Context) {
             result = 31 * result + originalWidth
             result = 31 * result + originalHeight
             result = 31 * result + data.contentHashCode()
+            result = 31 * result + letterbox.hashCode()
             return result
         }
     }
@@ -63,12 +128,31 @@ class ImageDecoder(private val context: Context) {
      * Decode and optionally resize image to target size
      * @param imageUri file:// URI or content:// URI to image
      * @param targetSize Target size for square resize (0 = no resize)
+     * @param letterbox How to fit the image into the square (default NudeNet top-left padding)
      * @return Decoded image with normalized pixel data
      */
-    fun decode(imageUri: String, targetSize: Int = 0): DecodedImage {
-        Log.d(TAG, "START: decode called with URI: $imageUri targetSize: $targetSize")
+    fun decode(
+        imageUri: String,
+        targetSize: Int = 0,
+        letterbox: ModelConfig.Letterbox = ModelConfig.Letterbox.TOP_LEFT
+    ): DecodedImage = decode(Source.FromUri(imageUri), targetSize, letterbox)
 
-        val bitmap = loadBitmap(imageUri)
+    /**
+     * Decode and optionally resize an image from any source
+     * Original dimensions are those of the source with EXIF orientation applied
+     * @param source File/content/data URI, MediaStore asset or raw RGBA pixels
+     * @param targetSize Target size for square resize (0 = no resize)
+     * @param letterbox How to fit the image into the square (default NudeNet top-left padding)
+     * @return Decoded image with normalized pixel data
+     */
+    fun decode(
+        source: Source,
+        targetSize: Int = 0,
+        letterbox: ModelConfig.Letterbox = ModelConfig.Letterbox.TOP_LEFT
+    ): DecodedImage {
+        Log.d(TAG, "START: decode called with ${source.javaClass.simpleName} targetSize: $targetSize")
+
+        val bitmap = loadBitmap(source)
             ?: throw DecodeError.FailedToLoadData
 
         val originalWidth = bitmap.width
@@ -86,18 +170,27 @@ class ImageDecoder(private val context: Context) {
         val processedBitmap: Bitmap
         val finalWidth: Int
         val finalHeight: Int
+        var letterboxInfo = LetterboxInfo.stretch(originalWidth, originalHeight, originalWidth, originalHeight)
 
         if (targetSize > 0) {
-            Log.d(TAG, "Letterbox resizing to ${targetSize}x$targetSize...")
-            processedBitmap = letterboxResize(bitmap, targetSize)
-                ?: run {
-                    Log.w(TAG, "Letterbox failed, trying simple resize...")
-                    simpleResize(bitmap, targetSize) ?: run {
-                        Log.e(TAG, "All resize methods failed")
-                        bitmap.recycle()
-                        throw DecodeError.FailedToResize
-                    }
+            Log.d(TAG, "Letterbox (${letterbox.value}) resizing to ${targetSize}x$targetSize...")
+            val letterboxed = if (letterbox != ModelConfig.Letterbox.STRETCH) {
+                letterboxResize(bitmap, targetSize, letterbox)
+            } else {
+                null
+            }
+            if (letterboxed != null) {
+                processedBitmap = letterboxed.first
+                letterboxInfo = letterboxed.second
+            } else {
+                // Stretch mode, or fallback when letterbox fails
+                processedBitmap = simpleResize(bitmap, targetSize) ?: run {
+                    Log.e(TAG, "All resize methods failed")
+                    bitmap.recycle()
+                    throw DecodeError.FailedToResize
                 }
+                letterboxInfo = LetterboxInfo.stretch(originalWidth, originalHeight, targetSize, targetSize)
+            }
             finalWidth = targetSize
             finalHeight = targetSize
 
@@ -128,25 +221,40 @@ class ImageDecoder(private val context: Context) {
             height = finalHeight,
             originalWidth = originalWidth,
             originalHeight = originalHeight,
-            data = normalizedData
+            data = normalizedData,
+            letterbox = letterboxInfo
         )
     }
 
     /**
      * Decode directly to Bitmap (for video frames that are already Bitmap)
      */
-    fun decodeBitmap(bitmap: Bitmap, targetSize: Int = 0): DecodedImage {
+    fun decodeBitmap(
+        bitmap: Bitmap,
+        targetSize: Int = 0,
+        letterbox: ModelConfig.Letterbox = ModelConfig.Letterbox.TOP_LEFT
+    ): DecodedImage {
         val originalWidth = bitmap.width
         val originalHeight = bitmap.height
 
         val processedBitmap: Bitmap
         val finalWidth: Int
         val finalHeight: Int
+        var letterboxInfo = LetterboxInfo.stretch(originalWidth, originalHeight, originalWidth, originalHeight)
 
         if (targetSize > 0) {
-            processedBitmap = letterboxResize(bitmap, targetSize)
-                ?: simpleResize(bitmap, targetSize)
-                ?: throw DecodeError.FailedToResize
+            val letterboxed = if (letterbox != ModelConfig.Letterbox.STRETCH) {
+                letterboxResize(bitmap, targetSize, letterbox)
+            } else {
+                null
+            }
+            if (letterboxed != null) {
+                processedBitmap = letterboxed.first
+                letterboxInfo = letterboxed.second
+            } else {
+                processedBitmap = simpleResize(bitmap, targetSize) ?: throw DecodeError.FailedToResize
+                letterboxInfo = LetterboxInfo.stretch(originalWidth, originalHeight, targetSize, targetSize)
+            }
             finalWidth = targetSize
             finalHeight = targetSize
         } else {
@@ -166,10 +274,97 @@ class ImageDecoder(private val context: Context) {
             height = finalHeight,
             originalWidth = originalWidth,
             originalHeight = originalHeight,
-            data = normalizedData
+            data = normalizedData,
+            letterbox = letterboxInfo
         )
     }
 
+    /**
+     * Load a source as a Bitmap in display orientation (EXIF applied), the space detection boxes use
+     */
+    fun loadOrientedBitmap(source: Source): Bitmap =
+        loadBitmap(source) ?: throw DecodeError.FailedToLoadData
+
+    /**
+     * Load a source as a Bitmap with EXIF orientation applied
+     * Throws AssetNotFound / InvalidImageInput; other load failures return null
+     */
+    private fun loadBitmap(source: Source): Bitmap? {
+        return when (source) {
+            is Source.FromUri -> if (source.uri.startsWith("data:")) {
+                loadDataUri(source.uri)
+            } else {
+                loadBitmap(source.uri)
+            }
+            is Source.FromAsset -> loadAsset(source.assetId)
+            is Source.FromPixels -> createBitmap(source)
+        }
+    }
+
+    /** Decode the payload of a `data:image/...;base64,` URI */
+    private fun loadDataUri(dataUri: String): Bitmap? {
+        val comma = dataUri.indexOf(',')
+        if (comma < 0 || !dataUri.substring(0, comma).endsWith(";base64")) {
+            Log.e(TAG, "Malformed data URI")
+            throw DecodeError.InvalidImageInput
+        }
+        val bytes = try {
+            Base64.decode(dataUri.substring(comma + 1), Base64.DEFAULT)
+        } catch (e: IllegalArgumentException) {
+            throw DecodeError.InvalidImageInput
+        }
+        return decodeWithExif(bytes)
+    }
+
+    /** Full-size image of a MediaStore asset (numeric ID, as in MLKitAnalyzer) */
+    private fun loadAsset(assetId: String): Bitmap? {
+        val uri = when {
+            assetId.startsWith("content://") -> Uri.parse(assetId)
+            assetId.isNotEmpty() && assetId.all { it.isDigit() } ->
+                Uri.withAppendedPath(MediaStore.Images.Media.EXTERNAL_CONTENT_URI, assetId)
+            else -> throw DecodeError.AssetNotFound
+        }
+        val bytes = try {
+            context.contentResolver.openInputStream(uri)?.use { it.readBytes() }
+                ?: throw DecodeError.AssetNotFound
+        } catch (e: FileNotFoundException) {
+            Log.e(TAG, "Asset not found: $assetId")
+            throw DecodeError.AssetNotFound
+        }
+        return decodeWithExif(bytes)
+    }
+
+    /** Decode encoded image bytes, reading EXIF from the same bytes (API 24+) */
+    private fun decodeWithExif(bytes: ByteArray): Bitmap? {
+        val bitmap = BitmapFactory.decodeByteArray(bytes, 0, bytes.size) ?: return null
+        val rotated = try {
+            applyExifRotation(ExifInterface(ByteArrayInputStream(bytes)), bitmap)
+        } catch (e: Exception) {
+            Log.w(TAG, "Failed to read EXIF: ${e.message}")
+            bitmap
+        }
+        if (rotated !== bitmap) {
+            bitmap.recycle()
+        }
+        return rotated
+    }
+
+    /** Wrap raw RGBA pixels in an opaque ARGB_8888 bitmap (same byte order in memory) */
+    private fun createBitmap(pixels: Source.FromPixels): Bitmap {
+        if (pixels.width <= 0 || pixels.height <= 0 ||
+            pixels.rgba.size.toLong() != pixels.width.toLong() * pixels.height * 4) {
+            Log.e(TAG, "RGBA buffer is ${pixels.rgba.size} bytes, expected ${pixels.width}x${pixels.height}x4")
+            throw DecodeError.InvalidImageInput
+        }
+        // Bitmaps are premultiplied; forcing opaque alpha keeps the colors as given
+        for (i in 3 until pixels.rgba.size step 4) {
+            pixels.rgba[i] = 0xFF.toByte()
+        }
+        val bitmap = Bitmap.createBitmap(pixels.width, pixels.height, Bitmap.Config.ARGB_8888)
+        bitmap.copyPixelsFromBuffer(ByteBuffer.wrap(pixels.rgba))
+        return bitmap
+    }
+
     private fun loadBitmap(imageUri: String): Bitmap? {
         return try {
             val inputStream: InputStream? = when {
@@ -234,7 +429,15 @@ class ImageDecoder(private val context: Context) {
                 else -> return bitmap  // Can't read EXIF from content:// easily
             }
 
-            val exif = ExifInterface(path)
+            return applyExifRotation(ExifInterface(path), bitmap)
+        } catch (e: Exception) {
+            Log.w(TAG, "Failed to apply EXIF rotation: ${e.message}")
+            return bitmap
+        }
+    }
+
+    private fun applyExifRotation(exif: ExifInterface, bitmap: Bitmap): Bitmap {
+        try {
             val orientation = exif.getAttributeInt(
                 ExifInterface.TAG_ORIENTATION,
                 ExifInterface.ORIENTATION_NORMAL
@@ -259,9 +462,13 @@ class ImageDecoder(private val context: Context) {
 
     /**
      * Letterbox resize: pad image to square, then resize to target size
-     * NudeNet pads on RIGHT and BOTTOM (image at top-left corner)
+     * NudeNet pads on RIGHT and BOTTOM (image at top-left corner); CENTER pads evenly
      */
-    private fun letterboxResize(image: Bitmap, targetSize: Int): Bitmap? {
+    private fun letterboxResize(
+        image: Bitmap,
+        targetSize: Int,
+        mode: ModelConfig.Letterbox
+    ): Pair<Bitmap, LetterboxInfo>? {
         val originalWidth = image.width
         val originalHeight = image.height
 
@@ -272,7 +479,10 @@ class ImageDecoder(private val context: Context) {
         val xPad = maxDim - originalWidth
         val yPad = maxDim - originalHeight
 
-        Log.d(TAG, "Letterbox: original ${originalWidth}x$originalHeight, maxDim $maxDim, pad right=$xPad bottom=$yPad")
+        val drawX = if (mode == ModelConfig.Letterbox.CENTER) xPad / 2 else 0
+        val drawY = if (mode == ModelConfig.Letterbox.CENTER) yPad / 2 else 0
+
+        Log.d(TAG, "Letterbox (${mode.value}): original ${originalWidth}x$originalHeight, maxDim $maxDim, pad x=$xPad y=$yPad")
 
         return try {
             // Step 1: Create padded square image (black background)
@@ -280,8 +490,8 @@ class ImageDecoder(private val context: Context) {
             val canvas = Canvas(paddedBitmap)
             canvas.drawColor(Color.BLACK)
 
-            // Draw original image at TOP-LEFT (NudeNet style)
-            canvas.drawBitmap(image, 0f, 0f, null)
+            // Draw original image at TOP-LEFT (NudeNet style) or centered
+            canvas.drawBitmap(image, drawX.toFloat(), drawY.toFloat(), null)
 
             // Step 2: Resize padded square to target size
             val resized = Bitmap.createScaledBitmap(paddedBitmap, targetSize, targetSize, true)
@@ -291,7 +501,14 @@ class ImageDecoder(private val context: Context) {
                 paddedBitmap.recycle()
             }
 
-            resized
+            val scale = targetSize.toFloat() / maxDim
+            resized to LetterboxInfo(
+                scaleX = scale,
+                scaleY = scale,
+                padX = drawX * scale,
+                padY = drawY * scale,
+                mode = mode
+            )
         } catch (e: Exception) {
             Log.e(TAG, "Letterbox resize failed: ${e.message}")
             null
@@ -345,19 +562,28 @@ class ImageDecoder(private val context: Context) {
 
     /**
      * Convert HWC (Height, Width, Channels) to NCHW (Batch, Channels, Height, Width)
-     * Required for ONNX input tensor
+     * Required for ONNX input tensor; applies the model's channel order and mean/std normalization
      */
-    fun convertToNCHW(hwcData: FloatArray, width: Int, height: Int): FloatArray {
+    fun convertToNCHW(
+        hwcData: FloatArray,
+        width: Int,
+        height: Int,
+        config: ModelConfig = ModelConfig.NUDENET_DEFAULT
+    ): FloatArray {
         val nchwData = FloatArray(3 * height * width)
 
+        // Source offsets within an RGB pixel for tensor channels 0 and 2
+        val first = if (config.channelOrder == ModelConfig.ChannelOrder.RGB) 0 else 2
+        val last = 2 - first
+
         for (y in 0 until height) {
             for (x in 0 until width) {
                 val hwcIndex = (y * width + x) * 3
                 val baseIndex = y * width + x
 
-                nchwData[baseIndex] = hwcData[hwcIndex]                          // R channel
-                nchwData[height * width + baseIndex] = hwcData[hwcIndex + 1]     // G channel
-                nchwData[2 * height * width + baseIndex] = hwcData[hwcIndex + 2] // B channel
+                nchwData[baseIndex] = config.normalize(hwcData[hwcIndex + first], 0)                   // R (B for BGR)
+                nchwData[height * width + baseIndex] = config.normalize(hwcData[hwcIndex + 1], 1)      // G channel
+                nchwData[2 * height * width + baseIndex] = config.normalize(hwcData[hwcIndex + last], 2) // B (R for BGR)
             }
         }
 
@@ -0,0 +1,128 @@
+package com.visionml
+
+import kotlin.math.exp
+import kotlin.math.sqrt
+
+/**
+ * Image classifier on an ONNXInference session
+ * Loading, execution providers and preprocessing (ModelConfig) are the detector's;
+ * only the output tensor is read differently, as one score per class label
+ *
+ * Ported from iOS ImageModels.swift
+ */
+class ImageClassifier(
+    val inference: ONNXInference,
+    private val classLabels: List<String>,
+    private val activation: Activation
+) {
+
+    sealed class ClassifierError(message: String) : Exception(message) {
+        class LabelCountMismatch(labels: Int, outputs: Int) :
+            ClassifierError("Model output has $outputs scores but $labels class labels were given")
+    }
+
+    /**
+     * Applied to the raw output before ranking
+     */
+    enum class Activation(val value: String) {
+        /** Output is already probabilities */
+        NONE("none"),
+        /** Logits of mutually exclusive classes */
+        SOFTMAX("softmax"),
+        /** Independent per-class logits (multi-label) */
+        SIGMOID("sigmoid");
+
+        companion object {
+            fun fromValue(value: String?): Activation = values().firstOrNull { it.value == value } ?: SOFTMAX
+        }
+    }
+
+    data class Prediction(
+        val index: Int,
+        val label: String,
+        val score: Float
+    )
+
+    data class Result(
+        val predictions: List<Prediction>,  // Highest score first
+        val inferenceTime: Int,             // milliseconds
+        val totalTime: Int                  // milliseconds
+    )
+
+    /**
+     * Classify one image
+     * @param image File/content/data URI, MediaStore asset or raw RGBA pixels
+     * @param topK Maximum number of predictions returned
+     * @param minScore Drop predictions scoring below this (after activation)
+     */
+    fun classify(image: ImageDecoder.Source, topK: Int, minScore: Float): Result {
+        val start = System.currentTimeMillis()
+        val output = inference.run(image)
+
+        if (output.values.size != classLabels.size) {
+            throw ClassifierError.LabelCountMismatch(classLabels.size, output.values.size)
+        }
+
+        val predictions = activate(output.values)
+            .withIndex()
+            .filter { it.value >= minScore }
+            .sortedByDescending { it.value }
+            .take(maxOf(0, topK))
+            .map { Prediction(it.index, classLabels[it.index], it.value) }
+
+        return Result(
+            predictions = predictions,
+            inferenceTime = output.inferenceTime,
+            totalTime = (System.currentTimeMillis() - start).toInt()
+        )
+    }
+
+    private fun activate(values: FloatArray): List<Float> {
+        return when (activation) {
+            Activation.NONE -> values.toList()
+            Activation.SIGMOID -> values.map { 1f / (1f + exp(-it)) }
+            Activation.SOFTMAX -> {
+                // Shift by the max so exp() can't overflow
+                val maxValue = values.maxOrNull() ?: 0f
+                val exps = values.map { exp(it - maxValue) }
+                val sum = exps.sum()
+                exps.map { it / sum }
+            }
+        }
+    }
+}
+
+/**
+ * Image embedder on an ONNXInference session
+ * The flattened output tensor is the embedding
+ *
+ * Ported from iOS ImageModels.swift
+ */
+class ImageEmbedder(val inference: ONNXInference) {
+
+    class Result(
+        val embedding: FloatArray,
+        val inferenceTime: Int,  // milliseconds
+        val totalTime: Int       // milliseconds
+    )
+
+    /**
+     * Embed one image
+     * @param image File/content/data URI, MediaStore asset or raw RGBA pixels
+     * @param normalize Scale the embedding to unit length (L2)
+     */
+    fun embed(image: ImageDecoder.Source, normalize: Boolean): Result {
+        val start = System.currentTimeMillis()
+        val output = inference.run(image)
+
+        val values = output.values
+        val norm = if (normalize) sqrt(values.fold(0f) { sum, value -> sum + value * value }) else 0f
+        val embedding = if (norm > 0f) FloatArray(values.size) { values[it] / norm } else values
+
+        return Result(
+            embedding = embedding,
+            inferenceTime = output.inferenceTime,
+            totalTime = (System.currentTimeMillis() - start).toInt()
+        )
+    }
+}
@@ -0,0 +1,221 @@
+package com.visionml
+
+import android.content.Context
+import android.graphics.Bitmap
+import android.graphics.Canvas
+import android.graphics.Color
+import android.graphics.Paint
+import android.graphics.Rect
+import android.util.Log
+import com.facebook.react.bridge.ReadableMap
+import java.io.File
+import java.io.FileOutputStream
+import java.io.IOException
+import java.util.UUID
+import kotlin.math.ceil
+import kotlin.math.max
+import kotlin.math.min
+import kotlin.math.roundToInt
+
+/**
+ * Writes a censored copy of an image with detection boxes blurred, pixelated or filled
+ * Boxes are in original image coordinates with EXIF orientation applied, like ImageDecoder's
+ *
+ * Ported from iOS ImageRedactor.swift
+ */
+class ImageRedactor(private val context: Context) {
+
+    companion object {
+        private const val TAG = "ImageRedactor"
+    }
+
+    sealed class RedactionError(message: String) : Exception(message) {
+        object InvalidFillColor : RedactionError("fillColor must be #RRGGBB")
+        object UnsupportedFormat : RedactionError("HEIC output is only supported on iOS")
+        object FailedToWrite : RedactionError("Could not write the redacted image")
+    }
+
+    enum class Style(val value: String) {
+        BLUR("blur"),
+        PIXELATE("pixelate"),
+        FILL("fill")
+    }
+
+    enum class Format(val value: String, val extension: String) {
+        JPEG("jpeg", "jpg"),
+        PNG("png", "png"),
+        HEIC("heic", "heic")
+    }
+
+    /**
+     * Redaction settings from the JS RedactionOptions map
+     */
+    class Options(
+        val style: Style = Style.BLUR,
+        /** Blur radius in pixels (null = scaled to each region) */
+        val blurRadius: Double? = null,
+        /** Pixelation block size in pixels (null = scaled to each region) */
+        val pixelSize: Double? = null,
+        /** Fill color as "#RRGGBB" */
+        val fillColor: String = "#000000",
+        /** Pixels added on every side of each box before redacting */
+        val padding: Double = 0.0,
+        /** Only redact these class labels (null = all) */
+        val labels: Set<String>? = null,
+        /** Never redact these class labels */
+        val excludeLabels: Set<String> = emptySet(),
+        val format: Format = Format.JPEG,
+        /** Lossy compression quality 0-1 (JPEG) */
+        val quality: Double = 0.9,
+        /** Output file path or file:// URI (null = new file in the cache directory) */
+        val outputPath: String? = null
+    ) {
+        /** Whether the label filters keep this detection */
+        fun includes(detection: NMS.Detection): Boolean {
+            if (detection.className in excludeLabels) return false
+            return labels?.contains(detection.className) ?: true
+        }
+
+        companion object {
+            fun fromReadableMap(map: ReadableMap?): Options {
+                if (map == null) return Options()
+
+                fun has(key: String): Boolean = map.hasKey(key) && !map.isNull(key)
+                fun strings(key: String): List<String>? = if (has(key)) {
+                    val array = map.getArray(key)
+                    (0 until (array?.size() ?: 0)).mapNotNull { array?.getString(it) }
+                } else {
+                    null
+                }
+
+                return Options(
+                    style = Style.values().firstOrNull { has("style") && it.value == map.getString("style") } ?: Style.BLUR,
+                    blurRadius = if (has("blurRadius")) map.getDouble("blurRadius") else null,
+                    pixelSize = if (has("pixelSize")) map.getDouble("pixelSize") else null,
+                    fillColor = if (has("fillColor")) map.getString("fillColor") ?: "#000000" else "#000000",
+                    padding = if (has("padding")) max(0.0, map.getDouble("padding")) else 0.0,
+                    labels = strings("labels")?.toSet(),
+                    excludeLabels = strings("excludeLabels")?.toSet() ?: emptySet(),
+                    format = Format.values().firstOrNull { has("format") && it.value == map.getString("format") } ?: Format.JPEG,
+                    quality = if (has("quality")) map.getDouble("quality").coerceIn(0.0, 1.0) else 0.9,
+                    outputPath = if (has("outputPath")) map.getString("outputPath") else null
+                )
+            }
+        }
+    }
+
+    data class Result(
+        val file: File,
+        val width: Int,
+        val height: Int,
+        /** Detections that passed the label filters and were redacted */
+        val regions: List<NMS.Detection>
+    )
+
+    private val imageDecoder = ImageDecoder(context)
+
+    /**
+     * Redact the detections that pass the label filters and write the result
+     * @param source Image to redact
+     * @param detections Boxes in original image coordinates
+     * @param options Style, padding, label filters and output format
+     * @return Output file and the redacted regions
+     */
+    fun redact(
+        source: ImageDecoder.Source,
+        detections: List<NMS.Detection>,
+        options: Options
+    ): Result {
+        // Bitmap.compress has no HEIC encoder
+        if (options.format == Format.HEIC) throw RedactionError.UnsupportedFormat
+        val fillColor = if (options.style == Style.FILL) parseColor(options.fillColor) else Color.BLACK
+
+        val loaded = imageDecoder.loadOrientedBitmap(source)
+        val bitmap = if (loaded.isMutable) {
+            loaded
+        } else {
+            loaded.copy(Bitmap.Config.ARGB_8888, true).also { loaded.recycle() }
+        }
+
+        val regions = detections.filter(options::includes)
+        Log.d(TAG, "Redacting ${regions.size} of ${detections.size} regions (${options.style.value})")
+
+        val canvas = Canvas(bitmap)
+        val bounds = Rect(0, 0, bitmap.width, bitmap.height)
+        for (region in regions) {
+            if (region.box.size != 4) continue
+            val rect = Rect(
+                (region.box[0] - options.padding).toInt(),
+                (region.box[1] - options.padding).toInt(),
+                ceil(region.box[2] + options.padding).toInt(),
+                ceil(region.box[3] + options.padding).toInt()
+            )
+            if (!rect.intersect(bounds) || rect.isEmpty) continue
+
+            redactRegion(canvas, bitmap, rect, options, fillColor)
+        }
+
+        val file = outputFile(options)
+        try {
+            FileOutputStream(file).use { stream ->
+                val format = if (options.format == Format.PNG) Bitmap.CompressFormat.PNG else Bitmap.CompressFormat.JPEG
+                if (!bitmap.compress(format, (options.quality * 100).roundToInt(), stream)) {
+                    throw RedactionError.FailedToWrite
+                }
+            }
+        } catch (e: IOException) {
+            Log.e(TAG, "Failed to write ${file.path}: ${e.message}")
+            throw RedactionError.FailedToWrite
+        }
+
+        val result = Result(file, bitmap.width, bitmap.height, regions)
+        bitmap.recycle()
+        Log.d(TAG, "Wrote ${file.path}")
+        return result
+    }
+
+    /**
+     * Redact one region in place
+     * Blur is a smooth downscale/upscale, close to a Gaussian blur and fast without RenderScript.
+     */
+    private fun redactRegion(canvas: Canvas, bitmap: Bitmap, rect: Rect, options: Options, fillColor: Int) {
+        // Default strength scales with the region so small and large boxes are equally unreadable
+        val automatic = max(4.0, min(rect.width(), rect.height()) / 6.0)
+
+        when (options.style) {
+            Style.FILL -> canvas.drawRect(rect, Paint().apply { color = fillColor })
+            Style.BLUR, Style.PIXELATE -> {
+                val block = if (options.style == Style.BLUR) {
+                    options.blurRadius ?: automatic
+                } else {
+                    options.pixelSize ?: automatic
+                }.coerceAtLeast(1.0)
+                val smooth = options.style == Style.BLUR
+
+                val patch = Bitmap.createBitmap(bitmap, rect.left, rect.top, rect.width(), rect.height())
+                val small = Bitmap.createScaledBitmap(
+                    patch,
+                    max(1, (rect.width() / block).roundToInt()),
+                    max(1, (rect.height() / block).roundToInt()),
+                    smooth
+                )
+                canvas.drawBitmap(small, null, rect, Paint().apply { isFilterBitmap = smooth })
+                if (small !== patch) small.recycle()
+                patch.recycle()
+            }
+        }
+    }
+
+    /** Parse "#RRGGBB" */
+    private fun parseColor(hex: String): Int {
+        val digits = hex.removePrefix("#")
+        val value = if (digits.length == 6) digits.toIntOrNull(16) else null
+        return value?.let { Color.rgb((it shr 16) and 0xFF, (it shr 8) and 0xFF, it and 0xFF) }
+            ?: throw RedactionError.InvalidFillColor
+    }
+
+    private fun outputFile(options: Options): File {
+        options.outputPath?.let { return File(it.removePrefix("file://")) }
+        return File(context.cacheDir, "redacted-${UUID.randomUUID()}.${options.format.extension}")
+    }
+}
@@ -3,16 +3,25 @@ package com.visionml
 import android.content.Context
 import android.graphics.Bitmap
 import android.graphics.BitmapFactory
+import android.graphics.Point
+import android.graphics.PointF
+import android.graphics.Rect
 import android.net.Uri
 import android.provider.MediaStore
 import android.util.Log
+import com.facebook.react.bridge.ReadableMap
 import com.google.mlkit.vision.common.InputImage
+import com.google.mlkit.vision.face.Face
+import com.google.mlkit.vision.face.FaceContour
 import com.google.mlkit.vision.face.FaceDetection
 import com.google.mlkit.vision.face.FaceDetectorOptions
+import com.google.mlkit.vision.face.FaceLandmark
+import com.google.mlkit.vision.label.ImageLabel
 import com.google.mlkit.vision.label.ImageLabeling
 import com.google.mlkit.vision.label.defaults.ImageLabelerOptions
 import com.google.mlkit.vision.pose.PoseDetection
 import com.google.mlkit.vision.pose.defaults.PoseDetectorOptions
+import com.google.mlkit.vision.text.Text
 import com.google.mlkit.vision.text.TextRecognition
 import com.google.mlkit.vision.text.latin.TextRecognizerOptions
 import kotlinx.coroutines.suspendCancellableCoroutine
@@ -35,6 +44,65 @@ class MLKitAnalyzer(private val context: Context) {
             "Cat", "Dog", "Bird", "Fish", "Horse", "Rabbit",
             "Animal", "Pet", "Mammal", "Reptile", "Insect"
         )
+
+        // ML Kit contours making up each JS FaceLandmarkRegion
+        private val LANDMARK_CONTOURS = mapOf(
+            "faceContour" to listOf(FaceContour.FACE),
+            "leftEye" to listOf(FaceContour.LEFT_EYE),
+            "rightEye" to listOf(FaceContour.RIGHT_EYE),
+            "leftEyebrow" to listOf(FaceContour.LEFT_EYEBROW_TOP, FaceContour.LEFT_EYEBROW_BOTTOM),
+            "rightEyebrow" to listOf(FaceContour.RIGHT_EYEBROW_TOP, FaceContour.RIGHT_EYEBROW_BOTTOM),
+            "nose" to listOf(FaceContour.NOSE_BRIDGE, FaceContour.NOSE_BOTTOM),
+            "outerLips" to listOf(FaceContour.UPPER_LIP_TOP, FaceContour.LOWER_LIP_BOTTOM),
+            "innerLips" to listOf(FaceContour.UPPER_LIP_BOTTOM, FaceContour.LOWER_LIP_TOP)
+        )
+
+        // ML Kit eye landmarks sit on the pupils
+        private val PUPIL_LANDMARKS = mapOf(
+            "leftPupil" to FaceLandmark.LEFT_EYE,
+            "rightPupil" to FaceLandmark.RIGHT_EYE
+        )
+    }
+
+    /**
+     * Analyses and detail selected by the JS ComprehensiveAnalysisOptions
+     */
+    class ComprehensiveOptions(
+        val requests: Set<String> = ALL_REQUESTS,
+        /** Maximum scene labels returned */
+        val maxScenes: Int = 10,
+        /** Return recognized text lines in "texts" */
+        val includeText: Boolean = false,
+        /** Add landmarks to each face */
+        val includeFaceLandmarks: Boolean = false,
+        /** Return rectangle corners in "detectedRectangles" */
+        val includeRectangleCorners: Boolean = false
+    ) {
+        companion object {
+            val ALL_REQUESTS = setOf("scenes", "faces", "animals", "humans", "text", "rectangles")
+
+            fun fromReadableMap(map: ReadableMap?): ComprehensiveOptions {
+                if (map == null) return ComprehensiveOptions()
+
+                fun has(key: String): Boolean = map.hasKey(key) && !map.isNull(key)
+                fun flag(key: String): Boolean = has(key) && map.getBoolean(key)
+
+                val requests = if (has("requests")) {
+                    val array = map.getArray("requests")
+                    (0 until (array?.size() ?: 0)).mapNotNull { array?.getString(it) }.toSet()
+                } else {
+                    ALL_REQUESTS
+                }
+
+                return ComprehensiveOptions(
+                    requests = requests,
+                    maxScenes = if (has("maxScenes")) map.getInt("maxScenes") else 10,
+                    includeText = flag("includeText"),
+                    includeFaceLandmarks = flag("includeFaceLandmarks"),
+                    includeRectangleCorners = flag("includeRectangleCorners")
+                )
+            }
+        }
     }
 
     // Lazy-initialized detectors
@@ -46,6 +114,16 @@ class MLKitAnalyzer(private val context: Context) {
         FaceDetection.getClient(options)
     }
 
+    // Slower detector with contours and landmarks, for includeFaceLandmarks
+    private val landmarkFaceDetector by lazy {
+        val options = FaceDetectorOptions.Builder()
+            .setPerformanceMode(FaceDetectorOptions.PERFORMANCE_MODE_ACCURATE)
+            .setLandmarkMode(FaceDetectorOptions.LANDMARK_MODE_ALL)
+            .setContourMode(FaceDetectorOptions.CONTOUR_MODE_ALL)
+            .build()
+        FaceDetection.getClient(options)
+    }
+
     private val poseDetector by lazy {
         val options = PoseDetectorOptions.Builder()
             .setDetectorMode(PoseDetectorOptions.SINGLE_IMAGE_MODE)
@@ -149,54 +227,116 @@ class MLKitAnalyzer(private val context: Context) {
     }
 
     /**
-     * Comprehensive analysis - runs multiple ML Kit detectors
-     * Equivalent to iOS performComprehensiveAnalysis
+     * Comprehensive analysis - runs the selected ML Kit detectors
+     * Equivalent to iOS performComprehensiveAnalysis; the result has the same keys
      */
-    suspend fun analyzeComprehensive(assetId: String): Map<String, Any> {
+    suspend fun analyzeComprehensive(
+        assetId: String,
+        options: ComprehensiveOptions = ComprehensiveOptions()
+    ): Map<String, Any> {
         val bitmap = loadBitmap(assetId) ?: return emptyMap()
         val inputImage = InputImage.fromBitmap(bitmap, 0)
+        val width = bitmap.width.toFloat()
+        val height = bitmap.height.toFloat()
+        val requests = options.requests
 
         val result = mutableMapOf<String, Any>()
 
-        // Run all detectors in parallel using coroutines
         try {
+            // Scenes and animals both come from image labeling
+            val labels = if ("scenes" in requests || "animals" in requests) {
+                runImageLabeling(inputImage)
+            } else {
+                emptyList()
+            }
+
             // Scene/Label classification
-            val labels = runImageLabeling(inputImage)
-            result["scenes"] = labels.take(10).map {
-                mapOf("identifier" to it.text, "confidence" to it.confidence)
+            if ("scenes" in requests) {
+                result["scenes"] = labels.take(maxOf(0, options.maxScenes)).map {
+                    mapOf("identifier" to it.text, "confidence" to it.confidence)
+                }
             }
 
             // Face detection
-            val faces = runFaceDetection(inputImage, bitmap.width, bitmap.height)
-            result["faces"] = faces
-            result["faceCount"] = faces.size
+            if ("faces" in requests) {
+                val faces = runFaceDetection(inputImage, options.includeFaceLandmarks)
+                result["faces"] = faces.map { face ->
+                    val bounds = face.boundingBox
+                    val entry = mutableMapOf<String, Any>(
+                        "boundingBox" to mapOf(
+                            "x" to bounds.left / width,
+                            "y" to bounds.top / height,
+                            "width" to bounds.width() / width,
+                            "height" to bounds.height() / height
+                        ),
+                        "confidence" to (face.trackingId?.toFloat() ?: 0.9f)
+                    )
+                    if (options.includeFaceLandmarks) {
+                        entry["landmarks"] = faceLandmarks(face, width, height)
+                    }
+                    entry
+                }
+                result["faceCount"] = faces.size
+            }
 
             // Animal detection (from labels)
-            val animals = labels.filter { it.text in ANIMAL_LABELS }
-            result["animals"] = animals.map {
-                mapOf(
-                    "boundingBox" to mapOf("x" to 0, "y" to 0, "width" to 1, "height" to 1),
-                    "confidence" to it.confidence,
-                    "labels" to listOf(mapOf("identifier" to it.text, "confidence" to it.confidence))
-                )
+            if ("animals" in requests) {
+                val animals = labels.filter { it.text in ANIMAL_LABELS }
+                result["animals"] = animals.map {
+                    mapOf(
+                        "boundingBox" to mapOf("x" to 0, "y" to 0, "width" to 1, "height" to 1),
+                        "confidence" to it.confidence,
+                        "labels" to listOf(mapOf("identifier" to it.text, "confidence" to it.confidence))
+                    )
+                }
+                result["animalCount"] = animals.size
             }
-            result["animalCount"] = animals.size
 
             // Human pose detection
-            val hasHumans = runPoseDetection(inputImage)
-            result["humanCount"] = if (hasHumans) 1 else 0
-            result["hasHumans"] = hasHumans
+            if ("humans" in requests) {
+                val hasHumans = runPoseDetection(inputImage)
+                result["humanCount"] = if (hasHumans) 1 else 0
+                result["hasHumans"] = hasHumans
+            }
+
+            // Text recognition also backs the rectangle approximation
+            val text = if ("text" in requests || "rectangles" in requests) {
+                runTextRecognition(inputImage)
+            } else {
+                null
+            }
+            val blocks = text?.textBlocks ?: emptyList()
 
             // Text detection
-            val textResult = runTextRecognition(inputImage)
-            result["hasText"] = textResult.isNotEmpty()
-            result["textRegions"] = textResult.size
+            if ("text" in requests) {
+                result["hasText"] = blocks.isNotEmpty()
+                result["textRegions"] = blocks.size
+                if (options.includeText) {
+                    result["texts"] = blocks.flatMap { it.lines }.mapNotNull { line ->
+                        val bounds = line.boundingBox ?: return@mapNotNull null
+                        mapOf("text" to line.text, "boundingBox" to normalizedBox(bounds, width, height))
+                    }
+                }
+            }
 
             // Rectangle detection (for screenshots) - not directly available in ML Kit
             // Approximate using text regions as indicator
-            result["rectangles"] = textResult.size
-            result["likelyScreenshot"] = textResult.size > 5
-
+            if ("rectangles" in requests) {
+                result["rectangles"] = blocks.size
+                result["likelyScreenshot"] = blocks.size > 5
+                if (options.includeRectangleCorners) {
+                    result["detectedRectangles"] = blocks.mapNotNull { block ->
+                        // Clockwise from the top-left
+                        val corners = block.cornerPoints?.takeIf { it.size == 4 } ?: return@mapNotNull null
+                        mapOf(
+                            "topLeft" to normalizedPoint(corners[0], width, height),
+                            "topRight" to normalizedPoint(corners[1], width, height),
+                            "bottomRight" to normalizedPoint(corners[2], width, height),
+                            "bottomLeft" to normalizedPoint(corners[3], width, height)
+                        )
+                    }
+                }
+            }
         } finally {
             bitmap.recycle()
         }
@@ -242,7 +382,7 @@ class MLKitAnalyzer(private val context: Context) {
         }
     }
 
-    private suspend fun runImageLabeling(inputImage: InputImage): List<com.google.mlkit.vision.label.ImageLabel> {
+    private suspend fun runImageLabeling(inputImage: InputImage): List<ImageLabel> {
         return suspendCancellableCoroutine { cont ->
             imageLabeler.process(inputImage)
                 .addOnSuccessListener { labels -> cont.resume(labels) }
@@ -253,28 +393,11 @@ class MLKitAnalyzer(private val context: Context) {
         }
     }
 
-    private suspend fun runFaceDetection(
-        inputImage: InputImage,
-        imageWidth: Int,
-        imageHeight: Int
-    ): List<Map<String, Any>> {
+    private suspend fun runFaceDetection(inputImage: InputImage, withLandmarks: Boolean): List<Face> {
+        val detector = if (withLandmarks) landmarkFaceDetector else faceDetector
         return suspendCancellableCoroutine { cont ->
-            faceDetector.process(inputImage)
-                .addOnSuccessListener { faces ->
-                    val result = faces.map { face ->
-                        val bounds = face.boundingBox
-                        mapOf(
-                            "boundingBox" to mapOf(
-                                "x" to bounds.left.toFloat() / imageWidth,
-                                "y" to bounds.top.toFloat() / imageHeight,
-                                "width" to bounds.width().toFloat() / imageWidth,
-                                "height" to bounds.height().toFloat() / imageHeight
-                            ),
-                            "confidence" to (face.trackingId?.toFloat() ?: 0.9f)
-                        )
-                    }
-                    cont.resume(result)
-                }
+            detector.process(inputImage)
+                .addOnSuccessListener { faces -> cont.resume(faces) }
                 .addOnFailureListener { e ->
                     Log.e(TAG, "Face detection failed: ${e.message}")
                     cont.resume(emptyList())
@@ -282,6 +405,39 @@ class MLKitAnalyzer(private val context: Context) {
         }
     }
 
+    /**
+     * Face contours and pupils as the JS FaceLandmarkRegion map, normalized to the image
+     * ML Kit only computes contours for the most prominent face.
+     */
+    private fun faceLandmarks(face: Face, width: Float, height: Float): Map<String, Any> {
+        val result = mutableMapOf<String, Any>()
+        for ((name, contours) in LANDMARK_CONTOURS) {
+            val points = contours.flatMap { face.getContour(it)?.points ?: emptyList() }
+            if (points.isNotEmpty()) {
+                result[name] = points.map { normalizedPoint(it, width, height) }
+            }
+        }
+        for ((name, landmark) in PUPIL_LANDMARKS) {
+            face.getLandmark(landmark)?.let {
+                result[name] = listOf(normalizedPoint(it.position, width, height))
+            }
+        }
+        return result
+    }
+
+    private fun normalizedPoint(point: PointF, width: Float, height: Float): Map<String, Any> =
+        mapOf("x" to point.x / width, "y" to point.y / height)
+
+    private fun normalizedPoint(point: Point, width: Float, height: Float): Map<String, Any> =
+        mapOf("x" to point.x / width, "y" to point.y / height)
+
+    private fun normalizedBox(bounds: Rect, width: Float, height: Float): Map<String, Any> = mapOf(
+        "x" to bounds.left / width,
+        "y" to bounds.top / height,
+        "width" to bounds.width() / width,
+        "height" to bounds.height() / height
+    )
+
     private suspend fun runPoseDetection(inputImage: InputImage): Boolean {
         return suspendCancellableCoroutine { cont ->
             poseDetector.process(inputImage)
@@ -295,15 +451,13 @@ class MLKitAnalyzer(private val context: Context) {
         }
     }
 
-    private suspend fun runTextRecognition(inputImage: InputImage): List<String> {
+    private suspend fun runTextRecognition(inputImage: InputImage): Text? {
         return suspendCancellableCoroutine { cont ->
             textRecognizer.process(inputImage)
-                .addOnSuccessListener { text ->
-                    cont.resume(text.textBlocks.map { it.text })
-                }
+                .addOnSuccessListener { text -> cont.resume(text) }
                 .addOnFailureListener { e ->
                     Log.e(TAG, "Text recognition failed: ${e.message}")
-                    cont.resume(emptyList())
+                    cont.resume(null)
                 }
         }
     }
@@ -314,6 +468,7 @@ class MLKitAnalyzer(private val context: Context) {
     fun dispose() {
         try {
             faceDetector.close()
+            landmarkFaceDetector.close()
             poseDetector.close()
             imageLabeler.close()
             textRecognizer.close()
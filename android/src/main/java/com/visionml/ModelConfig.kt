@@ -0,0 +1,106 @@
+package com.visionml
+
+import com.facebook.react.bridge.ReadableMap
+
+/**
+ * Model-specific preprocessing and output decoding settings
+ * Defaults match NudeNet YOLOv8, so detectors created without a config behave as before
+ *
+ * Ported from iOS ModelConfig.swift
+ */
+data class ModelConfig(
+    val outputLayout: OutputLayout = OutputLayout.YOLOV8_TRANSPOSED,
+    val letterbox: Letterbox = Letterbox.TOP_LEFT,
+    /** Per-channel mean, in input tensor channel order, applied after scaling pixels to 0-1 */
+    val mean: FloatArray = floatArrayOf(0f, 0f, 0f),
+    /** Per-channel standard deviation, in input tensor channel order */
+    val std: FloatArray = floatArrayOf(1f, 1f, 1f),
+    val channelOrder: ChannelOrder = ChannelOrder.RGB,
+    /** Input tensor name (null = first model input) */
+    val inputName: String? = null,
+    /** Output tensor name (null = first model output) */
+    val outputName: String? = null
+) {
+    /** Layout of the raw output tensor */
+    enum class OutputLayout(val value: String) {
+        /** [1, numPredictions, 5 + numClasses]: cx, cy, w, h, objectness, class scores */
+        YOLOV5("yolov5"),
+        /** [1, 4 + numClasses, numPredictions]: Ultralytics YOLOv8 export (NudeNet) */
+        YOLOV8_TRANSPOSED("yolov8_transposed"),
+        /** [1, numPredictions, 4 + numClasses]: YOLOv8 with one row per prediction */
+        YOLOV8_ROW_MAJOR("yolov8_row_major")
+    }
+
+    /** How the image is fitted into the square model input */
+    enum class Letterbox(val value: String) {
+        /** Pad right/bottom, image at top-left (NudeNet) */
+        TOP_LEFT("top_left"),
+        /** Pad evenly on both sides (Ultralytics) */
+        CENTER("center"),
+        /** No padding, aspect ratio not preserved */
+        STRETCH("stretch")
+    }
+
+    /** Channel order of the input tensor */
+    enum class ChannelOrder(val value: String) {
+        RGB("rgb"),
+        BGR("bgr")
+    }
+
+    /** Normalize a 0-1 pixel value for input tensor channel [channel] */
+    fun normalize(value: Float, channel: Int): Float = (value - mean[channel]) / std[channel]
+
+    override fun equals(other: Any?): Boolean {
+        if (this === other) return true
+        if (other !is ModelConfig) return false
+        return outputLayout == other.outputLayout && letterbox == other.letterbox &&
+               mean.contentEquals(other.mean) && std.contentEquals(other.std) &&
+               channelOrder == other.channelOrder && inputName == other.inputName &&
+               outputName == other.outputName
+    }
+
+    override fun hashCode(): Int {
+        var result = outputLayout.hashCode()
+        result = 31 * result + letterbox.hashCode()
+        result = 31 * result + mean.contentHashCode()
+        result = 31 * result + std.contentHashCode()
+        result = 31 * result + channelOrder.hashCode()
+        result = 31 * result + (inputName?.hashCode() ?: 0)
+        result = 31 * result + (outputName?.hashCode() ?: 0)
+        return result
+    }
+
+    companion object {
+        /** NudeNet YOLOv8: transposed output, top-left letterbox, RGB 0-1 */
+        val NUDENET_DEFAULT = ModelConfig()
+
+        /**
+         * Build a config from the JS bridge map; missing keys keep the NudeNet defaults
+         */
+        fun fromReadableMap(map: ReadableMap?): ModelConfig {
+            if (map == null) return NUDENET_DEFAULT
+
+            fun string(key: String): String? =
+                if (map.hasKey(key) && !map.isNull(key)) map.getString(key) else null
+
+            fun floats(key: String, fallback: FloatArray): FloatArray {
+                val array = if (map.hasKey(key) && !map.isNull(key)) map.getArray(key) else null
+                if (array == null || array.size() != 3) return fallback
+                return FloatArray(3) { array.getDouble(it).toFloat() }
+            }
+
+            return ModelConfig(
+                outputLayout = OutputLayout.values().firstOrNull { it.value == string("outputLayout") }
+                    ?: NUDENET_DEFAULT.outputLayout,
+                letterbox = Letterbox.values().firstOrNull { it.value == string("letterbox") }
+                    ?: NUDENET_DEFAULT.letterbox,
+                mean = floats("mean", NUDENET_DEFAULT.mean),
+                std = floats("std", NUDENET_DEFAULT.std),
+                channelOrder = ChannelOrder.values().firstOrNull { it.value == string("channelOrder") }
+                    ?: NUDENET_DEFAULT.channelOrder,
+                inputName = string("inputName"),
+                outputName = string("outputName")
+            )
+        }
+    }
+}
@@ -0,0 +1,260 @@
+package com.visionml
+
+import android.net.Uri
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.WritableArray
+import com.facebook.react.bridge.WritableMap
+import org.json.JSONArray
+import org.json.JSONException
+import org.json.JSONObject
+import java.io.File
+import java.io.IOException
+import java.security.MessageDigest
+
+/**
+ * Detector description read from a JSON manifest next to the model
+ * Carries everything createDetector otherwise takes on trust, so the file contents,
+ * labels and input size can be checked against the model when it loads
+ *
+ * Ported from iOS ModelManifest.swift
+ */
+class ModelManifest private constructor(
+    /** Absolute path of the model file */
+    val modelPath: String,
+    val classLabels: List<String>,
+    val inputSize: Int,
+    /** Lowercase hex SHA-256 the model file must have (null = not checked) */
+    val sha256: String?,
+    /** ModelConfig object as written in the manifest */
+    private val config: JSONObject,
+    /** Default detection thresholds: confidenceThreshold, iouThreshold */
+    private val defaults: JSONObject,
+    val name: String?,
+    val version: String?
+) {
+
+    sealed class ManifestError(val code: String, message: String) : Exception(message) {
+        class Unreadable(path: String, reason: String?) :
+            ManifestError("MANIFEST_INVALID", "Cannot read '$path': $reason")
+        class Invalid(path: String, reason: String) :
+            ManifestError("MANIFEST_INVALID", "Invalid manifest '$path': $reason")
+        class IntegrityMismatch(modelPath: String, expected: String, actual: String) :
+            ManifestError(
+                "MODEL_INTEGRITY_ERROR",
+                "SHA-256 of '$modelPath' is $actual but the manifest expects $expected"
+            )
+        class InputShapeMismatch(input: String, shape: List<Long>, inputSize: Int) :
+            ManifestError(
+                "MODEL_SHAPE_MISMATCH",
+                "Model input '$input' has shape $shape but the manifest's inputSize is $inputSize"
+            )
+        class UnsupportedOutputShape(output: String, shape: List<Long>) :
+            ManifestError(
+                "MODEL_SHAPE_MISMATCH",
+                "Model output '$output' has shape $shape; detectors need a 3-dimensional YOLO output"
+            )
+        class LabelCountMismatch(
+            output: String,
+            shape: List<Long>,
+            layout: ModelConfig.OutputLayout,
+            classes: Int,
+            labels: Int
+        ) :
+            ManifestError(
+                "MODEL_SHAPE_MISMATCH",
+                "Model output '$output' has shape $shape, which is $classes classes " +
+                    "in the ${layout.value} layout, but the manifest lists $labels labels"
+            )
+    }
+
+    /** The manifest's ModelConfig as a bridge map, for ONNXInference and createDetector's loading path */
+    fun configMap(): WritableMap = config.toWritableMap()
+
+    /** The manifest as returned to JS, with model resolved to an absolute path */
+    fun toWritableMap(): WritableMap = Arguments.createMap().apply {
+        putString("model", modelPath)
+        putArray("labels", Arguments.fromList(classLabels))
+        putInt("inputSize", inputSize)
+        putMap("config", config.toWritableMap())
+        putMap("defaults", defaults.toWritableMap())
+        sha256?.let { putString("sha256", it) }
+        name?.let { putString("name", it) }
+        version?.let { putString("version", it) }
+    }
+
+    // MARK: - Checks
+
+    /**
+     * Compare the model file's SHA-256 with the manifest's (no-op without one)
+     */
+    fun verifyIntegrity() {
+        val expected = sha256 ?: return
+        val actual = sha256(File(modelPath))
+        if (actual != expected) {
+            throw ManifestError.IntegrityMismatch(modelPath, expected, actual)
+        }
+    }
+
+    /**
+     * Check inputSize and the label count against the loaded model's tensor shapes
+     * Dimensions the model leaves dynamic are read from the output of a zero-input run
+     */
+    fun validate(inference: ONNXInference) {
+        val modelConfig = ModelConfig.fromReadableMap(configMap())
+
+        tensor(modelConfig.inputName, inference.inputMetadata)?.let { input ->
+            // NCHW: height and width are the last two dimensions
+            if (input.shape.size == 4 && input.shape.takeLast(2).any { it > 0 && it != inputSize.toLong() }) {
+                throw ManifestError.InputShapeMismatch(input.name, input.shape, inputSize)
+            }
+        }
+
+        val output = tensor(modelConfig.outputName, inference.outputMetadata) ?: return
+        val classAxis = if (modelConfig.outputLayout == ModelConfig.OutputLayout.YOLOV8_TRANSPOSED) 1 else 2
+        var shape = output.shape
+        if (shape.size != 3 || shape[classAxis] <= 0) {
+            if (inference.lastOutputShape.isEmpty()) {
+                inference.warmUp()
+            }
+            shape = inference.lastOutputShape.toList()
+        }
+        if (shape.size != 3) {
+            throw ManifestError.UnsupportedOutputShape(output.name, shape)
+        }
+
+        val classes = shape[classAxis].toInt() - if (modelConfig.outputLayout == ModelConfig.OutputLayout.YOLOV5) 5 else 4
+        if (classes != classLabels.size) {
+            throw ManifestError.LabelCountMismatch(output.name, shape, modelConfig.outputLayout, classes, classLabels.size)
+        }
+    }
+
+    /** Configured tensor by name, or the first one like ONNXInference picks */
+    private fun tensor(name: String?, metadata: List<ONNXInference.TensorMetadata>): ONNXInference.TensorMetadata? {
+        return if (name == null) metadata.firstOrNull() else metadata.firstOrNull { it.name == name }
+    }
+
+    companion object {
+        private val DEFAULT_KEYS = listOf("confidenceThreshold", "iouThreshold")
+
+        /**
+         * Read and check a manifest
+         * @param manifestPath Absolute path or file:// URI; a relative model is resolved against its directory
+         */
+        fun read(manifestPath: String): ModelManifest {
+            val path = if (manifestPath.startsWith("file://")) Uri.parse(manifestPath).path ?: manifestPath else manifestPath
+
+            val text = try {
+                File(path).readText()
+            } catch (e: IOException) {
+                throw ManifestError.Unreadable(path, e.message)
+            }
+            val json = try {
+                JSONObject(text)
+            } catch (e: JSONException) {
+                throw ManifestError.Invalid(path, "not a JSON object")
+            }
+
+            val model = (json.opt("model") as? String)?.takeIf { it.isNotEmpty() }
+                ?: throw ManifestError.Invalid(path, "\"model\" must be the model file name or path")
+            val labelsArray = (json.opt("labels") as? JSONArray)?.takeIf { it.length() > 0 }
+                ?: throw ManifestError.Invalid(path, "\"labels\" must be a non-empty array of strings")
+            val labels = (0 until labelsArray.length()).map {
+                labelsArray.opt(it) as? String
+                    ?: throw ManifestError.Invalid(path, "\"labels\" must be a non-empty array of strings")
+            }
+
+            val inputSize = if (json.has("inputSize")) {
+                (json.opt("inputSize") as? Number)?.toInt()?.takeIf { it > 0 }
+                    ?: throw ManifestError.Invalid(path, "\"inputSize\" must be a positive number")
+            } else {
+                320
+            }
+
+            val sha256 = if (json.has("sha256")) {
+                (json.opt("sha256") as? String)?.lowercase()
+                    ?.takeIf { hash -> hash.length == 64 && hash.all { it in '0'..'9' || it in 'a'..'f' } }
+                    ?: throw ManifestError.Invalid(path, "\"sha256\" must be 64 hex digits")
+            } else {
+                null
+            }
+
+            val config = json.opt("config") as? JSONObject ?: JSONObject()
+            val layout = config.opt("outputLayout") as? String
+            if (layout != null && ModelConfig.OutputLayout.values().none { it.value == layout }) {
+                throw ManifestError.Invalid(path, "unknown outputLayout '$layout'")
+            }
+
+            val defaults = JSONObject()
+            val rawDefaults = json.opt("defaults") as? JSONObject
+            for (key in DEFAULT_KEYS) {
+                (rawDefaults?.opt(key) as? Number)?.let { defaults.put(key, it.toDouble()) }
+            }
+
+            val modelFile = File(model).let { if (it.isAbsolute) it else File(File(path).parentFile, model) }
+            if (!modelFile.isFile) {
+                throw ManifestError.Invalid(path, "model file '${modelFile.path}' not found")
+            }
+
+            return ModelManifest(
+                modelPath = modelFile.canonicalPath,
+                classLabels = labels,
+                inputSize = inputSize,
+                sha256 = sha256,
+                config = config,
+                defaults = defaults,
+                name = json.opt("name") as? String,
+                version = json.opt("version") as? String
+            )
+        }
+
+        /**
+         * Lowercase hex SHA-256 of a file, read in 1 MB chunks so large models never sit in memory whole
+         */
+        fun sha256(file: File): String {
+            val digest = MessageDigest.getInstance("SHA-256")
+            try {
+                file.inputStream().use { input ->
+                    val buffer = ByteArray(1 shl 20)
+                    while (true) {
+                        val read = input.read(buffer)
+                        if (read < 0) break
+                        digest.update(buffer, 0, read)
+                    }
+                }
+            } catch (e: IOException) {
+                throw ManifestError.Unreadable(file.path, e.message)
+            }
+            return digest.digest().joinToString("") { "%02x".format(it) }
+        }
+
+        private fun JSONObject.toWritableMap(): WritableMap {
+            val map = Arguments.createMap()
+            for (key in keys()) {
+                when (val value = opt(key)) {
+                    is JSONObject -> map.putMap(key, value.toWritableMap())
+                    is JSONArray -> map.putArray(key, value.toWritableArray())
+                    is Boolean -> map.putBoolean(key, value)
+                    is Number -> map.putDouble(key, value.toDouble())
+                    is String -> map.putString(key, value)
+                    else -> map.putNull(key)
+                }
+            }
+            return map
+        }
+
+        private fun JSONArray.toWritableArray(): WritableArray {
+            val array = Arguments.createArray()
+            for (i in 0 until length()) {
+                when (val value = opt(i)) {
+                    is JSONObject -> array.pushMap(value.toWritableMap())
+                    is JSONArray -> array.pushArray(value.toWritableArray())
+                    is Boolean -> array.pushBoolean(value)
+                    is Number -> array.pushDouble(value.toDouble())
+                    is String -> array.pushString(value)
+                    else -> array.pushNull()
+                }
+            }
+            return array
+        }
+    }
+}
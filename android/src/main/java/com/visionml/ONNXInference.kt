@@ -1,8 +1,10 @@
 package com.visionml
 
+import ai.onnxruntime.NodeInfo
 import ai.onnxruntime.OnnxTensor
 import ai.onnxruntime.OrtEnvironment
 import ai.onnxruntime.OrtSession
+import ai.onnxruntime.TensorInfo
 import android.content.Context
 import android.graphics.Bitmap
 import android.util.Log
@@ -18,11 +20,12 @@ import kotlin.math.abs
 class ONNXInference(
     private val context: Context,
     private val classLabels: List<String>,
-    private val inputSize: Int = 320
+    private val inputSize: Int = 320,
+    private val config: ModelConfig = ModelConfig.NUDENET_DEFAULT,
+    private val runtimeOptions: RuntimeOptions = RuntimeOptions.DEFAULT
 ) {
     companion object {
         private const val TAG = "ONNXInference"
-        private val NSFW_CLASS_INDICES = setOf(2, 3, 4, 6, 14)
     }
 
     sealed class InferenceError : Exception() {
@@ -35,20 +38,76 @@ class ONNXInference(
 
     data class InferenceResult(
         val detections: List<NMS.Detection>,
+        val flaggedDetections: List<NMS.Detection>,  // Subset of detections flagged by the content policy
+        val decodeTime: Int,         // milliseconds, image decode and resize
         val inferenceTime: Int,      // milliseconds
         val postProcessTime: Int,    // milliseconds
         val totalTime: Int,          // milliseconds
-        val debugInfo: Map<String, Any>
+        val debugInfo: Map<String, Any>,
+        val timing: Map<String, Double> = emptyMap(),  // Stage durations in fractional milliseconds (detect only)
+        val debug: DebugDetails? = null  // Only when detect(debug = true)
+    )
+
+    /**
+     * Diagnostics collected by detect(debug = true)
+     */
+    data class DebugDetails(
+        val numPredictions: Int,
+        val candidates: List<NMS.Detection>,     // Best-class parse output before NMS
+        val maxClassScores: Map<String, Float>,  // Highest score of each class over all predictions
+        val outputShape: List<Long>,
+        val outputLayout: ModelConfig.OutputLayout,
+        val letterbox: ImageDecoder.LetterboxInfo,
+        val timing: Map<String, Double>          // Stage durations in fractional milliseconds
     )
 
     private var ortEnvironment: OrtEnvironment? = null
     private var ortSession: OrtSession? = null
-    private val parser: YOLOParser = YOLOParser(classLabels, inputSize)
+    private val parser: YOLOParser = YOLOParser(classLabels, inputSize, config.outputLayout)
     private val imageDecoder: ImageDecoder = ImageDecoder(context)
 
+    // Tensor names resolved at load time (first input/output unless configured)
+    private var inputName: String = ""
+    private var outputName: String = ""
+
+    /** Shape of the configured output from the last inference (empty before the first) */
+    var lastOutputShape: LongArray = LongArray(0)
+        private set
+
     val isModelLoaded: Boolean
         get() = ortSession != null
 
+    /** Execution provider the session loaded with (null before loadModel) */
+    var executionProvider: RuntimeOptions.ExecutionProvider? = null
+        private set
+
+    /**
+     * One model input or output as reported by ONNX Runtime
+     */
+    class TensorMetadata(
+        val name: String,
+        val shape: List<Long>,  // Dynamic dimensions are -1
+        val type: String        // ONNX element type, e.g. "float", "uint8", "int64"
+    )
+
+    /** Model inputs in session order (empty before loadModel) */
+    val inputMetadata: List<TensorMetadata>
+        get() = ortSession?.inputInfo?.map { (name, node) -> tensorMetadata(name, node) } ?: emptyList()
+
+    /** Model outputs in session order (empty before loadModel) */
+    val outputMetadata: List<TensorMetadata>
+        get() = ortSession?.outputInfo?.map { (name, node) -> tensorMetadata(name, node) } ?: emptyList()
+
+    private fun tensorMetadata(name: String, node: NodeInfo): TensorMetadata {
+        val info = node.info as? TensorInfo ?: return TensorMetadata(name, emptyList(), "undefined")
+        return TensorMetadata(
+            name = name,
+            // Symbolic dimensions come back as -1 (or 0 from some exporters)
+            shape = info.shape.map { if (it > 0) it else -1L },
+            type = info.onnxType.name.removePrefix("ONNX_TENSOR_ELEMENT_DATA_TYPE_").lowercase()
+        )
+    }
+
     /**
      * Load ONNX model from file path
      * @param modelPath Path to .onnx model file
@@ -59,127 +118,243 @@ class ONNXInference(
         try {
             ortEnvironment = OrtEnvironment.getEnvironment()
 
-            // Create session options
-            val sessionOptions = OrtSession.SessionOptions().apply {
-                // Enable optimizations
-                setOptimizationLevel(OrtSession.SessionOptions.OptLevel.ALL_OPT)
-
-                // Try to use NNAPI for hardware acceleration (GPU/NPU)
-                // This will fall back to CPU if NNAPI is not available
+            // Try each provider in order; a provider that can't be added or
+            // fails to compile the model falls through to the next one
+            for (provider in runtimeOptions.executionProviders) {
                 try {
-                    addNnapi()
-                    Log.d(TAG, "NNAPI execution provider enabled")
+                    createSessionOptions(provider).use { sessionOptions ->
+                        ortSession = ortEnvironment?.createSession(modelPath, sessionOptions)
+                    }
+                    executionProvider = provider
+                    Log.d(TAG, "Session created with ${provider.value} provider")
+                    break
                 } catch (e: Exception) {
-                    Log.w(TAG, "NNAPI not available, using CPU: ${e.message}")
+                    Log.w(TAG, "${provider.value} provider failed, trying next: ${e.message}")
                 }
             }
 
-            ortSession = ortEnvironment?.createSession(modelPath, sessionOptions)
+            val session = ortSession ?: throw InferenceError.SessionCreationFailed
 
-            if (ortSession == null) {
-                throw InferenceError.SessionCreationFailed
+            // Log input/output info
+            Log.d(TAG, "Input names: ${session.inputNames}")
+            Log.d(TAG, "Output names: ${session.outputNames}")
+            session.inputInfo.forEach { (name, info) ->
+                Log.d(TAG, "Input '$name': ${info.info}")
             }
 
+            inputName = resolveTensorName(config.inputName, session.inputNames)
+            outputName = resolveTensorName(config.outputName, session.outputNames)
+
             Log.d(TAG, "✓ Model loaded successfully")
 
-            // Log input/output info
-            ortSession?.let { session ->
-                Log.d(TAG, "Input names: ${session.inputNames}")
-                Log.d(TAG, "Output names: ${session.outputNames}")
-                session.inputInfo.forEach { (name, info) ->
-                    Log.d(TAG, "Input '$name': ${info.info}")
+        } catch (e: Exception) {
+            Log.e(TAG, "ERROR: Failed to load model: ${e.message}")
+            ortSession?.close()
+            ortSession = null
+            throw InferenceError.SessionCreationFailed
+        }
+    }
+
+    /**
+     * Session options for one provider of the fallback chain; throws if the provider can't be added
+     */
+    private fun createSessionOptions(provider: RuntimeOptions.ExecutionProvider): OrtSession.SessionOptions {
+        val sessionOptions = OrtSession.SessionOptions()
+        try {
+            sessionOptions.setOptimizationLevel(
+                when (runtimeOptions.graphOptimizationLevel) {
+                    RuntimeOptions.GraphOptimizationLevel.DISABLED -> OrtSession.SessionOptions.OptLevel.NO_OPT
+                    RuntimeOptions.GraphOptimizationLevel.BASIC -> OrtSession.SessionOptions.OptLevel.BASIC_OPT
+                    RuntimeOptions.GraphOptimizationLevel.EXTENDED -> OrtSession.SessionOptions.OptLevel.EXTENDED_OPT
+                    RuntimeOptions.GraphOptimizationLevel.ALL -> OrtSession.SessionOptions.OptLevel.ALL_OPT
                 }
+            )
+            if (runtimeOptions.intraOpNumThreads > 0) {
+                sessionOptions.setIntraOpNumThreads(runtimeOptions.intraOpNumThreads)
             }
 
+            when (provider) {
+                // NNAPI runs on GPU/NPU where the device has one
+                RuntimeOptions.ExecutionProvider.NNAPI -> sessionOptions.addNnapi()
+                RuntimeOptions.ExecutionProvider.XNNPACK -> sessionOptions.addXnnpack(
+                    mapOf("intra_op_num_threads" to runtimeOptions.intraOpNumThreads.coerceAtLeast(1).toString())
+                )
+                RuntimeOptions.ExecutionProvider.CPU -> Unit
+            }
+            return sessionOptions
         } catch (e: Exception) {
-            Log.e(TAG, "ERROR: Failed to load model: ${e.message}")
-            throw InferenceError.SessionCreationFailed
+            sessionOptions.close()
+            throw e
+        }
+    }
+
+    /**
+     * Run one inference on an all-zero input so provider compilation and
+     * allocations happen now instead of in the first detect()
+     * @return Warm-up duration in milliseconds
+     */
+    fun warmUp(): Int {
+        val session = ortSession ?: throw InferenceError.ModelNotLoaded
+        val env = ortEnvironment ?: throw InferenceError.ModelNotLoaded
+
+        val start = System.currentTimeMillis()
+        runSession(session, env, FloatArray(3 * inputSize * inputSize))
+        return (System.currentTimeMillis() - start).toInt()
+    }
+
+    /**
+     * Return the configured name if the model has it, else the first name
+     */
+    private fun resolveTensorName(name: String?, names: Set<String>): String {
+        if (name == null) {
+            return names.firstOrNull() ?: throw IllegalStateException("Model has no tensors of this kind")
+        }
+        if (name !in names) {
+            throw IllegalArgumentException("Tensor '$name' not found in model (available: $names)")
+        }
+        return name
+    }
+
+    /**
+     * Run the session on an NCHW tensor and return the configured output
+     */
+    private fun runSession(session: OrtSession, env: OrtEnvironment, nchwData: FloatArray): FloatArray {
+        val inputTensor = OnnxTensor.createTensor(
+            env,
+            FloatBuffer.wrap(nchwData),
+            longArrayOf(1, 3, inputSize.toLong(), inputSize.toLong())
+        )
+
+        try {
+            session.run(mapOf(inputName to inputTensor)).use { results ->
+                val outputTensor = results.get(outputName).orElse(null) as? OnnxTensor
+                    ?: throw InferenceError.InvalidOutput
+                lastOutputShape = outputTensor.info.shape
+                return outputTensor.floatBuffer.array()
+            }
+        } finally {
+            inputTensor.close()
         }
     }
 
+    /**
+     * Output of the configured output tensor for one image
+     */
+    class RawOutput(
+        val values: FloatArray,
+        val shape: List<Long>,
+        val inferenceTime: Int  // milliseconds
+    )
+
+    /**
+     * Decode, preprocess and run one image without YOLO post-processing
+     * Classifier and embedder heads read the output tensor themselves
+     *
+     * @param image File/content/data URI, MediaStore asset or raw RGBA pixels
+     * @return The output tensor and the ONNX run time
+     */
+    fun run(image: ImageDecoder.Source): RawOutput {
+        val session = ortSession ?: throw InferenceError.ModelNotLoaded
+        val env = ortEnvironment ?: throw InferenceError.ModelNotLoaded
+
+        val decoded = imageDecoder.decode(image, inputSize, config.letterbox)
+        val nchwData = imageDecoder.convertToNCHW(decoded.data, inputSize, inputSize, config)
+
+        val inferenceStart = System.currentTimeMillis()
+        val values = runSession(session, env, nchwData)
+        return RawOutput(
+            values = values,
+            shape = lastOutputShape.toList(),
+            inferenceTime = (System.currentTimeMillis() - inferenceStart).toInt()
+        )
+    }
+
     /**
      * Run full inference pipeline: decode → inference → parse → NMS
      * Matches NudeNet Python processing exactly
      *
-     * @param imageUri file:// URI to image
+     * @param image File/content/data URI, MediaStore asset or raw RGBA pixels
      * @param confidenceThreshold Minimum confidence score (default 0.6)
      * @param iouThreshold IoU threshold for NMS (default 0.45)
+     * @param policy Content policy deciding which detections are flagged (default NudeNet exposed classes)
+     * @param debug Collect pre-NMS candidates, per-class max scores and a stage timing breakdown
      * @return Inference result with filtered detections and timing info
      */
     fun detect(
-        imageUri: String,
+        image: ImageDecoder.Source,
         confidenceThreshold: Float = 0.6f,
-        iouThreshold: Float = 0.45f
+        iouThreshold: Float = 0.45f,
+        policy: ContentPolicy = ContentPolicy.NUDENET_DEFAULT,
+        debug: Boolean = false
     ): InferenceResult {
         val totalStart = System.currentTimeMillis()
+        val decodeStart = System.nanoTime()
 
         val session = ortSession ?: throw InferenceError.ModelNotLoaded
         val env = ortEnvironment ?: throw InferenceError.ModelNotLoaded
 
-        // Step 1: Decode and resize image (with letterbox padding like NudeNet Python)
+        // Step 1: Decode and resize image (with letterbox padding like NudeNet Python by default)
         Log.d(TAG, "Step 1: Decoding image...")
-        val decoded = imageDecoder.decode(imageUri, inputSize)
+        val decoded = imageDecoder.decode(image, inputSize, config.letterbox)
         val originalWidth = decoded.originalWidth
         val originalHeight = decoded.originalHeight
         Log.d(TAG, "Original dimensions: ${originalWidth}x$originalHeight")
+        val decodeTime = millisSince(decodeStart)
 
         // Step 2: Convert to NCHW format for ONNX
         Log.d(TAG, "Step 2: Converting to NCHW tensor format...")
-        val nchwData = imageDecoder.convertToNCHW(decoded.data, inputSize, inputSize)
+        val preprocessStart = System.nanoTime()
+        val nchwData = imageDecoder.convertToNCHW(decoded.data, inputSize, inputSize, config)
+        val preprocessTime = millisSince(preprocessStart)
 
         // Step 3: Run inference
         Log.d(TAG, "Step 3: Running ONNX inference...")
         val inferenceStart = System.currentTimeMillis()
+        val inferenceStartNanos = System.nanoTime()
 
-        val inputTensor = OnnxTensor.createTensor(
-            env,
-            FloatBuffer.wrap(nchwData),
-            longArrayOf(1, 3, inputSize.toLong(), inputSize.toLong())
-        )
-
-        val outputArray: FloatArray
-        try {
-            val inputs = mapOf("images" to inputTensor)
-            val results = session.run(inputs)
-
-            // Get output tensor (typically named "output0" for YOLOv8)
-            val outputTensor = results.get(0) as OnnxTensor
-            outputArray = outputTensor.floatBuffer.array()
-
-            results.close()
-        } finally {
-            inputTensor.close()
-        }
+        // Output is typically named "output0" for YOLOv8
+        val outputArray = runSession(session, env, nchwData)
 
         val inferenceTime = (System.currentTimeMillis() - inferenceStart).toInt()
+        val preciseInferenceTime = millisSince(inferenceStartNanos)
         Log.d(TAG, "✓ Inference complete in ${inferenceTime}ms")
 
         // Step 4: Parse YOLO output
         Log.d(TAG, "Step 4: Parsing YOLO output...")
         val postProcessStart = System.currentTimeMillis()
+        val parseStart = System.nanoTime()
 
         val rawDetections = parser.parse(
             output = outputArray,
             confidenceThreshold = confidenceThreshold,
             originalWidth = originalWidth,
-            originalHeight = originalHeight
+            originalHeight = originalHeight,
+            letterbox = decoded.letterbox
         )
+        val parseTime = millisSince(parseStart)
 
         // Step 5: Apply NMS
         Log.d(TAG, "Step 5: Applying NMS with IoU threshold $iouThreshold...")
+        val nmsStart = System.nanoTime()
         val filteredDetections = NMS.apply(rawDetections, iouThreshold)
+        val nmsTime = millisSince(nmsStart)
 
-        // Step 6: Also get all-class detections for NSFW recovery
+        // Step 6: Also get all-class detections for flagged-class recovery
         Log.d(TAG, "Step 6: Parsing all classes for NSFW recovery...")
+        val recoveryStart = System.nanoTime()
         val allClassDetections = parser.parseAllClasses(
             output = outputArray,
-            confidenceThreshold = confidenceThreshold,
+            confidenceThreshold = policy.recoveryThreshold(confidenceThreshold),
             originalWidth = originalWidth,
-            originalHeight = originalHeight
+            originalHeight = originalHeight,
+            letterbox = decoded.letterbox
         )
 
-        // Filter to NSFW classes and apply NMS
-        val nsfwFromAllClass = allClassDetections.filter { it.classIndex in NSFW_CLASS_INDICES }
+        // Filter to the policy's flagged classes and apply NMS
+        val nsfwClassIndices = policy.flaggedClassIndices(classLabels)
+        val nsfwFromAllClass = allClassDetections.filter {
+            it.classIndex in nsfwClassIndices && it.score >= policy.threshold(it.className, confidenceThreshold)
+        }
         val nsfwFiltered = NMS.apply(nsfwFromAllClass, iouThreshold)
 
         // Combine: standard detections + NSFW-specific detections
@@ -197,28 +372,58 @@ class ONNXInference(
 
         Log.d(TAG, "Final: ${filteredDetections.size} standard + ${nsfwFiltered.size} NSFW-recovered = ${finalDetections.size} total")
 
+        val flaggedDetections = finalDetections.filter {
+            policy.isFlagged(it, originalWidth, originalHeight, confidenceThreshold)
+        }
+        val recoveryTime = millisSince(recoveryStart)
+
         val postProcessTime = (System.currentTimeMillis() - postProcessStart).toInt()
         val totalTime = (System.currentTimeMillis() - totalStart).toInt()
+        val timing = mapOf(
+            "decode" to decodeTime,
+            "preprocess" to preprocessTime,
+            "inference" to preciseInferenceTime,
+            "parse" to parseTime,
+            "nms" to nmsTime,
+            "recovery" to recoveryTime,
+            "total" to millisSince(decodeStart)
+        )
 
         Log.d(TAG, "✓ Complete: ${finalDetections.size} detections in ${totalTime}ms total " +
                   "(inference: ${inferenceTime}ms, post-process: ${postProcessTime}ms)")
 
         return InferenceResult(
             detections = finalDetections,
+            flaggedDetections = flaggedDetections,
+            decodeTime = decodeTime.toInt(),
             inferenceTime = inferenceTime,
             postProcessTime = postProcessTime,
             totalTime = totalTime,
-            debugInfo = parser.lastDebugInfo
+            debugInfo = parser.lastDebugInfo,
+            timing = timing,
+            debug = if (debug) DebugDetails(
+                numPredictions = parser.lastDebugInfo["numPredictions"] as? Int ?: 0,
+                candidates = rawDetections,
+                maxClassScores = classLabels.zip(parser.lastMaxClassScores.toList()).toMap(),
+                outputShape = lastOutputShape.toList(),
+                outputLayout = config.outputLayout,
+                letterbox = decoded.letterbox,
+                timing = timing - "total"
+            ) else null
         )
     }
 
+    /** Fractional milliseconds since a System.nanoTime() mark, for the debug timing breakdown */
+    private fun millisSince(startNanos: Long): Double = (System.nanoTime() - startNanos) / 1_000_000.0
+
     /**
      * Run inference directly on a Bitmap (for video frames)
      */
     fun detectBitmap(
         bitmap: Bitmap,
         confidenceThreshold: Float = 0.6f,
-        iouThreshold: Float = 0.45f
+        iouThreshold: Float = 0.45f,
+        policy: ContentPolicy = ContentPolicy.NUDENET_DEFAULT
     ): InferenceResult {
         val totalStart = System.currentTimeMillis()
 
@@ -226,44 +431,34 @@ class ONNXInference(
         val env = ortEnvironment ?: throw InferenceError.ModelNotLoaded
 
         // Decode bitmap directly
-        val decoded = imageDecoder.decodeBitmap(bitmap, inputSize)
+        val decoded = imageDecoder.decodeBitmap(bitmap, inputSize, config.letterbox)
+        val decodeTime = (System.currentTimeMillis() - totalStart).toInt()
         val originalWidth = decoded.originalWidth
         val originalHeight = decoded.originalHeight
 
         // Convert to NCHW
-        val nchwData = imageDecoder.convertToNCHW(decoded.data, inputSize, inputSize)
+        val nchwData = imageDecoder.convertToNCHW(decoded.data, inputSize, inputSize, config)
 
         // Run inference
         val inferenceStart = System.currentTimeMillis()
-
-        val inputTensor = OnnxTensor.createTensor(
-            env,
-            FloatBuffer.wrap(nchwData),
-            longArrayOf(1, 3, inputSize.toLong(), inputSize.toLong())
-        )
-
-        val outputArray: FloatArray
-        try {
-            val inputs = mapOf("images" to inputTensor)
-            val results = session.run(inputs)
-            val outputTensor = results.get(0) as OnnxTensor
-            outputArray = outputTensor.floatBuffer.array()
-            results.close()
-        } finally {
-            inputTensor.close()
-        }
+        val outputArray = runSession(session, env, nchwData)
 
         val inferenceTime = (System.currentTimeMillis() - inferenceStart).toInt()
 
         // Parse and NMS
         val postProcessStart = System.currentTimeMillis()
 
-        val rawDetections = parser.parse(outputArray, confidenceThreshold, originalWidth, originalHeight)
+        val rawDetections = parser.parse(outputArray, confidenceThreshold, originalWidth, originalHeight, decoded.letterbox)
         val filteredDetections = NMS.apply(rawDetections, iouThreshold)
 
         // NSFW recovery
-        val allClassDetections = parser.parseAllClasses(outputArray, confidenceThreshold, originalWidth, originalHeight)
-        val nsfwFromAllClass = allClassDetections.filter { it.classIndex in NSFW_CLASS_INDICES }
+        val allClassDetections = parser.parseAllClasses(
+            outputArray, policy.recoveryThreshold(confidenceThreshold), originalWidth, originalHeight, decoded.letterbox
+        )
+        val nsfwClassIndices = policy.flaggedClassIndices(classLabels)
+        val nsfwFromAllClass = allClassDetections.filter {
+            it.classIndex in nsfwClassIndices && it.score >= policy.threshold(it.className, confidenceThreshold)
+        }
         val nsfwFiltered = NMS.apply(nsfwFromAllClass, iouThreshold)
 
         val finalDetections = filteredDetections.toMutableList()
@@ -278,11 +473,17 @@ class ONNXInference(
             }
         }
 
+        val flaggedDetections = finalDetections.filter {
+            policy.isFlagged(it, originalWidth, originalHeight, confidenceThreshold)
+        }
+
         val postProcessTime = (System.currentTimeMillis() - postProcessStart).toInt()
         val totalTime = (System.currentTimeMillis() - totalStart).toInt()
 
         return InferenceResult(
             detections = finalDetections,
+            flaggedDetections = flaggedDetections,
+            decodeTime = decodeTime,
             inferenceTime = inferenceTime,
             postProcessTime = postProcessTime,
             totalTime = totalTime,
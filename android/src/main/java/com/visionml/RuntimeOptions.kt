@@ -0,0 +1,72 @@
+package com.visionml
+
+import com.facebook.react.bridge.ReadableMap
+
+/**
+ * ONNX Runtime session settings for a detector
+ * Defaults match the previous behavior: NNAPI with CPU fallback, ONNX Runtime's thread count, all graph optimizations
+ *
+ * Ported from iOS RuntimeOptions.swift
+ */
+class RuntimeOptions(
+    executionProviders: List<ExecutionProvider> = listOf(ExecutionProvider.NNAPI),
+    /** Intra-op thread count (0 = let ONNX Runtime decide) */
+    intraOpNumThreads: Int = 0,
+    val graphOptimizationLevel: GraphOptimizationLevel = GraphOptimizationLevel.ALL,
+    /** Run one inference on a blank input right after loading */
+    val warmup: Boolean = false
+) {
+    /** Execution providers, tried in order until a session loads */
+    enum class ExecutionProvider(val value: String) {
+        NNAPI("nnapi"),
+        XNNPACK("xnnpack"),
+        CPU("cpu")
+    }
+
+    /** Graph optimization level (NO_OPT ... ALL_OPT) */
+    enum class GraphOptimizationLevel(val value: String) {
+        DISABLED("disabled"),
+        BASIC("basic"),
+        EXTENDED("extended"),
+        ALL("all")
+    }
+
+    /** Providers to try in order; CPU is the last resort of every chain, nothing after it is tried */
+    val executionProviders: List<ExecutionProvider> =
+        executionProviders.distinct().takeWhile { it != ExecutionProvider.CPU } + ExecutionProvider.CPU
+
+    val intraOpNumThreads: Int = intraOpNumThreads.coerceAtLeast(0)
+
+    companion object {
+        val DEFAULT = RuntimeOptions()
+
+        /**
+         * Build options from the JS bridge map; missing keys keep the defaults
+         * Providers that don't exist on Android (e.g. "coreml") are skipped.
+         */
+        fun fromReadableMap(map: ReadableMap?): RuntimeOptions {
+            if (map == null) return DEFAULT
+
+            fun has(key: String): Boolean = map.hasKey(key) && !map.isNull(key)
+
+            val providers = if (has("executionProviders")) {
+                val array = map.getArray("executionProviders")
+                (0 until (array?.size() ?: 0)).mapNotNull { index ->
+                    val name = array?.getString(index)
+                    ExecutionProvider.values().firstOrNull { it.value == name }
+                }
+            } else {
+                DEFAULT.executionProviders
+            }
+
+            return RuntimeOptions(
+                executionProviders = providers,
+                intraOpNumThreads = if (has("intraOpNumThreads")) map.getInt("intraOpNumThreads") else DEFAULT.intraOpNumThreads,
+                graphOptimizationLevel = GraphOptimizationLevel.values()
+                    .firstOrNull { has("graphOptimizationLevel") && it.value == map.getString("graphOptimizationLevel") }
+                    ?: DEFAULT.graphOptimizationLevel,
+                warmup = if (has("warmup")) map.getBoolean("warmup") else DEFAULT.warmup
+            )
+        }
+    }
+}
@@ -7,7 +7,10 @@ import android.media.MediaMetadataRetriever
 import android.net.Uri
 import android.provider.MediaStore
 import android.util.Log
+import com.facebook.react.bridge.ReadableMap
+import java.io.File
 import kotlin.math.max
+import kotlin.math.min
 import kotlin.math.round
 
 /**
@@ -19,11 +22,14 @@ import kotlin.math.round
 class VideoAnalyzer(
     private val context: Context,
     private val detector: ONNXInference,
-    private val inputSize: Int = 640
+    private val inputSize: Int = 640,
+    private val policy: ContentPolicy = ContentPolicy.NUDENET_DEFAULT
 ) {
     companion object {
         private const val TAG = "VideoAnalyzer"
-        private val NSFW_CLASS_INDICES = setOf(2, 3, 4, 6, 14)
+        private const val ADAPTIVE_MARGIN = 0.15f  // score distance from a threshold that counts as near
+        private const val ADAPTIVE_MIN_INTERVAL = 0.5  // seconds; refinement stops below this spacing
+        private const val ADAPTIVE_DEPTH = 3  // refinement rounds
     }
 
     enum class ScanMode(val value: String) {
@@ -36,7 +42,9 @@ class VideoAnalyzer(
         /** Binary search - start at middle, expand outward to find NSFW regions */
         BINARY_SEARCH("binary_search"),
         /** Full scan with short-circuit - check every N seconds until first detection */
-        FULL_SHORT_CIRCUIT("full_short_circuit");
+        FULL_SHORT_CIRCUIT("full_short_circuit"),
+        /** Adaptive - sample at intervals, then densify around frames scoring near the threshold */
+        ADAPTIVE("adaptive");
 
         companion object {
             fun fromString(value: String): ScanMode {
@@ -45,12 +53,60 @@ class VideoAnalyzer(
         }
     }
 
+    /** Phase of a running scan, reported alongside progress */
+    enum class Phase(val value: String) {
+        /** ML Kit human pre-filter pass (thorough mode only) */
+        HUMAN_SCAN("human_scan"),
+        /** ONNX analysis of sampled frames */
+        ANALYZING("analyzing")
+    }
+
+    /** Video to analyze, from the JS { uri } / { assetId } map */
+    sealed class Source {
+        /** MediaStore video ID or content:// URI */
+        data class FromAsset(val assetId: String) : Source()
+        /** Video file outside the library (recorded or downloaded clips), as file:// URI or absolute path */
+        data class FromFile(val path: String) : Source()
+
+        companion object {
+            fun fromReadableMap(map: ReadableMap): Source {
+                fun has(key: String): Boolean = map.hasKey(key) && !map.isNull(key)
+
+                return when {
+                    has("assetId") -> FromAsset(map.getString("assetId")!!)
+                    has("uri") -> FromFile(map.getString("uri")!!.let { uri ->
+                        if (uri.startsWith("file://")) Uri.parse(uri).path ?: uri.removePrefix("file://") else uri
+                    })
+                    else -> throw LoadFailedException("Missing video uri or assetId")
+                }
+            }
+        }
+    }
+
+    /** Part of the video a scan covers (seconds) */
+    data class ScanWindow(val start: Double, val end: Double) {
+        val length: Double get() = end - start
+    }
+
+    /** Thrown when a scan is cancelled before it completes */
+    class CancelledException : Exception("Video analysis was cancelled")
+
+    /** Thrown when the video file is missing or unreadable */
+    class LoadFailedException(message: String) : Exception(message)
+
+    /** Thrown when startTime/endTime select no part of the video */
+    class InvalidRangeException : Exception("startTime/endTime window is empty or outside the video")
+
     /** Result from analyzing a single frame */
     data class FrameAnalysisResult(
         val timestamp: Double,  // seconds
         val isNSFW: Boolean,
         val confidence: Float,
         val detections: List<NMS.Detection>,
+        val flaggedDetections: List<NMS.Detection>,  // Subset of detections flagged by the content policy
+        val width: Int,  // Analyzed frame size, the space of the boxes
+        val height: Int,
+        val nearThreshold: Boolean,  // A flagged label scored within the adaptive margin of its threshold (adaptive mode only)
         val processingTime: Int  // ms
     )
 
@@ -64,8 +120,11 @@ class VideoAnalyzer(
         val highestConfidence: Float,
         val totalProcessingTime: Int,  // ms
         val videoDuration: Double,  // seconds
+        val startTime: Double,  // scanned window (seconds)
+        val endTime: Double,
         val scanMode: String,
-        val humanFramesDetected: Int
+        val humanFramesDetected: Int,
+        val frames: List<FrameAnalysisResult>  // every analyzed frame in timestamp order
     )
 
     /** Delegate for progress updates */
@@ -76,52 +135,99 @@ class VideoAnalyzer(
     }
 
     var delegate: Delegate? = null
-    private var isCancelled = false
+
+    @Volatile
+    var isCancelled = false
+        private set
+
+    // Running counters, readable from delegate callbacks
+    var framesAnalyzed = 0
+        private set
+    var nsfwFrameCount = 0
+        private set
+    var phase = Phase.ANALYZING
+        private set
 
     // Configuration
     private var sampleInterval = 5.0
     private val quickCheckPoints = listOf(0.0, 0.5, 1.0)  // start, middle, end (as ratio)
+    private var detectsNearMisses = false
 
     fun cancel() {
         isCancelled = true
     }
 
     /**
-     * Analyze a video from content URI or media ID
+     * Analyze a video from MediaStore or a file
+     * @param startTime Start of the scanned window in seconds (null = 0)
+     * @param endTime End of the scanned window in seconds, clamped to the duration (null = duration)
      */
     fun analyzeVideo(
-        assetId: String,
+        source: Source,
         mode: ScanMode,
         sampleInterval: Double = 5.0,
-        confidenceThreshold: Float = 0.6f
+        confidenceThreshold: Float = 0.6f,
+        startTime: Double? = null,
+        endTime: Double? = null
     ): VideoAnalysisResult {
-        isCancelled = false
+        // isCancelled is not reset: a cancel() that arrives before the scan starts still applies
+        framesAnalyzed = 0
+        nsfwFrameCount = 0
+        phase = Phase.ANALYZING
         this.sampleInterval = sampleInterval
+        detectsNearMisses = mode == ScanMode.ADAPTIVE
 
         val retriever = MediaMetadataRetriever()
 
         try {
-            // Try to open the video
-            val uri = resolveAssetId(assetId)
-            retriever.setDataSource(context, uri)
+            openSource(retriever, source)
 
             val durationMs = retriever.extractMetadata(MediaMetadataRetriever.METADATA_KEY_DURATION)
                 ?.toLongOrNull() ?: 0L
             val duration = durationMs / 1000.0
 
-            Log.d(TAG, "Video: ${duration}s, mode: ${mode.value}, interval: ${this.sampleInterval}s")
+            val window = ScanWindow(max(0.0, startTime ?: 0.0), min(duration, endTime ?: duration))
+            if ((startTime != null || endTime != null) && window.length <= 0) {
+                throw InvalidRangeException()
+            }
+
+            Log.d(TAG, "Video: ${duration}s, window: ${window.start}-${window.end}s, mode: ${mode.value}, interval: ${this.sampleInterval}s")
 
-            return when (mode) {
-                ScanMode.QUICK_CHECK -> analyzeQuickCheck(retriever, duration, confidenceThreshold)
-                ScanMode.SAMPLED, ScanMode.FULL_SHORT_CIRCUIT -> analyzeSampled(retriever, duration, mode, confidenceThreshold)
-                ScanMode.THOROUGH -> analyzeThorough(retriever, duration, confidenceThreshold)
-                ScanMode.BINARY_SEARCH -> analyzeBinarySearch(retriever, duration, confidenceThreshold)
+            val result = when (mode) {
+                ScanMode.QUICK_CHECK -> analyzeQuickCheck(retriever, duration, window, confidenceThreshold)
+                ScanMode.SAMPLED, ScanMode.FULL_SHORT_CIRCUIT -> analyzeSampled(retriever, duration, window, mode, confidenceThreshold)
+                ScanMode.THOROUGH -> analyzeThorough(retriever, duration, window, confidenceThreshold)
+                ScanMode.BINARY_SEARCH -> analyzeBinarySearch(retriever, duration, window, confidenceThreshold)
+                ScanMode.ADAPTIVE -> analyzeAdaptive(retriever, duration, window, confidenceThreshold)
             }
+
+            // Partial results are discarded when the caller cancelled mid-scan
+            if (isCancelled) throw CancelledException()
+
+            return result
         } finally {
             retriever.release()
         }
     }
 
+    /**
+     * Point the retriever at a MediaStore video or a file
+     */
+    private fun openSource(retriever: MediaMetadataRetriever, source: Source) {
+        try {
+            when (source) {
+                is Source.FromAsset -> retriever.setDataSource(context, resolveAssetId(source.assetId))
+                is Source.FromFile -> {
+                    if (!File(source.path).exists()) throw LoadFailedException("Video file not found")
+                    retriever.setDataSource(source.path)
+                }
+            }
+        } catch (e: RuntimeException) {
+            // setDataSource throws IllegalArgumentException/RuntimeException for unreadable sources
+            throw LoadFailedException("Failed to load video: ${e.message}")
+        }
+    }
+
     /**
      * Resolve asset ID to content URI
      * Supports:
@@ -146,12 +252,13 @@ class VideoAnalyzer(
     private fun analyzeQuickCheck(
         retriever: MediaMetadataRetriever,
         duration: Double,
+        window: ScanWindow,
         confidenceThreshold: Float
     ): VideoAnalysisResult {
         val startTime = System.currentTimeMillis()
         val results = mutableListOf<FrameAnalysisResult>()
 
-        val timestamps = quickCheckPoints.map { it * max(0.1, duration - 0.1) }
+        val timestamps = quickCheckPoints.map { window.start + it * max(0.1, window.length - 0.1) }
 
         for ((index, timestamp) in timestamps.withIndex()) {
             if (isCancelled) break
@@ -167,7 +274,7 @@ class VideoAnalyzer(
             }
         }
 
-        return buildResult(results, duration, ScanMode.QUICK_CHECK, startTime, 0)
+        return buildResult(results, duration, window, ScanMode.QUICK_CHECK, startTime, 0)
     }
 
     // MARK: - Sampled Analysis
@@ -175,23 +282,14 @@ class VideoAnalyzer(
     private fun analyzeSampled(
         retriever: MediaMetadataRetriever,
         duration: Double,
+        window: ScanWindow,
         mode: ScanMode,
         confidenceThreshold: Float
     ): VideoAnalysisResult {
         val startTime = System.currentTimeMillis()
         val results = mutableListOf<FrameAnalysisResult>()
 
-        // Generate sample timestamps
-        val timestamps = mutableListOf<Double>()
-        var t = 0.0
-        while (t < duration) {
-            timestamps.add(t)
-            t += sampleInterval
-        }
-        // Include near-end frame
-        if ((timestamps.lastOrNull() ?: 0.0) < duration - 1.0) {
-            timestamps.add(max(0.0, duration - 0.5))
-        }
+        val timestamps = sampledTimestamps(window)
 
         Log.d(TAG, "Sampling ${timestamps.size} frames at ${sampleInterval}s intervals")
 
@@ -216,7 +314,7 @@ class VideoAnalyzer(
             }
         }
 
-        return buildResult(results, duration, mode, startTime, 0)
+        return buildResult(results, duration, window, mode, startTime, 0)
     }
 
     // MARK: - Thorough Analysis (ML Kit human detection + ONNX)
@@ -224,6 +322,7 @@ class VideoAnalyzer(
     private fun analyzeThorough(
         retriever: MediaMetadataRetriever,
         duration: Double,
+        window: ScanWindow,
         confidenceThreshold: Float
     ): VideoAnalysisResult {
         val startTime = System.currentTimeMillis()
@@ -235,8 +334,8 @@ class VideoAnalyzer(
         // TODO: Integrate MLKitAnalyzer for human detection
         // For now, analyze all sampled frames
         val timestamps = mutableListOf<Double>()
-        var t = 0.0
-        while (t < duration) {
+        var t = window.start
+        while (t < window.end) {
             timestamps.add(t)
             t += sampleInterval
         }
@@ -260,7 +359,7 @@ class VideoAnalyzer(
             }
         }
 
-        return buildResult(results, duration, ScanMode.THOROUGH, startTime, timestamps.size)
+        return buildResult(results, duration, window, ScanMode.THOROUGH, startTime, timestamps.size)
     }
 
     // MARK: - Binary Search
@@ -268,6 +367,7 @@ class VideoAnalyzer(
     private fun analyzeBinarySearch(
         retriever: MediaMetadataRetriever,
         duration: Double,
+        window: ScanWindow,
         confidenceThreshold: Float
     ): VideoAnalysisResult {
         val startTime = System.currentTimeMillis()
@@ -278,12 +378,12 @@ class VideoAnalyzer(
         val binarySearchDepth = 3
 
         // Start with middle ± window
-        val middle = duration / 2.0
+        val middle = window.start + window.length / 2.0
         var queue = mutableListOf<Double>()
         var offset = -binarySearchWindow
         while (offset <= binarySearchWindow) {
             val t = middle + offset
-            if (t >= 0 && t <= duration) {
+            if (t >= window.start && t <= window.end) {
                 queue.add(t)
             }
             offset += 1.0
@@ -300,7 +400,7 @@ class VideoAnalyzer(
                 if (roundedTime in analyzedTimestamps) continue
                 analyzedTimestamps.add(roundedTime)
 
-                delegate?.onProgressUpdate(analyzedTimestamps.size.toFloat() / 50f.coerceAtMost((duration / 2).toFloat()))
+                delegate?.onProgressUpdate(analyzedTimestamps.size.toFloat() / 50f.coerceAtMost((window.length / 2).toFloat()))
 
                 val result = analyzeFrameAtTime(retriever, timestamp, confidenceThreshold)
                 if (result != null) {
@@ -312,8 +412,8 @@ class VideoAnalyzer(
 
                         val before = timestamp - binarySearchWindow
                         val after = timestamp + binarySearchWindow
-                        if (before >= 0) nextQueue.add(before)
-                        if (after <= duration) nextQueue.add(after)
+                        if (before >= window.start) nextQueue.add(before)
+                        if (after <= window.end) nextQueue.add(after)
                     }
                 }
             }
@@ -322,11 +422,84 @@ class VideoAnalyzer(
             depth++
         }
 
-        return buildResult(results, duration, ScanMode.BINARY_SEARCH, startTime, 0)
+        return buildResult(results, duration, window, ScanMode.BINARY_SEARCH, startTime, 0)
+    }
+
+    // MARK: - Adaptive (sampled + refinement around near-threshold frames)
+
+    private fun analyzeAdaptive(
+        retriever: MediaMetadataRetriever,
+        duration: Double,
+        window: ScanWindow,
+        confidenceThreshold: Float
+    ): VideoAnalysisResult {
+        val startTime = System.currentTimeMillis()
+        val visited = mutableSetOf<Double>()
+        val results = mutableListOf<FrameAnalysisResult>()
+
+        fun analyze(timestamp: Double) {
+            val result = analyzeFrameAtTime(retriever, timestamp, confidenceThreshold) ?: return
+            results.add(result)
+            if (result.isNSFW) {
+                delegate?.onNSFWFound(timestamp, result.confidence)
+            }
+        }
+
+        // Pass 1: regular samples (0-50%)
+        val timestamps = sampledTimestamps(window)
+        for ((index, timestamp) in timestamps.withIndex()) {
+            if (isCancelled) break
+            visited.add(round(timestamp * 10) / 10)
+            delegate?.onProgressUpdate(index.toFloat() / timestamps.size * 0.5f)
+            analyze(timestamp)
+        }
+
+        // Pass 2: halve the spacing around near-threshold frames each round (50-100%)
+        var step = sampleInterval
+        for (depth in 0 until ADAPTIVE_DEPTH) {
+            step /= 2
+            if (isCancelled || step < ADAPTIVE_MIN_INTERVAL) break
+
+            val queue = mutableListOf<Double>()
+            for (frame in results.filter { it.nearThreshold }) {
+                for (t in listOf(frame.timestamp - step, frame.timestamp + step)) {
+                    if (t >= window.start && t <= window.end && visited.add(round(t * 10) / 10)) {
+                        queue.add(t)
+                    }
+                }
+            }
+            if (queue.isEmpty()) break
+
+            Log.d(TAG, "Adaptive: refining ${queue.size} frames at ${step}s spacing")
+
+            for ((index, timestamp) in queue.withIndex()) {
+                if (isCancelled) break
+                val progress = 0.5f + (depth + index.toFloat() / queue.size) / ADAPTIVE_DEPTH * 0.5f
+                delegate?.onProgressUpdate(progress)
+                analyze(timestamp)
+            }
+        }
+
+        return buildResult(results, duration, window, ScanMode.ADAPTIVE, startTime, 0)
     }
 
     // MARK: - Helper Methods
 
+    /** window.start, +interval, ... inside the window, plus a near-end frame */
+    private fun sampledTimestamps(window: ScanWindow): List<Double> {
+        val timestamps = mutableListOf<Double>()
+        var t = window.start
+        while (t < window.end) {
+            timestamps.add(t)
+            t += sampleInterval
+        }
+        // Include near-end frame
+        if ((timestamps.lastOrNull() ?: window.start) < window.end - 1.0) {
+            timestamps.add(max(window.start, window.end - 0.5))
+        }
+        return timestamps
+    }
+
     private fun analyzeFrameAtTime(
         retriever: MediaMetadataRetriever,
         timestamp: Double,
@@ -339,16 +512,40 @@ class VideoAnalyzer(
             ?: return null
 
         return try {
-            val result = detector.detectBitmap(bitmap, confidenceThreshold, 0.45f)
+            // Adaptive scans detect with lowered thresholds to see near misses, then apply the real ones
+            val margin = if (detectsNearMisses) ADAPTIVE_MARGIN else 0f
+            val result = detector.detectBitmap(
+                bitmap,
+                max(0.01f, confidenceThreshold - margin),
+                0.45f,
+                if (detectsNearMisses) policy.lowered(margin) else policy
+            )
 
-            val nsfwDetections = result.detections.filter { it.classIndex in NSFW_CLASS_INDICES }
+            var detections = result.detections
+            var nsfwDetections = result.flaggedDetections
+            var nearThreshold = false
+            if (detectsNearMisses) {
+                val flagged = { detection: NMS.Detection ->
+                    policy.isFlagged(detection, bitmap.width, bitmap.height, confidenceThreshold)
+                }
+                nearThreshold = detections.any { policy.isNearThreshold(it, confidenceThreshold, ADAPTIVE_MARGIN) }
+                nsfwDetections = detections.filter(flagged)
+                detections = detections.filter { it.score >= confidenceThreshold || flagged(it) }
+            }
             val processingTime = (System.currentTimeMillis() - frameStart).toInt()
 
+            framesAnalyzed++
+            if (nsfwDetections.isNotEmpty()) nsfwFrameCount++
+
             FrameAnalysisResult(
                 timestamp = timestamp,
                 isNSFW = nsfwDetections.isNotEmpty(),
                 confidence = nsfwDetections.maxOfOrNull { it.score } ?: 0f,
-                detections = result.detections,
+                detections = detections,
+                flaggedDetections = nsfwDetections,
+                width = bitmap.width,
+                height = bitmap.height,
+                nearThreshold = nearThreshold,
                 processingTime = processingTime
             )
         } finally {
@@ -359,6 +556,7 @@ class VideoAnalyzer(
     private fun buildResult(
         results: List<FrameAnalysisResult>,
         duration: Double,
+        window: ScanWindow,
         mode: ScanMode,
         startTime: Long,
         humanFrames: Int
@@ -375,8 +573,11 @@ class VideoAnalyzer(
             highestConfidence = results.maxOfOrNull { it.confidence } ?: 0f,
             totalProcessingTime = totalTime,
             videoDuration = duration,
+            startTime = window.start,
+            endTime = window.end,
             scanMode = mode.value,
-            humanFramesDetected = humanFrames
+            humanFramesDetected = humanFrames,
+            frames = results.sortedBy { it.timestamp }
         )
 
         delegate?.onComplete(result)
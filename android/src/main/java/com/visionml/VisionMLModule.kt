@@ -1,8 +1,18 @@
 package com.visionml
 
+import ai.onnxruntime.OrtEnvironment
+import ai.onnxruntime.OrtProvider
+import android.content.ComponentCallbacks2
+import android.content.res.Configuration
+import android.net.Uri
+import android.os.Build
+import android.os.Debug
+import android.provider.MediaStore
 import android.util.Log
 import com.facebook.react.bridge.*
+import com.facebook.react.modules.core.DeviceEventManagerModule
 import kotlinx.coroutines.*
+import java.io.File
 import java.util.concurrent.ConcurrentHashMap
 import java.util.concurrent.atomic.AtomicInteger
 
@@ -17,18 +27,62 @@ class VisionMLModule(private val reactContext: ReactApplicationContext) :
 
     companion object {
         private const val TAG = "VisionMLModule"
+
+        // Events emitted while a video scan is running
+        const val VIDEO_PROGRESS_EVENT = "VisionMLVideoProgress"
+        const val VIDEO_DETECTION_EVENT = "VisionMLVideoDetection"
+        // Emitted on memory pressure, so the JS scheduler can shrink concurrency and dispose idle detectors
+        const val MEMORY_WARNING_EVENT = "VisionMLMemoryWarning"
     }
 
     // Detector management
     private val detectors = ConcurrentHashMap<String, ONNXInference>()
     private val detectorIdCounter = AtomicInteger(0)
 
+    // Classifiers and embedders, numbered from the detector counter
+    private val classifiers = ConcurrentHashMap<String, ImageClassifier>()
+    private val embedders = ConcurrentHashMap<String, ImageEmbedder>()
+
+    // Running video scans by scan ID (for cancellation)
+    private val videoScans = ConcurrentHashMap<String, VideoAnalyzer>()
+
+    // Redaction renderer
+    private val imageRedactor = ImageRedactor(reactContext)
+
     // ML Kit analyzer
     private var mlKitAnalyzer: MLKitAnalyzer? = null
 
     // Coroutine scope for async operations
     private val scope = CoroutineScope(Dispatchers.Default + SupervisorJob())
 
+    // Forwards onTrimMemory/onLowMemory to JS as 'warning' or 'critical'
+    private val memoryCallbacks = object : ComponentCallbacks2 {
+        @Suppress("DEPRECATION")
+        override fun onTrimMemory(level: Int) {
+            val pressure = when (level) {
+                ComponentCallbacks2.TRIM_MEMORY_RUNNING_MODERATE,
+                ComponentCallbacks2.TRIM_MEMORY_RUNNING_LOW,
+                ComponentCallbacks2.TRIM_MEMORY_BACKGROUND -> "warning"
+                ComponentCallbacks2.TRIM_MEMORY_RUNNING_CRITICAL,
+                ComponentCallbacks2.TRIM_MEMORY_MODERATE,
+                ComponentCallbacks2.TRIM_MEMORY_COMPLETE -> "critical"
+                // TRIM_MEMORY_UI_HIDDEN: the app went to the background, not a shortage
+                else -> return
+            }
+            emitMemoryWarning(pressure)
+        }
+
+        override fun onLowMemory() {
+            emitMemoryWarning("critical")
+        }
+
+        override fun onConfigurationChanged(newConfig: Configuration) {}
+    }
+
+    init {
+        reactContext.registerComponentCallbacks(memoryCallbacks)
+    }
+
     override fun getName(): String = "VisionML"
 
     private fun getMLKitAnalyzer(): MLKitAnalyzer {
@@ -42,6 +96,8 @@ class VisionMLModule(private val reactContext: ReactApplicationContext) :
         modelPath: String,
         classLabels: ReadableArray,
         inputSize: Int,
+        config: ReadableMap?,
+        runtime: ReadableMap?,
         promise: Promise
     ) {
         scope.launch {
@@ -53,15 +109,21 @@ class VisionMLModule(private val reactContext: ReactApplicationContext) :
                 }
 
                 // Create inference instance
+                val runtimeOptions = RuntimeOptions.fromReadableMap(runtime)
                 val inference = ONNXInference(
                     context = reactContext,
                     classLabels = labels,
-                    inputSize = inputSize
+                    inputSize = inputSize,
+                    config = ModelConfig.fromReadableMap(config),
+                    runtimeOptions = runtimeOptions
                 )
 
-                // Load model
+                // Load model (first provider in the chain that works)
                 inference.loadModel(modelPath)
 
+                // Optional warm-up so the first detect() doesn't pay for NNAPI compilation
+                val warmupTime = if (runtimeOptions.warmup) inference.warmUp() else null
+
                 // Generate unique ID
                 val detectorId = "detector_${detectorIdCounter.incrementAndGet()}"
 
@@ -72,6 +134,8 @@ class VisionMLModule(private val reactContext: ReactApplicationContext) :
                     putString("detectorId", detectorId)
                     putBoolean("success", true)
                     putString("message", "Detector created successfully")
+                    putString("executionProvider", inference.executionProvider?.value ?: "cpu")
+                    if (warmupTime != null) putInt("warmupTime", warmupTime)
                 }
 
                 promise.resolve(result)
@@ -82,77 +146,201 @@ class VisionMLModule(private val reactContext: ReactApplicationContext) :
         }
     }
 
+    /**
+     * Create a detector from a JSON model manifest
+     * The model's SHA-256 (when the manifest has one), input size and label count are
+     * checked before the detector is stored, rejecting with MANIFEST_INVALID,
+     * MODEL_INTEGRITY_ERROR or MODEL_SHAPE_MISMATCH
+     */
+    @ReactMethod
+    fun createDetectorFromManifest(manifestPath: String, runtime: ReadableMap?, promise: Promise) {
+        scope.launch {
+            try {
+                val manifest = ModelManifest.read(manifestPath)
+                manifest.verifyIntegrity()
+
+                val (inference, warmupTime) = loadInference(
+                    manifest.modelPath,
+                    manifest.classLabels,
+                    manifest.inputSize,
+                    manifest.configMap(),
+                    runtime
+                )
+                try {
+                    manifest.validate(inference)
+                } catch (e: Exception) {
+                    inference.dispose()
+                    throw e
+                }
+
+                val detectorId = "detector_${detectorIdCounter.incrementAndGet()}"
+                detectors[detectorId] = inference
+
+                promise.resolve(Arguments.createMap().apply {
+                    putString("detectorId", detectorId)
+                    putBoolean("success", true)
+                    putString("message", "Detector created successfully")
+                    putString("executionProvider", inference.executionProvider?.value ?: "cpu")
+                    if (warmupTime != null) putInt("warmupTime", warmupTime)
+                    putMap("manifest", manifest.toWritableMap())
+                    putMap("metadata", Arguments.createMap().apply {
+                        putArray("inputs", serializeTensorMetadata(inference.inputMetadata))
+                        putArray("outputs", serializeTensorMetadata(inference.outputMetadata))
+                    })
+                })
+            } catch (e: ModelManifest.ManifestError) {
+                Log.e(TAG, "Rejected model manifest: ${e.message}")
+                promise.reject(e.code, e.message, e)
+            } catch (e: Exception) {
+                Log.e(TAG, "Failed to create detector: ${e.message}")
+                promise.reject("DETECTOR_CREATE_ERROR", "Failed to create detector: ${e.message}", e)
+            }
+        }
+    }
+
+    private fun serializeTensorMetadata(tensors: List<ONNXInference.TensorMetadata>): WritableArray {
+        return Arguments.createArray().apply {
+            for (tensor in tensors) {
+                pushMap(Arguments.createMap().apply {
+                    putString("name", tensor.name)
+                    putArray("shape", Arguments.createArray().apply { tensor.shape.forEach { pushDouble(it.toDouble()) } })
+                    putString("type", tensor.type)
+                })
+            }
+        }
+    }
+
     @ReactMethod
     fun detect(
         detectorId: String,
-        imageUri: String,
+        image: ReadableMap,
         confidenceThreshold: Double,
         iouThreshold: Double,
+        policy: ReadableMap?,
+        debug: Boolean,
         promise: Promise
     ) {
+        val detector = detectors[detectorId]
+        if (detector == null) {
+            promise.reject("DETECTOR_NOT_FOUND", "Detector with ID '$detectorId' not found. Create a detector first.")
+            return
+        }
+
         scope.launch {
             try {
-                val detector = detectors[detectorId]
-                    ?: throw IllegalArgumentException("Detector with ID '$detectorId' not found")
-
                 val result = detector.detect(
-                    imageUri = imageUri,
+                    image = ImageDecoder.Source.fromReadableMap(image),
                     confidenceThreshold = confidenceThreshold.toFloat(),
-                    iouThreshold = iouThreshold.toFloat()
+                    iouThreshold = iouThreshold.toFloat(),
+                    policy = ContentPolicy.fromReadableMap(policy),
+                    debug = debug
                 )
 
-                // Convert detections to React Native format
-                val detectionsArray = Arguments.createArray()
-                for (detection in result.detections) {
-                    val detectionMap = Arguments.createMap().apply {
-                        // Box array
-                        val boxArray = Arguments.createArray()
-                        for (coord in detection.box) {
-                            boxArray.pushDouble(coord.toDouble())
-                        }
-                        putArray("box", boxArray)
-                        putDouble("score", detection.score.toDouble())
-                        putInt("classIndex", detection.classIndex)
-                        putString("className", detection.className)
-                    }
-                    detectionsArray.pushMap(detectionMap)
-                }
+                promise.resolve(serializeInferenceResult(result))
+            } catch (e: ImageDecoder.DecodeError.AssetNotFound) {
+                promise.reject("ASSET_NOT_FOUND", "No photo found for the given asset ID")
+            } catch (e: ImageDecoder.DecodeError.InvalidImageInput) {
+                promise.reject("INVALID_IMAGE_INPUT", "Image input is malformed or its pixel buffer does not match width x height")
+            } catch (e: Exception) {
+                Log.e(TAG, "Inference failed: ${e.message}")
+                promise.reject("INFERENCE_ERROR", "Inference failed: ${e.message}", e)
+            }
+        }
+    }
 
-                // Convert debug info
-                val debugInfoMap = Arguments.createMap()
-                for ((key, value) in result.debugInfo) {
-                    when (value) {
-                        is Number -> debugInfoMap.putDouble(key, value.toDouble())
-                        is String -> debugInfoMap.putString(key, value)
-                        is Boolean -> debugInfoMap.putBoolean(key, value)
-                        is Map<*, *> -> {
-                            val nestedMap = Arguments.createMap()
-                            @Suppress("UNCHECKED_CAST")
-                            for ((k, v) in value as Map<String, Any>) {
-                                when (v) {
-                                    is Number -> nestedMap.putDouble(k, v.toDouble())
-                                    is String -> nestedMap.putString(k, v)
-                                }
-                            }
-                            debugInfoMap.putMap(key, nestedMap)
+    /**
+     * Convert an inference result to the JS InferenceResult shape
+     */
+    private fun serializeInferenceResult(result: ONNXInference.InferenceResult): WritableMap {
+        // Convert debug info
+        val debugInfoMap = Arguments.createMap()
+        for ((key, value) in result.debugInfo) {
+            when (value) {
+                is Number -> debugInfoMap.putDouble(key, value.toDouble())
+                is String -> debugInfoMap.putString(key, value)
+                is Boolean -> debugInfoMap.putBoolean(key, value)
+                is Map<*, *> -> {
+                    val nestedMap = Arguments.createMap()
+                    @Suppress("UNCHECKED_CAST")
+                    for ((k, v) in value as Map<String, Any>) {
+                        when (v) {
+                            is Number -> nestedMap.putDouble(k, v.toDouble())
+                            is String -> nestedMap.putString(k, v)
                         }
                     }
+                    debugInfoMap.putMap(key, nestedMap)
                 }
+            }
+        }
 
-                val resultMap = Arguments.createMap().apply {
-                    putArray("detections", detectionsArray)
-                    putInt("inferenceTime", result.inferenceTime)
-                    putInt("postProcessTime", result.postProcessTime)
-                    putInt("totalTime", result.totalTime)
-                    putMap("debugInfo", debugInfoMap)
+        return Arguments.createMap().apply {
+            putArray("detections", serializeDetections(result.detections))
+            putArray("flaggedDetections", serializeDetections(result.flaggedDetections))
+            putBoolean("isFlagged", result.flaggedDetections.isNotEmpty())
+            putInt("decodeTime", result.decodeTime)
+            putInt("inferenceTime", result.inferenceTime)
+            putInt("postProcessTime", result.postProcessTime)
+            putInt("totalTime", result.totalTime)
+            putMap("debugInfo", debugInfoMap)
+            result.debug?.let { putMap("debug", serializeDebugDetails(it)) }
+        }
+    }
+
+    /**
+     * Convert detect(debug = true) diagnostics to the JS InferenceDebugInfo shape
+     */
+    private fun serializeDebugDetails(details: ONNXInference.DebugDetails): WritableMap {
+        return Arguments.createMap().apply {
+            putInt("numPredictions", details.numPredictions)
+            putInt("candidateCount", details.candidates.size)
+            putDouble("candidateThreshold", YOLOParser.CANDIDATE_THRESHOLD.toDouble())
+            putArray("preNMSDetections", serializeDetections(details.candidates))
+            putMap("maxClassScores", Arguments.createMap().apply {
+                for ((label, score) in details.maxClassScores) {
+                    putDouble(label, score.toDouble())
+                }
+            })
+            putArray("outputShape", Arguments.createArray().apply {
+                for (dim in details.outputShape) {
+                    pushDouble(dim.toDouble())
                 }
+            })
+            putString("outputLayout", details.outputLayout.value)
+            putMap("letterbox", Arguments.createMap().apply {
+                putString("mode", details.letterbox.mode.value)
+                putDouble("scaleX", details.letterbox.scaleX.toDouble())
+                putDouble("scaleY", details.letterbox.scaleY.toDouble())
+                putDouble("padX", details.letterbox.padX.toDouble())
+                putDouble("padY", details.letterbox.padY.toDouble())
+            })
+            putMap("timing", Arguments.createMap().apply {
+                for ((stage, millis) in details.timing) {
+                    putDouble(stage, millis)
+                }
+            })
+        }
+    }
 
-                promise.resolve(resultMap)
-            } catch (e: Exception) {
-                Log.e(TAG, "Inference failed: ${e.message}")
-                promise.reject("INFERENCE_ERROR", "Inference failed: ${e.message}", e)
+    /**
+     * Convert detections to React Native format
+     */
+    private fun serializeDetections(detections: List<NMS.Detection>): WritableArray {
+        val detectionsArray = Arguments.createArray()
+        for (detection in detections) {
+            val detectionMap = Arguments.createMap().apply {
+                // Box array
+                val boxArray = Arguments.createArray()
+                for (coord in detection.box) {
+                    boxArray.pushDouble(coord.toDouble())
+                }
+                putArray("box", boxArray)
+                putDouble("score", detection.score.toDouble())
+                putInt("classIndex", detection.classIndex)
+                putString("className", detection.className)
             }
+            detectionsArray.pushMap(detectionMap)
         }
+        return detectionsArray
     }
 
     @ReactMethod
@@ -181,35 +369,421 @@ class VisionMLModule(private val reactContext: ReactApplicationContext) :
         })
     }
 
+    // MARK: - Classifiers and Embedders
+
+    /**
+     * Create an image classifier; same loading, providers and preprocessing as createDetector
+     * @param config ModelConfig map plus activation ("none" | "softmax" | "sigmoid")
+     */
+    @ReactMethod
+    fun createClassifier(
+        modelPath: String,
+        classLabels: ReadableArray,
+        inputSize: Int,
+        config: ReadableMap?,
+        runtime: ReadableMap?,
+        promise: Promise
+    ) {
+        scope.launch {
+            try {
+                val labels = (0 until classLabels.size()).map { classLabels.getString(it) ?: "" }
+                val (inference, warmupTime) = loadInference(modelPath, labels, inputSize, config, runtime)
+                val activation = ImageClassifier.Activation.fromValue(
+                    if (config != null && config.hasKey("activation")) config.getString("activation") else null
+                )
+
+                val classifierId = "classifier_${detectorIdCounter.incrementAndGet()}"
+                classifiers[classifierId] = ImageClassifier(inference, labels, activation)
+
+                promise.resolve(Arguments.createMap().apply {
+                    putString("classifierId", classifierId)
+                    putBoolean("success", true)
+                    putString("message", "Classifier created successfully")
+                    putString("executionProvider", inference.executionProvider?.value ?: "cpu")
+                    if (warmupTime != null) putInt("warmupTime", warmupTime)
+                })
+            } catch (e: Exception) {
+                Log.e(TAG, "Failed to create classifier: ${e.message}")
+                promise.reject("MODEL_CREATE_ERROR", "Failed to create classifier: ${e.message}", e)
+            }
+        }
+    }
+
+    @ReactMethod
+    fun classify(
+        classifierId: String,
+        image: ReadableMap,
+        topK: Int,
+        minScore: Double,
+        promise: Promise
+    ) {
+        val classifier = classifiers[classifierId]
+        if (classifier == null) {
+            promise.reject("MODEL_NOT_FOUND", "Classifier with ID '$classifierId' not found. Create a classifier first.")
+            return
+        }
+
+        scope.launch {
+            runRejectingImageErrors(promise) {
+                val result = classifier.classify(
+                    image = ImageDecoder.Source.fromReadableMap(image),
+                    topK = topK,
+                    minScore = minScore.toFloat()
+                )
+
+                val predictions = Arguments.createArray()
+                for (prediction in result.predictions) {
+                    predictions.pushMap(Arguments.createMap().apply {
+                        putString("label", prediction.label)
+                        putInt("index", prediction.index)
+                        putDouble("score", prediction.score.toDouble())
+                    })
+                }
+                promise.resolve(Arguments.createMap().apply {
+                    putArray("predictions", predictions)
+                    putInt("inferenceTime", result.inferenceTime)
+                    putInt("totalTime", result.totalTime)
+                })
+            }
+        }
+    }
+
+    /**
+     * Create an image embedder; same loading, providers and preprocessing as createDetector
+     */
+    @ReactMethod
+    fun createEmbedder(
+        modelPath: String,
+        inputSize: Int,
+        config: ReadableMap?,
+        runtime: ReadableMap?,
+        promise: Promise
+    ) {
+        scope.launch {
+            try {
+                val (inference, warmupTime) = loadInference(modelPath, emptyList(), inputSize, config, runtime)
+
+                val embedderId = "embedder_${detectorIdCounter.incrementAndGet()}"
+                embedders[embedderId] = ImageEmbedder(inference)
+
+                promise.resolve(Arguments.createMap().apply {
+                    putString("embedderId", embedderId)
+                    putBoolean("success", true)
+                    putString("message", "Embedder created successfully")
+                    putString("executionProvider", inference.executionProvider?.value ?: "cpu")
+                    if (warmupTime != null) putInt("warmupTime", warmupTime)
+                })
+            } catch (e: Exception) {
+                Log.e(TAG, "Failed to create embedder: ${e.message}")
+                promise.reject("MODEL_CREATE_ERROR", "Failed to create embedder: ${e.message}", e)
+            }
+        }
+    }
+
+    @ReactMethod
+    fun embed(embedderId: String, image: ReadableMap, normalize: Boolean, promise: Promise) {
+        val embedder = embedders[embedderId]
+        if (embedder == null) {
+            promise.reject("MODEL_NOT_FOUND", "Embedder with ID '$embedderId' not found. Create an embedder first.")
+            return
+        }
+
+        scope.launch {
+            runRejectingImageErrors(promise) {
+                val result = embedder.embed(ImageDecoder.Source.fromReadableMap(image), normalize)
+
+                val embedding = Arguments.createArray()
+                for (value in result.embedding) {
+                    embedding.pushDouble(value.toDouble())
+                }
+                promise.resolve(Arguments.createMap().apply {
+                    putArray("embedding", embedding)
+                    putInt("inferenceTime", result.inferenceTime)
+                    putInt("totalTime", result.totalTime)
+                })
+            }
+        }
+    }
+
+    /**
+     * Dispose of a classifier or embedder instance
+     */
+    @ReactMethod
+    fun disposeModel(modelId: String, promise: Promise) {
+        val inference = classifiers.remove(modelId)?.inference ?: embedders.remove(modelId)?.inference
+        if (inference != null) {
+            inference.dispose()
+            promise.resolve(Arguments.createMap().apply {
+                putBoolean("success", true)
+                putString("message", "Model disposed")
+            })
+        } else {
+            promise.reject("MODEL_NOT_FOUND", "Model with ID '$modelId' not found")
+        }
+    }
+
+    /**
+     * Load a session the way createDetector does
+     * @return The loaded session and its warm-up time when warm-up is enabled
+     */
+    private fun loadInference(
+        modelPath: String,
+        labels: List<String>,
+        inputSize: Int,
+        config: ReadableMap?,
+        runtime: ReadableMap?
+    ): Pair<ONNXInference, Int?> {
+        val runtimeOptions = RuntimeOptions.fromReadableMap(runtime)
+        val inference = ONNXInference(
+            context = reactContext,
+            classLabels = labels,
+            inputSize = inputSize,
+            config = ModelConfig.fromReadableMap(config),
+            runtimeOptions = runtimeOptions
+        )
+        inference.loadModel(modelPath)
+        val warmupTime = if (runtimeOptions.warmup) inference.warmUp() else null
+        return Pair(inference, warmupTime)
+    }
+
+    /**
+     * Run an image inference body, rejecting with detect()'s image and inference error codes
+     */
+    private inline fun runRejectingImageErrors(promise: Promise, body: () -> Unit) {
+        try {
+            body()
+        } catch (e: ImageDecoder.DecodeError.AssetNotFound) {
+            promise.reject("ASSET_NOT_FOUND", "No photo found for the given asset ID")
+        } catch (e: ImageDecoder.DecodeError.InvalidImageInput) {
+            promise.reject("INVALID_IMAGE_INPUT", "Image input is malformed or its pixel buffer does not match width x height")
+        } catch (e: Exception) {
+            Log.e(TAG, "Inference failed: ${e.message}")
+            promise.reject("INFERENCE_ERROR", "Inference failed: ${e.message}", e)
+        }
+    }
+
+    // MARK: - Benchmark
+
+    /**
+     * Run detection repeatedly on one image and report the stage timings of each measured run
+     * Memory is sampled every 5ms from before warm-up until the last run finishes.
+     */
+    @ReactMethod
+    fun benchmark(
+        detectorId: String,
+        image: ReadableMap,
+        iterations: Int,
+        warmup: Int,
+        confidenceThreshold: Double,
+        iouThreshold: Double,
+        promise: Promise
+    ) {
+        val detector = detectors[detectorId]
+        if (detector == null) {
+            promise.reject("DETECTOR_NOT_FOUND", "Detector with ID '$detectorId' not found. Create a detector first.")
+            return
+        }
+
+        scope.launch {
+            val baselineMemory = memoryUsage()
+            var peakMemory = baselineMemory
+            val sampler = scope.launch {
+                while (isActive) {
+                    peakMemory = maxOf(peakMemory, memoryUsage())
+                    delay(5)
+                }
+            }
+
+            try {
+                runRejectingImageErrors(promise) {
+                    val source = ImageDecoder.Source.fromReadableMap(image)
+                    val run = {
+                        detector.detect(
+                            image = source,
+                            confidenceThreshold = confidenceThreshold.toFloat(),
+                            iouThreshold = iouThreshold.toFloat()
+                        )
+                    }
+
+                    repeat(maxOf(0, warmup)) { run() }
+                    val samples = Arguments.createArray()
+                    repeat(maxOf(1, iterations)) {
+                        samples.pushMap(Arguments.createMap().apply {
+                            for ((stage, millis) in run().timing) putDouble(stage, millis)
+                        })
+                    }
+
+                    sampler.cancelAndJoin()
+                    promise.resolve(Arguments.createMap().apply {
+                        putArray("samples", samples)
+                        putDouble("baselineMemory", baselineMemory.toDouble())
+                        putDouble("peakMemory", maxOf(peakMemory, memoryUsage()).toDouble())
+                        putString("executionProvider", detector.executionProvider?.value ?: "cpu")
+                    })
+                }
+            } finally {
+                sampler.cancel()
+            }
+        }
+    }
+
+    /**
+     * Bytes in use by the native heap (ONNX Runtime, bitmaps) and the Java heap
+     */
+    private fun memoryUsage(): Long {
+        val runtime = Runtime.getRuntime()
+        return Debug.getNativeHeapAllocatedSize() + runtime.totalMemory() - runtime.freeMemory()
+    }
+
+    // MARK: - Redaction
+
+    /**
+     * Write a redacted copy of an image
+     * @param target { detections } to redact the given boxes, or
+     *   { detectorId, confidenceThreshold, iouThreshold, policy } to run detect() and redact
+     *   the flagged boxes in the same call
+     * @param options RedactionOptions map from JS
+     */
+    @ReactMethod
+    fun redactImage(imageUri: String, target: ReadableMap, options: ReadableMap?, promise: Promise) {
+        val detectorId = if (target.hasKey("detectorId") && !target.isNull("detectorId")) {
+            target.getString("detectorId")
+        } else {
+            null
+        }
+        val detector = detectorId?.let { detectors[it] }
+        if (detectorId != null && detector == null) {
+            promise.reject("DETECTOR_NOT_FOUND", "Detector with ID '$detectorId' not found. Create a detector first.")
+            return
+        }
+
+        scope.launch {
+            val start = System.currentTimeMillis()
+            val inferenceResult = if (detector != null) {
+                try {
+                    detector.detect(
+                        image = ImageDecoder.Source.FromUri(imageUri),
+                        confidenceThreshold = if (target.hasKey("confidenceThreshold")) target.getDouble("confidenceThreshold").toFloat() else 0.6f,
+                        iouThreshold = if (target.hasKey("iouThreshold")) target.getDouble("iouThreshold").toFloat() else 0.45f,
+                        policy = ContentPolicy.fromReadableMap(if (target.hasKey("policy")) target.getMap("policy") else null)
+                    )
+                } catch (e: Exception) {
+                    Log.e(TAG, "Inference failed: ${e.message}")
+                    promise.reject("INFERENCE_ERROR", "Inference failed: ${e.message}", e)
+                    return@launch
+                }
+            } else {
+                null
+            }
+
+            try {
+                val detections = inferenceResult?.flaggedDetections
+                    ?: parseDetections(if (target.hasKey("detections")) target.getArray("detections") else null)
+                val result = imageRedactor.redact(
+                    source = ImageDecoder.Source.FromUri(imageUri),
+                    detections = detections,
+                    options = ImageRedactor.Options.fromReadableMap(options)
+                )
+
+                promise.resolve(Arguments.createMap().apply {
+                    putString("uri", Uri.fromFile(result.file).toString())
+                    putInt("width", result.width)
+                    putInt("height", result.height)
+                    putArray("redactedDetections", serializeDetections(result.regions))
+                    putInt("totalTime", (System.currentTimeMillis() - start).toInt())
+                    inferenceResult?.let { putMap("detection", serializeInferenceResult(it)) }
+                })
+            } catch (e: Exception) {
+                Log.e(TAG, "Redaction failed: ${e.message}")
+                promise.reject("REDACTION_ERROR", "Redaction failed: ${e.message}", e)
+            }
+        }
+    }
+
+    /**
+     * Convert JS Detection maps back to NMS detections
+     */
+    private fun parseDetections(array: ReadableArray?): List<NMS.Detection> {
+        if (array == null) return emptyList()
+        return (0 until array.size()).mapNotNull { index ->
+            val map = array.getMap(index) ?: return@mapNotNull null
+            val box = map.getArray("box") ?: return@mapNotNull null
+            if (box.size() != 4) return@mapNotNull null
+            NMS.Detection(
+                box = FloatArray(4) { box.getDouble(it).toFloat() },
+                score = if (map.hasKey("score")) map.getDouble("score").toFloat() else 0f,
+                classIndex = if (map.hasKey("classIndex")) map.getInt("classIndex") else -1,
+                className = if (map.hasKey("className")) map.getString("className") ?: "" else ""
+            )
+        }
+    }
+
+    // MARK: - Events
+
+    @ReactMethod
+    fun addListener(eventName: String) {
+        // Required by NativeEventEmitter
+    }
+
+    @ReactMethod
+    fun removeListeners(count: Int) {
+        // Required by NativeEventEmitter
+    }
+
+    private fun emitMemoryWarning(level: String) {
+        emit(MEMORY_WARNING_EVENT, Arguments.createMap().apply { putString("level", level) })
+    }
+
+    private fun emit(eventName: String, params: WritableMap) {
+        if (!reactContext.hasActiveReactInstance()) return
+        reactContext
+            .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+            .emit(eventName, params)
+    }
+
     // MARK: - Video Analysis
 
     @ReactMethod
     fun analyzeVideo(
         detectorId: String,
-        assetId: String,
+        video: ReadableMap,
         mode: String,
         sampleInterval: Double,
         confidenceThreshold: Double,
+        policy: ReadableMap?,
+        scanId: String,
+        timeline: Boolean,
+        range: ReadableMap?,
         promise: Promise
     ) {
+        val detector = detectors[detectorId]
+        if (detector == null) {
+            promise.reject("DETECTOR_NOT_FOUND", "Detector with ID '$detectorId' not found")
+            return
+        }
+
+        val analyzer = VideoAnalyzer(
+            context = reactContext,
+            detector = detector,
+            inputSize = 640,
+            policy = ContentPolicy.fromReadableMap(policy)
+        )
+        analyzer.delegate = VideoScanEventDelegate(analyzer, scanId)
+        // Registered before launching: bridge calls run in order, so a cancel sent
+        // right after this call always finds the scan
+        videoScans[scanId] = analyzer
+
         scope.launch {
             try {
-                val detector = detectors[detectorId]
-                    ?: throw IllegalArgumentException("Detector with ID '$detectorId' not found")
-
                 val scanMode = VideoAnalyzer.ScanMode.fromString(mode)
 
-                val analyzer = VideoAnalyzer(
-                    context = reactContext,
-                    detector = detector,
-                    inputSize = 640
-                )
-
                 val result = analyzer.analyzeVideo(
-                    assetId = assetId,
+                    source = VideoAnalyzer.Source.fromReadableMap(video),
                     mode = scanMode,
                     sampleInterval = if (sampleInterval > 0) sampleInterval else 5.0,
-                    confidenceThreshold = confidenceThreshold.toFloat()
+                    confidenceThreshold = confidenceThreshold.toFloat(),
+                    startTime = range?.takeIf { it.hasKey("startTime") && !it.isNull("startTime") }?.getDouble("startTime"),
+                    endTime = range?.takeIf { it.hasKey("endTime") && !it.isNull("endTime") }?.getDouble("endTime")
                 )
 
                 // Convert timestamps to array
@@ -231,14 +805,25 @@ class VisionMLModule(private val reactContext: ReactApplicationContext) :
                     putDouble("highestConfidence", result.highestConfidence.toDouble())
                     putInt("totalProcessingTime", result.totalProcessingTime)
                     putDouble("videoDuration", result.videoDuration)
+                    putDouble("startTime", result.startTime)
+                    putDouble("endTime", result.endTime)
                     putString("scanMode", result.scanMode)
                     putInt("humanFramesDetected", result.humanFramesDetected)
+                    if (timeline) putArray("frames", serializeFrames(result.frames))
                 }
 
                 promise.resolve(resultMap)
+            } catch (e: VideoAnalyzer.CancelledException) {
+                promise.reject("VIDEO_ANALYSIS_CANCELLED", "Video analysis was cancelled", e)
+            } catch (e: VideoAnalyzer.LoadFailedException) {
+                promise.reject("VIDEO_LOAD_FAILED", e.message, e)
+            } catch (e: VideoAnalyzer.InvalidRangeException) {
+                promise.reject("INVALID_VIDEO_RANGE", e.message, e)
             } catch (e: Exception) {
                 Log.e(TAG, "Video analysis failed: ${e.message}")
                 promise.reject("VIDEO_ANALYSIS_ERROR", "Video analysis failed: ${e.message}", e)
+            } finally {
+                videoScans.remove(scanId)
             }
         }
     }
@@ -246,20 +831,86 @@ class VisionMLModule(private val reactContext: ReactApplicationContext) :
     @ReactMethod
     fun quickCheckVideo(
         detectorId: String,
-        assetId: String,
+        video: ReadableMap,
         confidenceThreshold: Double,
+        policy: ReadableMap?,
+        scanId: String,
         promise: Promise
     ) {
         analyzeVideo(
             detectorId = detectorId,
-            assetId = assetId,
+            video = video,
             mode = "quick_check",
             sampleInterval = 0.0,
             confidenceThreshold = confidenceThreshold,
+            policy = policy,
+            scanId = scanId,
+            timeline = false,
+            range = null,
             promise = promise
         )
     }
 
+    /**
+     * Convert analyzed frames to the JS VideoFrameResult shape
+     */
+    private fun serializeFrames(frames: List<VideoAnalyzer.FrameAnalysisResult>): WritableArray {
+        val framesArray = Arguments.createArray()
+        for (frame in frames) {
+            framesArray.pushMap(Arguments.createMap().apply {
+                putDouble("timestamp", frame.timestamp)
+                putArray("detections", serializeDetections(frame.detections))
+                putArray("flaggedDetections", serializeDetections(frame.flaggedDetections))
+                putBoolean("isFlagged", frame.isNSFW)
+                putInt("width", frame.width)
+                putInt("height", frame.height)
+            })
+        }
+        return framesArray
+    }
+
+    /**
+     * Cancel a running video scan
+     * The scan's promise rejects with VIDEO_ANALYSIS_CANCELLED once the current frame finishes
+     */
+    @ReactMethod
+    fun cancelVideoAnalysis(scanId: String, promise: Promise) {
+        val analyzer = videoScans[scanId]
+        analyzer?.cancel()
+        promise.resolve(analyzer != null)
+    }
+
+    /**
+     * Forwards VideoAnalyzer callbacks to JS as events tagged with the scan ID
+     */
+    private inner class VideoScanEventDelegate(
+        private val analyzer: VideoAnalyzer,
+        private val scanId: String
+    ) : VideoAnalyzer.Delegate {
+
+        override fun onProgressUpdate(progress: Float) {
+            emit(VIDEO_PROGRESS_EVENT, Arguments.createMap().apply {
+                putString("scanId", scanId)
+                putDouble("progress", progress.coerceIn(0f, 1f).toDouble())
+                putString("phase", analyzer.phase.value)
+                putInt("framesAnalyzed", analyzer.framesAnalyzed)
+                putInt("nsfwFrameCount", analyzer.nsfwFrameCount)
+            })
+        }
+
+        override fun onNSFWFound(timestamp: Double, confidence: Float) {
+            emit(VIDEO_DETECTION_EVENT, Arguments.createMap().apply {
+                putString("scanId", scanId)
+                putDouble("timestamp", timestamp)
+                putDouble("confidence", confidence.toDouble())
+            })
+        }
+
+        override fun onComplete(result: VideoAnalyzer.VideoAnalysisResult) {
+            // Final result is delivered through the promise
+        }
+    }
+
     // MARK: - ML Kit Analysis (Vision Framework equivalent)
 
     @ReactMethod
@@ -289,10 +940,13 @@ class VisionMLModule(private val reactContext: ReactApplicationContext) :
     }
 
     @ReactMethod
-    fun analyzeComprehensive(assetId: String, promise: Promise) {
+    fun analyzeComprehensive(assetId: String, options: ReadableMap?, promise: Promise) {
         scope.launch {
             try {
-                val result = getMLKitAnalyzer().analyzeComprehensive(assetId)
+                val result = getMLKitAnalyzer().analyzeComprehensive(
+                    assetId,
+                    MLKitAnalyzer.ComprehensiveOptions.fromReadableMap(options)
+                )
                 promise.resolve(convertMapToWritableMap(result))
             } catch (e: Exception) {
                 Log.e(TAG, "Comprehensive analysis failed: ${e.message}")
@@ -305,9 +959,9 @@ class VisionMLModule(private val reactContext: ReactApplicationContext) :
 
     @ReactMethod
     fun isLiveActivityAvailable(promise: Promise) {
-        // Android uses notification instead of Live Activity
-        // Always return true since notifications are always available
-        promise.resolve(true)
+        // The foreground service notification is not implemented yet, so the
+        // start/update/end calls below succeed without showing anything
+        promise.resolve(false)
     }
 
     @ReactMethod
@@ -348,6 +1002,182 @@ class VisionMLModule(private val reactContext: ReactApplicationContext) :
         promise.resolve(true)
     }
 
+    // MARK: - Sensitive Content Analysis (iOS only)
+
+    // Apple's SCA has no Android equivalent: resolve with the same
+    // `available: false` shapes iOS uses instead of leaving the methods undefined
+
+    @ReactMethod
+    fun getSensitiveContentAnalysisStatus(promise: Promise) {
+        promise.resolve(Arguments.createMap().apply {
+            putBoolean("available", false)
+            putBoolean("enabled", false)
+            putString("policy", "unsupported")
+            putString("reason", "Sensitive Content Analysis is only available on iOS")
+        })
+    }
+
+    @ReactMethod
+    fun openSensitiveContentSettings(promise: Promise) {
+        promise.resolve(Arguments.createMap().apply {
+            putBoolean("opened", false)
+            putNull("url")
+        })
+    }
+
+    @ReactMethod
+    fun analyzeSensitiveContent(assetId: String, promise: Promise) {
+        promise.resolve(scaUnavailableResult())
+    }
+
+    @ReactMethod
+    fun batchAnalyzeSensitiveContent(assetIds: ReadableArray, promise: Promise) {
+        promise.resolve(scaUnavailableBatchResult())
+    }
+
+    @ReactMethod
+    fun analyzeVideoSensitiveContent(assetId: String, promise: Promise) {
+        promise.resolve(scaUnavailableResult())
+    }
+
+    @ReactMethod
+    fun batchAnalyzeVideosSensitiveContent(assetIds: ReadableArray, promise: Promise) {
+        promise.resolve(scaUnavailableBatchResult())
+    }
+
+    private fun scaUnavailableResult(): WritableMap = Arguments.createMap().apply {
+        putBoolean("available", false)
+        putBoolean("isSensitive", false)
+        putString("reason", "unsupported_platform")
+    }
+
+    private fun scaUnavailableBatchResult(): WritableMap = Arguments.createMap().apply {
+        putBoolean("available", false)
+        putArray("results", Arguments.createArray())
+        putString("reason", "unsupported_platform")
+    }
+
+    // MARK: - Result Cache
+
+    /**
+     * Modification times (ms since epoch) of MediaStore assets and files, null for ones not found
+     * Strings starting with file:// or "/" are files, anything else a MediaStore ID or content:// URI.
+     * The JS result cache compares them with the time stored alongside each result.
+     */
+    @ReactMethod
+    fun getModificationDates(ids: ReadableArray, promise: Promise) {
+        scope.launch {
+            val dates = Arguments.createMap()
+            for (i in 0 until ids.size()) {
+                val id = ids.getString(i) ?: continue
+                val modifiedAt = if (id.startsWith("file://") || id.startsWith("/")) {
+                    fileModificationTime(id)
+                } else {
+                    assetModificationTime(id)
+                }
+                if (modifiedAt != null) dates.putDouble(id, modifiedAt.toDouble()) else dates.putNull(id)
+            }
+            promise.resolve(dates)
+        }
+    }
+
+    private fun fileModificationTime(uri: String): Long? {
+        val file = File(Uri.parse(uri).path ?: uri)
+        return if (file.exists()) file.lastModified() else null
+    }
+
+    /** DATE_MODIFIED of a MediaStore image or video (numeric ID or content:// URI); the column is in seconds */
+    private fun assetModificationTime(assetId: String): Long? {
+        val uri: Uri
+        var selection: String? = null
+        var selectionArgs: Array<String>? = null
+        when {
+            assetId.startsWith("content://") -> uri = Uri.parse(assetId)
+            assetId.isNotEmpty() && assetId.all { it.isDigit() } -> {
+                // IDs are unique across the Files table, so one query covers images and videos
+                uri = MediaStore.Files.getContentUri("external")
+                selection = "${MediaStore.MediaColumns._ID} = ?"
+                selectionArgs = arrayOf(assetId)
+            }
+            else -> return null
+        }
+
+        return try {
+            reactContext.contentResolver
+                .query(uri, arrayOf(MediaStore.MediaColumns.DATE_MODIFIED), selection, selectionArgs, null)
+                ?.use { cursor -> if (cursor.moveToFirst()) cursor.getLong(0) * 1000 else null }
+        } catch (e: Exception) {
+            // Providers other than MediaStore may not have the column or may deny access
+            Log.w(TAG, "No modification date for $assetId: ${e.message}")
+            null
+        }
+    }
+
+    // MARK: - Capabilities
+
+    /**
+     * Report which feature families work on this device, with a reason for each one that doesn't
+     */
+    @ReactMethod
+    fun getCapabilities(promise: Promise) {
+        try {
+            // ONNX Runtime: NNAPI is only used if it was compiled in
+            val providers = OrtEnvironment.getAvailableProviders()
+            val hasNnapi = providers.contains(OrtProvider.NNAPI)
+            val acceleration = Arguments.createMap().apply {
+                putBoolean("available", hasNnapi)
+                putString("provider", if (hasNnapi) "nnapi" else "cpu")
+                putArray("availableProviders", Arguments.createArray().apply {
+                    providers.forEach { pushString(it.getName()) }
+                })
+                if (!hasNnapi) putString("reason", "framework_unavailable")
+            }
+
+            val analyzers = Arguments.createMap().apply {
+                putString("framework", "mlkit")
+                putMap("animals", featureCapability(true))
+                putMap("humanPose", featureCapability(true))
+                putMap("comprehensive", featureCapability(true))
+            }
+
+            val sensitiveContent = Arguments.createMap().apply {
+                putMap("image", featureCapability(false, "unsupported_platform"))
+                putMap("video", featureCapability(false, "unsupported_platform"))
+            }
+
+            val progressNotifications = featureCapability(false, "not_implemented").apply {
+                putString("kind", "notification")
+            }
+
+            promise.resolve(Arguments.createMap().apply {
+                putString("platform", "android")
+                putString("osVersion", Build.VERSION.RELEASE)
+                putBoolean("isSimulator", isEmulator())
+                putMap("acceleration", acceleration)
+                putMap("analyzers", analyzers)
+                putMap("sensitiveContent", sensitiveContent)
+                putMap("progressNotifications", progressNotifications)
+            })
+        } catch (e: Exception) {
+            Log.e(TAG, "Capability check failed: ${e.message}")
+            promise.reject("UNKNOWN", "Capability check failed: ${e.message}", e)
+        }
+    }
+
+    private fun featureCapability(available: Boolean, reason: String? = null): WritableMap =
+        Arguments.createMap().apply {
+            putBoolean("available", available)
+            if (reason != null) putString("reason", reason)
+        }
+
+    private fun isEmulator(): Boolean {
+        return Build.FINGERPRINT.startsWith("generic") ||
+            Build.FINGERPRINT.contains("emulator") ||
+            Build.MODEL.contains("Emulator") ||
+            Build.MODEL.contains("Android SDK built for") ||
+            Build.PRODUCT.contains("sdk")
+    }
+
     // MARK: - Utility Methods
 
     @Suppress("UNCHECKED_CAST")
@@ -387,7 +1217,12 @@ class VisionMLModule(private val reactContext: ReactApplicationContext) :
     override fun onCatalystInstanceDestroy() {
         super.onCatalystInstanceDestroy()
         // Clean up
+        reactContext.unregisterComponentCallbacks(memoryCallbacks)
         scope.cancel()
+        for ((_, analyzer) in videoScans) {
+            analyzer.cancel()
+        }
+        videoScans.clear()
         for ((_, detector) in detectors) {
             detector.dispose()
         }
@@ -5,89 +5,143 @@ import kotlin.math.max
 import kotlin.math.min
 
 /**
- * YOLO v8 output parser - matches NudeNet Python implementation exactly
+ * YOLO output parser - matches NudeNet Python implementation exactly by default
  * Ported from iOS YOLOParser.swift
  *
  * NudeNet uses YOLOv8 with output format:
  * - Output shape: [1, 4+numClasses, numPredictions]
  * - Box format: [cx, cy, w, h] center coordinates
  * - Class scores are direct (no objectness multiplication needed)
+ *
+ * Other layouts (ModelConfig.OutputLayout):
+ * - YOLOV8_ROW_MAJOR: [1, numPredictions, 4+numClasses]
+ * - YOLOV5: [1, numPredictions, 5+numClasses], class score = objectness * class probability
  */
 class YOLOParser(
     private val classLabels: List<String>,
-    private val inputSize: Int = 320
+    private val inputSize: Int = 320,
+    private val layout: ModelConfig.OutputLayout = ModelConfig.OutputLayout.YOLOV8_TRANSPOSED
 ) {
     private val numClasses: Int = classLabels.size
+    private val valuesPerPrediction: Int =
+        if (layout == ModelConfig.OutputLayout.YOLOV5) 5 + numClasses else 4 + numClasses
 
     // Store debug info for last parse call
     var lastDebugInfo: Map<String, Any> = emptyMap()
         private set
 
+    /** Highest score of each class over all predictions in the last parse call (index = class index) */
+    var lastMaxClassScores: FloatArray = FloatArray(0)
+        private set
+
     companion object {
         private const val TAG = "YOLOParser"
         private val NSFW_CLASS_INDICES = setOf(2, 3, 4, 6, 14)
+
+        /** Floor applied by parse() instead of the caller's confidence threshold */
+        const val CANDIDATE_THRESHOLD = 0.01f
+    }
+
+    /** Read value [index] of prediction [prediction] (0-3: cx, cy, w, h; then scores) */
+    private fun value(output: FloatArray, prediction: Int, index: Int, numPredictions: Int): Float =
+        when (layout) {
+            // [values, predictions] stored row-major: np.transpose(output)[prediction][index]
+            ModelConfig.OutputLayout.YOLOV8_TRANSPOSED -> output[index * numPredictions + prediction]
+            ModelConfig.OutputLayout.YOLOV8_ROW_MAJOR,
+            ModelConfig.OutputLayout.YOLOV5 -> output[prediction * valuesPerPrediction + index]
+        }
+
+    /** Confidence of class [classIndex] for a prediction */
+    private fun classScore(output: FloatArray, prediction: Int, classIndex: Int, numPredictions: Int): Float =
+        if (layout == ModelConfig.OutputLayout.YOLOV5) {
+            value(output, prediction, 4, numPredictions) * value(output, prediction, 5 + classIndex, numPredictions)
+        } else {
+            value(output, prediction, 4 + classIndex, numPredictions)
+        }
+
+    /**
+     * Convert a model-space center box to clipped [x1, y1, x2, y2] in original image coordinates
+     * NOTE: Android Bitmap has origin at top-left, so no Y-axis flip unlike iOS CGContext
+     */
+    private fun originalBox(
+        output: FloatArray,
+        prediction: Int,
+        numPredictions: Int,
+        letterbox: ImageDecoder.LetterboxInfo,
+        originalWidth: Int,
+        originalHeight: Int
+    ): FloatArray {
+        val cx = value(output, prediction, 0, numPredictions)
+        val cy = value(output, prediction, 1, numPredictions)
+        val w = value(output, prediction, 2, numPredictions)
+        val h = value(output, prediction, 3, numPredictions)
+
+        // Undo letterbox: model = original * scale + pad, then clip to the image
+        return floatArrayOf(
+            max(0f, min((cx - w / 2 - letterbox.padX) / letterbox.scaleX, originalWidth.toFloat())),
+            max(0f, min((cy - h / 2 - letterbox.padY) / letterbox.scaleY, originalHeight.toFloat())),
+            max(0f, min((cx + w / 2 - letterbox.padX) / letterbox.scaleX, originalWidth.toFloat())),
+            max(0f, min((cy + h / 2 - letterbox.padY) / letterbox.scaleY, originalHeight.toFloat()))
+        )
     }
 
     /**
      * Parse YOLO v8 output tensor to detections
      * Matches NudeNet Python postprocessing exactly
      *
-     * @param output ONNX output tensor data as flat Float array [1, 22, numPredictions]
+     * @param output ONNX output tensor data as flat Float array (e.g. [1, 22, numPredictions] for NudeNet)
      * @param confidenceThreshold Minimum confidence to include
      * @param originalWidth Original image width for coordinate scaling
      * @param originalHeight Original image height for coordinate scaling
+     * @param letterbox Placement of the original image in the model input
      * @return List of parsed detections (before NMS)
      */
     fun parse(
         output: FloatArray,
         confidenceThreshold: Float,
         originalWidth: Int,
-        originalHeight: Int
+        originalHeight: Int,
+        letterbox: ImageDecoder.LetterboxInfo
     ): List<NMS.Detection> {
         val detections = mutableListOf<NMS.Detection>()
 
-        // YOLOv8 output format: [1, 4+numClasses, numPredictions]
         // For NudeNet 320n: [1, 22, 6300] where 22 = 4 box coords + 18 classes
-        val valuesPerPrediction = 4 + numClasses  // 22 for NudeNet
-
         // Calculate number of predictions from output size
         val numPredictions = output.size / valuesPerPrediction
 
-        Log.d(TAG, "Output size: ${output.size}, valuesPerPrediction: $valuesPerPrediction, numPredictions: $numPredictions")
+        Log.d(TAG, "Output size: ${output.size}, layout: ${layout.value}, valuesPerPrediction: $valuesPerPrediction, numPredictions: $numPredictions")
 
         // NudeNet uses letterboxing: pad to square (right/bottom), then resize to inputSize
-        // Image is at TOP-LEFT of padded square, so NO offset subtraction needed
+        // Image is at TOP-LEFT of padded square, so the pad offsets are zero in that mode
         val maxDim = max(originalWidth, originalHeight)
-        val scale = maxDim.toFloat() / inputSize.toFloat()
+        val scale = 1f / letterbox.scaleX
 
-        Log.d(TAG, "Original: ${originalWidth}x$originalHeight, maxDim: $maxDim, scale: $scale")
+        Log.d(TAG, "Original: ${originalWidth}x$originalHeight, letterbox: ${letterbox.mode.value}, scale: $scale, pad: ${letterbox.padX},${letterbox.padY}")
 
         // Track max scores per NSFW class for debugging
         val maxNSFWScores = FloatArray(5) { 0f }
         val maxNSFWPredIdx = IntArray(5) { 0 }
+        val maxClassScores = FloatArray(numClasses)
 
         // Use very low threshold for debugging - we'll filter in JS
-        val effectiveThreshold = 0.01f
+        val effectiveThreshold = CANDIDATE_THRESHOLD
 
         var detectionCount = 0
 
         for (i in 0 until numPredictions) {
-            // Extract box coordinates (center format)
-            val cx = output[0 * numPredictions + i]
-            val cy = output[1 * numPredictions + i]
-            val w = output[2 * numPredictions + i]
-            val h = output[3 * numPredictions + i]
-
             // Find best class score (YOLOv8: class score IS confidence)
             var maxClassScore = 0f
             var bestClassIdx = 0
 
             for (c in 0 until numClasses) {
-                val classScore = output[(4 + c) * numPredictions + i]
+                val classScore = classScore(output, i, c, numPredictions)
                 if (classScore > maxClassScore) {
                     maxClassScore = classScore
                     bestClassIdx = c
                 }
+                if (classScore > maxClassScores[c]) {
+                    maxClassScores[c] = classScore
+                }
 
                 // Track max NSFW scores for debugging
                 val nsfwIdx = when (c) {
@@ -107,26 +161,8 @@ class YOLOParser(
             // Skip very low confidence (just noise)
             if (maxClassScore < effectiveThreshold) continue
 
-            // Convert center coordinates to corner format
-            var x1 = cx - w / 2
-            var y1 = cy - h / 2
-            var x2 = cx + w / 2
-            var y2 = cy + h / 2
-
-            // NOTE: Android Bitmap has origin at top-left (standard image coordinates)
-            // No Y-axis flip needed unlike iOS CGContext which has origin at bottom-left
-
-            // Scale from model coordinates to original image coordinates
-            x1 *= scale
-            y1 *= scale
-            x2 *= scale
-            y2 *= scale
-
-            // Clip to original image boundaries
-            x1 = max(0f, min(x1, originalWidth.toFloat()))
-            y1 = max(0f, min(y1, originalHeight.toFloat()))
-            x2 = max(0f, min(x2, originalWidth.toFloat()))
-            y2 = max(0f, min(y2, originalHeight.toFloat()))
+            // Convert center coordinates to corner format in original image space
+            val (x1, y1, x2, y2) = originalBox(output, i, numPredictions, letterbox, originalWidth, originalHeight)
 
             // Skip boxes with zero or negative area
             val boxWidth = x2 - x1
@@ -160,6 +196,7 @@ class YOLOParser(
         Log.d(TAG, "Parsed ${detections.size} detections before NMS")
 
         // Store debug info
+        lastMaxClassScores = maxClassScores
         lastDebugInfo = mapOf(
             "maxNSFWScores" to mapOf(
                 "BUTTOCKS_EXPOSED" to maxNSFWScores[0],
@@ -174,7 +211,8 @@ class YOLOParser(
             "nativeOriginalHeight" to originalHeight,
             "nativeMaxDim" to maxDim,
             "nativeScaleFactor" to scale,
-            "letterboxStyle" to "right-bottom"
+            "outputLayout" to layout.value,
+            "letterboxStyle" to if (letterbox.mode == ModelConfig.Letterbox.TOP_LEFT) "right-bottom" else letterbox.mode.value
         )
 
         return detections
@@ -188,41 +226,24 @@ class YOLOParser(
         output: FloatArray,
         confidenceThreshold: Float,
         originalWidth: Int,
-        originalHeight: Int
+        originalHeight: Int,
+        letterbox: ImageDecoder.LetterboxInfo
     ): List<NMS.Detection> {
         val detections = mutableListOf<NMS.Detection>()
 
-        val valuesPerPrediction = 4 + numClasses
         val numPredictions = output.size / valuesPerPrediction
 
-        val maxDim = max(originalWidth, originalHeight)
-        val scale = maxDim.toFloat() / inputSize.toFloat()
-
         val minDimension = 10f
 
         for (i in 0 until numPredictions) {
-            val cx = output[0 * numPredictions + i]
-            val cy = output[1 * numPredictions + i]
-            val w = output[2 * numPredictions + i]
-            val h = output[3 * numPredictions + i]
-
             // Check EVERY class, not just the best one
             for (c in 0 until numClasses) {
-                val classScore = output[(4 + c) * numPredictions + i]
+                val classScore = classScore(output, i, c, numPredictions)
 
                 if (classScore < confidenceThreshold) continue
 
-                // Convert to corner format
-                var x1 = (cx - w / 2) * scale
-                var y1 = (cy - h / 2) * scale
-                var x2 = (cx + w / 2) * scale
-                var y2 = (cy + h / 2) * scale
-
-                // Clip to original image boundaries
-                x1 = max(0f, min(x1, originalWidth.toFloat()))
-                y1 = max(0f, min(y1, originalHeight.toFloat()))
-                x2 = max(0f, min(x2, originalWidth.toFloat()))
-                y2 = max(0f, min(y2, originalHeight.toFloat()))
+                // Convert to corner format in original image space
+                val (x1, y1, x2, y2) = originalBox(output, i, numPredictions, letterbox, originalWidth, originalHeight)
 
                 val boxWidth = x2 - x1
                 val boxHeight = y2 - y1
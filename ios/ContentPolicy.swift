@@ -0,0 +1,111 @@
+import Foundation
+
+/// Decides which detections count as flagged content
+/// Matches on class labels rather than indices, so models with a different label order still work
+struct ContentPolicy {
+
+  /// Class labels that count as flagged
+  let flaggedLabels: Set<String>
+  /// Per-class minimum scores, keyed by class label
+  let classThresholds: [String: Float]
+  /// Minimum score for flagged labels without their own threshold (nil = detection confidence threshold)
+  let defaultThreshold: Float?
+  /// Minimum box area as a fraction of the image area (0.0 - 1.0)
+  let minBoxArea: Float
+
+  /// NudeNet exposed classes (previously hardcoded as indices [2, 3, 4, 6, 14])
+  static let nudeNetDefault = ContentPolicy(
+    flaggedLabels: [
+      "BUTTOCKS_EXPOSED",
+      "FEMALE_BREAST_EXPOSED",
+      "FEMALE_GENITALIA_EXPOSED",
+      "ANUS_EXPOSED",
+      "MALE_GENITALIA_EXPOSED"
+    ],
+    classThresholds: [:],
+    defaultThreshold: nil,
+    minBoxArea: 0
+  )
+
+  init(flaggedLabels: Set<String>, classThresholds: [String: Float], defaultThreshold: Float?, minBoxArea: Float) {
+    self.flaggedLabels = flaggedLabels
+    self.classThresholds = classThresholds
+    self.defaultThreshold = defaultThreshold
+    self.minBoxArea = minBoxArea
+  }
+
+  /// Build a policy from the JS bridge dictionary, falling back to the NudeNet default when nil
+  init(dictionary: NSDictionary?) {
+    guard let dictionary = dictionary else {
+      self = ContentPolicy.nudeNetDefault
+      return
+    }
+
+    let labels = dictionary["flaggedLabels"] as? [String] ?? []
+    var thresholds: [String: Float] = [:]
+    if let raw = dictionary["classThresholds"] as? [String: NSNumber] {
+      for (label, value) in raw {
+        thresholds[label] = value.floatValue
+      }
+    }
+
+    self.init(
+      flaggedLabels: Set(labels),
+      classThresholds: thresholds,
+      defaultThreshold: (dictionary["defaultThreshold"] as? NSNumber)?.floatValue,
+      minBoxArea: (dictionary["minBoxArea"] as? NSNumber)?.floatValue ?? 0
+    )
+  }
+
+  /// Minimum score for a flagged label
+  /// - Parameter fallback: Detection confidence threshold, used when the policy sets none
+  func threshold(for label: String, fallback: Float) -> Float {
+    return classThresholds[label] ?? defaultThreshold ?? fallback
+  }
+
+  /// Lowest score any flagged label can be accepted at
+  /// Used as the all-class parse threshold so per-class thresholds below the detection threshold still apply
+  func recoveryThreshold(fallback: Float) -> Float {
+    return flaggedLabels.map { threshold(for: $0, fallback: fallback) }.min() ?? fallback
+  }
+
+  /// Copy with the fallback and every per-class threshold lowered by `margin`
+  /// Detecting with it also returns near misses, for adaptive video sampling
+  func lowered(by margin: Float) -> ContentPolicy {
+    return ContentPolicy(
+      flaggedLabels: flaggedLabels,
+      classThresholds: classThresholds.mapValues { max(0, $0 - margin) },
+      defaultThreshold: defaultThreshold.map { max(0, $0 - margin) },
+      minBoxArea: minBoxArea
+    )
+  }
+
+  /// Whether a detection of a flagged label scores within `margin` of its threshold, on either side
+  func isNearThreshold(_ detection: NMS.Detection, fallbackThreshold: Float, margin: Float) -> Bool {
+    guard flaggedLabels.contains(detection.className) else { return false }
+    return abs(detection.score - threshold(for: detection.className, fallback: fallbackThreshold)) <= margin
+  }
+
+  /// Indices of flagged labels within a model's class list
+  func flaggedClassIndices(classLabels: [String]) -> Set<Int> {
+    var indices = Set<Int>()
+    for (index, label) in classLabels.enumerated() where flaggedLabels.contains(label) {
+      indices.insert(index)
+    }
+    return indices
+  }
+
+  /// Whether a detection counts as flagged content under this policy
+  func isFlagged(_ detection: NMS.Detection, imageWidth: Int, imageHeight: Int, fallbackThreshold: Float) -> Bool {
+    guard flaggedLabels.contains(detection.className) else { return false }
+    guard detection.score >= threshold(for: detection.className, fallback: fallbackThreshold) else { return false }
+
+    if minBoxArea > 0 && imageWidth > 0 && imageHeight > 0 {
+      let boxArea = (detection.box[2] - detection.box[0]) * (detection.box[3] - detection.box[1])
+      let imageArea = Float(imageWidth * imageHeight)
+      if boxArea / imageArea < minBoxArea { return false }
+    }
+
+    return true
+  }
+}
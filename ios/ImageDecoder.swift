@@ -1,4 +1,5 @@
 import Foundation
+import Photos
 import UIKit
 
 /// Image decoder with hardware-accelerated resize
@@ -13,6 +14,44 @@ class ImageDecoder {
     case failedToResize
     case failedToCreateColorSpace
     case failedToCreateContext
+    case assetNotFound
+    case invalidImageInput
+  }
+
+  /// Where an image comes from, as sent by JS detect()
+  enum Source {
+    /// file:// URI, absolute path, or base64 data: URI
+    case uri(String)
+    /// Photos library local identifier
+    case asset(String)
+    /// 8-bit RGBA pixels, row-major without padding (alpha is ignored)
+    case rgba(Data, width: Int, height: Int)
+
+    /// Parse the JS bridge dictionary: { uri } | { assetId } | { rgba: base64, width, height }
+    init(dictionary: NSDictionary) throws {
+      if let uri = dictionary["uri"] as? String {
+        self = .uri(uri)
+      } else if let assetId = dictionary["assetId"] as? String {
+        self = .asset(assetId)
+      } else if let base64 = dictionary["rgba"] as? String,
+                let width = (dictionary["width"] as? NSNumber)?.intValue,
+                let height = (dictionary["height"] as? NSNumber)?.intValue,
+                let pixels = Data(base64Encoded: base64) {
+        self = .rgba(pixels, width: width, height: height)
+      } else {
+        throw DecodeError.invalidImageInput
+      }
+    }
+  }
+
+  /// Placement of the original image inside the model input: model = original * scale + pad
+  /// padY is measured from the top after the Y-flip YOLOParser applies
+  struct LetterboxInfo {
+    let scaleX: Float
+    let scaleY: Float
+    let padX: Float
+    let padY: Float
+    let mode: ModelConfig.Letterbox
   }
 
   struct DecodedImage {
@@ -21,46 +60,38 @@ class ImageDecoder {
     let originalWidth: Int   // Original image width before any resize
     let originalHeight: Int  // Original image height before any resize
     let data: [Float]        // Normalized RGB pixel data (0.0-1.0)
+    let letterbox: LetterboxInfo  // How the original maps into the resized image
   }
 
   /// Decode and optionally resize image to target size
   /// - Parameters:
   ///   - imageUri: file:// URI to local image
   ///   - targetSize: Target size for square resize (0 = no resize)
+  ///   - letterbox: How to fit the image into the square (default NudeNet top-left padding)
   /// - Returns: Decoded image with normalized pixel data
   /// - Throws: DecodeError if any step fails
-  static func decode(imageUri: String, targetSize: Int = 0) throws -> DecodedImage {
-    NSLog("[ImageDecoder] START: decode called with URI: %@ targetSize: %d", imageUri, targetSize)
-
-    guard let url = URL(string: imageUri) else {
-      NSLog("[ImageDecoder] ERROR: Invalid URI")
-      throw DecodeError.invalidURI
-    }
-
-    // Handle file:// URIs
-    let fileURL: URL
-    if url.scheme == "file" {
-      fileURL = url
-      NSLog("[ImageDecoder] Using file:// URL: %@", fileURL.path)
-    } else if url.scheme == nil {
-      fileURL = URL(fileURLWithPath: imageUri)
-      NSLog("[ImageDecoder] Using local path: %@", fileURL.path)
-    } else {
-      NSLog("[ImageDecoder] ERROR: Unsupported scheme: %@", url.scheme ?? "nil")
-      throw DecodeError.unsupportedScheme
-    }
-
-    NSLog("[ImageDecoder] Loading image data from: %@", fileURL.path)
-    guard let imageData = try? Data(contentsOf: fileURL) else {
-      NSLog("[ImageDecoder] ERROR: Failed to load image data")
-      throw DecodeError.failedToLoadData
-    }
+  static func decode(
+    imageUri: String,
+    targetSize: Int = 0,
+    letterbox: ModelConfig.Letterbox = .topLeft
+  ) throws -> DecodedImage {
+    return try decode(source: .uri(imageUri), targetSize: targetSize, letterbox: letterbox)
+  }
 
-    NSLog("[ImageDecoder] Image data loaded, size: %lu bytes", imageData.count)
-    guard let image = UIImage(data: imageData) else {
-      NSLog("[ImageDecoder] ERROR: Failed to create UIImage from data")
-      throw DecodeError.failedToCreateImage
-    }
+  /// Decode and optionally resize an image from any source
+  /// Original dimensions are those of the source with EXIF orientation applied
+  /// - Parameters:
+  ///   - source: File/data URI, Photos asset or raw RGBA pixels
+  ///   - targetSize: Target size for square resize (0 = no resize)
+  ///   - letterbox: How to fit the image into the square (default NudeNet top-left padding)
+  /// - Returns: Decoded image with normalized pixel data
+  /// - Throws: DecodeError if any step fails
+  static func decode(
+    source: Source,
+    targetSize: Int = 0,
+    letterbox: ModelConfig.Letterbox = .topLeft
+  ) throws -> DecodedImage {
+    let image = try loadImage(source)
 
     NSLog("[ImageDecoder] UIImage created successfully")
     guard let cgImage = image.cgImage else {
@@ -102,26 +133,34 @@ class ImageDecoder {
       orientedImage = cgImage
     }
 
-    // Letterbox resize (pad to square, then resize) - matches NudeNet preprocessing
+    // Letterbox resize (pad to square, then resize) - matches NudeNet preprocessing by default
     let resizedImage: CGImage
     let width: Int
     let height: Int
+    var letterboxInfo = stretchInfo(
+      originalWidth: originalWidth, originalHeight: originalHeight, width: originalWidth, height: originalHeight
+    )
 
     if targetSize > 0 {
-      NSLog("[ImageDecoder] Letterbox resizing to %d x %d...", targetSize, targetSize)
-      if let letterboxed = letterboxResize(image: orientedImage, targetSize: targetSize) {
-        resizedImage = letterboxed
+      NSLog("[ImageDecoder] Letterbox (%@) resizing to %d x %d...", letterbox.rawValue, targetSize, targetSize)
+      if letterbox != .stretch,
+         let letterboxed = letterboxResize(image: orientedImage, targetSize: targetSize, mode: letterbox) {
+        resizedImage = letterboxed.image
         width = targetSize
         height = targetSize
+        letterboxInfo = letterboxed.info
         NSLog("[ImageDecoder] ✓ Letterbox resize complete: %d x %d", width, height)
       } else {
-        // Fallback: Try simple resize without letterboxing
-        NSLog("[ImageDecoder] ⚠️ Letterbox failed, trying simple resize fallback...")
+        // Stretch mode, or fallback when letterbox fails
+        NSLog("[ImageDecoder] Simple resize (stretch)...")
         if let simpleResized = simpleResize(image: orientedImage, targetSize: targetSize) {
           resizedImage = simpleResized
           width = targetSize
           height = targetSize
-          NSLog("[ImageDecoder] ✓ Simple resize fallback complete: %d x %d", width, height)
+          letterboxInfo = stretchInfo(
+            originalWidth: originalWidth, originalHeight: originalHeight, width: width, height: height
+          )
+          NSLog("[ImageDecoder] ✓ Simple resize complete: %d x %d", width, height)
         } else {
           // Last resort: use original image (model may get wrong input size but won't crash)
           NSLog("[ImageDecoder] ⚠️ All resize methods failed, using original image as last resort")
@@ -199,13 +238,165 @@ class ImageDecoder {
       height: height,
       originalWidth: originalWidth,
       originalHeight: originalHeight,
-      data: normalizedPixels
+      data: normalizedPixels,
+      letterbox: letterboxInfo
+    )
+  }
+
+  /// Load a source as a CGImage in display orientation (EXIF applied), the space detection boxes use
+  static func loadOrientedImage(source: Source) throws -> CGImage {
+    let image = try loadImage(source)
+    guard let cgImage = image.cgImage else {
+      throw DecodeError.failedToGetCGImage
+    }
+    if image.imageOrientation == .up {
+      return cgImage
+    }
+    guard let oriented = renderWithOrientation(image: image) else {
+      throw DecodeError.failedToCreateContext
+    }
+    return oriented
+  }
+
+  /// Load a source as a UIImage, keeping its orientation metadata
+  private static func loadImage(_ source: Source) throws -> UIImage {
+    switch source {
+    case .uri(let imageUri):
+      return try loadImage(uri: imageUri)
+    case .asset(let assetId):
+      return try loadAsset(assetId)
+    case .rgba(let pixels, let width, let height):
+      return try makeImage(rgba: pixels, width: width, height: height)
+    }
+  }
+
+  private static func loadImage(uri imageUri: String) throws -> UIImage {
+    NSLog("[ImageDecoder] START: decode called with URI: %@", String(imageUri.prefix(128)))
+
+    let imageData: Data
+    if imageUri.hasPrefix("data:") {
+      // Checked before URL(string:), which is slow on multi-megabyte strings
+      imageData = try decodeDataURI(imageUri)
+    } else {
+      guard let url = URL(string: imageUri) else {
+        NSLog("[ImageDecoder] ERROR: Invalid URI")
+        throw DecodeError.invalidURI
+      }
+
+      // Handle file:// URIs
+      let fileURL: URL
+      if url.scheme == "file" {
+        fileURL = url
+        NSLog("[ImageDecoder] Using file:// URL: %@", fileURL.path)
+      } else if url.scheme == nil {
+        fileURL = URL(fileURLWithPath: imageUri)
+        NSLog("[ImageDecoder] Using local path: %@", fileURL.path)
+      } else {
+        NSLog("[ImageDecoder] ERROR: Unsupported scheme: %@", url.scheme ?? "nil")
+        throw DecodeError.unsupportedScheme
+      }
+
+      NSLog("[ImageDecoder] Loading image data from: %@", fileURL.path)
+      guard let data = try? Data(contentsOf: fileURL) else {
+        NSLog("[ImageDecoder] ERROR: Failed to load image data")
+        throw DecodeError.failedToLoadData
+      }
+      imageData = data
+    }
+
+    NSLog("[ImageDecoder] Image data loaded, size: %lu bytes", imageData.count)
+    guard let image = UIImage(data: imageData) else {
+      NSLog("[ImageDecoder] ERROR: Failed to create UIImage from data")
+      throw DecodeError.failedToCreateImage
+    }
+    return image
+  }
+
+  /// Payload of a `data:image/...;base64,` URI
+  private static func decodeDataURI(_ uri: String) throws -> Data {
+    guard let comma = uri.firstIndex(of: ","),
+          uri[..<comma].hasSuffix(";base64"),
+          let data = Data(base64Encoded: String(uri[uri.index(after: comma)...]), options: .ignoreUnknownCharacters) else {
+      NSLog("[ImageDecoder] ERROR: Malformed base64 data URI")
+      throw DecodeError.invalidImageInput
+    }
+    return data
+  }
+
+  /// Full-size image data of a Photos asset (caller must be off the main thread)
+  private static func loadAsset(_ assetId: String) throws -> UIImage {
+    guard let asset = PHAsset.fetchAssets(withLocalIdentifiers: [assetId], options: nil).firstObject else {
+      NSLog("[ImageDecoder] ERROR: Asset not found: %@", assetId)
+      throw DecodeError.assetNotFound
+    }
+
+    let options = PHImageRequestOptions()
+    options.isSynchronous = true
+    options.deliveryMode = .highQualityFormat
+    options.version = .current
+    options.isNetworkAccessAllowed = false
+
+    var imageData: Data?
+    PHImageManager.default().requestImageDataAndOrientation(for: asset, options: options) { data, _, _, _ in
+      imageData = data
+    }
+
+    // UIImage(data:) reads the EXIF orientation, like the file path
+    guard let data = imageData, let image = UIImage(data: data) else {
+      NSLog("[ImageDecoder] ERROR: Failed to load image data for asset %@", assetId)
+      throw DecodeError.failedToLoadData
+    }
+    return image
+  }
+
+  /// Wrap raw RGBA pixels in a UIImage (alpha is ignored)
+  private static func makeImage(rgba pixels: Data, width: Int, height: Int) throws -> UIImage {
+    guard width > 0, height > 0, pixels.count == width * height * 4 else {
+      NSLog("[ImageDecoder] ERROR: RGBA buffer is %lu bytes, expected %d x %d x 4", pixels.count, width, height)
+      throw DecodeError.invalidImageInput
+    }
+
+    let bitmapInfo = CGBitmapInfo(
+      rawValue: CGImageAlphaInfo.noneSkipLast.rawValue | CGBitmapInfo.byteOrder32Big.rawValue
+    )
+    guard let provider = CGDataProvider(data: pixels as CFData),
+          let colorSpace = CGColorSpace(name: CGColorSpace.sRGB),
+          let cgImage = CGImage(
+            width: width,
+            height: height,
+            bitsPerComponent: 8,
+            bitsPerPixel: 32,
+            bytesPerRow: width * 4,
+            space: colorSpace,
+            bitmapInfo: bitmapInfo,
+            provider: provider,
+            decode: nil,
+            shouldInterpolate: false,
+            intent: .defaultIntent
+          ) else {
+      throw DecodeError.failedToCreateImage
+    }
+    return UIImage(cgImage: cgImage)
+  }
+
+  /// Mapping for an image scaled to width x height without padding
+  private static func stretchInfo(originalWidth: Int, originalHeight: Int, width: Int, height: Int) -> LetterboxInfo {
+    return LetterboxInfo(
+      scaleX: Float(width) / Float(max(originalWidth, 1)),
+      scaleY: Float(height) / Float(max(originalHeight, 1)),
+      padX: 0,
+      padY: 0,
+      mode: .stretch
     )
   }
 
   /// Letterbox resize: pad image to square, then resize to target size
-  /// NudeNet pads on RIGHT and BOTTOM (image at top-left corner)
-  private static func letterboxResize(image: CGImage, targetSize: Int) -> CGImage? {
+  /// NudeNet pads on RIGHT and BOTTOM (image at top-left corner); .center pads evenly
+  private static func letterboxResize(
+    image: CGImage,
+    targetSize: Int,
+    mode: ModelConfig.Letterbox
+  ) -> (image: CGImage, info: LetterboxInfo)? {
     let originalWidth = image.width
     let originalHeight = image.height
 
@@ -226,8 +417,12 @@ class ImageDecoder {
     let xPad = maxDim - originalWidth  // Padding on right
     let yPad = maxDim - originalHeight  // Padding on bottom
 
-    NSLog("[ImageDecoder] Letterbox (right/bottom pad): original %dx%d, maxDim %d, pad right=%d bottom=%d",
-          originalWidth, originalHeight, maxDim, xPad, yPad)
+    // CGContext has origin at BOTTOM-left, so drawing at y=yPad puts the image at the TOP
+    let drawX = mode == .center ? xPad / 2 : 0
+    let drawY = mode == .center ? yPad / 2 : yPad
+
+    NSLog("[ImageDecoder] Letterbox (%@): original %dx%d, maxDim %d, pad x=%d y=%d",
+          mode.rawValue, originalWidth, originalHeight, maxDim, xPad, yPad)
 
     guard let colorSpace = CGColorSpace(name: CGColorSpace.sRGB) else {
       NSLog("[ImageDecoder] ERROR: Failed to create sRGB colorspace")
@@ -255,9 +450,7 @@ class ImageDecoder {
     paddedContext.setFillColor(CGColor(red: 0, green: 0, blue: 0, alpha: 1))
     paddedContext.fill(CGRect(x: 0, y: 0, width: maxDim, height: maxDim))
 
-    // Draw original image at TOP-LEFT (NudeNet style: padding on right and bottom)
-    // CGContext has origin at BOTTOM-left, so to put image at TOP, draw at y=yPad
-    paddedContext.draw(image, in: CGRect(x: 0, y: yPad, width: originalWidth, height: originalHeight))
+    paddedContext.draw(image, in: CGRect(x: drawX, y: drawY, width: originalWidth, height: originalHeight))
 
     guard let paddedImage = paddedContext.makeImage() else {
       NSLog("[ImageDecoder] ERROR: Failed to create padded image")
@@ -281,7 +474,17 @@ class ImageDecoder {
     resizeContext.interpolationQuality = .high
     resizeContext.draw(paddedImage, in: CGRect(x: 0, y: 0, width: targetSize, height: targetSize))
 
-    return resizeContext.makeImage()
+    guard let resized = resizeContext.makeImage() else { return nil }
+
+    let scale = Float(targetSize) / Float(maxDim)
+    let info = LetterboxInfo(
+      scaleX: scale,
+      scaleY: scale,
+      padX: Float(drawX) * scale,
+      padY: Float(maxDim - drawY - originalHeight) * scale,  // Top padding once flipped
+      mode: mode
+    )
+    return (resized, info)
   }
 
   /// Simple resize without letterboxing - fallback when letterbox fails
@@ -0,0 +1,132 @@
+import Foundation
+
+/// Image classifier on an ONNXInference session
+/// Loading, execution providers and preprocessing (ModelConfig) are the detector's;
+/// only the output tensor is read differently, as one score per class label
+class ImageClassifier {
+
+  enum ClassifierError: Error, LocalizedError {
+    case labelCountMismatch(labels: Int, outputs: Int)
+
+    var errorDescription: String? {
+      switch self {
+      case .labelCountMismatch(let labels, let outputs):
+        return "Model output has \(outputs) scores but \(labels) class labels were given"
+      }
+    }
+  }
+
+  /// Applied to the raw output before ranking
+  enum Activation: String {
+    /// Output is already probabilities
+    case none
+    /// Logits of mutually exclusive classes
+    case softmax
+    /// Independent per-class logits (multi-label)
+    case sigmoid
+  }
+
+  struct Prediction {
+    let index: Int
+    let label: String
+    let score: Float
+  }
+
+  struct Result {
+    let predictions: [Prediction]  // Highest score first
+    let inferenceTime: Int  // milliseconds
+    let totalTime: Int  // milliseconds
+  }
+
+  let inference: ONNXInference
+  private let classLabels: [String]
+  private let activation: Activation
+
+  init(inference: ONNXInference, classLabels: [String], activation: Activation) {
+    self.inference = inference
+    self.classLabels = classLabels
+    self.activation = activation
+  }
+
+  /// Classify one image
+  /// - Parameters:
+  ///   - image: File/data URI, Photos asset or raw RGBA pixels
+  ///   - topK: Maximum number of predictions returned
+  ///   - minScore: Drop predictions scoring below this (after activation)
+  func classify(image: ImageDecoder.Source, topK: Int, minScore: Float) throws -> Result {
+    let start = Date()
+    let output = try inference.run(image: image)
+
+    guard output.values.count == classLabels.count else {
+      throw ClassifierError.labelCountMismatch(labels: classLabels.count, outputs: output.values.count)
+    }
+
+    let predictions = activate(output.values)
+      .enumerated()
+      .filter { $0.element >= minScore }
+      .sorted { $0.element > $1.element }
+      .prefix(max(0, topK))
+      .map { Prediction(index: $0.offset, label: classLabels[$0.offset], score: $0.element) }
+
+    return Result(
+      predictions: predictions,
+      inferenceTime: output.inferenceTime,
+      totalTime: Int(Date().timeIntervalSince(start) * 1000)
+    )
+  }
+
+  private func activate(_ values: [Float]) -> [Float] {
+    switch activation {
+    case .none:
+      return values
+    case .sigmoid:
+      return values.map { 1 / (1 + exp(-$0)) }
+    case .softmax:
+      // Shift by the max so exp() can't overflow
+      let maxValue = values.max() ?? 0
+      let exps = values.map { exp($0 - maxValue) }
+      let sum = exps.reduce(0, +)
+      return exps.map { $0 / sum }
+    }
+  }
+}
+
+/// Image embedder on an ONNXInference session
+/// The flattened output tensor is the embedding
+class ImageEmbedder {
+
+  struct Result {
+    let embedding: [Float]
+    let inferenceTime: Int  // milliseconds
+    let totalTime: Int  // milliseconds
+  }
+
+  let inference: ONNXInference
+
+  init(inference: ONNXInference) {
+    self.inference = inference
+  }
+
+  /// Embed one image
+  /// - Parameters:
+  ///   - image: File/data URI, Photos asset or raw RGBA pixels
+  ///   - normalize: Scale the embedding to unit length (L2)
+  func embed(image: ImageDecoder.Source, normalize: Bool) throws -> Result {
+    let start = Date()
+    let output = try inference.run(image: image)
+
+    var embedding = output.values
+    if normalize {
+      let norm = sqrt(embedding.reduce(0) { $0 + $1 * $1 })
+      if norm > 0 {
+        embedding = embedding.map { $0 / norm }
+      }
+    }
+
+    return Result(
+      embedding: embedding,
+      inferenceTime: output.inferenceTime,
+      totalTime: Int(Date().timeIntervalSince(start) * 1000)
+    )
+  }
+}
@@ -0,0 +1,204 @@
+import CoreImage
+import Foundation
+import ImageIO
+import UniformTypeIdentifiers
+
+/// Writes a censored copy of an image with detection boxes blurred, pixelated or filled
+/// Boxes are in original image coordinates with EXIF orientation applied, like ImageDecoder's
+class ImageRedactor {
+
+  enum RedactionError: Error {
+    case invalidFillColor
+    case failedToRender
+    case failedToCreateDestination
+    case failedToWrite
+  }
+
+  enum Style: String {
+    case blur
+    case pixelate
+    case fill
+  }
+
+  enum Format: String {
+    case jpeg
+    case png
+    case heic
+
+    var typeIdentifier: String {
+      switch self {
+      case .jpeg: return UTType.jpeg.identifier
+      case .png: return UTType.png.identifier
+      case .heic: return UTType.heic.identifier
+      }
+    }
+
+    var fileExtension: String {
+      switch self {
+      case .jpeg: return "jpg"
+      case .png: return "png"
+      case .heic: return "heic"
+      }
+    }
+  }
+
+  /// Redaction settings from the JS `RedactionOptions` dictionary
+  struct Options {
+    let style: Style
+    /// Blur radius in pixels (nil = scaled to each region)
+    let blurRadius: Double?
+    /// Pixelation block size in pixels (nil = scaled to each region)
+    let pixelSize: Double?
+    /// Fill color as "#RRGGBB"
+    let fillColor: String
+    /// Pixels added on every side of each box before redacting
+    let padding: Double
+    /// Only redact these class labels (nil = all)
+    let labels: Set<String>?
+    /// Never redact these class labels
+    let excludeLabels: Set<String>
+    let format: Format
+    /// Lossy compression quality 0-1 (JPEG/HEIC)
+    let quality: Double
+    /// Output file path or file:// URI (nil = new file in the temporary directory)
+    let outputPath: String?
+
+    init(dictionary: NSDictionary?) {
+      let dictionary = dictionary ?? [:]
+      style = (dictionary["style"] as? String).flatMap(Style.init(rawValue:)) ?? .blur
+      blurRadius = (dictionary["blurRadius"] as? NSNumber)?.doubleValue
+      pixelSize = (dictionary["pixelSize"] as? NSNumber)?.doubleValue
+      fillColor = (dictionary["fillColor"] as? String) ?? "#000000"
+      padding = max(0, (dictionary["padding"] as? NSNumber)?.doubleValue ?? 0)
+      labels = (dictionary["labels"] as? [String]).map(Set.init)
+      excludeLabels = Set((dictionary["excludeLabels"] as? [String]) ?? [])
+      format = (dictionary["format"] as? String).flatMap(Format.init(rawValue:)) ?? .jpeg
+      quality = min(1, max(0, (dictionary["quality"] as? NSNumber)?.doubleValue ?? 0.9))
+      outputPath = dictionary["outputPath"] as? String
+    }
+
+    /// Whether the label filters keep this detection
+    func includes(_ detection: NMS.Detection) -> Bool {
+      if excludeLabels.contains(detection.className) {
+        return false
+      }
+      return labels?.contains(detection.className) ?? true
+    }
+  }
+
+  struct Result {
+    let url: URL
+    let width: Int
+    let height: Int
+    /// Detections that passed the label filters and were redacted
+    let regions: [NMS.Detection]
+  }
+
+  private static let context = CIContext()
+
+  /// Redact the detections that pass the label filters and write the result
+  /// - Parameters:
+  ///   - source: Image to redact
+  ///   - detections: Boxes in original image coordinates
+  ///   - options: Style, padding, label filters and output format
+  /// - Returns: Output file and the redacted regions
+  /// - Throws: RedactionError or ImageDecoder.DecodeError
+  static func redact(
+    source: ImageDecoder.Source,
+    detections: [NMS.Detection],
+    options: Options
+  ) throws -> Result {
+    let cgImage = try ImageDecoder.loadOrientedImage(source: source)
+    let base = CIImage(cgImage: cgImage)
+    let extent = base.extent
+    let regions = detections.filter(options.includes)
+    NSLog("[ImageRedactor] Redacting %d of %d regions (%@)", regions.count, detections.count, options.style.rawValue)
+
+    var output = base
+    for region in regions {
+      guard region.box.count == 4 else { continue }
+      // Boxes have a top-left origin, Core Image a bottom-left one
+      let rect = CGRect(
+        x: CGFloat(region.box[0]),
+        y: extent.height - CGFloat(region.box[3]),
+        width: CGFloat(region.box[2] - region.box[0]),
+        height: CGFloat(region.box[3] - region.box[1])
+      )
+        .insetBy(dx: -CGFloat(options.padding), dy: -CGFloat(options.padding))
+        .intersection(extent)
+        .integral
+      guard !rect.isEmpty else { continue }
+
+      output = try redactedPatch(of: base, in: rect, options: options).composited(over: output)
+    }
+
+    guard let rendered = context.createCGImage(output, from: extent) else {
+      throw RedactionError.failedToRender
+    }
+
+    let url = outputURL(options)
+    guard let destination = CGImageDestinationCreateWithURL(
+      url as CFURL, options.format.typeIdentifier as CFString, 1, nil
+    ) else {
+      throw RedactionError.failedToCreateDestination
+    }
+    let properties = [kCGImageDestinationLossyCompressionQuality: options.quality] as CFDictionary
+    CGImageDestinationAddImage(destination, rendered, properties)
+    guard CGImageDestinationFinalize(destination) else {
+      throw RedactionError.failedToWrite
+    }
+
+    NSLog("[ImageRedactor] Wrote %@", url.path)
+    return Result(url: url, width: rendered.width, height: rendered.height, regions: regions)
+  }
+
+  /// Redacted pixels for one region, cropped to it
+  private static func redactedPatch(of image: CIImage, in rect: CGRect, options: Options) throws -> CIImage {
+    // Default strength scales with the region so small and large boxes are equally unreadable
+    let automatic = max(4, Double(min(rect.width, rect.height)) / 6)
+
+    switch options.style {
+    case .blur:
+      // Clamp first so the blur doesn't pull in transparent pixels at the image edge
+      return image.clampedToExtent()
+        .applyingGaussianBlur(sigma: options.blurRadius ?? automatic)
+        .cropped(to: rect)
+    case .pixelate:
+      let pixellate = CIFilter(name: "CIPixellate")
+      pixellate?.setValue(image.clampedToExtent(), forKey: kCIInputImageKey)
+      pixellate?.setValue(CIVector(x: rect.minX, y: rect.minY), forKey: kCIInputCenterKey)
+      pixellate?.setValue(options.pixelSize ?? automatic, forKey: kCIInputScaleKey)
+      guard let pixelated = pixellate?.outputImage else {
+        throw RedactionError.failedToRender
+      }
+      return pixelated.cropped(to: rect)
+    case .fill:
+      return CIImage(color: try color(hex: options.fillColor)).cropped(to: rect)
+    }
+  }
+
+  /// Parse "#RRGGBB"
+  private static func color(hex: String) throws -> CIColor {
+    let digits = hex.hasPrefix("#") ? String(hex.dropFirst()) : hex
+    guard digits.count == 6, let value = UInt32(digits, radix: 16) else {
+      throw RedactionError.invalidFillColor
+    }
+    return CIColor(
+      red: CGFloat((value >> 16) & 0xFF) / 255,
+      green: CGFloat((value >> 8) & 0xFF) / 255,
+      blue: CGFloat(value & 0xFF) / 255
+    )
+  }
+
+  private static func outputURL(_ options: Options) -> URL {
+    if let outputPath = options.outputPath {
+      if let url = URL(string: outputPath), url.scheme == "file" {
+        return url
+      }
+      return URL(fileURLWithPath: outputPath)
+    }
+    return FileManager.default.temporaryDirectory
+      .appendingPathComponent("redacted-\(UUID().uuidString)")
+      .appendingPathExtension(options.format.fileExtension)
+  }
+}
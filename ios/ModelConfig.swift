@@ -0,0 +1,103 @@
+import Foundation
+
+/// Model-specific preprocessing and output decoding settings
+/// Defaults match NudeNet YOLOv8, so detectors created without a config behave as before
+struct ModelConfig {
+
+  /// Layout of the raw output tensor
+  enum OutputLayout: String {
+    /// [1, numPredictions, 5 + numClasses]: cx, cy, w, h, objectness, class scores
+    case yolov5 = "yolov5"
+    /// [1, 4 + numClasses, numPredictions]: Ultralytics YOLOv8 export (NudeNet)
+    case yolov8Transposed = "yolov8_transposed"
+    /// [1, numPredictions, 4 + numClasses]: YOLOv8 with one row per prediction
+    case yolov8RowMajor = "yolov8_row_major"
+  }
+
+  /// How the image is fitted into the square model input
+  enum Letterbox: String {
+    /// Pad right/bottom, image at top-left (NudeNet)
+    case topLeft = "top_left"
+    /// Pad evenly on both sides (Ultralytics)
+    case center = "center"
+    /// No padding, aspect ratio not preserved
+    case stretch = "stretch"
+  }
+
+  /// Channel order of the input tensor
+  enum ChannelOrder: String {
+    case rgb
+    case bgr
+  }
+
+  let outputLayout: OutputLayout
+  let letterbox: Letterbox
+  /// Per-channel mean, in input tensor channel order, applied after scaling pixels to 0-1
+  let mean: [Float]
+  /// Per-channel standard deviation, in input tensor channel order
+  let std: [Float]
+  let channelOrder: ChannelOrder
+  /// Input tensor name (nil = first model input)
+  let inputName: String?
+  /// Output tensor name (nil = first model output)
+  let outputName: String?
+
+  /// NudeNet YOLOv8: transposed output, top-left letterbox, RGB 0-1
+  static let nudeNetDefault = ModelConfig(
+    outputLayout: .yolov8Transposed,
+    letterbox: .topLeft,
+    mean: [0, 0, 0],
+    std: [1, 1, 1],
+    channelOrder: .rgb,
+    inputName: nil,
+    outputName: nil
+  )
+
+  init(
+    outputLayout: OutputLayout,
+    letterbox: Letterbox,
+    mean: [Float],
+    std: [Float],
+    channelOrder: ChannelOrder,
+    inputName: String?,
+    outputName: String?
+  ) {
+    self.outputLayout = outputLayout
+    self.letterbox = letterbox
+    self.mean = mean
+    self.std = std
+    self.channelOrder = channelOrder
+    self.inputName = inputName
+    self.outputName = outputName
+  }
+
+  /// Build a config from the JS bridge dictionary; missing keys keep the NudeNet defaults
+  init(dictionary: NSDictionary?) {
+    let defaults = ModelConfig.nudeNetDefault
+    guard let dictionary = dictionary else {
+      self = defaults
+      return
+    }
+
+    func floats(_ key: String, _ fallback: [Float]) -> [Float] {
+      guard let values = dictionary[key] as? [NSNumber], values.count == 3 else { return fallback }
+      return values.map { $0.floatValue }
+    }
+
+    self.init(
+      outputLayout: (dictionary["outputLayout"] as? String).flatMap(OutputLayout.init(rawValue:)) ?? defaults.outputLayout,
+      letterbox: (dictionary["letterbox"] as? String).flatMap(Letterbox.init(rawValue:)) ?? defaults.letterbox,
+      mean: floats("mean", defaults.mean),
+      std: floats("std", defaults.std),
+      channelOrder: (dictionary["channelOrder"] as? String).flatMap(ChannelOrder.init(rawValue:)) ?? defaults.channelOrder,
+      inputName: dictionary["inputName"] as? String,
+      outputName: dictionary["outputName"] as? String
+    )
+  }
+
+  /// Normalize a 0-1 pixel value for input tensor channel `channel`
+  @inline(__always)
+  func normalize(_ value: Float, channel: Int) -> Float {
+    return (value - mean[channel]) / std[channel]
+  }
+}
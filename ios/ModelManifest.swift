@@ -0,0 +1,229 @@
+import CryptoKit
+import Foundation
+
+/// Detector description read from a JSON manifest next to the model
+/// Carries everything createDetector otherwise takes on trust, so the file contents,
+/// labels and input size can be checked against the model when it loads
+///
+/// ```json
+/// {
+///   "model": "nudenet-320n.onnx",
+///   "labels": ["FEMALE_GENITALIA_COVERED", "FACE_FEMALE", ...],
+///   "inputSize": 320,
+///   "sha256": "9f2c…",
+///   "config": { "outputLayout": "yolov8_transposed" },
+///   "defaults": { "confidenceThreshold": 0.5, "iouThreshold": 0.45 }
+/// }
+/// ```
+struct ModelManifest {
+
+  enum ManifestError: Error, LocalizedError {
+    case unreadable(path: String, reason: String)
+    case invalid(path: String, reason: String)
+    case integrityMismatch(modelPath: String, expected: String, actual: String)
+    case inputShapeMismatch(input: String, shape: [Int], inputSize: Int)
+    case unsupportedOutputShape(output: String, shape: [Int])
+    case labelCountMismatch(output: String, shape: [Int], layout: ModelConfig.OutputLayout, classes: Int, labels: Int)
+
+    /// Rejection code reported to JS
+    var code: String {
+      switch self {
+      case .unreadable, .invalid:
+        return "MANIFEST_INVALID"
+      case .integrityMismatch:
+        return "MODEL_INTEGRITY_ERROR"
+      case .inputShapeMismatch, .unsupportedOutputShape, .labelCountMismatch:
+        return "MODEL_SHAPE_MISMATCH"
+      }
+    }
+
+    var errorDescription: String? {
+      switch self {
+      case .unreadable(let path, let reason):
+        return "Cannot read '\(path)': \(reason)"
+      case .invalid(let path, let reason):
+        return "Invalid manifest '\(path)': \(reason)"
+      case .integrityMismatch(let modelPath, let expected, let actual):
+        return "SHA-256 of '\(modelPath)' is \(actual) but the manifest expects \(expected)"
+      case .inputShapeMismatch(let input, let shape, let inputSize):
+        return "Model input '\(input)' has shape \(shape) but the manifest's inputSize is \(inputSize)"
+      case .unsupportedOutputShape(let output, let shape):
+        return "Model output '\(output)' has shape \(shape); detectors need a 3-dimensional YOLO output"
+      case .labelCountMismatch(let output, let shape, let layout, let classes, let labels):
+        return "Model output '\(output)' has shape \(shape), which is \(classes) classes "
+          + "in the \(layout.rawValue) layout, but the manifest lists \(labels) labels"
+      }
+    }
+  }
+
+  /// Absolute path of the model file
+  let modelPath: String
+  let classLabels: [String]
+  let inputSize: Int
+  /// Lowercase hex SHA-256 the model file must have (nil = not checked)
+  let sha256: String?
+  /// ModelConfig dictionary as written in the manifest
+  let configDictionary: [String: Any]
+  /// Default detection thresholds: confidenceThreshold, iouThreshold
+  let defaults: [String: Any]
+  let name: String?
+  let version: String?
+
+  var config: ModelConfig {
+    return ModelConfig(dictionary: configDictionary as NSDictionary)
+  }
+
+  /// Read and check a manifest
+  /// - Parameter manifestPath: Absolute path or file:// URI; a relative `model` is resolved against its directory
+  init(contentsOf manifestPath: String) throws {
+    let path = manifestPath.hasPrefix("file://") ? (URL(string: manifestPath)?.path ?? manifestPath) : manifestPath
+
+    let data: Data
+    do {
+      data = try Data(contentsOf: URL(fileURLWithPath: path))
+    } catch {
+      throw ManifestError.unreadable(path: path, reason: error.localizedDescription)
+    }
+    guard let json = (try? JSONSerialization.jsonObject(with: data)) as? [String: Any] else {
+      throw ManifestError.invalid(path: path, reason: "not a JSON object")
+    }
+
+    guard let model = json["model"] as? String, !model.isEmpty else {
+      throw ManifestError.invalid(path: path, reason: "\"model\" must be the model file name or path")
+    }
+    guard let labels = json["labels"] as? [String], !labels.isEmpty else {
+      throw ManifestError.invalid(path: path, reason: "\"labels\" must be a non-empty array of strings")
+    }
+
+    var inputSize = 320
+    if let value = json["inputSize"] {
+      guard let size = value as? NSNumber, size.intValue > 0 else {
+        throw ManifestError.invalid(path: path, reason: "\"inputSize\" must be a positive number")
+      }
+      inputSize = size.intValue
+    }
+
+    var sha256: String?
+    if let value = json["sha256"] {
+      guard let hash = (value as? String)?.lowercased(),
+            hash.count == 64, hash.allSatisfy({ $0.isHexDigit }) else {
+        throw ManifestError.invalid(path: path, reason: "\"sha256\" must be 64 hex digits")
+      }
+      sha256 = hash
+    }
+
+    let config = json["config"] as? [String: Any] ?? [:]
+    if let layout = config["outputLayout"] as? String, ModelConfig.OutputLayout(rawValue: layout) == nil {
+      throw ManifestError.invalid(path: path, reason: "unknown outputLayout '\(layout)'")
+    }
+
+    let defaults = (json["defaults"] as? [String: Any] ?? [:])
+      .filter { ["confidenceThreshold", "iouThreshold"].contains($0.key) && $0.value is NSNumber }
+
+    let directory = URL(fileURLWithPath: path).deletingLastPathComponent()
+    let modelPath = model.hasPrefix("/") ? model : directory.appendingPathComponent(model).standardizedFileURL.path
+    guard FileManager.default.fileExists(atPath: modelPath) else {
+      throw ManifestError.invalid(path: path, reason: "model file '\(modelPath)' not found")
+    }
+
+    self.modelPath = modelPath
+    self.classLabels = labels
+    self.inputSize = inputSize
+    self.sha256 = sha256
+    self.configDictionary = config
+    self.defaults = defaults
+    self.name = json["name"] as? String
+    self.version = json["version"] as? String
+  }
+
+  /// The manifest as returned to JS, with `model` resolved to an absolute path
+  var dictionary: [String: Any] {
+    var result: [String: Any] = [
+      "model": modelPath,
+      "labels": classLabels,
+      "inputSize": inputSize,
+      "config": configDictionary,
+      "defaults": defaults
+    ]
+    result["sha256"] = sha256
+    result["name"] = name
+    result["version"] = version
+    return result
+  }
+
+  // MARK: - Checks
+
+  /// Compare the model file's SHA-256 with the manifest's (no-op without one)
+  func verifyIntegrity() throws {
+    guard let expected = sha256 else { return }
+    let actual = try ModelManifest.sha256(ofFileAt: modelPath)
+    guard actual == expected else {
+      throw ManifestError.integrityMismatch(modelPath: modelPath, expected: expected, actual: actual)
+    }
+  }
+
+  /// Check inputSize and the label count against the loaded model's tensor shapes
+  /// Dimensions the model leaves dynamic are read from the output of a zero-input run
+  func validate(against inference: ONNXInference) throws {
+    let config = self.config
+
+    if let input = ModelManifest.tensor(named: config.inputName, in: inference.inputMetadata) {
+      let shape = ModelManifest.shape(of: input)
+      // NCHW: height and width are the last two dimensions
+      if shape.count == 4, shape.suffix(2).contains(where: { $0 > 0 && $0 != inputSize }) {
+        throw ManifestError.inputShapeMismatch(input: input["name"] as? String ?? "", shape: shape, inputSize: inputSize)
+      }
+    }
+
+    guard let output = ModelManifest.tensor(named: config.outputName, in: inference.outputMetadata) else { return }
+    let outputName = output["name"] as? String ?? ""
+    let classAxis = config.outputLayout == .yolov8Transposed ? 1 : 2
+    var shape = ModelManifest.shape(of: output)
+    if shape.count != 3 || shape[classAxis] <= 0 {
+      if inference.lastOutputShape.isEmpty {
+        _ = try inference.warmUp()
+      }
+      shape = inference.lastOutputShape
+    }
+    guard shape.count == 3 else {
+      throw ManifestError.unsupportedOutputShape(output: outputName, shape: shape)
+    }
+
+    let classes = shape[classAxis] - (config.outputLayout == .yolov5 ? 5 : 4)
+    guard classes == classLabels.count else {
+      throw ManifestError.labelCountMismatch(
+        output: outputName,
+        shape: shape,
+        layout: config.outputLayout,
+        classes: classes,
+        labels: classLabels.count
+      )
+    }
+  }
+
+  /// Lowercase hex SHA-256 of a file, read in 1 MB chunks so large models never sit in memory whole
+  static func sha256(ofFileAt path: String) throws -> String {
+    guard let handle = FileHandle(forReadingAtPath: path) else {
+      throw ManifestError.unreadable(path: path, reason: "file cannot be opened")
+    }
+    defer { handle.closeFile() }
+
+    var hasher = SHA256()
+    while true {
+      let chunk = autoreleasepool { handle.readData(ofLength: 1 << 20) }
+      if chunk.isEmpty { break }
+      hasher.update(data: chunk)
+    }
+    return hasher.finalize().map { String(format: "%02x", $0) }.joined()
+  }
+
+  /// Configured tensor by name, or the first one like ONNXWrapper picks
+  private static func tensor(named name: String?, in metadata: [[String: Any]]) -> [String: Any]? {
+    guard let name = name else { return metadata.first }
+    return metadata.first { $0["name"] as? String == name }
+  }
+
+  private static func shape(of tensor: [String: Any]) -> [Int] {
+    return (tensor["shape"] as? [NSNumber])?.map { $0.intValue } ?? []
+  }
+}
@@ -14,19 +14,65 @@ class ONNXInference {
 
   struct InferenceResult {
     let detections: [NMS.Detection]
+    let flaggedDetections: [NMS.Detection]  // Subset of detections flagged by the content policy
+    let decodeTime: Int  // milliseconds, image decode and resize
     let inferenceTime: Int  // milliseconds
     let postProcessTime: Int  // milliseconds
     let totalTime: Int  // milliseconds
     let debugInfo: [String: Any]  // Debug info from parser
+    let timing: [String: Double]  // Stage durations in fractional milliseconds
+    let debug: DebugDetails?  // Only when detect(debug: true)
+  }
+
+  /// Diagnostics collected by detect(debug: true)
+  struct DebugDetails {
+    let numPredictions: Int
+    let candidates: [NMS.Detection]  // Best-class parse output before NMS
+    let maxClassScores: [String: Float]  // Highest score of each class over all predictions
+    let outputShape: [NSNumber]
+    let outputLayout: ModelConfig.OutputLayout
+    let letterbox: ImageDecoder.LetterboxInfo
+    let timing: [String: Double]  // Stage durations in fractional milliseconds
   }
 
   private var wrapper: ONNXWrapper?
   private let parser: YOLOParser
+  private let classLabels: [String]
   private let inputSize: Int
+  private let config: ModelConfig
+  private let runtimeOptions: RuntimeOptions
+
+  /// Execution provider the session loaded with (nil before loadModel)
+  var executionProvider: String? {
+    return wrapper?.executionProvider
+  }
 
-  init(classLabels: [String], inputSize: Int = 320) {
-    self.parser = YOLOParser(classLabels: classLabels, inputSize: inputSize)
+  /// Model inputs as reported by ONNX Runtime, each {name, shape, type} (empty before loadModel)
+  var inputMetadata: [[String: Any]] {
+    return wrapper?.inputMetadata ?? []
+  }
+
+  /// Model outputs, same format as inputMetadata
+  var outputMetadata: [[String: Any]] {
+    return wrapper?.outputMetadata ?? []
+  }
+
+  /// Shape of the configured output from the last inference (empty before the first)
+  var lastOutputShape: [Int] {
+    return wrapper?.lastOutputShape.map { $0.intValue } ?? []
+  }
+
+  init(
+    classLabels: [String],
+    inputSize: Int = 320,
+    config: ModelConfig = .nudeNetDefault,
+    runtimeOptions: RuntimeOptions = .defaults
+  ) {
+    self.parser = YOLOParser(classLabels: classLabels, inputSize: inputSize, layout: config.outputLayout)
+    self.classLabels = classLabels
     self.inputSize = inputSize
+    self.config = config
+    self.runtimeOptions = runtimeOptions
   }
 
   /// Load ONNX model from file path
@@ -37,32 +83,62 @@ class ONNXInference {
 
     do {
       // Swift auto-bridges ObjC (NSError **) parameter to throwing function
-      wrapper = try ONNXWrapper(modelPath: modelPath)
+      wrapper = try ONNXWrapper(
+        modelPath: modelPath,
+        inputName: config.inputName,
+        outputName: config.outputName,
+        providers: runtimeOptions.executionProviders.map { $0.rawValue },
+        intraOpNumThreads: runtimeOptions.intraOpNumThreads,
+        optimizationLevel: runtimeOptions.graphOptimizationLevel.rawValue
+      )
 
       guard wrapper?.isModelLoaded == true else {
         throw InferenceError.sessionCreationFailed
       }
 
-      NSLog("[ONNXInference] ✓ Model loaded successfully")
+      NSLog("[ONNXInference] ✓ Model loaded successfully (%@)", wrapper?.executionProvider ?? "cpu")
     } catch {
       NSLog("[ONNXInference] ERROR: Failed to load model: %@", error.localizedDescription)
       throw InferenceError.sessionCreationFailed
     }
   }
 
+  /// Run one inference on an all-zero input so provider compilation and
+  /// allocations happen now instead of in the first detect()
+  /// - Returns: Warm-up duration in milliseconds
+  func warmUp() throws -> Int {
+    guard let wrapper = wrapper, wrapper.isModelLoaded else {
+      throw InferenceError.modelNotLoaded
+    }
+
+    let start = Date()
+    let inputData = [NSNumber](repeating: 0, count: 3 * inputSize * inputSize)
+    let inputShape: [NSNumber] = [1, 3, NSNumber(value: inputSize), NSNumber(value: inputSize)]
+    do {
+      _ = try wrapper.runInference(withInputData: inputData, inputShape: inputShape)
+    } catch {
+      throw InferenceError.inferenceFailedNot(error.localizedDescription)
+    }
+    return Int(Date().timeIntervalSince(start) * 1000)
+  }
+
   /// Run full inference pipeline: decode → inference → parse → NMS
   /// Matches NudeNet Python processing exactly
   ///
   /// - Parameters:
-  ///   - imageUri: file:// URI to image
+  ///   - image: File/data URI, Photos asset or raw RGBA pixels
   ///   - confidenceThreshold: Minimum confidence score (default 0.6)
   ///   - iouThreshold: IoU threshold for NMS (default 0.45)
+  ///   - policy: Content policy deciding which detections are flagged (default NudeNet exposed classes)
+  ///   - debug: Collect pre-NMS candidates, per-class max scores and a stage timing breakdown
   /// - Returns: Inference result with filtered detections and timing info
   /// - Throws: InferenceError or ImageDecoder.DecodeError
   func detect(
-    imageUri: String,
+    image: ImageDecoder.Source,
     confidenceThreshold: Float = 0.6,
-    iouThreshold: Float = 0.45
+    iouThreshold: Float = 0.45,
+    policy: ContentPolicy = .nudeNetDefault,
+    debug: Bool = false
   ) throws -> InferenceResult {
 
     let totalStart = Date()
@@ -71,21 +147,23 @@ class ONNXInference {
       throw InferenceError.modelNotLoaded
     }
 
-    // Step 1: Decode and resize image (with letterbox padding like NudeNet Python)
+    // Step 1: Decode and resize image (with letterbox padding like NudeNet Python by default)
     NSLog("[ONNXInference] Step 1: Decoding image...")
-    let decoded = try ImageDecoder.decode(imageUri: imageUri, targetSize: inputSize)
+    let decoded = try ImageDecoder.decode(source: image, targetSize: inputSize, letterbox: config.letterbox)
     let originalWidth = decoded.originalWidth
     let originalHeight = decoded.originalHeight
     NSLog("[ONNXInference] Original dimensions: %d x %d", originalWidth, originalHeight)
+    let decodeTime = milliseconds(since: totalStart)
 
     // Step 2: Convert to NCHW format for ONNX
     NSLog("[ONNXInference] Step 2: Converting to NCHW tensor format...")
+    let preprocessStart = Date()
     let tensorData = convertToNCHW(hwcData: decoded.data, width: inputSize, height: inputSize)
+    let preprocessTime = milliseconds(since: preprocessStart)
 
     // Step 3: Run inference via ObjC wrapper
     NSLog("[ONNXInference] Step 3: Running ONNX inference...")
     let inferenceStart = Date()
-
     let inputData = tensorData.map { NSNumber(value: $0) }
     let inputShape: [NSNumber] = [1, 3, NSNumber(value: inputSize), NSNumber(value: inputSize)]
 
@@ -111,26 +189,35 @@ class ONNXInference {
       output: floatArray,
       confidenceThreshold: confidenceThreshold,
       originalWidth: originalWidth,
-      originalHeight: originalHeight
+      originalHeight: originalHeight,
+      letterbox: decoded.letterbox
     )
+    let parseTime = milliseconds(since: postProcessStart)
 
     // Step 5: Apply NMS (matches NudeNet Python cv2.dnn.NMSBoxes)
     NSLog("[ONNXInference] Step 5: Applying NMS with IoU threshold %.2f...", iouThreshold)
+    let nmsStart = Date()
     let filteredDetections = NMS.apply(detections: rawDetections, iouThreshold: iouThreshold)
+    let nmsTime = milliseconds(since: nmsStart)
 
-    // Step 6: ALSO get all-class detections for NSFW that might be suppressed
+    // Step 6: ALSO get all-class detections for flagged classes that might be suppressed
     // This catches NSFW when face has higher score at same location
     NSLog("[ONNXInference] Step 6: Parsing all classes for NSFW recovery...")
+    let recoveryStart = Date()
     let allClassDetections = parser.parseAllClasses(
       output: floatArray,
-      confidenceThreshold: confidenceThreshold,
+      confidenceThreshold: policy.recoveryThreshold(fallback: confidenceThreshold),
       originalWidth: originalWidth,
-      originalHeight: originalHeight
+      originalHeight: originalHeight,
+      letterbox: decoded.letterbox
     )
 
-    // Filter to only NSFW classes from the all-class parse
-    let nsfwClassIndices = Set([2, 3, 4, 6, 14])
-    let nsfwFromAllClass = allClassDetections.filter { nsfwClassIndices.contains($0.classIndex) }
+    // Filter to only the policy's flagged classes from the all-class parse
+    let nsfwClassIndices = policy.flaggedClassIndices(classLabels: classLabels)
+    let nsfwFromAllClass = allClassDetections.filter {
+      nsfwClassIndices.contains($0.classIndex) &&
+      $0.score >= policy.threshold(for: $0.className, fallback: confidenceThreshold)
+    }
 
     // Apply NMS to NSFW-only detections (separate from faces)
     let nsfwFiltered = NMS.apply(detections: nsfwFromAllClass, iouThreshold: iouThreshold)
@@ -152,33 +239,106 @@ class ONNXInference {
     NSLog("[ONNXInference] Final: %d standard + %d NSFW-recovered = %d total",
           filteredDetections.count, nsfwFiltered.count, finalDetections.count)
 
+    let flaggedDetections = finalDetections.filter {
+      policy.isFlagged($0, imageWidth: originalWidth, imageHeight: originalHeight, fallbackThreshold: confidenceThreshold)
+    }
+    let recoveryTime = milliseconds(since: recoveryStart)
+
     let postProcessTime = Int(Date().timeIntervalSince(postProcessStart) * 1000)
     let totalTime = Int(Date().timeIntervalSince(totalStart) * 1000)
+    let timing: [String: Double] = [
+      "decode": decodeTime,
+      "preprocess": preprocessTime,
+      "inference": milliseconds(since: inferenceStart, until: postProcessStart),
+      "parse": parseTime,
+      "nms": nmsTime,
+      "recovery": recoveryTime,
+      "total": milliseconds(since: totalStart)
+    ]
 
     NSLog("[ONNXInference] ✓ Complete: %d detections in %dms total (inference: %dms, post-process: %dms)",
           finalDetections.count, totalTime, inferenceTime, postProcessTime)
 
     return InferenceResult(
       detections: finalDetections,
+      flaggedDetections: flaggedDetections,
+      decodeTime: Int(decodeTime),
       inferenceTime: inferenceTime,
       postProcessTime: postProcessTime,
       totalTime: totalTime,
-      debugInfo: parser.lastDebugInfo
+      debugInfo: parser.lastDebugInfo,
+      timing: timing,
+      debug: debug ? DebugDetails(
+        numPredictions: parser.lastDebugInfo["numPredictions"] as? Int ?? 0,
+        candidates: rawDetections,
+        maxClassScores: Dictionary(zip(classLabels, parser.lastMaxClassScores), uniquingKeysWith: { first, _ in first }),
+        outputShape: wrapper.lastOutputShape,
+        outputLayout: config.outputLayout,
+        letterbox: decoded.letterbox,
+        timing: timing.filter { $0.key != "total" }
+      ) : nil
     )
   }
 
+  /// Output of the configured output tensor for one image
+  struct RawOutput {
+    let values: [Float]
+    let shape: [NSNumber]
+    let inferenceTime: Int  // milliseconds
+  }
+
+  /// Decode, preprocess and run one image without YOLO post-processing
+  /// Classifier and embedder heads read the output tensor themselves
+  /// - Parameter image: File/data URI, Photos asset or raw RGBA pixels
+  /// - Returns: The output tensor and the ONNX run time
+  /// - Throws: InferenceError or ImageDecoder.DecodeError
+  func run(image: ImageDecoder.Source) throws -> RawOutput {
+    guard let wrapper = wrapper, wrapper.isModelLoaded else {
+      throw InferenceError.modelNotLoaded
+    }
+
+    let decoded = try ImageDecoder.decode(source: image, targetSize: inputSize, letterbox: config.letterbox)
+    let tensorData = convertToNCHW(hwcData: decoded.data, width: inputSize, height: inputSize)
+
+    let inferenceStart = Date()
+    let inputShape: [NSNumber] = [1, 3, NSNumber(value: inputSize), NSNumber(value: inputSize)]
+    let outputArray: [NSNumber]
+    do {
+      outputArray = try wrapper.runInference(withInputData: tensorData.map { NSNumber(value: $0) }, inputShape: inputShape)
+    } catch {
+      NSLog("[ONNXInference] ERROR: Inference failed: %@", error.localizedDescription)
+      throw InferenceError.inferenceFailedNot(error.localizedDescription)
+    }
+
+    return RawOutput(
+      values: outputArray.map { $0.floatValue },
+      shape: wrapper.lastOutputShape,
+      inferenceTime: Int(Date().timeIntervalSince(inferenceStart) * 1000)
+    )
+  }
+
+  /// Fractional milliseconds between two instants, for the debug timing breakdown
+  private func milliseconds(since start: Date, until end: Date = Date()) -> Double {
+    return end.timeIntervalSince(start) * 1000
+  }
+
   /// Convert HWC (Height, Width, Channels) to NCHW (Batch, Channels, Height, Width)
+  /// Applies the model's channel order and mean/std normalization
   private func convertToNCHW(hwcData: [Float], width: Int, height: Int) -> [Float] {
     var nchwData = [Float](repeating: 0, count: 3 * height * width)
 
+    // Source offsets within an RGB pixel for tensor channels 0 and 2
+    let first = config.channelOrder == .rgb ? 0 : 2
+    let last = 2 - first
+
     for y in 0..<height {
       for x in 0..<width {
         let hwcIndex = (y * width + x) * 3
         let baseIndex = y * width + x
 
-        nchwData[baseIndex] = hwcData[hwcIndex]                        // R channel
-        nchwData[height * width + baseIndex] = hwcData[hwcIndex + 1]   // G channel
-        nchwData[2 * height * width + baseIndex] = hwcData[hwcIndex + 2]  // B channel
+        nchwData[baseIndex] = config.normalize(hwcData[hwcIndex + first], channel: 0)                    // R (B for BGR)
+        nchwData[height * width + baseIndex] = config.normalize(hwcData[hwcIndex + 1], channel: 1)       // G channel
+        nchwData[2 * height * width + baseIndex] = config.normalize(hwcData[hwcIndex + last], channel: 2)  // B (R for BGR)
       }
     }
 
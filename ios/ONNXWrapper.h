@@ -10,6 +10,26 @@ NS_ASSUME_NONNULL_BEGIN
 - (nullable instancetype)initWithModelPath:(NSString *)modelPath
                                      error:(NSError **)error;
 
+/// Initialize wrapper with model path and explicit tensor names
+/// @param inputName Input tensor name, or nil for the model's first input
+/// @param outputName Output tensor name, or nil for the model's first output
+- (nullable instancetype)initWithModelPath:(NSString *)modelPath
+                                 inputName:(nullable NSString *)inputName
+                                outputName:(nullable NSString *)outputName
+                                     error:(NSError **)error;
+
+/// Initialize wrapper with explicit tensor names and session settings
+/// @param providers Execution providers to try in order ("coreml", "xnnpack", "cpu"); the first one whose session loads is used
+/// @param intraOpNumThreads Intra-op thread count, or 0 for the ONNX Runtime default
+/// @param optimizationLevel Graph optimization level: "disabled", "basic", "extended" or "all"
+- (nullable instancetype)initWithModelPath:(NSString *)modelPath
+                                 inputName:(nullable NSString *)inputName
+                                outputName:(nullable NSString *)outputName
+                                 providers:(NSArray<NSString *> *)providers
+                         intraOpNumThreads:(NSInteger)intraOpNumThreads
+                         optimizationLevel:(NSString *)optimizationLevel
+                                     error:(NSError **)error;
+
 /// Run inference on preprocessed input data
 /// @param inputData Float array of preprocessed image data (NCHW format)
 /// @param inputShape Shape of input tensor [1, 3, height, width]
@@ -19,6 +39,9 @@ NS_ASSUME_NONNULL_BEGIN
                                                  inputShape:(NSArray<NSNumber *> *)inputShape
                                                       error:(NSError **)error;
 
+/// Execution providers compiled into ONNX Runtime, e.g. CoreMLExecutionProvider, CPUExecutionProvider
++ (NSArray<NSString *> *)availableProviders;
+
 /// Check if model is loaded
 @property (nonatomic, readonly) BOOL isModelLoaded;
 
@@ -26,6 +49,18 @@ NS_ASSUME_NONNULL_BEGIN
 @property (nonatomic, readonly) NSInteger inputWidth;
 @property (nonatomic, readonly) NSInteger inputHeight;
 
+/// Execution provider the session was created with ("coreml", "xnnpack" or "cpu")
+@property (nonatomic, readonly, copy) NSString *executionProvider;
+
+/// Shape of the output tensor from the last successful inference (empty before the first run)
+@property (nonatomic, readonly, copy) NSArray<NSNumber *> *lastOutputShape;
+
+/// Model inputs in session order, each {name, shape, type}; dynamic dimensions are -1
+@property (nonatomic, readonly, copy) NSArray<NSDictionary<NSString *, id> *> *inputMetadata;
+
+/// Model outputs in session order, same format as inputMetadata
+@property (nonatomic, readonly, copy) NSArray<NSDictionary<NSString *, id> *> *outputMetadata;
+
 @end
 
 NS_ASSUME_NONNULL_END
@@ -1,48 +1,183 @@
 #import "ONNXWrapper.h"
 #include "onnxruntime/coreml_provider_factory.h"
 #include <onnxruntime/onnxruntime_cxx_api.h>
+#include <stdexcept>
+#include <string>
 #include <vector>
 
 @interface ONNXWrapper () {
     std::unique_ptr<Ort::Env> _env;
     std::unique_ptr<Ort::Session> _session;
     Ort::AllocatorWithDefaultOptions _allocator;
+    std::string _inputName;
+    std::string _outputName;
 }
 @property (nonatomic, assign) NSInteger inputWidth;
 @property (nonatomic, assign) NSInteger inputHeight;
+@property (nonatomic, copy) NSArray<NSNumber *> *lastOutputShape;
+@property (nonatomic, copy) NSString *executionProvider;
+@property (nonatomic, copy) NSArray<NSDictionary<NSString *, id> *> *inputMetadata;
+@property (nonatomic, copy) NSArray<NSDictionary<NSString *, id> *> *outputMetadata;
 @end
 
+/// Return the configured name if the model has it, else the first name; throws if it is missing
+static std::string ResolveTensorName(NSString *_Nullable name, const std::vector<std::string>& names) {
+    if (names.empty()) {
+        throw std::runtime_error("Model has no tensors of this kind");
+    }
+    if (name == nil) {
+        return names[0];
+    }
+    std::string wanted = [name UTF8String];
+    for (const std::string& candidate : names) {
+        if (candidate == wanted) {
+            return wanted;
+        }
+    }
+    throw std::runtime_error("Tensor '" + wanted + "' not found in model");
+}
+
+/// ONNX name of a tensor element type, e.g. "float", "uint8", "int64"
+static NSString *ElementTypeName(ONNXTensorElementDataType type) {
+    switch (type) {
+        case ONNX_TENSOR_ELEMENT_DATA_TYPE_FLOAT: return @"float";
+        case ONNX_TENSOR_ELEMENT_DATA_TYPE_UINT8: return @"uint8";
+        case ONNX_TENSOR_ELEMENT_DATA_TYPE_INT8: return @"int8";
+        case ONNX_TENSOR_ELEMENT_DATA_TYPE_UINT16: return @"uint16";
+        case ONNX_TENSOR_ELEMENT_DATA_TYPE_INT16: return @"int16";
+        case ONNX_TENSOR_ELEMENT_DATA_TYPE_INT32: return @"int32";
+        case ONNX_TENSOR_ELEMENT_DATA_TYPE_INT64: return @"int64";
+        case ONNX_TENSOR_ELEMENT_DATA_TYPE_STRING: return @"string";
+        case ONNX_TENSOR_ELEMENT_DATA_TYPE_BOOL: return @"bool";
+        case ONNX_TENSOR_ELEMENT_DATA_TYPE_FLOAT16: return @"float16";
+        case ONNX_TENSOR_ELEMENT_DATA_TYPE_DOUBLE: return @"double";
+        case ONNX_TENSOR_ELEMENT_DATA_TYPE_UINT32: return @"uint32";
+        case ONNX_TENSOR_ELEMENT_DATA_TYPE_UINT64: return @"uint64";
+        case ONNX_TENSOR_ELEMENT_DATA_TYPE_BFLOAT16: return @"bfloat16";
+        default: return @"undefined";
+    }
+}
+
+/// {name, shape, type} of one session input or output; non-tensor values get an empty shape
+static NSDictionary<NSString *, id> *TensorMetadata(const std::string& name, const Ort::TypeInfo& typeInfo) {
+    NSMutableArray<NSNumber *> *shape = [NSMutableArray array];
+    NSString *type = @"undefined";
+    if (typeInfo.GetONNXType() == ONNX_TYPE_TENSOR) {
+        auto tensorInfo = typeInfo.GetTensorTypeAndShapeInfo();
+        for (int64_t dim : tensorInfo.GetShape()) {
+            // Symbolic dimensions come back as -1 (or 0 from some exporters)
+            [shape addObject:@(dim > 0 ? dim : -1)];
+        }
+        type = ElementTypeName(tensorInfo.GetElementType());
+    }
+    return @{@"name": [NSString stringWithUTF8String:name.c_str()], @"shape": shape, @"type": type};
+}
+
+/// Map a JS graph optimization level name to ORT's enum (unknown names mean "all")
+static GraphOptimizationLevel OptimizationLevel(NSString *name) {
+    if ([name isEqualToString:@"disabled"]) return GraphOptimizationLevel::ORT_DISABLE_ALL;
+    if ([name isEqualToString:@"basic"]) return GraphOptimizationLevel::ORT_ENABLE_BASIC;
+    if ([name isEqualToString:@"extended"]) return GraphOptimizationLevel::ORT_ENABLE_EXTENDED;
+    return GraphOptimizationLevel::ORT_ENABLE_ALL;
+}
+
+/// Session options for one provider of the fallback chain; throws if the provider can't be added
+static Ort::SessionOptions MakeSessionOptions(const std::string& provider, int intraOpNumThreads, GraphOptimizationLevel level) {
+    Ort::SessionOptions sessionOptions;
+    if (intraOpNumThreads > 0) {
+        sessionOptions.SetIntraOpNumThreads(intraOpNumThreads);
+    }
+    sessionOptions.SetGraphOptimizationLevel(level);
+
+    if (provider == "coreml") {
+        // Subgraphs CoreML can't run stay on CPU
+        uint32_t coreml_flags = 0;
+        coreml_flags |= COREML_FLAG_ENABLE_ON_SUBGRAPH;
+        Ort::ThrowOnError(OrtSessionOptionsAppendExecutionProvider_CoreML(sessionOptions, coreml_flags));
+    } else if (provider == "xnnpack") {
+        std::string threads = std::to_string(intraOpNumThreads > 0 ? intraOpNumThreads : 1);
+        sessionOptions.AppendExecutionProvider("XNNPACK", {{"intra_op_num_threads", threads}});
+    } else if (provider != "cpu") {
+        throw std::runtime_error("Execution provider '" + provider + "' is not supported on iOS");
+    }
+    return sessionOptions;
+}
+
 @implementation ONNXWrapper
 
 - (nullable instancetype)initWithModelPath:(NSString *)modelPath error:(NSError **)error {
+    return [self initWithModelPath:modelPath inputName:nil outputName:nil error:error];
+}
+
+- (nullable instancetype)initWithModelPath:(NSString *)modelPath
+                                 inputName:(nullable NSString *)inputName
+                                outputName:(nullable NSString *)outputName
+                                     error:(NSError **)error {
+    return [self initWithModelPath:modelPath
+                         inputName:inputName
+                        outputName:outputName
+                         providers:@[@"coreml", @"cpu"]
+                 intraOpNumThreads:1
+                 optimizationLevel:@"all"
+                             error:error];
+}
+
+- (nullable instancetype)initWithModelPath:(NSString *)modelPath
+                                 inputName:(nullable NSString *)inputName
+                                outputName:(nullable NSString *)outputName
+                                 providers:(NSArray<NSString *> *)providers
+                         intraOpNumThreads:(NSInteger)intraOpNumThreads
+                         optimizationLevel:(NSString *)optimizationLevel
+                                     error:(NSError **)error {
     self = [super init];
     if (self) {
         try {
             // Create ONNX Runtime environment
             _env = std::make_unique<Ort::Env>(ORT_LOGGING_LEVEL_WARNING, "VisionML");
 
-            // Create session options with CoreML acceleration
-            Ort::SessionOptions sessionOptions;
-            sessionOptions.SetIntraOpNumThreads(1);
-            sessionOptions.SetGraphOptimizationLevel(GraphOptimizationLevel::ORT_ENABLE_ALL);
-
-            // Try to add CoreML execution provider for GPU acceleration
-            try {
-                uint32_t coreml_flags = 0;
-                coreml_flags |= COREML_FLAG_ENABLE_ON_SUBGRAPH;
-                OrtSessionOptionsAppendExecutionProvider_CoreML(sessionOptions, coreml_flags);
-            } catch (...) {
-                // CoreML provider is optional - continue even if it fails
-                NSLog(@"[ONNXWrapper] CoreML provider not available, using CPU");
+            // Try each provider in order; a provider that can't be appended or
+            // fails to compile the model falls through to the next one
+            std::string pathStr = [modelPath UTF8String];
+            std::string lastError = "No execution providers given";
+            for (NSString *provider in providers) {
+                try {
+                    Ort::SessionOptions sessionOptions = MakeSessionOptions(
+                        [provider UTF8String], (int)intraOpNumThreads, OptimizationLevel(optimizationLevel));
+                    _session = std::make_unique<Ort::Session>(*_env, pathStr.c_str(), sessionOptions);
+                    _executionProvider = [provider copy];
+                    break;
+                } catch (const std::exception& e) {
+                    lastError = e.what();
+                    NSLog(@"[ONNXWrapper] %@ provider failed, trying next: %s", provider, e.what());
+                }
+            }
+            if (!_session) {
+                throw std::runtime_error(lastError);
             }
+            NSLog(@"[ONNXWrapper] Session created with %@ provider", _executionProvider);
 
-            // Create session
-            std::string pathStr = [modelPath UTF8String];
-            _session = std::make_unique<Ort::Session>(*_env, pathStr.c_str(), sessionOptions);
+            // Resolve tensor names once (first input/output unless configured)
+            NSMutableArray<NSDictionary<NSString *, id> *> *inputMetadata = [NSMutableArray array];
+            std::vector<std::string> inputNames;
+            for (size_t i = 0; i < _session->GetInputCount(); i++) {
+                inputNames.push_back(_session->GetInputNameAllocated(i, _allocator).get());
+                [inputMetadata addObject:TensorMetadata(inputNames.back(), _session->GetInputTypeInfo(i))];
+            }
+            NSMutableArray<NSDictionary<NSString *, id> *> *outputMetadata = [NSMutableArray array];
+            std::vector<std::string> outputNames;
+            for (size_t i = 0; i < _session->GetOutputCount(); i++) {
+                outputNames.push_back(_session->GetOutputNameAllocated(i, _allocator).get());
+                [outputMetadata addObject:TensorMetadata(outputNames.back(), _session->GetOutputTypeInfo(i))];
+            }
+            _inputMetadata = inputMetadata;
+            _outputMetadata = outputMetadata;
+            _inputName = ResolveTensorName(inputName, inputNames);
+            _outputName = ResolveTensorName(outputName, outputNames);
 
             // Default dimensions for YOLO models
             _inputWidth = 320;
             _inputHeight = 320;
+            _lastOutputShape = @[];
 
             NSLog(@"[ONNXWrapper] Model loaded successfully");
 
@@ -65,6 +200,18 @@
     return self;
 }
 
++ (NSArray<NSString *> *)availableProviders {
+    NSMutableArray<NSString *> *providers = [NSMutableArray array];
+    try {
+        for (const std::string& provider : Ort::GetAvailableProviders()) {
+            [providers addObject:[NSString stringWithUTF8String:provider.c_str()]];
+        }
+    } catch (const std::exception& e) {
+        NSLog(@"[ONNXWrapper] Could not list execution providers: %s", e.what());
+    }
+    return providers;
+}
+
 - (BOOL)isModelLoaded {
     return _session != nullptr;
 }
@@ -112,12 +259,9 @@
             shape.size()
         );
 
-        // Get input/output names
-        Ort::AllocatedStringPtr inputNamePtr = _session->GetInputNameAllocated(0, _allocator);
-        Ort::AllocatedStringPtr outputNamePtr = _session->GetOutputNameAllocated(0, _allocator);
-
-        const char* inputNames[] = {inputNamePtr.get()};
-        const char* outputNames[] = {outputNamePtr.get()};
+        // Input/output names resolved at load time
+        const char* inputNames[] = {_inputName.c_str()};
+        const char* outputNames[] = {_outputName.c_str()};
 
         // Run inference
         std::vector<Ort::Value> outputs = _session->Run(
@@ -143,6 +287,12 @@
         auto typeInfo = outputTensor.GetTensorTypeAndShapeInfo();
         size_t outputCount = typeInfo.GetElementCount();
 
+        NSMutableArray<NSNumber *> *outputShape = [NSMutableArray array];
+        for (int64_t dim : typeInfo.GetShape()) {
+            [outputShape addObject:@(dim)];
+        }
+        self.lastOutputShape = outputShape;
+
         float* outputData = outputTensor.GetTensorMutableData<float>();
 
         // Convert to NSArray<NSNumber *>
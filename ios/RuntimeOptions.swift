@@ -0,0 +1,79 @@
+import Foundation
+
+/// ONNX Runtime session settings for a detector
+/// Defaults match the previous behavior: CoreML with CPU fallback, one intra-op thread, all graph optimizations
+struct RuntimeOptions {
+
+  /// Execution providers, tried in order until a session loads
+  enum ExecutionProvider: String {
+    case coreml
+    case xnnpack
+    case cpu
+  }
+
+  /// Graph optimization level (ORT_DISABLE_ALL ... ORT_ENABLE_ALL)
+  enum GraphOptimizationLevel: String {
+    case disabled
+    case basic
+    case extended
+    case all
+  }
+
+  /// Providers to try in order; always ends with .cpu
+  let executionProviders: [ExecutionProvider]
+  /// Intra-op thread count (0 = let ONNX Runtime decide)
+  let intraOpNumThreads: Int
+  let graphOptimizationLevel: GraphOptimizationLevel
+  /// Run one inference on a blank input right after loading
+  let warmup: Bool
+
+  static let defaults = RuntimeOptions(
+    executionProviders: [.coreml],
+    intraOpNumThreads: 1,
+    graphOptimizationLevel: .all,
+    warmup: false
+  )
+
+  init(
+    executionProviders: [ExecutionProvider],
+    intraOpNumThreads: Int,
+    graphOptimizationLevel: GraphOptimizationLevel,
+    warmup: Bool
+  ) {
+    // CPU is the last resort of every chain; nothing after it is ever tried
+    var chain: [ExecutionProvider] = []
+    for provider in executionProviders where !chain.contains(provider) {
+      chain.append(provider)
+      if provider == .cpu { break }
+    }
+    if chain.last != .cpu {
+      chain.append(.cpu)
+    }
+
+    self.executionProviders = chain
+    self.intraOpNumThreads = max(0, intraOpNumThreads)
+    self.graphOptimizationLevel = graphOptimizationLevel
+    self.warmup = warmup
+  }
+
+  /// Build options from the JS bridge dictionary; missing keys keep the defaults
+  /// Providers that don't exist on iOS (e.g. "nnapi") are skipped.
+  init(dictionary: NSDictionary?) {
+    let defaults = RuntimeOptions.defaults
+    guard let dictionary = dictionary else {
+      self = defaults
+      return
+    }
+
+    let providers = (dictionary["executionProviders"] as? [String])?
+      .compactMap(ExecutionProvider.init(rawValue:))
+
+    self.init(
+      executionProviders: providers ?? defaults.executionProviders,
+      intraOpNumThreads: (dictionary["intraOpNumThreads"] as? NSNumber)?.intValue ?? defaults.intraOpNumThreads,
+      graphOptimizationLevel: (dictionary["graphOptimizationLevel"] as? String)
+        .flatMap(GraphOptimizationLevel.init(rawValue:)) ?? defaults.graphOptimizationLevel,
+      warmup: (dictionary["warmup"] as? Bool) ?? defaults.warmup
+    )
+  }
+}
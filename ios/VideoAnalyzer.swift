@@ -22,6 +22,40 @@ enum VideoScanMode: String {
 
   /// Full scan with short-circuit - check every N seconds until first detection
   case fullWithShortCircuit = "full_short_circuit"
+
+  /// Adaptive - sample at intervals, then densify around frames scoring near the threshold
+  /// Expands in rounds like binary search, but around uncertain frames instead of hits
+  case adaptive = "adaptive"
+}
+
+/// Video to analyze, from the JS `{ uri }` / `{ assetId }` dictionary
+enum VideoSource {
+  /// Photos library local identifier
+  case asset(String)
+  /// Video file outside the library (recorded or downloaded clips)
+  case file(URL)
+
+  init(dictionary: NSDictionary) throws {
+    if let assetId = dictionary["assetId"] as? String {
+      self = .asset(assetId)
+    } else if let uri = dictionary["uri"] as? String {
+      if let url = URL(string: uri), url.scheme == "file" {
+        self = .file(url)
+      } else {
+        self = .file(URL(fileURLWithPath: uri))
+      }
+    } else {
+      throw VideoAnalyzerError.failedToLoadVideo
+    }
+  }
+}
+
+/// Part of the video a scan covers (seconds)
+struct ScanWindow {
+  let start: Double
+  let end: Double
+
+  var length: Double { end - start }
 }
 
 /// Result from analyzing a single frame
@@ -30,6 +64,10 @@ struct FrameAnalysisResult {
   let isNSFW: Bool
   let confidence: Float
   let detections: [NMS.Detection]
+  let flaggedDetections: [NMS.Detection]  // Subset of detections flagged by the content policy
+  let width: Int  // Analyzed frame size (downscaled to the model input), the space of the boxes
+  let height: Int
+  let nearThreshold: Bool  // A flagged label scored within the adaptive margin of its threshold (adaptive mode only)
   let processingTime: Int  // ms
 }
 
@@ -43,8 +81,19 @@ struct VideoAnalysisResult {
   let highestConfidence: Float
   let totalProcessingTime: Int  // ms
   let videoDuration: Double  // seconds
+  let startTime: Double  // scanned window (seconds)
+  let endTime: Double
   let scanMode: String
   let humanFramesDetected: Int  // frames where Vision detected humans (for thorough mode)
+  let frames: [FrameAnalysisResult]  // every analyzed frame in timestamp order
+}
+
+/// Phase of a running scan, reported alongside progress
+enum VideoScanPhase: String {
+  /// Vision human pre-filter pass (thorough mode only)
+  case humanScan = "human_scan"
+  /// ONNX analysis of sampled frames
+  case analyzing = "analyzing"
 }
 
 /// Delegate protocol for progress and Live Activity updates
@@ -64,19 +113,29 @@ class VideoAnalyzer {
   private let detector: ONNXInference
   private let inputSize: Int
 
-  // NSFW class indices from NudeNet model
-  private let nsfwClassIndices = Set([2, 3, 4, 6, 14])
+  // Decides which detections make a frame NSFW
+  private let policy: ContentPolicy
 
   // Configuration
   private var sampleInterval: Double = 5.0
   private let quickCheckPoints: [Double] = [0.0, 0.5, 1.0]  // start, middle, end (as ratio)
+  private let adaptiveMargin: Float = 0.15  // score distance from a threshold that counts as near
+  private let adaptiveMinInterval = 0.5  // seconds; refinement stops below this spacing
+  private let adaptiveDepth = 3  // refinement rounds
+  private var detectsNearMisses = false
 
   // State for cancellation
-  private var isCancelled = false
+  private(set) var isCancelled = false
+
+  // Running counters, readable from delegate callbacks
+  private(set) var framesAnalyzed = 0
+  private(set) var nsfwFrameCount = 0
+  private(set) var phase: VideoScanPhase = .analyzing
 
-  init(detector: ONNXInference, inputSize: Int = 640) {
+  init(detector: ONNXInference, inputSize: Int = 640, policy: ContentPolicy = .nudeNetDefault) {
     self.detector = detector
     self.inputSize = inputSize
+    self.policy = policy
   }
 
   func cancel() {
@@ -85,40 +144,64 @@ class VideoAnalyzer {
 
   // MARK: - Public API
 
-  /// Analyze a video from PHAsset
+  /// Analyze a video from the Photos library or a file
+  /// - Parameters:
+  ///   - startTime: Start of the scanned window in seconds (nil = 0)
+  ///   - endTime: End of the scanned window in seconds, clamped to the duration (nil = duration)
   func analyzeVideo(
-    assetId: String,
+    source: VideoSource,
     mode: VideoScanMode,
     sampleInterval: Double? = nil,
-    confidenceThreshold: Float = 0.6
+    confidenceThreshold: Float = 0.6,
+    startTime: Double? = nil,
+    endTime: Double? = nil
   ) throws -> VideoAnalysisResult {
 
-    isCancelled = false
+    // isCancelled is not reset: a cancel() that arrives before the scan starts still applies
+    framesAnalyzed = 0
+    nsfwFrameCount = 0
+    phase = .analyzing
     self.sampleInterval = sampleInterval ?? 5.0
+    detectsNearMisses = mode == .adaptive
 
-    guard let phAsset = PHAsset.fetchAssets(withLocalIdentifiers: [assetId], options: nil).firstObject,
-          phAsset.mediaType == .video else {
-      throw VideoAnalyzerError.assetNotFound
+    let avAsset = try loadAVAsset(source)
+    let duration = CMTimeGetSeconds(avAsset.duration)
+    guard duration.isFinite else {
+      throw VideoAnalyzerError.failedToLoadVideo
     }
 
-    let avAsset = try getAVAsset(from: phAsset)
-    let duration = CMTimeGetSeconds(avAsset.duration)
+    let window = ScanWindow(start: max(0, startTime ?? 0), end: min(duration, endTime ?? duration))
+    if (startTime != nil || endTime != nil) && window.length <= 0 {
+      throw VideoAnalyzerError.invalidTimeRange
+    }
 
-    NSLog("[VideoAnalyzer] Video: %.1fs, mode: %@, interval: %.1fs", duration, mode.rawValue, self.sampleInterval)
+    NSLog("[VideoAnalyzer] Video: %.1fs, window: %.1f-%.1fs, mode: %@, interval: %.1fs",
+          duration, window.start, window.end, mode.rawValue, self.sampleInterval)
 
+    let result: VideoAnalysisResult
     switch mode {
     case .quickCheck:
-      return try analyzeQuickCheck(avAsset: avAsset, duration: duration, confidenceThreshold: confidenceThreshold)
+      result = try analyzeQuickCheck(avAsset: avAsset, duration: duration, window: window, confidenceThreshold: confidenceThreshold)
 
     case .sampled, .fullWithShortCircuit:
-      return try analyzeSampled(avAsset: avAsset, duration: duration, mode: mode, confidenceThreshold: confidenceThreshold)
+      result = try analyzeSampled(avAsset: avAsset, duration: duration, window: window, mode: mode, confidenceThreshold: confidenceThreshold)
 
     case .thorough:
-      return try analyzeThorough(avAsset: avAsset, duration: duration, confidenceThreshold: confidenceThreshold)
+      result = try analyzeThorough(avAsset: avAsset, duration: duration, window: window, confidenceThreshold: confidenceThreshold)
 
     case .binarySearch:
-      return try analyzeBinarySearch(avAsset: avAsset, duration: duration, confidenceThreshold: confidenceThreshold)
+      result = try analyzeBinarySearch(avAsset: avAsset, duration: duration, window: window, confidenceThreshold: confidenceThreshold)
+
+    case .adaptive:
+      result = try analyzeAdaptive(avAsset: avAsset, duration: duration, window: window, confidenceThreshold: confidenceThreshold)
+    }
+
+    // Partial results are discarded when the caller cancelled mid-scan
+    if isCancelled {
+      throw VideoAnalyzerError.cancelled
     }
+
+    return result
   }
 
   // MARK: - Quick Check (3 frames using AVAssetImageGenerator)
@@ -126,13 +209,14 @@ class VideoAnalyzer {
   private func analyzeQuickCheck(
     avAsset: AVAsset,
     duration: Double,
+    window: ScanWindow,
     confidenceThreshold: Float
   ) throws -> VideoAnalysisResult {
 
     let startTime = Date()
     var results: [FrameAnalysisResult] = []
 
-    let timestamps = quickCheckPoints.map { $0 * max(0.1, duration - 0.1) }
+    let timestamps = quickCheckPoints.map { window.start + $0 * max(0.1, window.length - 0.1) }
 
     let generator = createImageGenerator(for: avAsset)
 
@@ -149,7 +233,7 @@ class VideoAnalyzer {
       }
     }
 
-    return buildResult(results: results, duration: duration, mode: .quickCheck, startTime: startTime, humanFrames: 0)
+    return buildResult(results: results, duration: duration, window: window, mode: .quickCheck, startTime: startTime, humanFrames: 0)
   }
 
   // MARK: - Sampled Analysis (AVAssetImageGenerator at intervals)
@@ -157,6 +241,7 @@ class VideoAnalyzer {
   private func analyzeSampled(
     avAsset: AVAsset,
     duration: Double,
+    window: ScanWindow,
     mode: VideoScanMode,
     confidenceThreshold: Float
   ) throws -> VideoAnalysisResult {
@@ -164,17 +249,7 @@ class VideoAnalyzer {
     let startTime = Date()
     var results: [FrameAnalysisResult] = []
 
-    // Generate sample timestamps
-    var timestamps: [Double] = []
-    var t = 0.0
-    while t < duration {
-      timestamps.append(t)
-      t += sampleInterval
-    }
-    // Include near-end frame
-    if timestamps.last ?? 0 < duration - 1.0 {
-      timestamps.append(max(0, duration - 0.5))
-    }
+    let timestamps = sampledTimestamps(in: window)
 
     NSLog("[VideoAnalyzer] Sampling %d frames at %.1fs intervals", timestamps.count, sampleInterval)
 
@@ -200,7 +275,7 @@ class VideoAnalyzer {
       }
     }
 
-    return buildResult(results: results, duration: duration, mode: mode, startTime: startTime, humanFrames: 0)
+    return buildResult(results: results, duration: duration, window: window, mode: mode, startTime: startTime, humanFrames: 0)
   }
 
   // MARK: - Thorough Analysis (Vision human detection + ONNX)
@@ -208,6 +283,7 @@ class VideoAnalyzer {
   private func analyzeThorough(
     avAsset: AVAsset,
     duration: Double,
+    window: ScanWindow,
     confidenceThreshold: Float
   ) throws -> VideoAnalysisResult {
 
@@ -215,8 +291,9 @@ class VideoAnalyzer {
 
     // Step 1: Use Vision to find frames with humans (much faster than ONNX on all frames)
     NSLog("[VideoAnalyzer] Phase 1: Scanning for humans with Vision framework...")
+    phase = .humanScan
 
-    let humanTimestamps = try findHumanFrames(avAsset: avAsset, duration: duration)
+    let humanTimestamps = try findHumanFrames(avAsset: avAsset, window: window)
 
     NSLog("[VideoAnalyzer] Found %d frames with humans", humanTimestamps.count)
 
@@ -225,19 +302,23 @@ class VideoAnalyzer {
       return VideoAnalysisResult(
         isNSFW: false,
         nsfwFrameCount: 0,
-        totalFramesAnalyzed: Int(duration / sampleInterval),
+        totalFramesAnalyzed: Int(window.length / sampleInterval),
         firstNSFWTimestamp: nil,
         nsfwTimestamps: [],
         highestConfidence: 0,
         totalProcessingTime: Int(Date().timeIntervalSince(startTime) * 1000),
         videoDuration: duration,
+        startTime: window.start,
+        endTime: window.end,
         scanMode: VideoScanMode.thorough.rawValue,
-        humanFramesDetected: 0
+        humanFramesDetected: 0,
+        frames: []
       )
     }
 
     // Step 2: Run ONNX only on frames with humans
     NSLog("[VideoAnalyzer] Phase 2: Running ONNX on %d candidate frames...", humanTimestamps.count)
+    phase = .analyzing
 
     var results: [FrameAnalysisResult] = []
     let generator = createImageGenerator(for: avAsset)
@@ -258,7 +339,7 @@ class VideoAnalyzer {
       }
     }
 
-    return buildResult(results: results, duration: duration, mode: .thorough, startTime: startTime, humanFrames: humanTimestamps.count)
+    return buildResult(results: results, duration: duration, window: window, mode: .thorough, startTime: startTime, humanFrames: humanTimestamps.count)
   }
 
   // MARK: - Binary Search (fallback for older devices)
@@ -266,6 +347,7 @@ class VideoAnalyzer {
   private func analyzeBinarySearch(
     avAsset: AVAsset,
     duration: Double,
+    window: ScanWindow,
     confidenceThreshold: Float
   ) throws -> VideoAnalysisResult {
 
@@ -278,11 +360,11 @@ class VideoAnalyzer {
     let binarySearchDepth = 3
 
     // Start with middle ± window
-    let middle = duration / 2.0
+    let middle = window.start + window.length / 2.0
     var queue: [Double] = []
     for offset in stride(from: -binarySearchWindow, through: binarySearchWindow, by: 1.0) {
       let t = middle + offset
-      if t >= 0 && t <= duration {
+      if t >= window.start && t <= window.end {
         queue.append(t)
       }
     }
@@ -298,7 +380,7 @@ class VideoAnalyzer {
         if analyzedTimestamps.contains(roundedTime) { continue }
         analyzedTimestamps.insert(roundedTime)
 
-        delegate?.videoAnalyzer(self, didUpdateProgress: Float(analyzedTimestamps.count) / Float(min(50, Int(duration / 2))))
+        delegate?.videoAnalyzer(self, didUpdateProgress: Float(analyzedTimestamps.count) / Float(min(50, Int(window.length / 2))))
 
         if let result = try? analyzeFrameAtTime(generator: generator, timestamp: timestamp, confidenceThreshold: confidenceThreshold) {
           results.append(result)
@@ -309,8 +391,8 @@ class VideoAnalyzer {
 
             let before = timestamp - binarySearchWindow
             let after = timestamp + binarySearchWindow
-            if before >= 0 { nextQueue.append(before) }
-            if after <= duration { nextQueue.append(after) }
+            if before >= window.start { nextQueue.append(before) }
+            if after <= window.end { nextQueue.append(after) }
           }
         }
       }
@@ -319,11 +401,73 @@ class VideoAnalyzer {
       depth += 1
     }
 
-    return buildResult(results: results, duration: duration, mode: .binarySearch, startTime: startTime, humanFrames: 0)
+    return buildResult(results: results, duration: duration, window: window, mode: .binarySearch, startTime: startTime, humanFrames: 0)
+  }
+
+  // MARK: - Adaptive (sampled + refinement around near-threshold frames)
+
+  private func analyzeAdaptive(
+    avAsset: AVAsset,
+    duration: Double,
+    window: ScanWindow,
+    confidenceThreshold: Float
+  ) throws -> VideoAnalysisResult {
+
+    let startTime = Date()
+    var visited = Set<Double>()
+    var results: [FrameAnalysisResult] = []
+
+    let generator = createImageGenerator(for: avAsset)
+
+    func analyze(_ timestamp: Double) {
+      if let result = try? analyzeFrameAtTime(generator: generator, timestamp: timestamp, confidenceThreshold: confidenceThreshold) {
+        results.append(result)
+        if result.isNSFW {
+          delegate?.videoAnalyzer(self, didFindNSFWAt: timestamp, confidence: result.confidence)
+        }
+      }
+    }
+
+    // Pass 1: regular samples (0-50%)
+    let timestamps = sampledTimestamps(in: window)
+    for (index, timestamp) in timestamps.enumerated() {
+      guard !isCancelled else { break }
+      visited.insert((timestamp * 10).rounded() / 10)
+      delegate?.videoAnalyzer(self, didUpdateProgress: Float(index) / Float(timestamps.count) * 0.5)
+      analyze(timestamp)
+    }
+
+    // Pass 2: halve the spacing around near-threshold frames each round (50-100%)
+    var step = sampleInterval
+    for depth in 0..<adaptiveDepth {
+      step /= 2
+      guard !isCancelled, step >= adaptiveMinInterval else { break }
+
+      var queue: [Double] = []
+      for frame in results where frame.nearThreshold {
+        for t in [frame.timestamp - step, frame.timestamp + step] where t >= window.start && t <= window.end {
+          if visited.insert((t * 10).rounded() / 10).inserted {
+            queue.append(t)
+          }
+        }
+      }
+      guard !queue.isEmpty else { break }
+
+      NSLog("[VideoAnalyzer] Adaptive: refining %d frames at %.2fs spacing", queue.count, step)
+
+      for (index, timestamp) in queue.enumerated() {
+        guard !isCancelled else { break }
+        let progress = 0.5 + (Float(depth) + Float(index) / Float(queue.count)) / Float(adaptiveDepth) * 0.5
+        delegate?.videoAnalyzer(self, didUpdateProgress: progress)
+        analyze(timestamp)
+      }
+    }
+
+    return buildResult(results: results, duration: duration, window: window, mode: .adaptive, startTime: startTime, humanFrames: 0)
   }
 
   /// Use VNDetectHumanRectanglesRequest to find frames containing humans
-  private func findHumanFrames(avAsset: AVAsset, duration: Double) throws -> [Double] {
+  private func findHumanFrames(avAsset: AVAsset, window: ScanWindow) throws -> [Double] {
     var humanTimestamps: [Double] = []
 
     let generator = AVAssetImageGenerator(asset: avAsset)
@@ -333,11 +477,11 @@ class VideoAnalyzer {
     // Smaller size for faster Vision processing
     generator.maximumSize = CGSize(width: 320, height: 320)
 
-    var t = 0.0
+    var t = window.start
     var frameIndex = 0
-    let totalFrames = Int(duration / sampleInterval) + 1
+    let totalFrames = Int(window.length / sampleInterval) + 1
 
-    while t < duration {
+    while t < window.end {
       guard !isCancelled else { break }
 
       // Progress for phase 1 (0-50%)
@@ -382,6 +526,42 @@ class VideoAnalyzer {
 
   // MARK: - Helper Methods
 
+  private func loadAVAsset(_ source: VideoSource) throws -> AVAsset {
+    switch source {
+    case .asset(let assetId):
+      guard let phAsset = PHAsset.fetchAssets(withLocalIdentifiers: [assetId], options: nil).firstObject,
+            phAsset.mediaType == .video else {
+        throw VideoAnalyzerError.assetNotFound
+      }
+      return try getAVAsset(from: phAsset)
+
+    case .file(let url):
+      guard FileManager.default.fileExists(atPath: url.path) else {
+        throw VideoAnalyzerError.fileNotFound
+      }
+      let asset = AVURLAsset(url: url)
+      guard !asset.tracks(withMediaType: .video).isEmpty else {
+        throw VideoAnalyzerError.failedToLoadVideo
+      }
+      return asset
+    }
+  }
+
+  /// window.start, +interval, ... inside the window, plus a near-end frame
+  private func sampledTimestamps(in window: ScanWindow) -> [Double] {
+    var timestamps: [Double] = []
+    var t = window.start
+    while t < window.end {
+      timestamps.append(t)
+      t += sampleInterval
+    }
+    // Include near-end frame
+    if timestamps.last ?? window.start < window.end - 1.0 {
+      timestamps.append(max(window.start, window.end - 0.5))
+    }
+    return timestamps
+  }
+
   private func getAVAsset(from phAsset: PHAsset) throws -> AVAsset {
     let semaphore = DispatchSemaphore(value: 0)
     var resultAsset: AVAsset?
@@ -446,20 +626,44 @@ class VideoAnalyzer {
       throw VideoAnalyzerError.frameExtractionFailed
     }
 
+    // Adaptive scans detect with lowered thresholds to see near misses, then apply the real ones
+    let margin = detectsNearMisses ? adaptiveMargin : 0
     let result = try detector.detect(
-      imageUri: tempURL.absoluteString,
-      confidenceThreshold: confidenceThreshold,
-      iouThreshold: 0.45
+      image: .uri(tempURL.absoluteString),
+      confidenceThreshold: max(0.01, confidenceThreshold - margin),
+      iouThreshold: 0.45,
+      policy: detectsNearMisses ? policy.lowered(by: margin) : policy
     )
 
-    let nsfwDetections = result.detections.filter { nsfwClassIndices.contains($0.classIndex) }
+    var detections = result.detections
+    var nsfwDetections = result.flaggedDetections
+    var nearThreshold = false
+    if detectsNearMisses {
+      let flagged = { (detection: NMS.Detection) in
+        self.policy.isFlagged(detection, imageWidth: cgImage.width, imageHeight: cgImage.height, fallbackThreshold: confidenceThreshold)
+      }
+      nearThreshold = detections.contains {
+        policy.isNearThreshold($0, fallbackThreshold: confidenceThreshold, margin: adaptiveMargin)
+      }
+      nsfwDetections = detections.filter(flagged)
+      detections = detections.filter { $0.score >= confidenceThreshold || flagged($0) }
+    }
     let processingTime = Int(Date().timeIntervalSince(frameStart) * 1000)
 
+    framesAnalyzed += 1
+    if !nsfwDetections.isEmpty {
+      nsfwFrameCount += 1
+    }
+
     return FrameAnalysisResult(
       timestamp: timestamp,
       isNSFW: !nsfwDetections.isEmpty,
       confidence: nsfwDetections.map { $0.score }.max() ?? 0,
-      detections: result.detections,
+      detections: detections,
+      flaggedDetections: nsfwDetections,
+      width: cgImage.width,
+      height: cgImage.height,
+      nearThreshold: nearThreshold,
       processingTime: processingTime
     )
   }
@@ -467,6 +671,7 @@ class VideoAnalyzer {
   private func buildResult(
     results: [FrameAnalysisResult],
     duration: Double,
+    window: ScanWindow,
     mode: VideoScanMode,
     startTime: Date,
     humanFrames: Int
@@ -484,8 +689,11 @@ class VideoAnalyzer {
       highestConfidence: results.map { $0.confidence }.max() ?? 0,
       totalProcessingTime: totalTime,
       videoDuration: duration,
+      startTime: window.start,
+      endTime: window.end,
       scanMode: mode.rawValue,
-      humanFramesDetected: humanFrames
+      humanFramesDetected: humanFrames,
+      frames: results.sorted { $0.timestamp < $1.timestamp }
     )
 
     delegate?.videoAnalyzer(self, didComplete: result)
@@ -499,7 +707,9 @@ class VideoAnalyzer {
 
 enum VideoAnalyzerError: Error, LocalizedError {
   case assetNotFound
+  case fileNotFound
   case failedToLoadVideo
+  case invalidTimeRange
   case frameExtractionFailed
   case detectorNotReady
   case cancelled
@@ -507,10 +717,25 @@ enum VideoAnalyzerError: Error, LocalizedError {
   var errorDescription: String? {
     switch self {
     case .assetNotFound: return "Video asset not found"
-    case .failedToLoadVideo: return "Failed to load video from Photos library"
+    case .fileNotFound: return "Video file not found"
+    case .failedToLoadVideo: return "Failed to load video"
+    case .invalidTimeRange: return "startTime/endTime window is empty or outside the video"
     case .frameExtractionFailed: return "Failed to extract frame from video"
     case .detectorNotReady: return "ONNX detector not initialized"
     case .cancelled: return "Video analysis was cancelled"
     }
   }
+
+  /// Stable error code used when rejecting JS promises
+  var code: String {
+    switch self {
+    case .assetNotFound: return "ASSET_NOT_FOUND"
+    case .fileNotFound: return "VIDEO_LOAD_FAILED"
+    case .failedToLoadVideo: return "VIDEO_LOAD_FAILED"
+    case .invalidTimeRange: return "INVALID_VIDEO_RANGE"
+    case .frameExtractionFailed: return "FRAME_EXTRACTION_FAILED"
+    case .detectorNotReady: return "DETECTOR_NOT_READY"
+    case .cancelled: return "VIDEO_ANALYSIS_CANCELLED"
+    }
+  }
 }
@@ -1,18 +1,28 @@
 #import <React/RCTBridgeModule.h>
+#import <React/RCTEventEmitter.h>
 
-@interface RCT_EXTERN_MODULE(VisionML, NSObject)
+@interface RCT_EXTERN_MODULE(VisionML, RCTEventEmitter)
 
 // Object-based detector API
 RCT_EXTERN_METHOD(createDetector:(NSString *)modelPath
                   classLabels:(NSArray *)classLabels
                   inputSize:(NSNumber *)inputSize
+                  config:(NSDictionary *)config
+                  runtime:(NSDictionary *)runtime
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(createDetectorFromManifest:(NSString *)manifestPath
+                  runtime:(NSDictionary *)runtime
                   resolve:(RCTPromiseResolveBlock)resolve
                   reject:(RCTPromiseRejectBlock)reject)
 
 RCT_EXTERN_METHOD(detect:(NSString *)detectorId
-                  imageUri:(NSString *)imageUri
+                  image:(NSDictionary *)image
                   confidenceThreshold:(NSNumber *)confidenceThreshold
                   iouThreshold:(NSNumber *)iouThreshold
+                  policy:(NSDictionary *)policy
+                  debug:(BOOL)debug
                   resolve:(RCTPromiseResolveBlock)resolve
                   reject:(RCTPromiseRejectBlock)reject)
 
@@ -23,6 +33,56 @@ RCT_EXTERN_METHOD(disposeDetector:(NSString *)detectorId
 RCT_EXTERN_METHOD(disposeAllDetectors:(RCTPromiseResolveBlock)resolve
                   reject:(RCTPromiseRejectBlock)reject)
 
+// Classifier and Embedder Methods
+RCT_EXTERN_METHOD(createClassifier:(NSString *)modelPath
+                  classLabels:(NSArray *)classLabels
+                  inputSize:(NSNumber *)inputSize
+                  config:(NSDictionary *)config
+                  runtime:(NSDictionary *)runtime
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(classify:(NSString *)classifierId
+                  image:(NSDictionary *)image
+                  topK:(NSNumber *)topK
+                  minScore:(NSNumber *)minScore
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(createEmbedder:(NSString *)modelPath
+                  inputSize:(NSNumber *)inputSize
+                  config:(NSDictionary *)config
+                  runtime:(NSDictionary *)runtime
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(embed:(NSString *)embedderId
+                  image:(NSDictionary *)image
+                  normalize:(BOOL)normalize
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(disposeModel:(NSString *)modelId
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
+// Benchmark Methods
+RCT_EXTERN_METHOD(benchmark:(NSString *)detectorId
+                  image:(NSDictionary *)image
+                  iterations:(NSNumber *)iterations
+                  warmup:(NSNumber *)warmup
+                  confidenceThreshold:(NSNumber *)confidenceThreshold
+                  iouThreshold:(NSNumber *)iouThreshold
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
+// Redaction Methods
+RCT_EXTERN_METHOD(redactImage:(NSString *)imageUri
+                  target:(NSDictionary *)target
+                  options:(NSDictionary *)options
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
 // Live Activity Methods
 RCT_EXTERN_METHOD(isLiveActivityAvailable:(RCTPromiseResolveBlock)resolve
                   reject:(RCTPromiseRejectBlock)reject)
@@ -48,16 +108,26 @@ RCT_EXTERN_METHOD(endVideoScanActivity:(NSNumber *)nsfwCount
 
 // Video Analysis Methods
 RCT_EXTERN_METHOD(analyzeVideo:(NSString *)detectorId
-                  assetId:(NSString *)assetId
+                  video:(NSDictionary *)video
                   mode:(NSString *)mode
                   sampleInterval:(NSNumber *)sampleInterval
                   confidenceThreshold:(NSNumber *)confidenceThreshold
+                  policy:(NSDictionary *)policy
+                  scanId:(NSString *)scanId
+                  timeline:(BOOL)timeline
+                  range:(NSDictionary *)range
                   resolve:(RCTPromiseResolveBlock)resolve
                   reject:(RCTPromiseRejectBlock)reject)
 
 RCT_EXTERN_METHOD(quickCheckVideo:(NSString *)detectorId
-                  assetId:(NSString *)assetId
+                  video:(NSDictionary *)video
                   confidenceThreshold:(NSNumber *)confidenceThreshold
+                  policy:(NSDictionary *)policy
+                  scanId:(NSString *)scanId
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(cancelVideoAnalysis:(NSString *)scanId
                   resolve:(RCTPromiseResolveBlock)resolve
                   reject:(RCTPromiseRejectBlock)reject)
 
@@ -71,6 +141,7 @@ RCT_EXTERN_METHOD(analyzeHumanPose:(NSString *)assetId
                   reject:(RCTPromiseRejectBlock)reject)
 
 RCT_EXTERN_METHOD(analyzeComprehensive:(NSString *)assetId
+                  options:(NSDictionary *)options
                   resolve:(RCTPromiseResolveBlock)resolve
                   reject:(RCTPromiseRejectBlock)reject)
 
@@ -98,6 +169,15 @@ RCT_EXTERN_METHOD(batchAnalyzeVideosSensitiveContent:(NSArray *)assetIds
                   resolve:(RCTPromiseResolveBlock)resolve
                   reject:(RCTPromiseRejectBlock)reject)
 
+// Result Cache
+RCT_EXTERN_METHOD(getModificationDates:(NSArray *)ids
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
+// Capabilities
+RCT_EXTERN_METHOD(getCapabilities:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
 + (BOOL)requiresMainQueueSetup {
   return NO;
 }
@@ -8,37 +8,97 @@ import SensitiveContentAnalysis
 #endif
 
 @objc(VisionML)
-class VisionMLModule: NSObject {
+class VisionMLModule: RCTEventEmitter {
+
+  // Events emitted while a video scan is running
+  static let videoProgressEvent = "VisionMLVideoProgress"
+  static let videoDetectionEvent = "VisionMLVideoDetection"
+  // Emitted on OS memory warnings, so the JS scheduler can shrink concurrency and dispose idle detectors
+  static let memoryWarningEvent = "VisionMLMemoryWarning"
 
   // Map of detector instances by ID
   private var detectors: [String: ONNXInference] = [:]
   private let detectorsQueue = DispatchQueue(label: "com.visionml.detectors", attributes: .concurrent)
 
+  // Classifiers and embedders by ID, guarded by detectorsQueue like detectors
+  private var classifiers: [String: ImageClassifier] = [:]
+  private var embedders: [String: ImageEmbedder] = [:]
+
   // Counter for generating unique detector IDs
   private var detectorIdCounter = 0
   private let counterQueue = DispatchQueue(label: "com.visionml.counter")
 
+  // Running video scans by scan ID (for cancellation)
+  private var videoScans: [String: VideoAnalyzer] = [:]
+  private let videoScansQueue = DispatchQueue(label: "com.visionml.videoscans", attributes: .concurrent)
+
+  // Only emit events while JS is subscribed
+  private var hasListeners = false
+  private var memoryWarningObserver: NSObjectProtocol?
+
+  // MARK: - Event Emitter
+
+  override func supportedEvents() -> [String]! {
+    return [VisionMLModule.videoProgressEvent, VisionMLModule.videoDetectionEvent, VisionMLModule.memoryWarningEvent]
+  }
+
+  override func startObserving() {
+    hasListeners = true
+    // iOS has a single warning level, sent when the app is close to being terminated
+    memoryWarningObserver = NotificationCenter.default.addObserver(
+      forName: UIApplication.didReceiveMemoryWarningNotification,
+      object: nil,
+      queue: nil
+    ) { [weak self] _ in
+      self?.emit(VisionMLModule.memoryWarningEvent, body: ["level": "critical"])
+    }
+  }
+
+  override func stopObserving() {
+    hasListeners = false
+    if let observer = memoryWarningObserver {
+      NotificationCenter.default.removeObserver(observer)
+      memoryWarningObserver = nil
+    }
+  }
+
+  fileprivate func emit(_ name: String, body: [String: Any]) {
+    guard hasListeners else { return }
+    sendEvent(withName: name, body: body)
+  }
+
   /// Create a new detector instance with its own model and configuration
   /// Returns a unique detector ID for subsequent operations
-  @objc(createDetector:classLabels:inputSize:resolve:reject:)
+  @objc(createDetector:classLabels:inputSize:config:runtime:resolve:reject:)
   func createDetector(
     _ modelPath: String,
     classLabels: [String],
     inputSize: NSNumber,
+    config: NSDictionary?,
+    runtime: NSDictionary?,
     resolve: @escaping RCTPromiseResolveBlock,
     reject: @escaping RCTPromiseRejectBlock
   ) {
     DispatchQueue.global(qos: .userInitiated).async {
       do {
         // Create inference instance
+        let runtimeOptions = RuntimeOptions(dictionary: runtime)
         let inference = ONNXInference(
           classLabels: classLabels,
-          inputSize: inputSize.intValue
+          inputSize: inputSize.intValue,
+          config: ModelConfig(dictionary: config),
+          runtimeOptions: runtimeOptions
         )
 
-        // Load model
+        // Load model (first provider in the chain that works)
         try inference.loadModel(modelPath: modelPath)
 
+        // Optional warm-up so the first detect() doesn't pay for provider compilation
+        var warmupTime: Int?
+        if runtimeOptions.warmup {
+          warmupTime = try inference.warmUp()
+        }
+
         // Generate unique ID
         let detectorId = self.counterQueue.sync {
           self.detectorIdCounter += 1
@@ -51,11 +111,77 @@ class VisionMLModule: NSObject {
         }
 
         DispatchQueue.main.async {
-          resolve([
+          var result: [String: Any] = [
             "detectorId": detectorId,
             "success": true,
-            "message": "Detector created successfully"
-          ])
+            "message": "Detector created successfully",
+            "executionProvider": inference.executionProvider ?? "cpu"
+          ]
+          if let warmupTime = warmupTime {
+            result["warmupTime"] = warmupTime
+          }
+          resolve(result)
+        }
+      } catch {
+        DispatchQueue.main.async {
+          reject("DETECTOR_CREATE_ERROR", "Failed to create detector: \(error.localizedDescription)", error)
+        }
+      }
+    }
+  }
+
+  /// Create a detector from a JSON model manifest
+  /// The model's SHA-256 (when the manifest has one), input size and label count are
+  /// checked before the detector is stored, rejecting with MANIFEST_INVALID,
+  /// MODEL_INTEGRITY_ERROR or MODEL_SHAPE_MISMATCH
+  @objc(createDetectorFromManifest:runtime:resolve:reject:)
+  func createDetectorFromManifest(
+    _ manifestPath: String,
+    runtime: NSDictionary?,
+    resolve: @escaping RCTPromiseResolveBlock,
+    reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        let manifest = try ModelManifest(contentsOf: manifestPath)
+        try manifest.verifyIntegrity()
+
+        let (inference, warmupTime) = try self.loadInference(
+          modelPath: manifest.modelPath,
+          classLabels: manifest.classLabels,
+          inputSize: NSNumber(value: manifest.inputSize),
+          config: manifest.configDictionary as NSDictionary,
+          runtime: runtime
+        )
+        do {
+          try manifest.validate(against: inference)
+        } catch {
+          inference.dispose()
+          throw error
+        }
+
+        let detectorId = self.nextModelId(prefix: "detector")
+        self.detectorsQueue.async(flags: .barrier) {
+          self.detectors[detectorId] = inference
+        }
+
+        DispatchQueue.main.async {
+          var result: [String: Any] = [
+            "detectorId": detectorId,
+            "success": true,
+            "message": "Detector created successfully",
+            "executionProvider": inference.executionProvider ?? "cpu",
+            "manifest": manifest.dictionary,
+            "metadata": ["inputs": inference.inputMetadata, "outputs": inference.outputMetadata]
+          ]
+          if let warmupTime = warmupTime {
+            result["warmupTime"] = warmupTime
+          }
+          resolve(result)
+        }
+      } catch let error as ModelManifest.ManifestError {
+        DispatchQueue.main.async {
+          reject(error.code, error.localizedDescription, error)
         }
       } catch {
         DispatchQueue.main.async {
@@ -66,12 +192,17 @@ class VisionMLModule: NSObject {
   }
 
   /// Run detection using a specific detector instance
-  @objc(detect:imageUri:confidenceThreshold:iouThreshold:resolve:reject:)
+  /// - Parameter image: Image source from JS: { uri } | { assetId } | { rgba, width, height }
+  /// - Parameter policy: Content policy dictionary from JS, nil for the NudeNet default
+  /// - Parameter debug: Add a `debug` block with pre-NMS candidates and parser diagnostics
+  @objc(detect:image:confidenceThreshold:iouThreshold:policy:debug:resolve:reject:)
   func detect(
     _ detectorId: String,
-    imageUri: String,
+    image: NSDictionary,
     confidenceThreshold: NSNumber,
     iouThreshold: NSNumber,
+    policy: NSDictionary?,
+    debug: Bool,
     resolve: @escaping RCTPromiseResolveBlock,
     reject: @escaping RCTPromiseRejectBlock
   ) {
@@ -91,29 +222,25 @@ class VisionMLModule: NSObject {
       do {
         // Run full detection pipeline
         let result = try inference.detect(
-          imageUri: imageUri,
+          image: try ImageDecoder.Source(dictionary: image),
           confidenceThreshold: confidenceThreshold.floatValue,
-          iouThreshold: iouThreshold.floatValue
+          iouThreshold: iouThreshold.floatValue,
+          policy: ContentPolicy(dictionary: policy),
+          debug: debug
         )
 
-        // Convert detections to JSON-serializable format
-        let detectionsArray = result.detections.map { detection in
-          return [
-            "box": detection.box,  // [x1, y1, x2, y2] - already scaled to original image
-            "score": NSNumber(value: detection.score),  // Explicitly convert to NSNumber for RN bridge
-            "classIndex": detection.classIndex,
-            "className": detection.className
-          ] as [String: Any]
-        }
+        let response = self.serializeInferenceResult(result)
 
         DispatchQueue.main.async {
-          resolve([
-            "detections": detectionsArray,
-            "inferenceTime": result.inferenceTime,
-            "postProcessTime": result.postProcessTime,
-            "totalTime": result.totalTime,
-            "debugInfo": result.debugInfo
-          ])
+          resolve(response)
+        }
+      } catch ImageDecoder.DecodeError.assetNotFound {
+        DispatchQueue.main.async {
+          reject("ASSET_NOT_FOUND", "No photo found for the given asset ID", nil)
+        }
+      } catch ImageDecoder.DecodeError.invalidImageInput {
+        DispatchQueue.main.async {
+          reject("INVALID_IMAGE_INPUT", "Image input is malformed or its pixel buffer does not match width x height", nil)
         }
       } catch {
         DispatchQueue.main.async {
@@ -123,6 +250,57 @@ class VisionMLModule: NSObject {
     }
   }
 
+  /// Convert an inference result to the JS `InferenceResult` shape
+  private func serializeInferenceResult(_ result: ONNXInference.InferenceResult) -> [String: Any] {
+    var response: [String: Any] = [
+      "detections": serializeDetections(result.detections),
+      "flaggedDetections": serializeDetections(result.flaggedDetections),
+      "isFlagged": !result.flaggedDetections.isEmpty,
+      "decodeTime": result.decodeTime,
+      "inferenceTime": result.inferenceTime,
+      "postProcessTime": result.postProcessTime,
+      "totalTime": result.totalTime,
+      "debugInfo": result.debugInfo
+    ]
+    if let details = result.debug {
+      response["debug"] = serializeDebugDetails(details)
+    }
+    return response
+  }
+
+  /// Convert detections to JSON-serializable format
+  private func serializeDetections(_ detections: [NMS.Detection]) -> [[String: Any]] {
+    return detections.map { detection in
+      return [
+        "box": detection.box,  // [x1, y1, x2, y2] - already scaled to original image
+        "score": NSNumber(value: detection.score),  // Explicitly convert to NSNumber for RN bridge
+        "classIndex": detection.classIndex,
+        "className": detection.className
+      ] as [String: Any]
+    }
+  }
+
+  /// Convert detect(debug: true) diagnostics to the JS `InferenceDebugInfo` shape
+  private func serializeDebugDetails(_ details: ONNXInference.DebugDetails) -> [String: Any] {
+    return [
+      "numPredictions": details.numPredictions,
+      "candidateCount": details.candidates.count,
+      "candidateThreshold": NSNumber(value: YOLOParser.candidateThreshold),
+      "preNMSDetections": serializeDetections(details.candidates),
+      "maxClassScores": details.maxClassScores.mapValues { NSNumber(value: $0) },
+      "outputShape": details.outputShape,
+      "outputLayout": details.outputLayout.rawValue,
+      "letterbox": [
+        "mode": details.letterbox.mode.rawValue,
+        "scaleX": NSNumber(value: details.letterbox.scaleX),
+        "scaleY": NSNumber(value: details.letterbox.scaleY),
+        "padX": NSNumber(value: details.letterbox.padX),
+        "padY": NSNumber(value: details.letterbox.padY)
+      ],
+      "timing": details.timing
+    ]
+  }
+
   /// Dispose of a specific detector instance
   @objc(disposeDetector:resolve:reject:)
   func disposeDetector(
@@ -161,6 +339,436 @@ class VisionMLModule: NSObject {
     }
   }
 
+  // MARK: - Classifier and Embedder Methods
+
+  /// Create an image classifier; same loading, providers and preprocessing as createDetector
+  /// - Parameter config: ModelConfig dictionary plus `activation` ("none" | "softmax" | "sigmoid")
+  @objc(createClassifier:classLabels:inputSize:config:runtime:resolve:reject:)
+  func createClassifier(
+    _ modelPath: String,
+    classLabels: [String],
+    inputSize: NSNumber,
+    config: NSDictionary?,
+    runtime: NSDictionary?,
+    resolve: @escaping RCTPromiseResolveBlock,
+    reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        let (inference, warmupTime) = try self.loadInference(
+          modelPath: modelPath,
+          classLabels: classLabels,
+          inputSize: inputSize,
+          config: config,
+          runtime: runtime
+        )
+        let activation = (config?["activation"] as? String).flatMap(ImageClassifier.Activation.init(rawValue:)) ?? .softmax
+        let classifier = ImageClassifier(inference: inference, classLabels: classLabels, activation: activation)
+        let classifierId = self.nextModelId(prefix: "classifier")
+
+        self.detectorsQueue.async(flags: .barrier) {
+          self.classifiers[classifierId] = classifier
+        }
+
+        DispatchQueue.main.async {
+          var result: [String: Any] = [
+            "classifierId": classifierId,
+            "success": true,
+            "message": "Classifier created successfully",
+            "executionProvider": inference.executionProvider ?? "cpu"
+          ]
+          if let warmupTime = warmupTime {
+            result["warmupTime"] = warmupTime
+          }
+          resolve(result)
+        }
+      } catch {
+        DispatchQueue.main.async {
+          reject("MODEL_CREATE_ERROR", "Failed to create classifier: \(error.localizedDescription)", error)
+        }
+      }
+    }
+  }
+
+  /// Classify an image with a classifier instance
+  /// - Parameter image: Image source from JS: { uri } | { assetId } | { rgba, width, height }
+  @objc(classify:image:topK:minScore:resolve:reject:)
+  func classify(
+    _ classifierId: String,
+    image: NSDictionary,
+    topK: NSNumber,
+    minScore: NSNumber,
+    resolve: @escaping RCTPromiseResolveBlock,
+    reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      let found = self.detectorsQueue.sync {
+        return self.classifiers[classifierId]
+      }
+
+      guard let classifier = found else {
+        DispatchQueue.main.async {
+          reject("MODEL_NOT_FOUND", "Classifier with ID '\(classifierId)' not found. Create a classifier first.", nil)
+        }
+        return
+      }
+
+      self.runRejectingImageErrors(reject: reject) {
+        let result = try classifier.classify(
+          image: try ImageDecoder.Source(dictionary: image),
+          topK: topK.intValue,
+          minScore: minScore.floatValue
+        )
+        let response: [String: Any] = [
+          "predictions": result.predictions.map { prediction in
+            return [
+              "label": prediction.label,
+              "index": prediction.index,
+              "score": NSNumber(value: prediction.score)
+            ] as [String: Any]
+          },
+          "inferenceTime": result.inferenceTime,
+          "totalTime": result.totalTime
+        ]
+        DispatchQueue.main.async {
+          resolve(response)
+        }
+      }
+    }
+  }
+
+  /// Create an image embedder; same loading, providers and preprocessing as createDetector
+  @objc(createEmbedder:inputSize:config:runtime:resolve:reject:)
+  func createEmbedder(
+    _ modelPath: String,
+    inputSize: NSNumber,
+    config: NSDictionary?,
+    runtime: NSDictionary?,
+    resolve: @escaping RCTPromiseResolveBlock,
+    reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        let (inference, warmupTime) = try self.loadInference(
+          modelPath: modelPath,
+          classLabels: [],
+          inputSize: inputSize,
+          config: config,
+          runtime: runtime
+        )
+        let embedder = ImageEmbedder(inference: inference)
+        let embedderId = self.nextModelId(prefix: "embedder")
+
+        self.detectorsQueue.async(flags: .barrier) {
+          self.embedders[embedderId] = embedder
+        }
+
+        DispatchQueue.main.async {
+          var result: [String: Any] = [
+            "embedderId": embedderId,
+            "success": true,
+            "message": "Embedder created successfully",
+            "executionProvider": inference.executionProvider ?? "cpu"
+          ]
+          if let warmupTime = warmupTime {
+            result["warmupTime"] = warmupTime
+          }
+          resolve(result)
+        }
+      } catch {
+        DispatchQueue.main.async {
+          reject("MODEL_CREATE_ERROR", "Failed to create embedder: \(error.localizedDescription)", error)
+        }
+      }
+    }
+  }
+
+  /// Compute the embedding of an image with an embedder instance
+  /// - Parameter image: Image source from JS: { uri } | { assetId } | { rgba, width, height }
+  @objc(embed:image:normalize:resolve:reject:)
+  func embed(
+    _ embedderId: String,
+    image: NSDictionary,
+    normalize: Bool,
+    resolve: @escaping RCTPromiseResolveBlock,
+    reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      let found = self.detectorsQueue.sync {
+        return self.embedders[embedderId]
+      }
+
+      guard let embedder = found else {
+        DispatchQueue.main.async {
+          reject("MODEL_NOT_FOUND", "Embedder with ID '\(embedderId)' not found. Create an embedder first.", nil)
+        }
+        return
+      }
+
+      self.runRejectingImageErrors(reject: reject) {
+        let result = try embedder.embed(image: try ImageDecoder.Source(dictionary: image), normalize: normalize)
+        let response: [String: Any] = [
+          "embedding": result.embedding.map { NSNumber(value: $0) },
+          "inferenceTime": result.inferenceTime,
+          "totalTime": result.totalTime
+        ]
+        DispatchQueue.main.async {
+          resolve(response)
+        }
+      }
+    }
+  }
+
+  /// Dispose of a classifier or embedder instance
+  @objc(disposeModel:resolve:reject:)
+  func disposeModel(
+    _ modelId: String,
+    resolve: @escaping RCTPromiseResolveBlock,
+    reject: @escaping RCTPromiseRejectBlock
+  ) {
+    detectorsQueue.async(flags: .barrier) {
+      let inference = self.classifiers.removeValue(forKey: modelId)?.inference
+        ?? self.embedders.removeValue(forKey: modelId)?.inference
+      if let inference = inference {
+        inference.dispose()
+        DispatchQueue.main.async {
+          resolve(["success": true, "message": "Model disposed"])
+        }
+      } else {
+        DispatchQueue.main.async {
+          reject("MODEL_NOT_FOUND", "Model with ID '\(modelId)' not found", nil)
+        }
+      }
+    }
+  }
+
+  /// Load a session the way createDetector does
+  /// - Returns: The loaded session and its warm-up time when warm-up is enabled
+  private func loadInference(
+    modelPath: String,
+    classLabels: [String],
+    inputSize: NSNumber,
+    config: NSDictionary?,
+    runtime: NSDictionary?
+  ) throws -> (ONNXInference, Int?) {
+    let runtimeOptions = RuntimeOptions(dictionary: runtime)
+    let inference = ONNXInference(
+      classLabels: classLabels,
+      inputSize: inputSize.intValue,
+      config: ModelConfig(dictionary: config),
+      runtimeOptions: runtimeOptions
+    )
+    try inference.loadModel(modelPath: modelPath)
+    var warmupTime: Int?
+    if runtimeOptions.warmup {
+      warmupTime = try inference.warmUp()
+    }
+    return (inference, warmupTime)
+  }
+
+  /// Unique ID for a new detector, classifier or embedder, from the detector counter
+  private func nextModelId(prefix: String) -> String {
+    return counterQueue.sync {
+      detectorIdCounter += 1
+      return "\(prefix)_\(detectorIdCounter)"
+    }
+  }
+
+  /// Run an image inference body, rejecting with detect()'s image and inference error codes
+  private func runRejectingImageErrors(reject: @escaping RCTPromiseRejectBlock, _ body: () throws -> Void) {
+    do {
+      try body()
+    } catch ImageDecoder.DecodeError.assetNotFound {
+      DispatchQueue.main.async {
+        reject("ASSET_NOT_FOUND", "No photo found for the given asset ID", nil)
+      }
+    } catch ImageDecoder.DecodeError.invalidImageInput {
+      DispatchQueue.main.async {
+        reject("INVALID_IMAGE_INPUT", "Image input is malformed or its pixel buffer does not match width x height", nil)
+      }
+    } catch {
+      DispatchQueue.main.async {
+        reject("INFERENCE_ERROR", "Inference failed: \(error.localizedDescription)", error)
+      }
+    }
+  }
+
+  // MARK: - Benchmark Methods
+
+  /// Run detection repeatedly on one image and report the stage timings of each measured run
+  /// Memory is sampled every 5ms from before warm-up until the last run finishes.
+  @objc(benchmark:image:iterations:warmup:confidenceThreshold:iouThreshold:resolve:reject:)
+  func benchmark(
+    _ detectorId: String,
+    image: NSDictionary,
+    iterations: NSNumber,
+    warmup: NSNumber,
+    confidenceThreshold: NSNumber,
+    iouThreshold: NSNumber,
+    resolve: @escaping RCTPromiseResolveBlock,
+    reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      let detector = self.detectorsQueue.sync {
+        return self.detectors[detectorId]
+      }
+
+      guard let inference = detector else {
+        DispatchQueue.main.async {
+          reject("DETECTOR_NOT_FOUND", "Detector with ID '\(detectorId)' not found. Create a detector first.", nil)
+        }
+        return
+      }
+
+      let baselineMemory = self.memoryFootprint()
+      var peakMemory = baselineMemory
+      let samplerQueue = DispatchQueue(label: "com.visionml.benchmark.memory")
+      let sampler = DispatchSource.makeTimerSource(queue: samplerQueue)
+      sampler.schedule(deadline: .now(), repeating: .milliseconds(5))
+      sampler.setEventHandler {
+        peakMemory = max(peakMemory, self.memoryFootprint())
+      }
+      sampler.resume()
+      defer { sampler.cancel() }
+
+      self.runRejectingImageErrors(reject: reject) {
+        let source = try ImageDecoder.Source(dictionary: image)
+        let run = {
+          try inference.detect(
+            image: source,
+            confidenceThreshold: confidenceThreshold.floatValue,
+            iouThreshold: iouThreshold.floatValue
+          )
+        }
+
+        for _ in 0..<max(0, warmup.intValue) {
+          _ = try run()
+        }
+        var samples: [[String: Double]] = []
+        for _ in 0..<max(1, iterations.intValue) {
+          samples.append(try run().timing)
+        }
+
+        let peak = samplerQueue.sync { max(peakMemory, self.memoryFootprint()) }
+        let response: [String: Any] = [
+          "samples": samples,
+          "baselineMemory": baselineMemory,
+          "peakMemory": peak,
+          "executionProvider": inference.executionProvider ?? "cpu"
+        ]
+        DispatchQueue.main.async {
+          resolve(response)
+        }
+      }
+    }
+  }
+
+  /// Physical memory footprint of the app in bytes, the figure iOS uses for memory limits
+  private func memoryFootprint() -> UInt64 {
+    var info = task_vm_info_data_t()
+    var count = mach_msg_type_number_t(MemoryLayout<task_vm_info_data_t>.size / MemoryLayout<integer_t>.size)
+    let result = withUnsafeMutablePointer(to: &info) {
+      $0.withMemoryRebound(to: integer_t.self, capacity: Int(count)) {
+        task_info(mach_task_self_, task_flavor_t(TASK_VM_INFO), $0, &count)
+      }
+    }
+    return result == KERN_SUCCESS ? info.phys_footprint : 0
+  }
+
+  // MARK: - Redaction Methods
+
+  /// Write a redacted copy of an image
+  /// - Parameter target: `{ detections }` to redact the given boxes, or
+  ///   `{ detectorId, confidenceThreshold, iouThreshold, policy }` to run detect() and redact
+  ///   the flagged boxes in the same call
+  /// - Parameter options: `RedactionOptions` dictionary from JS
+  @objc(redactImage:target:options:resolve:reject:)
+  func redactImage(
+    _ imageUri: String,
+    target: NSDictionary,
+    options: NSDictionary?,
+    resolve: @escaping RCTPromiseResolveBlock,
+    reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      let start = Date()
+      var detections: [NMS.Detection] = []
+      var inferenceResult: ONNXInference.InferenceResult?
+
+      if let detectorId = target["detectorId"] as? String {
+        let detector = self.detectorsQueue.sync {
+          return self.detectors[detectorId]
+        }
+        guard let inference = detector else {
+          DispatchQueue.main.async {
+            reject("DETECTOR_NOT_FOUND", "Detector with ID '\(detectorId)' not found. Create a detector first.", nil)
+          }
+          return
+        }
+
+        do {
+          let result = try inference.detect(
+            image: .uri(imageUri),
+            confidenceThreshold: (target["confidenceThreshold"] as? NSNumber)?.floatValue ?? 0.6,
+            iouThreshold: (target["iouThreshold"] as? NSNumber)?.floatValue ?? 0.45,
+            policy: ContentPolicy(dictionary: target["policy"] as? NSDictionary)
+          )
+          detections = result.flaggedDetections
+          inferenceResult = result
+        } catch {
+          DispatchQueue.main.async {
+            reject("INFERENCE_ERROR", "Inference failed: \(error.localizedDescription)", error)
+          }
+          return
+        }
+      } else {
+        detections = self.parseDetections(target["detections"] as? [NSDictionary] ?? [])
+      }
+
+      do {
+        let result = try ImageRedactor.redact(
+          source: .uri(imageUri),
+          detections: detections,
+          options: ImageRedactor.Options(dictionary: options)
+        )
+
+        var response: [String: Any] = [
+          "uri": result.url.absoluteString,
+          "width": result.width,
+          "height": result.height,
+          "redactedDetections": self.serializeDetections(result.regions),
+          "totalTime": Int(Date().timeIntervalSince(start) * 1000)
+        ]
+        if let inferenceResult = inferenceResult {
+          response["detection"] = self.serializeInferenceResult(inferenceResult)
+        }
+
+        DispatchQueue.main.async {
+          resolve(response)
+        }
+      } catch {
+        DispatchQueue.main.async {
+          reject("REDACTION_ERROR", "Redaction failed: \(error.localizedDescription)", error)
+        }
+      }
+    }
+  }
+
+  /// Convert JS `Detection` dictionaries back to NMS detections
+  private func parseDetections(_ detections: [NSDictionary]) -> [NMS.Detection] {
+    return detections.compactMap { detection in
+      guard let box = detection["box"] as? [NSNumber], box.count == 4 else {
+        return nil
+      }
+      return NMS.Detection(
+        box: box.map { $0.floatValue },
+        score: (detection["score"] as? NSNumber)?.floatValue ?? 0,
+        classIndex: (detection["classIndex"] as? NSNumber)?.intValue ?? -1,
+        className: detection["className"] as? String ?? ""
+      )
+    }
+  }
+
   // MARK: - Live Activity Methods
 
   /// Check if Live Activities are available on this device
@@ -253,27 +861,52 @@ class VisionMLModule: NSObject {
   ///   - mode: Scan mode (full_short_circuit, sampled, binary_search, quick_check)
   ///   - sampleInterval: Seconds between samples (for sampled mode)
   ///   - confidenceThreshold: Minimum confidence threshold
-  @objc(analyzeVideo:assetId:mode:sampleInterval:confidenceThreshold:resolve:reject:)
+  ///   - policy: Content policy dictionary deciding which frames are NSFW, nil for the NudeNet default
+  ///   - scanId: Caller-chosen ID used to tag progress events and to cancel the scan
+  ///   - timeline: Add a `frames` array with every analyzed frame's detections
+  @objc(analyzeVideo:video:mode:sampleInterval:confidenceThreshold:policy:scanId:timeline:range:resolve:reject:)
   func analyzeVideo(
     _ detectorId: String,
-    assetId: String,
+    video: NSDictionary,
     mode: String,
     sampleInterval: NSNumber,
     confidenceThreshold: NSNumber,
+    policy: NSDictionary?,
+    scanId: String,
+    timeline: Bool,
+    range: NSDictionary?,
     resolve: @escaping RCTPromiseResolveBlock,
     reject: @escaping RCTPromiseRejectBlock
   ) {
-    DispatchQueue.global(qos: .userInitiated).async {
-      // Get detector instance
-      let detector = self.detectorsQueue.sync {
-        return self.detectors[detectorId]
+    // Get detector instance
+    let detector = detectorsQueue.sync {
+      return detectors[detectorId]
+    }
+
+    guard let inference = detector else {
+      DispatchQueue.main.async {
+        reject("DETECTOR_NOT_FOUND", "Detector with ID '\(detectorId)' not found", nil)
       }
+      return
+    }
 
-      guard let inference = detector else {
-        DispatchQueue.main.async {
-          reject("DETECTOR_NOT_FOUND", "Detector with ID '\(detectorId)' not found", nil)
+    let analyzer = VideoAnalyzer(
+      detector: inference,
+      inputSize: 640,
+      policy: ContentPolicy(dictionary: policy)
+    )
+
+    // Registered before dispatching: bridge calls run in order, so a cancel sent
+    // right after this call always finds the scan
+    videoScansQueue.sync(flags: .barrier) {
+      videoScans[scanId] = analyzer
+    }
+
+    DispatchQueue.global(qos: .userInitiated).async {
+      defer {
+        self.videoScansQueue.async(flags: .barrier) {
+          self.videoScans.removeValue(forKey: scanId)
         }
-        return
       }
 
       // Parse scan mode
@@ -289,22 +922,28 @@ class VisionMLModule: NSObject {
         scanMode = .binarySearch
       case "full_short_circuit":
         scanMode = .fullWithShortCircuit
+      case "adaptive":
+        scanMode = .adaptive
       default:
         scanMode = .sampled
       }
 
-      let analyzer = VideoAnalyzer(detector: inference, inputSize: 640)
-
-      do {
-        let result = try analyzer.analyzeVideo(
-          assetId: assetId,
-          mode: scanMode,
-          sampleInterval: sampleInterval.doubleValue > 0 ? sampleInterval.doubleValue : nil,
-          confidenceThreshold: confidenceThreshold.floatValue
-        )
-
-        DispatchQueue.main.async {
-          resolve([
+      // Delegate is weak on the analyzer, so keep it alive for the duration of the scan
+      let eventDelegate = VideoScanEventDelegate(module: self, scanId: scanId)
+      analyzer.delegate = eventDelegate
+
+      withExtendedLifetime(eventDelegate) {
+        do {
+          let result = try analyzer.analyzeVideo(
+            source: try VideoSource(dictionary: video),
+            mode: scanMode,
+            sampleInterval: sampleInterval.doubleValue > 0 ? sampleInterval.doubleValue : nil,
+            confidenceThreshold: confidenceThreshold.floatValue,
+            startTime: (range?["startTime"] as? NSNumber)?.doubleValue,
+            endTime: (range?["endTime"] as? NSNumber)?.doubleValue
+          )
+
+          var response: [String: Any] = [
             "isNSFW": result.isNSFW,
             "nsfwFrameCount": result.nsfwFrameCount,
             "totalFramesAnalyzed": result.totalFramesAnalyzed,
@@ -313,38 +952,81 @@ class VisionMLModule: NSObject {
             "highestConfidence": result.highestConfidence,
             "totalProcessingTime": result.totalProcessingTime,
             "videoDuration": result.videoDuration,
+            "startTime": result.startTime,
+            "endTime": result.endTime,
             "scanMode": result.scanMode,
             "humanFramesDetected": result.humanFramesDetected
-          ])
-        }
-      } catch {
-        DispatchQueue.main.async {
-          reject("VIDEO_ANALYSIS_ERROR", "Video analysis failed: \(error.localizedDescription)", error)
+          ]
+          if timeline {
+            response["frames"] = result.frames.map { frame in
+              [
+                "timestamp": frame.timestamp,
+                "detections": self.serializeDetections(frame.detections),
+                "flaggedDetections": self.serializeDetections(frame.flaggedDetections),
+                "isFlagged": frame.isNSFW,
+                "width": frame.width,
+                "height": frame.height
+              ] as [String: Any]
+            }
+          }
+
+          DispatchQueue.main.async {
+            resolve(response)
+          }
+        } catch let error as VideoAnalyzerError {
+          DispatchQueue.main.async {
+            reject(error.code, error.localizedDescription, error)
+          }
+        } catch {
+          DispatchQueue.main.async {
+            reject("VIDEO_ANALYSIS_ERROR", "Video analysis failed: \(error.localizedDescription)", error)
+          }
         }
       }
     }
   }
 
   /// Quick check a video (start, middle, end only)
-  @objc(quickCheckVideo:assetId:confidenceThreshold:resolve:reject:)
+  @objc(quickCheckVideo:video:confidenceThreshold:policy:scanId:resolve:reject:)
   func quickCheckVideo(
     _ detectorId: String,
-    assetId: String,
+    video: NSDictionary,
     confidenceThreshold: NSNumber,
+    policy: NSDictionary?,
+    scanId: String,
     resolve: @escaping RCTPromiseResolveBlock,
     reject: @escaping RCTPromiseRejectBlock
   ) {
     analyzeVideo(
       detectorId,
-      assetId: assetId,
+      video: video,
       mode: "quick_check",
       sampleInterval: 0,
       confidenceThreshold: confidenceThreshold,
+      policy: policy,
+      scanId: scanId,
+      timeline: false,
+      range: nil,
       resolve: resolve,
       reject: reject
     )
   }
 
+  /// Cancel a running video scan
+  /// The scan's promise rejects with VIDEO_ANALYSIS_CANCELLED once the current frame finishes
+  @objc(cancelVideoAnalysis:resolve:reject:)
+  func cancelVideoAnalysis(
+    _ scanId: String,
+    resolve: @escaping RCTPromiseResolveBlock,
+    reject: @escaping RCTPromiseRejectBlock
+  ) {
+    let analyzer = videoScansQueue.sync {
+      return videoScans[scanId]
+    }
+    analyzer?.cancel()
+    resolve(analyzer != nil)
+  }
+
   // MARK: - Vision Framework Methods
 
   @objc(analyzeAnimals:resolve:reject:)
@@ -413,9 +1095,11 @@ class VisionMLModule: NSObject {
     }
   }
 
-  @objc(analyzeComprehensive:resolve:reject:)
+  /// - Parameter options: ComprehensiveAnalysisOptions from JS (requests, maxScenes, include* flags)
+  @objc(analyzeComprehensive:options:resolve:reject:)
   func analyzeComprehensive(
     _ assetId: String,
+    options analysisOptions: NSDictionary?,
     resolve: @escaping RCTPromiseResolveBlock,
     reject: @escaping RCTPromiseRejectBlock
   ) {
@@ -440,7 +1124,8 @@ class VisionMLModule: NSObject {
         return
       }
 
-      self.performComprehensiveAnalysis(cgImage: cgImage) { result in
+      let comprehensiveOptions = ComprehensiveOptions(dictionary: analysisOptions)
+      self.performComprehensiveAnalysis(cgImage: cgImage, options: comprehensiveOptions) { result in
         resolve(result)
       }
     }
@@ -546,149 +1231,224 @@ class VisionMLModule: NSObject {
     }
   }
 
-  private func performComprehensiveAnalysis(cgImage: CGImage, completion: @escaping ([String: Any]) -> Void) {
+  /// Analyses and detail selected by ComprehensiveAnalysisOptions
+  private struct ComprehensiveOptions {
+    static let allRequests: Set<String> = ["scenes", "faces", "animals", "humans", "text", "rectangles"]
+
+    let requests: Set<String>
+    let maxScenes: Int
+    let includeText: Bool
+    let includeFaceLandmarks: Bool
+    let includeRectangleCorners: Bool
+
+    init(dictionary: NSDictionary?) {
+      requests = (dictionary?["requests"] as? [String]).map(Set.init) ?? ComprehensiveOptions.allRequests
+      maxScenes = (dictionary?["maxScenes"] as? NSNumber)?.intValue ?? 10
+      includeText = dictionary?["includeText"] as? Bool ?? false
+      includeFaceLandmarks = dictionary?["includeFaceLandmarks"] as? Bool ?? false
+      includeRectangleCorners = dictionary?["includeRectangleCorners"] as? Bool ?? false
+    }
+  }
+
+  private func performComprehensiveAnalysis(
+    cgImage: CGImage,
+    options: ComprehensiveOptions,
+    completion: @escaping ([String: Any]) -> Void
+  ) {
     var result: [String: Any] = [:]
     let resultQueue = DispatchQueue(label: "com.visionml.result", attributes: .concurrent)
     let group = DispatchGroup()
+    var requests: [VNRequest] = []
+    let imageSize = CGSize(width: cgImage.width, height: cgImage.height)
 
     // Scene Classification
-    group.enter()
-    let sceneRequest = VNClassifyImageRequest { request, error in
-      defer { group.leave() }
-      guard error == nil,
-            let observations = request.results as? [VNClassificationObservation] else {
-        return
-      }
+    if options.requests.contains("scenes") {
+      group.enter()
+      requests.append(VNClassifyImageRequest { request, error in
+        defer { group.leave() }
+        guard error == nil,
+              let observations = request.results as? [VNClassificationObservation] else {
+          return
+        }
 
-      let scenes = observations
-        .filter { $0.confidence > 0.1 }
-        .prefix(10)
-        .map { ["identifier": $0.identifier, "confidence": $0.confidence] }
+        let scenes = observations
+          .filter { $0.confidence > 0.1 }
+          .prefix(max(0, options.maxScenes))
+          .map { ["identifier": $0.identifier, "confidence": $0.confidence] }
 
-      resultQueue.async(flags: .barrier) {
-        result["scenes"] = scenes
-      }
+        resultQueue.async(flags: .barrier) {
+          result["scenes"] = scenes
+        }
+      })
     }
 
-    // Face Detection
-    group.enter()
-    let faceRequest = VNDetectFaceRectanglesRequest { request, error in
-      defer { group.leave() }
-      guard error == nil,
-            let observations = request.results as? [VNFaceObservation] else {
-        return
-      }
+    // Face Detection (landmarks request when landmarks are wanted; it finds the faces too)
+    if options.requests.contains("faces") {
+      group.enter()
+      let faceCompletion: VNRequestCompletionHandler = { request, error in
+        defer { group.leave() }
+        guard error == nil,
+              let observations = request.results as? [VNFaceObservation] else {
+          return
+        }
 
-      let faces = observations.map { face -> [String: Any] in
-        return [
-          "boundingBox": [
-            "x": face.boundingBox.origin.x,
-            "y": face.boundingBox.origin.y,
-            "width": face.boundingBox.size.width,
-            "height": face.boundingBox.size.height
-          ],
-          "confidence": face.confidence
-        ]
-      }
+        let qualities = options.includeFaceLandmarks
+          ? self.faceCaptureQualities(cgImage: cgImage, faces: observations)
+          : []
+
+        let faces = observations.enumerated().map { index, face -> [String: Any] in
+          var entry: [String: Any] = [
+            "boundingBox": [
+              "x": face.boundingBox.origin.x,
+              "y": face.boundingBox.origin.y,
+              "width": face.boundingBox.size.width,
+              "height": face.boundingBox.size.height
+            ],
+            "confidence": face.confidence
+          ]
+          if options.includeFaceLandmarks {
+            entry["landmarks"] = self.serializeFaceLandmarks(face.landmarks, imageSize: imageSize)
+            if index < qualities.count, let quality = qualities[index] {
+              entry["captureQuality"] = quality
+            }
+          }
+          return entry
+        }
 
-      resultQueue.async(flags: .barrier) {
-        result["faces"] = faces
-        result["faceCount"] = faces.count
+        resultQueue.async(flags: .barrier) {
+          result["faces"] = faces
+          result["faceCount"] = faces.count
+        }
       }
+      requests.append(
+        options.includeFaceLandmarks
+          ? VNDetectFaceLandmarksRequest(completionHandler: faceCompletion)
+          : VNDetectFaceRectanglesRequest(completionHandler: faceCompletion)
+      )
     }
 
     // Animal Detection
-    group.enter()
-    let animalRequest = VNRecognizeAnimalsRequest { request, error in
-      defer { group.leave() }
-      guard error == nil,
-            let observations = request.results as? [VNRecognizedObjectObservation] else {
-        return
-      }
+    if options.requests.contains("animals") {
+      group.enter()
+      requests.append(VNRecognizeAnimalsRequest { request, error in
+        defer { group.leave() }
+        guard error == nil,
+              let observations = request.results as? [VNRecognizedObjectObservation] else {
+          return
+        }
+
+        let animals = observations.map { observation -> [String: Any] in
+          let labels = observation.labels.map { label -> [String: Any] in
+            return [
+              "identifier": label.identifier,
+              "confidence": label.confidence
+            ]
+          }
 
-      let animals = observations.map { observation -> [String: Any] in
-        let labels = observation.labels.map { label -> [String: Any] in
           return [
-            "identifier": label.identifier,
-            "confidence": label.confidence
+            "boundingBox": [
+              "x": observation.boundingBox.origin.x,
+              "y": observation.boundingBox.origin.y,
+              "width": observation.boundingBox.size.width,
+              "height": observation.boundingBox.size.height
+            ],
+            "confidence": observation.confidence,
+            "labels": labels
           ]
         }
 
-        return [
-          "boundingBox": [
-            "x": observation.boundingBox.origin.x,
-            "y": observation.boundingBox.origin.y,
-            "width": observation.boundingBox.size.width,
-            "height": observation.boundingBox.size.height
-          ],
-          "confidence": observation.confidence,
-          "labels": labels
-        ]
-      }
-
-      resultQueue.async(flags: .barrier) {
-        result["animals"] = animals
-        result["animalCount"] = animals.count
-      }
+        resultQueue.async(flags: .barrier) {
+          result["animals"] = animals
+          result["animalCount"] = animals.count
+        }
+      })
     }
 
     // Human Pose Detection
-    group.enter()
-    let poseRequest = VNDetectHumanBodyPoseRequest { request, error in
-      defer { group.leave() }
-      guard error == nil,
-            let observations = request.results as? [VNHumanBodyPoseObservation] else {
-        return
-      }
+    if options.requests.contains("humans") {
+      group.enter()
+      requests.append(VNDetectHumanBodyPoseRequest { request, error in
+        defer { group.leave() }
+        guard error == nil,
+              let observations = request.results as? [VNHumanBodyPoseObservation] else {
+          return
+        }
 
-      resultQueue.async(flags: .barrier) {
-        result["humanCount"] = observations.count
-        result["hasHumans"] = observations.count > 0
-      }
+        resultQueue.async(flags: .barrier) {
+          result["humanCount"] = observations.count
+          result["hasHumans"] = observations.count > 0
+        }
+      })
     }
 
     // Text Detection
-    group.enter()
-    let textRequest = VNRecognizeTextRequest { request, error in
-      defer { group.leave() }
-      guard error == nil,
-            let observations = request.results as? [VNRecognizedTextObservation] else {
-        return
-      }
+    if options.requests.contains("text") {
+      group.enter()
+      requests.append(VNRecognizeTextRequest { request, error in
+        defer { group.leave() }
+        guard error == nil,
+              let observations = request.results as? [VNRecognizedTextObservation] else {
+          return
+        }
 
-      resultQueue.async(flags: .barrier) {
-        result["hasText"] = observations.count > 0
-        result["textRegions"] = observations.count
-      }
+        let texts: [[String: Any]]? = options.includeText
+          ? observations.compactMap { observation in
+              guard let candidate = observation.topCandidates(1).first else { return nil }
+              return [
+                "text": candidate.string,
+                "confidence": candidate.confidence,
+                "boundingBox": self.topLeftBox(observation.boundingBox)
+              ]
+            }
+          : nil
+
+        resultQueue.async(flags: .barrier) {
+          result["hasText"] = observations.count > 0
+          result["textRegions"] = observations.count
+          if let texts = texts {
+            result["texts"] = texts
+          }
+        }
+      })
     }
 
     // Rectangle Detection (for screenshots)
-    group.enter()
-    let rectangleRequest = VNDetectRectanglesRequest { request, error in
-      defer { group.leave() }
-      guard error == nil,
-            let observations = request.results as? [VNRectangleObservation] else {
-        return
-      }
+    if options.requests.contains("rectangles") {
+      group.enter()
+      requests.append(VNDetectRectanglesRequest { request, error in
+        defer { group.leave() }
+        guard error == nil,
+              let observations = request.results as? [VNRectangleObservation] else {
+          return
+        }
 
-      let rectangleCount = observations.count
-      resultQueue.async(flags: .barrier) {
-        result["rectangles"] = rectangleCount
-        result["likelyScreenshot"] = rectangleCount > 5
-      }
+        let rectangleCount = observations.count
+        let corners: [[String: Any]]? = options.includeRectangleCorners
+          ? observations.map { observation in
+              return [
+                "topLeft": self.topLeftPoint(observation.topLeft),
+                "topRight": self.topLeftPoint(observation.topRight),
+                "bottomRight": self.topLeftPoint(observation.bottomRight),
+                "bottomLeft": self.topLeftPoint(observation.bottomLeft),
+                "confidence": observation.confidence
+              ]
+            }
+          : nil
+
+        resultQueue.async(flags: .barrier) {
+          result["rectangles"] = rectangleCount
+          result["likelyScreenshot"] = rectangleCount > 5
+          if let corners = corners {
+            result["detectedRectangles"] = corners
+          }
+        }
+      })
     }
 
-    // Execute all requests
+    // Execute the selected requests
     let handler = VNImageRequestHandler(cgImage: cgImage, options: [:])
     do {
-      try handler.perform([
-        sceneRequest,
-        faceRequest,
-        animalRequest,
-        poseRequest,
-        textRequest,
-        rectangleRequest
-      ])
+      try handler.perform(requests)
     } catch {
       // Return partial results on error
     }
@@ -702,6 +1462,63 @@ class VisionMLModule: NSObject {
     }
   }
 
+  /// Capture quality of each face, in the order given (nil where Vision has none)
+  private func faceCaptureQualities(cgImage: CGImage, faces: [VNFaceObservation]) -> [Float?] {
+    guard !faces.isEmpty else { return [] }
+    let request = VNDetectFaceCaptureQualityRequest()
+    request.inputFaceObservations = faces
+    do {
+      try VNImageRequestHandler(cgImage: cgImage, options: [:]).perform([request])
+    } catch {
+      return []
+    }
+    return ((request.results as? [VNFaceObservation]) ?? []).map { $0.faceCaptureQuality }
+  }
+
+  /// Face landmark outlines as the JS FaceLandmarkRegion map, in top-left normalized image coordinates
+  private func serializeFaceLandmarks(_ landmarks: VNFaceLandmarks2D?, imageSize: CGSize) -> [String: Any] {
+    guard let landmarks = landmarks else { return [:] }
+    let regions: [(String, VNFaceLandmarkRegion2D?)] = [
+      ("faceContour", landmarks.faceContour),
+      ("leftEye", landmarks.leftEye),
+      ("rightEye", landmarks.rightEye),
+      ("leftEyebrow", landmarks.leftEyebrow),
+      ("rightEyebrow", landmarks.rightEyebrow),
+      ("nose", landmarks.nose),
+      ("outerLips", landmarks.outerLips),
+      ("innerLips", landmarks.innerLips),
+      ("leftPupil", landmarks.leftPupil),
+      ("rightPupil", landmarks.rightPupil)
+    ]
+
+    var result: [String: Any] = [:]
+    for (name, region) in regions {
+      guard let region = region else { continue }
+      result[name] = region.pointsInImage(imageSize: imageSize).map { point in
+        return [
+          "x": point.x / imageSize.width,
+          "y": 1 - point.y / imageSize.height
+        ]
+      }
+    }
+    return result
+  }
+
+  /// Vision's bottom-left normalized point as a top-left JS ImagePoint
+  private func topLeftPoint(_ point: CGPoint) -> [String: Any] {
+    return ["x": point.x, "y": 1 - point.y]
+  }
+
+  /// Vision's bottom-left normalized box as a top-left JS BoundingBox
+  private func topLeftBox(_ box: CGRect) -> [String: Any] {
+    return [
+      "x": box.origin.x,
+      "y": 1 - box.origin.y - box.size.height,
+      "width": box.size.width,
+      "height": box.size.height
+    ]
+  }
+
   // MARK: - Sensitive Content Analysis (iOS 17+)
 
   /// Get the status of Sensitive Content Analysis
@@ -1203,8 +2020,163 @@ class VisionMLModule: NSObject {
     #endif
   }
 
+  // MARK: - Result Cache
+
+  /// Modification times (ms since epoch) of photo/video assets and files, NSNull for ones not found
+  /// Strings starting with file:// or "/" are files, anything else a Photos local identifier.
+  /// The JS result cache compares them with the time stored alongside each result.
+  @objc(getModificationDates:resolve:reject:)
+  func getModificationDates(
+    _ ids: [String],
+    resolve: @escaping RCTPromiseResolveBlock,
+    reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      var dates: [String: Any] = [:]
+      let isFile: (String) -> Bool = { $0.hasPrefix("file://") || $0.hasPrefix("/") }
+
+      let assetIds = ids.filter { !isFile($0) }
+      if !assetIds.isEmpty {
+        // One fetch for the whole batch; unedited assets have no modificationDate
+        PHAsset.fetchAssets(withLocalIdentifiers: assetIds, options: nil).enumerateObjects { asset, _, _ in
+          if let date = asset.modificationDate ?? asset.creationDate {
+            dates[asset.localIdentifier] = date.timeIntervalSince1970 * 1000
+          }
+        }
+      }
+
+      for id in ids where isFile(id) {
+        let path = URL(string: id).flatMap { $0.scheme == "file" ? $0.path : nil } ?? id
+        if let date = (try? FileManager.default.attributesOfItem(atPath: path))?[.modificationDate] as? Date {
+          dates[id] = date.timeIntervalSince1970 * 1000
+        }
+      }
+
+      for id in ids where dates[id] == nil {
+        dates[id] = NSNull()
+      }
+      resolve(dates)
+    }
+  }
+
+  // MARK: - Capabilities
+
+  /// Report which feature families work on this device, with a reason for each one that doesn't
+  @objc(getCapabilities:reject:)
+  func getCapabilities(
+    resolve: @escaping RCTPromiseResolveBlock,
+    reject: @escaping RCTPromiseRejectBlock
+  ) {
+    #if targetEnvironment(simulator)
+    let isSimulator = true
+    #else
+    let isSimulator = false
+    #endif
+
+    // ONNX Runtime: CoreML is only used if it was compiled in
+    let providers = ONNXWrapper.availableProviders()
+    let hasCoreML = providers.contains("CoreMLExecutionProvider")
+    var acceleration: [String: Any] = [
+      "available": hasCoreML,
+      "provider": hasCoreML ? "coreml" : "cpu",
+      "availableProviders": providers
+    ]
+    if !hasCoreML {
+      acceleration["reason"] = "framework_unavailable"
+    }
+
+    // Body pose requests return no observations in the Simulator
+    let humanPose: [String: Any] = isSimulator
+      ? ["available": false, "reason": "simulator"]
+      : ["available": true]
+
+    var progressNotifications: [String: Any] = ["kind": "live_activity"]
+    if #available(iOS 16.1, *) {
+      let enabled = VideoScanActivityManager.isAvailable
+      progressNotifications["available"] = enabled
+      if !enabled {
+        progressNotifications["reason"] = "disabled_by_user"
+      }
+    } else {
+      progressNotifications["available"] = false
+      progressNotifications["reason"] = "ios_version"
+    }
+
+    // Image and video SCA share the same requirements
+    let sensitiveContent = sensitiveContentCapability()
+
+    resolve([
+      "platform": "ios",
+      "osVersion": UIDevice.current.systemVersion,
+      "isSimulator": isSimulator,
+      "acceleration": acceleration,
+      "analyzers": [
+        "framework": "vision",
+        "animals": ["available": true],
+        "humanPose": humanPose,
+        "comprehensive": ["available": true]
+      ],
+      "sensitiveContent": [
+        "image": sensitiveContent,
+        "video": sensitiveContent
+      ],
+      "progressNotifications": progressNotifications
+    ])
+  }
+
+  /// SCA availability, using the same reasons as analyzeSensitiveContent
+  private func sensitiveContentCapability() -> [String: Any] {
+    #if canImport(SensitiveContentAnalysis)
+    if #available(iOS 17.0, *) {
+      if SCSensitivityAnalyzer().analysisPolicy == .disabled {
+        return ["available": false, "reason": "disabled_by_user"]
+      }
+      return ["available": true]
+    }
+    return ["available": false, "reason": "ios_version"]
+    #else
+    return ["available": false, "reason": "framework_unavailable"]
+    #endif
+  }
+
   @objc
   static func requiresMainQueueSetup() -> Bool {
     return false
   }
 }
+
+// MARK: - Video Scan Events
+
+/// Forwards VideoAnalyzer callbacks to JS as events tagged with the scan ID
+private class VideoScanEventDelegate: VideoAnalyzerDelegate {
+
+  private weak var module: VisionMLModule?
+  private let scanId: String
+
+  init(module: VisionMLModule, scanId: String) {
+    self.module = module
+    self.scanId = scanId
+  }
+
+  func videoAnalyzer(_ analyzer: VideoAnalyzer, didUpdateProgress progress: Float) {
+    module?.emit(VisionMLModule.videoProgressEvent, body: [
+      "scanId": scanId,
+      "progress": min(1, max(0, progress)),
+      "phase": analyzer.phase.rawValue,
+      "framesAnalyzed": analyzer.framesAnalyzed,
+      "nsfwFrameCount": analyzer.nsfwFrameCount
+    ])
+  }
+
+  func videoAnalyzer(_ analyzer: VideoAnalyzer, didFindNSFWAt timestamp: Double, confidence: Float) {
+    module?.emit(VisionMLModule.videoDetectionEvent, body: [
+      "scanId": scanId,
+      "timestamp": timestamp,
+      "confidence": confidence
+    ])
+  }
+
+  func videoAnalyzer(_ analyzer: VideoAnalyzer, didComplete result: VideoAnalysisResult) {
+    // Final result is delivered through the promise
+  }
+}
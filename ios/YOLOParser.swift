@@ -1,97 +1,158 @@
 import Foundation
 import Accelerate
 
-/// YOLO v8 output parser - matches NudeNet Python implementation exactly
+/// YOLO output parser - matches NudeNet Python implementation exactly by default
 /// Reference: https://github.com/notAI-tech/NudeNet
 ///
 /// NudeNet uses YOLOv8 with output format:
 /// - Output shape: [1, 4+numClasses, numPredictions]
 /// - Box format: [cx, cy, w, h] center coordinates
 /// - Class scores are direct (no objectness multiplication needed)
+///
+/// Other layouts (ModelConfig.OutputLayout):
+/// - yolov8RowMajor: [1, numPredictions, 4+numClasses]
+/// - yolov5: [1, numPredictions, 5+numClasses], class score = objectness * class probability
 class YOLOParser {
 
+  /// Floor applied by parse() instead of the caller's confidence threshold
+  static let candidateThreshold: Float = 0.01
+
   private let classLabels: [String]
   private let inputSize: Int
   private let numClasses: Int
+  private let layout: ModelConfig.OutputLayout
+  private let valuesPerPrediction: Int
 
   // Store debug info for last parse call
   var lastDebugInfo: [String: Any] = [:]
 
-  init(classLabels: [String], inputSize: Int = 320) {
+  /// Highest score of each class over all predictions in the last parse call (index = class index)
+  private(set) var lastMaxClassScores: [Float] = []
+
+  init(classLabels: [String], inputSize: Int = 320, layout: ModelConfig.OutputLayout = .yolov8Transposed) {
     self.classLabels = classLabels
     self.inputSize = inputSize
     self.numClasses = classLabels.count
+    self.layout = layout
+    self.valuesPerPrediction = layout == .yolov5 ? 5 + classLabels.count : 4 + classLabels.count
+  }
+
+  /// Read value `index` of prediction `prediction` (0-3: cx, cy, w, h; then scores)
+  @inline(__always)
+  private func value(_ output: [Float], _ prediction: Int, _ index: Int, _ numPredictions: Int) -> Float {
+    switch layout {
+    case .yolov8Transposed:
+      // [values, predictions] stored row-major: np.transpose(output)[prediction][index]
+      return output[index * numPredictions + prediction]
+    case .yolov8RowMajor, .yolov5:
+      return output[prediction * valuesPerPrediction + index]
+    }
+  }
+
+  /// Confidence of class `classIndex` for a prediction
+  @inline(__always)
+  private func classScore(_ output: [Float], _ prediction: Int, _ classIndex: Int, _ numPredictions: Int) -> Float {
+    if layout == .yolov5 {
+      return value(output, prediction, 4, numPredictions) * value(output, prediction, 5 + classIndex, numPredictions)
+    }
+    return value(output, prediction, 4 + classIndex, numPredictions)
+  }
+
+  /// Convert a model-space center box to clipped [x1, y1, x2, y2] in original image coordinates
+  private func originalBox(
+    _ output: [Float],
+    _ prediction: Int,
+    _ numPredictions: Int,
+    letterbox: ImageDecoder.LetterboxInfo,
+    originalWidth: Int,
+    originalHeight: Int
+  ) -> [Float] {
+    let cx = value(output, prediction, 0, numPredictions)
+    let cy = value(output, prediction, 1, numPredictions)
+    let w = value(output, prediction, 2, numPredictions)
+    let h = value(output, prediction, 3, numPredictions)
+
+    // IMPORTANT: Flip Y-axis because CGContext has origin at bottom-left
+    // but the model expects origin at top-left (standard image coordinates)
+    // Flip in model space (0-inputSize) before scaling
+    let y1Flipped = Float(inputSize) - (cy + h / 2)  // Note: y1 and y2 swap when flipping
+    let y2Flipped = Float(inputSize) - (cy - h / 2)
+
+    // Undo letterbox: model = original * scale + pad
+    var x1 = (cx - w / 2 - letterbox.padX) / letterbox.scaleX
+    var y1 = (y1Flipped - letterbox.padY) / letterbox.scaleY
+    var x2 = (cx + w / 2 - letterbox.padX) / letterbox.scaleX
+    var y2 = (y2Flipped - letterbox.padY) / letterbox.scaleY
+
+    // Clip to original image boundaries (Python does this too)
+    x1 = max(0, min(x1, Float(originalWidth)))
+    y1 = max(0, min(y1, Float(originalHeight)))
+    x2 = max(0, min(x2, Float(originalWidth)))
+    y2 = max(0, min(y2, Float(originalHeight)))
+
+    return [x1, y1, x2, y2]
   }
 
   /// Parse YOLO v8 output tensor to detections
   /// Matches NudeNet Python postprocessing exactly
   ///
   /// - Parameters:
-  ///   - output: ONNX output tensor data as flat Float array [1, 22, numPredictions]
-  ///   - minConfidence: Minimum confidence to include (default 0.01 for debugging)
-  ///   - minBoxSize: Minimum box dimension in pixels (filters tiny noise boxes)
+  ///   - output: ONNX output tensor data as flat Float array (e.g. [1, 22, numPredictions] for NudeNet)
+  ///   - confidenceThreshold: Minimum confidence to include
   ///   - originalWidth: Original image width for coordinate scaling
   ///   - originalHeight: Original image height for coordinate scaling
+  ///   - letterbox: Placement of the original image in the model input
   /// - Returns: Array of parsed detections (before NMS)
   func parse(
     output: [Float],
     confidenceThreshold: Float,
     originalWidth: Int,
-    originalHeight: Int
+    originalHeight: Int,
+    letterbox: ImageDecoder.LetterboxInfo
   ) -> [NMS.Detection] {
 
     var detections: [NMS.Detection] = []
 
-    // YOLOv8 output format: [1, 4+numClasses, numPredictions]
     // For NudeNet 320n: [1, 22, 6300] where 22 = 4 box coords + 18 classes
-    let valuesPerPrediction = 4 + numClasses  // 22 for NudeNet
-
     // Calculate number of predictions from output size
     let numPredictions = output.count / valuesPerPrediction
 
-    NSLog("[YOLOParser] Output size: %d, valuesPerPrediction: %d, numPredictions: %d",
-          output.count, valuesPerPrediction, numPredictions)
+    NSLog("[YOLOParser] Output size: %d, layout: %@, valuesPerPrediction: %d, numPredictions: %d",
+          output.count, layout.rawValue, valuesPerPrediction, numPredictions)
 
     // NudeNet uses letterboxing: pad to square (right/bottom), then resize to inputSize
-    // Image is at TOP-LEFT of padded square, so NO offset subtraction needed
-    // Just scale from model coords (0-320) to original image coords (0-maxDim)
+    // Image is at TOP-LEFT of padded square, so the pad offsets are zero in that mode
     let maxDim = max(originalWidth, originalHeight)
-    let scale = Float(maxDim) / Float(inputSize)
+    let scale = 1 / letterbox.scaleX
 
-    NSLog("[YOLOParser] Original: %dx%d, maxDim: %d, scale: %.4f (no offset - image at top-left)",
-          originalWidth, originalHeight, maxDim, scale)
-
-    // Access pattern for [values, predictions] tensor stored row-major:
-    // output[valueIndex * numPredictions + predictionIndex]
-    // This is equivalent to Python's: np.transpose(output)[predictionIndex][valueIndex]
+    NSLog("[YOLOParser] Original: %dx%d, letterbox: %@, scale: %.4f, pad: %.1f,%.1f",
+          originalWidth, originalHeight, letterbox.mode.rawValue, scale, letterbox.padX, letterbox.padY)
 
     // Track max scores per NSFW class for debugging
     let nsfwClassIndices = [2, 3, 4, 6, 14]
     var maxNSFWScores: [Float] = Array(repeating: 0, count: 5)
     var maxNSFWPredIdx: [Int] = Array(repeating: 0, count: 5)
+    var maxClassScores: [Float] = Array(repeating: 0, count: numClasses)
 
     // Use very low threshold for debugging - we'll filter in JS
-    let effectiveThreshold: Float = 0.01  // Catch everything
+    let effectiveThreshold = YOLOParser.candidateThreshold  // Catch everything
 
     var detectionCount = 0
 
     for i in 0..<numPredictions {
-      // Extract box coordinates (center format)
-      let cx = output[0 * numPredictions + i]
-      let cy = output[1 * numPredictions + i]
-      let w = output[2 * numPredictions + i]
-      let h = output[3 * numPredictions + i]
-
       // Find best class score (YOLOv8: class score IS confidence)
       var maxClassScore: Float = 0
       var bestClassIdx = 0
 
       for c in 0..<numClasses {
-        let classScore = output[(4 + c) * numPredictions + i]
+        let classScore = self.classScore(output, i, c, numPredictions)
         if classScore > maxClassScore {
           maxClassScore = classScore
           bestClassIdx = c
         }
+        if classScore > maxClassScores[c] {
+          maxClassScores[c] = classScore
+        }
 
         // Track max NSFW scores for debugging
         if let nsfwIdx = nsfwClassIndices.firstIndex(of: c) {
@@ -105,32 +166,12 @@ class YOLOParser {
       // Skip very low confidence (just noise)
       if maxClassScore < effectiveThreshold { continue }
 
-      // Convert center coordinates to corner format (matching Python)
-      // Python: x = x - w/2, y = y - h/2 (top-left)
-      // We use x1,y1,x2,y2 format
-      var x1 = cx - w / 2
-      var y1 = cy - h / 2
-      var x2 = cx + w / 2
-      var y2 = cy + h / 2
-
-      // IMPORTANT: Flip Y-axis because CGContext has origin at bottom-left
-      // but the model expects origin at top-left (standard image coordinates)
-      // Flip in model space (0-inputSize) before scaling
-      let y1_flipped = Float(inputSize) - y2  // Note: y1 and y2 swap when flipping
-      let y2_flipped = Float(inputSize) - y1
-
-      // Scale from model coordinates to padded square (maxDim x maxDim)
-      // No offset needed since image is at top-left of padded square
-      x1 = x1 * scale
-      y1 = y1_flipped * scale
-      x2 = x2 * scale
-      y2 = y2_flipped * scale
-
-      // Clip to original image boundaries (Python does this too)
-      x1 = max(0, min(x1, Float(originalWidth)))
-      y1 = max(0, min(y1, Float(originalHeight)))
-      x2 = max(0, min(x2, Float(originalWidth)))
-      y2 = max(0, min(y2, Float(originalHeight)))
+      // Convert center coordinates to corner format in original image space (matching Python)
+      let box = originalBox(
+        output, i, numPredictions,
+        letterbox: letterbox, originalWidth: originalWidth, originalHeight: originalHeight
+      )
+      let x1 = box[0], y1 = box[1], x2 = box[2], y2 = box[3]
 
       // Skip boxes with zero or negative area
       let boxWidth = x2 - x1
@@ -151,8 +192,7 @@ class YOLOParser {
         // Show top 5 class scores for this detection to diagnose misclassification
         var classScores: [(Int, Float)] = []
         for c in 0..<numClasses {
-          let score = output[(4 + c) * numPredictions + i]
-          classScores.append((c, score))
+          classScores.append((c, self.classScore(output, i, c, numPredictions)))
         }
         classScores.sort { $0.1 > $1.1 }
         let top5 = classScores.prefix(5).map { "\(classLabels[$0.0]):\(String(format: "%.3f", $0.1))" }.joined(separator: ", ")
@@ -181,11 +221,13 @@ class YOLOParser {
     // Index 5: MALE_BREAST_EXPOSED, Index 12: FACE_MALE
     var maxMaleBreast: Float = 0
     var maxFaceMale: Float = 0
-    for i in 0..<numPredictions {
-      let maleBreastScore = output[(4 + 5) * numPredictions + i]  // MALE_BREAST_EXPOSED
-      let faceMaleScore = output[(4 + 12) * numPredictions + i]   // FACE_MALE
-      maxMaleBreast = max(maxMaleBreast, maleBreastScore)
-      maxFaceMale = max(maxFaceMale, faceMaleScore)
+    if numClasses > 12 {
+      for i in 0..<numPredictions {
+        let maleBreastScore = classScore(output, i, 5, numPredictions)  // MALE_BREAST_EXPOSED
+        let faceMaleScore = classScore(output, i, 12, numPredictions)   // FACE_MALE
+        maxMaleBreast = max(maxMaleBreast, maleBreastScore)
+        maxFaceMale = max(maxFaceMale, faceMaleScore)
+      }
     }
     NSLog("[YOLOParser] Max MALE scores: M_BREAST=%.4f, FACE_MALE=%.4f (compare to F_BREAST=%.4f, M_GEN=%.4f)",
           maxMaleBreast, maxFaceMale, maxNSFWScores[1], maxNSFWScores[4])
@@ -193,6 +235,7 @@ class YOLOParser {
     NSLog("[YOLOParser] Parsed %d detections before NMS", detections.count)
 
     // Store debug info for retrieval via JS bridge
+    lastMaxClassScores = maxClassScores
     lastDebugInfo = [
       "maxNSFWScores": [
         "BUTTOCKS_EXPOSED": maxNSFWScores[0],
@@ -211,7 +254,8 @@ class YOLOParser {
       "nativeOriginalHeight": originalHeight,
       "nativeMaxDim": maxDim,
       "nativeScaleFactor": scale,
-      "letterboxStyle": "right-bottom"  // Image at top-left, padding on right/bottom
+      "outputLayout": layout.rawValue,
+      "letterboxStyle": letterbox.mode == .topLeft ? "right-bottom" : letterbox.mode.rawValue
     ]
 
     return detections
@@ -223,51 +267,29 @@ class YOLOParser {
     output: [Float],
     confidenceThreshold: Float,
     originalWidth: Int,
-    originalHeight: Int
+    originalHeight: Int,
+    letterbox: ImageDecoder.LetterboxInfo
   ) -> [NMS.Detection] {
 
     var detections: [NMS.Detection] = []
 
-    let valuesPerPrediction = 4 + numClasses
     let numPredictions = output.count / valuesPerPrediction
 
-    let maxDim = max(originalWidth, originalHeight)
-    let scale = Float(maxDim) / Float(inputSize)
-
     let minDimension: Float = 10.0
 
     for i in 0..<numPredictions {
-      let cx = output[0 * numPredictions + i]
-      let cy = output[1 * numPredictions + i]
-      let w = output[2 * numPredictions + i]
-      let h = output[3 * numPredictions + i]
-
       // Check EVERY class, not just the best one
       for c in 0..<numClasses {
-        let classScore = output[(4 + c) * numPredictions + i]
+        let classScore = self.classScore(output, i, c, numPredictions)
 
         if classScore < confidenceThreshold { continue }
 
-        // Convert to corner format
-        let x1_raw = cx - w / 2
-        let y1_raw = cy - h / 2
-        let x2_raw = cx + w / 2
-        let y2_raw = cy + h / 2
-
-        // Flip Y-axis (CGContext bottom-left origin → standard top-left)
-        let y1_flipped = Float(inputSize) - y2_raw
-        let y2_flipped = Float(inputSize) - y1_raw
-
-        // Scale to original image coordinates
-        var x1 = x1_raw * scale
-        var y1 = y1_flipped * scale
-        var x2 = x2_raw * scale
-        var y2 = y2_flipped * scale
-
-        x1 = max(0, min(x1, Float(originalWidth)))
-        y1 = max(0, min(y1, Float(originalHeight)))
-        x2 = max(0, min(x2, Float(originalWidth)))
-        y2 = max(0, min(y2, Float(originalHeight)))
+        // Convert to corner format in original image space (Y flipped, letterbox undone)
+        let box = originalBox(
+          output, i, numPredictions,
+          letterbox: letterbox, originalWidth: originalWidth, originalHeight: originalHeight
+        )
+        let x1 = box[0], y1 = box[1], x2 = box[2], y2 = box[3]
 
         let boxWidth = x2 - x1
         let boxHeight = y2 - y1
@@ -0,0 +1,103 @@
+import { Detector, detectBatch, detectBatchStream } from '../detector';
+import type { InferenceResult } from '../detector';
+import { getScheduler } from '../scheduler';
+import { installMockVisionML } from '../testing';
+import type { MockVisionML } from '../testing';
+
+/** `file:///n.jpg` for n = 1...count */
+function uris(count: number): string[] {
+  return Array.from({ length: count }, (_, index) => `file:///${index + 1}.jpg`);
+}
+
+describe('detectBatch', () => {
+  let mock: MockVisionML;
+  let detector: Detector;
+  /** Milliseconds each image's detect() takes, and the totalTime it reports */
+  let durations: Record<string, number>;
+  let inFlight: number;
+  let maxInFlight: number;
+
+  beforeEach(async () => {
+    mock = installMockVisionML({ images: Object.fromEntries(uris(20).map(uri => [uri, []])) });
+    detector = await Detector.create('/model.onnx', ['FACE_FEMALE']);
+    durations = {};
+    inFlight = 0;
+    maxInFlight = 0;
+
+    const call = mock.call.bind(mock);
+    jest.spyOn(mock, 'call').mockImplementation(async (method, args) => {
+      if (method !== 'detect') {
+        return call(method, args);
+      }
+      const { uri } = args[1] as { uri: string };
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, durations[uri] ?? 0));
+      inFlight--;
+      const result = (await call(method, args)) as InferenceResult;
+      return { ...result, totalTime: durations[uri] ?? 0 };
+    });
+  });
+
+  afterEach(() => {
+    mock.uninstall();
+    getScheduler().configure({ maxConcurrency: 2 });
+    getScheduler().resume();
+  });
+
+  it('keeps at most `concurrency` images in flight', async () => {
+    getScheduler().configure({ maxConcurrency: 4 });
+    for (const uri of uris(8)) durations[uri] = 5;
+
+    const result = await detectBatch(detector.id, uris(8), { concurrency: 3 });
+    expect(maxInFlight).toBe(3);
+    expect(result.results.map(item => item.index)).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+    expect(result).toMatchObject({ totalAnalyzed: 8, failedCount: 0 });
+  });
+
+  it('streams items in completion order', async () => {
+    const [slow, fast, medium] = uris(3);
+    Object.assign(durations, { [slow]: 80, [fast]: 10, [medium]: 40 });
+
+    const order: string[] = [];
+    for await (const item of detectBatchStream(detector.id, [slow, fast, medium], { concurrency: 3 })) {
+      order.push(item.imageUri);
+    }
+    expect(order).toEqual([fast, medium, slow]);
+  });
+
+  it('cancels queued detect() calls when the signal aborts', async () => {
+    getScheduler().pause('background');
+    const controller = new AbortController();
+
+    const batch = detectBatch(detector.id, uris(5), { concurrency: 3, signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(getScheduler().getStats().queued.background).toBe(3);
+
+    controller.abort();
+    await expect(batch).rejects.toMatchObject({ code: 'BATCH_DETECTION_CANCELLED' });
+    expect(getScheduler().getStats().queued.background).toBe(0);
+    expect(mock.callsTo('detect')).toHaveLength(0);
+  });
+
+  it('reports per-image failures without rejecting the batch, and leaves them out of the timing', async () => {
+    const [first, , third] = uris(3);
+    Object.assign(durations, { [first]: 4, [third]: 6 });
+    mock.fail('detect', {
+      code: 'IMAGE_LOAD_FAILED',
+      when: args => (args[1] as { uri: string }).uri === 'file:///2.jpg'
+    });
+
+    const result = await detectBatch(detector.id, uris(3));
+    expect(result.failedCount).toBe(1);
+    expect(result.results[1].error).toMatchObject({ code: 'IMAGE_LOAD_FAILED' });
+    expect(result.timing).toMatchObject({ min: 4, max: 6, mean: 5 });
+  });
+
+  it('summarizes totalTime with nearest-rank percentiles', async () => {
+    uris(20).forEach((uri, index) => (durations[uri] = index + 1));
+
+    const { timing } = await detectBatch(detector.id, uris(20), { concurrency: 20 });
+    expect(timing).toEqual({ min: 1, max: 20, mean: 10.5, p50: 10, p95: 19 });
+  });
+});
@@ -0,0 +1,53 @@
+import { VisionMLError, isVisionMLError } from '../errors';
+
+/** Rejection as the React Native bridge delivers it: an Error with the native code and userInfo */
+function nativeRejection(code: string, message: string, userInfo: Record<string, unknown> | null = null) {
+  return Object.assign(new Error(message), { code, userInfo, nativeStackIOS: [] });
+}
+
+describe('VisionMLError.from', () => {
+  it('keeps the code of a known native rejection', () => {
+    const error = VisionMLError.from(nativeRejection('DETECTOR_NOT_FOUND', "Detector 'abc' not found"));
+
+    expect(error).toBeInstanceOf(VisionMLError);
+    expect(error).toMatchObject({ code: 'DETECTOR_NOT_FOUND', message: "Detector 'abc' not found" });
+    expect(error.nativeCode).toBeUndefined();
+    expect(isVisionMLError(error, 'DETECTOR_NOT_FOUND')).toBe(true);
+  });
+
+  it('maps unknown native codes to UNKNOWN and keeps them as nativeCode', () => {
+    const error = VisionMLError.from(nativeRejection('E_SOMETHING_ELSE', 'Native failure'));
+    expect(error).toMatchObject({ code: 'UNKNOWN', nativeCode: 'E_SOMETHING_ELSE', message: 'Native failure' });
+  });
+
+  it('keeps the native rejection, with its userInfo, as the cause', () => {
+    const rejection = nativeRejection('INFERENCE_ERROR', 'Inference failed', { NSLocalizedDescription: 'ORT error' });
+    const error = VisionMLError.from(rejection);
+
+    expect(error.cause).toBe(rejection);
+    expect((error.cause as typeof rejection).userInfo).toEqual({ NSLocalizedDescription: 'ORT error' });
+  });
+
+  it('wraps plain Errors, strings and other values as UNKNOWN', () => {
+    const plain = new TypeError('VisionML.missing is not a function');
+    expect(VisionMLError.from(plain)).toMatchObject({ code: 'UNKNOWN', message: plain.message, cause: plain });
+    expect(VisionMLError.from(plain).nativeCode).toBeUndefined();
+    expect(VisionMLError.from('boom')).toMatchObject({ code: 'UNKNOWN', message: 'boom' });
+    expect(VisionMLError.from(42)).toMatchObject({ code: 'UNKNOWN', message: 'Unknown error' });
+  });
+
+  it('returns VisionMLErrors unchanged', () => {
+    const error = new VisionMLError('WORK_CANCELLED', 'Cancelled');
+    expect(VisionMLError.from(error)).toBe(error);
+  });
+});
+
+describe('isVisionMLError', () => {
+  it('checks the code only when one is given', () => {
+    const error = new VisionMLError('INVALID_IMAGE_INPUT', 'Bad image');
+    expect(isVisionMLError(error)).toBe(true);
+    expect(isVisionMLError(error, 'INVALID_IMAGE_INPUT')).toBe(true);
+    expect(isVisionMLError(error, 'INFERENCE_ERROR')).toBe(false);
+    expect(isVisionMLError(new Error('Bad image'))).toBe(false);
+  });
+});
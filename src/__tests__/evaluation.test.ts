@@ -0,0 +1,100 @@
+import type { Detection } from '../detector';
+import { evaluateDetections, parseYoloLabels } from '../evaluation';
+import type { GroundTruthBox } from '../evaluation';
+import type { BoxXYXY } from '../geometry';
+
+function truth(className: string, box: BoxXYXY): GroundTruthBox {
+  return { className, box };
+}
+
+function detection(className: string, box: BoxXYXY, score: number): Detection {
+  return { className, box, score, classIndex: 0 };
+}
+
+const CAT_A: BoxXYXY = [0, 0, 10, 10];
+const CAT_B: BoxXYXY = [20, 20, 30, 30];
+const NOWHERE: BoxXYXY = [50, 50, 60, 60];
+
+describe('evaluateDetections', () => {
+  it('scores perfect detections with AP 1', () => {
+    const report = evaluateDetections([
+      {
+        groundTruth: [truth('cat', CAT_A), truth('cat', CAT_B)],
+        detections: [detection('cat', CAT_A, 0.9), detection('cat', CAT_B, 0.8)]
+      }
+    ]);
+
+    expect(report.mAP50).toBeCloseTo(1);
+    expect(report.mAP50to95).toBeCloseTo(1);
+    expect(report).toMatchObject({ truePositives: 2, falsePositives: 0, falseNegatives: 0, precision: 1, recall: 1 });
+  });
+
+  it('computes 101-point interpolated AP from the score ranking', () => {
+    // TP 0.9, FP 0.8, TP 0.7: precision 1 up to recall 0.5, then 2/3 up to recall 1
+    const report = evaluateDetections([
+      {
+        groundTruth: [truth('cat', CAT_A), truth('cat', CAT_B)],
+        detections: [detection('cat', CAT_A, 0.9), detection('cat', NOWHERE, 0.8), detection('cat', CAT_B, 0.7)]
+      }
+    ]);
+
+    expect(report.classes[0].ap50).toBeCloseTo((51 + 50 * (2 / 3)) / 101);
+  });
+
+  it('counts only detections at or above confidenceThreshold', () => {
+    const report = evaluateDetections(
+      [
+        {
+          groundTruth: [truth('cat', CAT_A), truth('cat', CAT_B)],
+          detections: [detection('cat', CAT_A, 0.9), detection('cat', CAT_B, 0.4)]
+        }
+      ],
+      { confidenceThreshold: 0.5 }
+    );
+
+    expect(report).toMatchObject({ truePositives: 1, falseNegatives: 1, recall: 0.5 });
+  });
+
+  it('puts class mix-ups, false positives and misses in the confusion matrix', () => {
+    const report = evaluateDetections(
+      [
+        {
+          groundTruth: [truth('cat', CAT_A), truth('dog', CAT_B)],
+          detections: [detection('dog', CAT_A, 0.9), detection('cat', NOWHERE, 0.9)]
+        }
+      ],
+      { classLabels: ['cat', 'dog'] }
+    );
+
+    expect(report.confusionMatrix.labels).toEqual(['cat', 'dog', 'background']);
+    expect(report.confusionMatrix.counts).toEqual([
+      [0, 1, 0], // the cat was detected as a dog
+      [0, 0, 1], // the dog was missed
+      [1, 0, 0] // a cat was detected where there is nothing
+    ]);
+  });
+
+  it('reports null AP for classes without ground truth and leaves them out of mAP', () => {
+    const report = evaluateDetections(
+      [{ groundTruth: [truth('cat', CAT_A)], detections: [detection('cat', CAT_A, 0.9)] }],
+      { classLabels: ['cat', 'dog'] }
+    );
+
+    expect(report.classes[1].ap50).toBeNull();
+    expect(report.mAP50).toBeCloseTo(1);
+  });
+});
+
+describe('parseYoloLabels', () => {
+  it('converts normalized center boxes to image pixels', () => {
+    expect(parseYoloLabels('1 0.5 0.5 0.2 0.4\n', ['cat', 'dog'], { width: 100, height: 50 })).toEqual([
+      { className: 'dog', box: [40, 15, 60, 35] }
+    ]);
+  });
+
+  it('rejects unknown class indices', () => {
+    expect(() => parseYoloLabels('2 0.5 0.5 0.2 0.2', ['cat', 'dog'], { width: 100, height: 100 })).toThrow(
+      expect.objectContaining({ code: 'INVALID_ANNOTATIONS' })
+    );
+  });
+});
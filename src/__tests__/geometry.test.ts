@@ -0,0 +1,97 @@
+import type { Detection } from '../detector';
+import {
+  convertBox,
+  cxcywhToXyxy,
+  denormalizeBox,
+  getViewTransform,
+  iou,
+  mapBoxFromView,
+  mapBoxToView,
+  nms,
+  normalizeBox,
+  xywhToXyxy,
+  xyxyToCxcywh,
+  xyxyToXywh
+} from '../geometry';
+import type { BoxXYXY } from '../geometry';
+
+function detection(box: BoxXYXY, score: number, classIndex = 0): Detection {
+  return { box, score, classIndex, className: `class_${classIndex}` };
+}
+
+describe('box conversions', () => {
+  const box: BoxXYXY = [10, 20, 50, 80];
+
+  it('converts between xyxy, xywh and cxcywh', () => {
+    expect(xyxyToXywh(box)).toEqual([10, 20, 40, 60]);
+    expect(xyxyToCxcywh(box)).toEqual([30, 50, 40, 60]);
+    expect(xywhToXyxy([10, 20, 40, 60])).toEqual(box);
+    expect(cxcywhToXyxy([30, 50, 40, 60])).toEqual(box);
+  });
+
+  it('round-trips through convertBox', () => {
+    expect(convertBox(convertBox(box, 'xyxy', 'cxcywh'), 'cxcywh', 'xywh')).toEqual([10, 20, 40, 60]);
+    expect(convertBox(box, 'xyxy', 'xyxy')).toEqual(box);
+  });
+
+  it('normalizes to the image size and back', () => {
+    const size = { width: 100, height: 200 };
+    expect(normalizeBox(box, size)).toEqual([0.1, 0.1, 0.5, 0.4]);
+    expect(denormalizeBox(normalizeBox(box, size), size)).toEqual(box);
+  });
+});
+
+describe('view mapping', () => {
+  const image = { width: 200, height: 100 };
+  const view = { width: 100, height: 100 };
+
+  it('letterboxes with contain and crops with cover', () => {
+    expect(getViewTransform(image, view, 'contain')).toEqual({ scaleX: 0.5, scaleY: 0.5, offsetX: 0, offsetY: 25 });
+    expect(getViewTransform(image, view, 'cover')).toEqual({ scaleX: 1, scaleY: 1, offsetX: -50, offsetY: 0 });
+  });
+
+  it('maps boxes into the view and back', () => {
+    const mapped = mapBoxToView([0, 0, 200, 100], image, view);
+    expect(mapped).toEqual([0, 25, 100, 75]);
+    expect(mapBoxFromView(mapped, image, view)).toEqual([0, 0, 200, 100]);
+  });
+});
+
+describe('iou', () => {
+  it('is 1 for identical boxes and 0 for disjoint ones', () => {
+    expect(iou([0, 0, 10, 10], [0, 0, 10, 10])).toBe(1);
+    expect(iou([0, 0, 10, 10], [20, 20, 30, 30])).toBe(0);
+  });
+
+  it('divides the intersection by the union', () => {
+    // 50 shared over 100 + 100 - 50
+    expect(iou([0, 0, 10, 10], [5, 0, 15, 10])).toBeCloseTo(1 / 3);
+  });
+
+  it('is 0 for empty boxes', () => {
+    expect(iou([0, 0, 0, 0], [0, 0, 0, 0])).toBe(0);
+  });
+});
+
+describe('nms', () => {
+  it('keeps the highest-scoring box of an overlapping group', () => {
+    const kept = nms([
+      detection([1, 0, 11, 10], 0.7),
+      detection([0, 0, 10, 10], 0.9),
+      detection([50, 50, 60, 60], 0.8)
+    ]);
+    expect(kept.map(item => item.score)).toEqual([0.9, 0.8]);
+  });
+
+  it('suppresses only above the IoU threshold', () => {
+    const boxes = [detection([0, 0, 10, 10], 0.9), detection([5, 0, 15, 10], 0.8)];
+    expect(nms(boxes, { iouThreshold: 0.5 })).toHaveLength(2);
+    expect(nms(boxes, { iouThreshold: 0.3 })).toHaveLength(1);
+  });
+
+  it('suppresses across classes unless classAware', () => {
+    const boxes = [detection([0, 0, 10, 10], 0.9, 0), detection([0, 0, 10, 10], 0.8, 1)];
+    expect(nms(boxes)).toHaveLength(1);
+    expect(nms(boxes, { classAware: true })).toHaveLength(2);
+  });
+});
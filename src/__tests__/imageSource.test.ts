@@ -0,0 +1,77 @@
+import { imageCacheId, toNativeImageSource } from '../imageSource';
+
+/** RGBA pixels with every byte set from its position, so misplaced bytes show up */
+function pixels(width: number, height: number): Uint8Array {
+  return Uint8Array.from({ length: width * height * 4 }, (_, index) => (index * 7) % 256);
+}
+
+function rgbaOf(source: ReturnType<typeof toNativeImageSource>): string {
+  if (!('rgba' in source)) throw new Error('expected a raw image source');
+  return source.rgba;
+}
+
+describe('toNativeImageSource', () => {
+  it('passes URIs and asset IDs through', () => {
+    expect(toNativeImageSource('file:///photo.jpg')).toEqual({ uri: 'file:///photo.jpg' });
+    expect(toNativeImageSource({ assetId: 'ABC/L0/001' })).toEqual({ assetId: 'ABC/L0/001' });
+  });
+
+  describe('raw RGBA buffers', () => {
+    it('requires exactly width x height x 4 bytes', () => {
+      const tooShort = { data: new Uint8Array(2 * 2 * 3), width: 2, height: 2 };
+      expect(() => toNativeImageSource(tooShort)).toThrow(
+        expect.objectContaining({
+          code: 'INVALID_IMAGE_INPUT',
+          message: 'Raw image buffer is 12 bytes, expected 16 (2x2 RGBA)'
+        })
+      );
+    });
+
+    it.each([
+      [0, 2],
+      [2.5, 2],
+      [2, -1]
+    ])('rejects a %sx%s size', (width, height) => {
+      expect(() => toNativeImageSource({ data: new Uint8Array(16), width, height })).toThrow(
+        expect.objectContaining({ code: 'INVALID_IMAGE_INPUT' })
+      );
+    });
+
+    it('reads only the bytes a typed-array view covers', () => {
+      const backing = new Uint8Array(24);
+      backing.set(pixels(1, 1), 8);
+      const source = toNativeImageSource({ data: backing.subarray(8, 12), width: 1, height: 1 });
+      expect(source).toEqual({ rgba: Buffer.from(pixels(1, 1)).toString('base64'), width: 1, height: 1 });
+    });
+  });
+});
+
+describe('base64 encoding of raw pixels', () => {
+  it.each([
+    ['1x1, two padding characters', 1, 1],
+    ['2x1, one padding character', 2, 1],
+    ['3x1, no padding', 3, 1],
+    ['128x128, across encoding slices', 128, 128]
+  ])('matches Buffer for %s', (_name, width, height) => {
+    const data = pixels(width, height);
+    const rgba = rgbaOf(toNativeImageSource({ data, width, height }));
+
+    expect(rgba).toBe(Buffer.from(data).toString('base64'));
+    expect(Buffer.from(rgba, 'base64').equals(data)).toBe(true);
+  });
+
+  it('accepts an ArrayBuffer', () => {
+    const data = pixels(2, 2);
+    const rgba = rgbaOf(toNativeImageSource({ data: data.buffer as ArrayBuffer, width: 2, height: 2 }));
+    expect(rgba).toBe(Buffer.from(data).toString('base64'));
+  });
+});
+
+describe('imageCacheId', () => {
+  it('keys assets and files, but not data URIs or raw pixels', () => {
+    expect(imageCacheId({ assetId: 'ABC/L0/001' })).toBe('ABC/L0/001');
+    expect(imageCacheId({ uri: 'file:///photo.jpg' })).toBe('file:///photo.jpg');
+    expect(imageCacheId({ uri: 'data:image/png;base64,AAAA' })).toBeNull();
+    expect(imageCacheId({ rgba: 'AAAA', width: 1, height: 1 })).toBeNull();
+  });
+});
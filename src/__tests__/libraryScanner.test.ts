@@ -0,0 +1,102 @@
+import { Detector } from '../detector';
+import type { Detection } from '../detector';
+import { LibraryScanner } from '../libraryScanner';
+import type { LibraryScanCheckpoint } from '../libraryScanner';
+import { installMockVisionML } from '../testing';
+import type { MockVisionML } from '../testing';
+
+const LABELS = ['FACE_FEMALE', 'FEMALE_BREAST_EXPOSED'];
+const EXPOSED: Detection = { box: [0, 0, 50, 50], score: 0.9, classIndex: 1, className: 'FEMALE_BREAST_EXPOSED' };
+
+describe('LibraryScanner', () => {
+  let mock: MockVisionML;
+  let detector: Detector;
+
+  beforeEach(async () => {
+    mock = installMockVisionML({
+      images: {
+        clean: [],
+        flagged: { detections: [EXPOSED], vision: { hasHumans: false, faceCount: 0 } },
+        screenshot: { detections: [], vision: { likelyScreenshot: true } }
+      }
+    });
+    detector = await Detector.create('/models/nudenet.onnx', LABELS);
+  });
+
+  afterEach(() => mock.uninstall());
+
+  /** Scan `assets`, pausing once `pauseAfter` of them are done */
+  async function pausedScan(assets: string[], pauseAfter: number): Promise<LibraryScanner> {
+    const scanner: LibraryScanner = new LibraryScanner(detector, assets, {
+      onItem: (_item, completed) => completed === pauseAfter && scanner.pause()
+    });
+    await scanner.run();
+    return scanner;
+  }
+
+  it('sends photos without people to ONNX unless Vision hints are enabled', async () => {
+    const summary = await new LibraryScanner(detector, ['flagged', 'screenshot']).run();
+    expect(summary.flaggedAssetIds).toEqual(['flagged']);
+    expect(summary.stages.vision).toMatchObject({ processed: 0, skipped: 2 });
+    expect(mock.callsTo('analyzeComprehensive')).toHaveLength(0);
+
+    const hinted = await new LibraryScanner(detector, ['flagged', 'screenshot'], { useVisionHints: true }).run();
+    expect(hinted.flaggedAssetIds).toEqual([]);
+    expect(hinted.stages.vision).toMatchObject({ processed: 2, cleared: 2 });
+  });
+
+  it('stops after the current asset on pause() and continues on resume()', async () => {
+    const scanner = await pausedScan(['clean', 'flagged', 'screenshot'], 1);
+    expect(scanner.checkpoint().nextIndex).toBe(1);
+
+    const summary = await scanner.resume();
+    expect(summary).toMatchObject({ status: 'completed', completed: 3, total: 3, flaggedAssetIds: ['flagged'] });
+    expect(mock.callsTo('detect')).toHaveLength(3);
+  });
+
+  it('resumes from a checkpoint without rescanning finished assets', async () => {
+    const assets = ['flagged', 'clean', 'screenshot'];
+    const checkpoint = JSON.parse(JSON.stringify((await pausedScan(assets, 1)).checkpoint()));
+
+    const summary = await new LibraryScanner(detector, assets, { checkpoint }).run();
+    expect(summary).toMatchObject({ status: 'completed', completed: 3, flaggedAssetIds: ['flagged'] });
+    expect(mock.callsTo('detect')).toHaveLength(3);
+    expect(summary.stages.onnx.processed).toBe(3);
+  });
+
+  describe('checkpoints from a different scan', () => {
+    const assets = ['clean', 'flagged', 'screenshot'];
+    let checkpoint: LibraryScanCheckpoint;
+
+    beforeEach(async () => {
+      checkpoint = (await pausedScan(assets, 1)).checkpoint();
+    });
+
+    it.each([
+      ['an older version', () => ({ ...checkpoint, version: 1 as unknown as 2 })],
+      ['another asset count', () => ({ ...checkpoint, assetCount: 2 })]
+    ])('rejects %s with INVALID_CHECKPOINT', (_name, modified) => {
+      expect(() => new LibraryScanner(detector, assets, { checkpoint: modified() })).toThrow(
+        expect.objectContaining({ code: 'INVALID_CHECKPOINT' })
+      );
+    });
+
+    it('rejects a different asset order, model or scan options', async () => {
+      const other = await Detector.create('/models/other.onnx', LABELS);
+      for (const attempt of [
+        () => new LibraryScanner(detector, ['flagged', 'clean', 'screenshot'], { checkpoint }),
+        () => new LibraryScanner(other, assets, { checkpoint }),
+        () => new LibraryScanner(detector, assets, { checkpoint, useVisionHints: true }),
+        () => new LibraryScanner(detector, assets, { checkpoint, detectionOptions: { confidenceThreshold: 0.3 } })
+      ]) {
+        expect(attempt).toThrow(expect.objectContaining({ code: 'INVALID_CHECKPOINT' }));
+      }
+    });
+
+    it('accepts a different scheduling priority', () => {
+      expect(
+        () => new LibraryScanner(detector, assets, { checkpoint, detectionOptions: { priority: 'interactive' } })
+      ).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { Detector } from '../detector';
+import type { ModelConfig } from '../detector';
+import {
+  MemoryCacheStorage,
+  ResultCache,
+  getModelIdentity,
+  registerDetectorModel,
+  setResultCache
+} from '../resultCache';
+import type { ResultCacheKey } from '../resultCache';
+import { analyzeSensitiveContent, batchAnalyzeSensitiveContent } from '../sensitiveContent';
+import { installMockVisionML } from '../testing';
+import type { MockVisionML } from '../testing';
+
+function key(assetId: string, overrides: Partial<ResultCacheKey> = {}): ResultCacheKey {
+  const params = { confidenceThreshold: 0.5 };
+  return { kind: 'detect', model: 'model-a', params, assetId, modifiedAt: 1, ...overrides };
+}
+
+describe('ResultCache', () => {
+  it('evicts the least recently used entry beyond maxEntries', async () => {
+    const cache = new ResultCache({ maxEntries: 2 });
+    await cache.set(key('a'), 'A');
+    await cache.set(key('b'), 'B');
+    await cache.get(key('a'));
+    await cache.set(key('c'), 'C');
+
+    expect(await cache.get(key('a'))).toBe('A');
+    expect(await cache.get(key('b'))).toBeNull();
+    expect(await cache.get(key('c'))).toBe('C');
+    expect(await cache.getStats()).toMatchObject({ entries: 2, evictions: 1 });
+  });
+
+  it('misses and removes entries stored for another modification date', async () => {
+    const storage = new MemoryCacheStorage();
+    const cache = new ResultCache({ storage });
+    await cache.set(key('a', { modifiedAt: 1 }), 'A');
+
+    expect(await cache.get(key('a', { modifiedAt: 2 }))).toBeNull();
+    expect(await cache.get(key('a', { modifiedAt: 1 }))).toBeNull();
+    expect(await storage.getAllKeys()).toEqual([]);
+    expect(await cache.getStats()).toMatchObject({ hits: 0, misses: 2, entries: 0 });
+  });
+
+  it('misses entries older than maxAge', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    try {
+      const cache = new ResultCache({ maxAge: 500 });
+      await cache.set(key('a'), 'A');
+      now.mockReturnValue(1500);
+      expect(await cache.get(key('a'))).toBe('A');
+      now.mockReturnValue(1501);
+      expect(await cache.get(key('a'))).toBeNull();
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  it('keys results by their params, whatever order the options were written in', async () => {
+    const cache = new ResultCache();
+    await cache.set(key('a', { params: { confidenceThreshold: 0.5, debug: false } }), 'A');
+
+    expect(await cache.get(key('a', { params: { debug: false, confidenceThreshold: 0.5 } }))).toBe('A');
+    expect(await cache.get(key('a', { params: { debug: false, confidenceThreshold: 0.6 } }))).toBeNull();
+  });
+
+  it('picks up entries already in storage, ignoring keys without its prefix', async () => {
+    const storage = new MemoryCacheStorage();
+    await new ResultCache({ storage }).set(key('a'), 'A');
+    await storage.setItem('app:settings', '{}');
+
+    const reopened = new ResultCache({ storage });
+    expect(await reopened.get(key('a'))).toBe('A');
+    expect((await reopened.getStats()).entries).toBe(1);
+  });
+
+  describe('invalidate', () => {
+    let cache: ResultCache;
+
+    beforeEach(async () => {
+      registerDetectorModel('detector-a', '/models/a.onnx', ['FACE'], 320, {});
+      registerDetectorModel('detector-b', '/models/b.onnx', ['FACE'], 320, {});
+      const modelA = getModelIdentity('detector-a')!;
+      const modelB = getModelIdentity('detector-b')!;
+
+      cache = new ResultCache();
+      // '|' separates the key parts, so asset IDs containing it must still match exactly
+      for (const assetId of ['photo|1', 'photo']) {
+        await cache.set(key(assetId, { model: modelA }), 'A');
+        await cache.set(key(assetId, { model: modelA, params: { confidenceThreshold: 0.7 } }), 'A7');
+        await cache.set(key(assetId, { model: modelB }), 'B');
+        await cache.set(key(assetId, { kind: 'sensitive_content', model: 'sca', params: null }), 'S');
+      }
+    });
+
+    it('removes every params variant of an asset', async () => {
+      expect(await cache.invalidate({ assetId: 'photo|1' })).toBe(4);
+      expect((await cache.getStats()).entries).toBe(4);
+    });
+
+    it('matches the model of a detector', async () => {
+      expect(await cache.invalidate({ detectorId: 'detector-a' })).toBe(4);
+      expect(await cache.get(key('photo', { model: getModelIdentity('detector-b')! }))).toBe('B');
+    });
+
+    it('matches a kind, and every given field together', async () => {
+      expect(await cache.invalidate({ kind: 'sensitive_content', assetId: 'photo' })).toBe(1);
+      expect(await cache.invalidate({ kind: 'sensitive_content' })).toBe(1);
+      expect(await cache.invalidate({})).toBe(6);
+    });
+
+    it('rejects detectors not created in this session', async () => {
+      await expect(cache.invalidate({ detectorId: 'unknown' })).rejects.toMatchObject({ code: 'DETECTOR_NOT_FOUND' });
+    });
+  });
+});
+
+describe('registerDetectorModel', () => {
+  it('gives detectors created from the same inputs the same identity', () => {
+    registerDetectorModel('one', '/models/a.onnx', ['FACE', 'HAND'], 640, { letterbox: 'center', channelOrder: 'bgr' });
+    registerDetectorModel('two', '/models/a.onnx', ['FACE', 'HAND'], 640, { channelOrder: 'bgr', letterbox: 'center' });
+    expect(getModelIdentity('one')).toBe(getModelIdentity('two'));
+  });
+
+  it.each<[string, string, string[], number, ModelConfig]>([
+    ['path', '/models/b.onnx', ['FACE', 'HAND'], 640, {}],
+    ['labels', '/models/a.onnx', ['HAND', 'FACE'], 640, {}],
+    ['input size', '/models/a.onnx', ['FACE', 'HAND'], 320, {}],
+    ['config', '/models/a.onnx', ['FACE', 'HAND'], 640, { letterbox: 'center' }]
+  ])('changes the identity with the model %s', (_name, modelPath, labels, inputSize, config) => {
+    registerDetectorModel('base', '/models/a.onnx', ['FACE', 'HAND'], 640, {});
+    registerDetectorModel('changed', modelPath, labels, inputSize, config);
+    expect(getModelIdentity('changed')).not.toBe(getModelIdentity('base'));
+  });
+
+  it('has no identity for unknown detectors', () => {
+    expect(getModelIdentity('never-created')).toBeNull();
+  });
+});
+
+describe('cached calls', () => {
+  let mock: MockVisionML;
+
+  beforeEach(() => {
+    mock = installMockVisionML({
+      sca: 'enabled',
+      images: { 'asset-1': { detections: [], modifiedAt: 1 }, 'asset-2': { detections: [], modifiedAt: 1 } }
+    });
+    setResultCache(new ResultCache());
+  });
+
+  afterEach(() => {
+    setResultCache(null);
+    mock.uninstall();
+  });
+
+  it('runs detect() again once the asset is modified', async () => {
+    const detector = await Detector.create('/model.onnx', ['FACE_FEMALE']);
+    await detector.detect({ assetId: 'asset-1' });
+    await detector.detect({ assetId: 'asset-1' });
+    expect(mock.callsTo('detect')).toHaveLength(1);
+
+    mock.setImage('asset-1', { detections: [], modifiedAt: 2 });
+    await detector.detect({ assetId: 'asset-1' });
+    expect(mock.callsTo('detect')).toHaveLength(2);
+  });
+
+  it('only serves cached SCA results while Sensitive Content Warning is enabled', async () => {
+    await analyzeSensitiveContent('asset-1');
+    await expect(analyzeSensitiveContent('asset-1')).resolves.toMatchObject({ available: true, isSensitive: false });
+    expect(mock.callsTo('analyzeSensitiveContent')).toHaveLength(1);
+
+    mock.scaState = 'disabled';
+    await expect(analyzeSensitiveContent('asset-1')).resolves.toMatchObject({
+      available: false,
+      reason: 'disabled_by_user'
+    });
+    expect(mock.callsTo('analyzeSensitiveContent')).toHaveLength(2);
+  });
+
+  it('rechecks SCA before answering a fully cached batch', async () => {
+    await batchAnalyzeSensitiveContent(['asset-1', 'asset-2']);
+    mock.scaState = 'disabled';
+
+    await expect(batchAnalyzeSensitiveContent(['asset-1', 'asset-2'])).resolves.toMatchObject({
+      available: false,
+      reason: 'disabled_by_user'
+    });
+    expect(mock.callsTo('batchAnalyzeSensitiveContent')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,120 @@
+import { WorkScheduler } from '../scheduler';
+import type { WorkPriority } from '../scheduler';
+
+/** Scheduled call that finishes when the test says so */
+function work(scheduler: WorkScheduler, priority: WorkPriority, started: string[], name: string) {
+  let finish!: () => void;
+  const promise = scheduler.schedule(
+    () =>
+      new Promise<string>(resolve => {
+        started.push(name);
+        finish = () => resolve(name);
+      }),
+    { priority }
+  );
+  return { promise, finish: () => finish() };
+}
+
+/** Let settled calls free their slots */
+async function flush(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe('WorkScheduler', () => {
+  it('lets background work use every slot by default', async () => {
+    const scheduler = new WorkScheduler();
+    const started: string[] = [];
+    work(scheduler, 'background', started, 'scan1');
+    work(scheduler, 'background', started, 'scan2');
+    await flush();
+    expect(started).toEqual(['scan1', 'scan2']);
+  });
+
+  it('keeps a slot free for interactive work below maxBackgroundConcurrency', async () => {
+    const scheduler = new WorkScheduler();
+    scheduler.configure({ maxBackgroundConcurrency: 1 });
+    const started: string[] = [];
+    work(scheduler, 'background', started, 'scan1');
+    work(scheduler, 'background', started, 'scan2');
+    await flush();
+    expect(started).toEqual(['scan1']);
+
+    work(scheduler, 'interactive', started, 'photo');
+    await flush();
+    expect(started).toEqual(['scan1', 'photo']);
+    expect(scheduler.getStats().queued).toEqual({ interactive: 0, background: 1 });
+  });
+
+  it('starts queued interactive calls before earlier background ones', async () => {
+    const scheduler = new WorkScheduler();
+    scheduler.configure({ maxConcurrency: 1 });
+    const started: string[] = [];
+    const first = work(scheduler, 'interactive', started, 'first');
+    work(scheduler, 'background', started, 'scan');
+    work(scheduler, 'interactive', started, 'photo');
+    await flush();
+
+    first.finish();
+    await first.promise;
+    await flush();
+    expect(started).toEqual(['first', 'photo']);
+  });
+
+  it('holds paused lanes and rejects cancelled calls with WORK_CANCELLED', async () => {
+    const scheduler = new WorkScheduler();
+    const started: string[] = [];
+    scheduler.pause('background');
+    const scan = work(scheduler, 'background', started, 'scan');
+    work(scheduler, 'interactive', started, 'photo');
+    await flush();
+    expect(started).toEqual(['photo']);
+
+    expect(scheduler.cancelQueued('background')).toBe(1);
+    await expect(scan.promise).rejects.toMatchObject({ code: 'WORK_CANCELLED' });
+  });
+
+  it('removes a call from the queue when its signal aborts', async () => {
+    const scheduler = new WorkScheduler();
+    scheduler.pause();
+    const controller = new AbortController();
+    const promise = scheduler.schedule(async () => 'never', { signal: controller.signal });
+
+    controller.abort();
+    await expect(promise).rejects.toMatchObject({ code: 'WORK_CANCELLED' });
+    expect(scheduler.getStats().queued.interactive).toBe(0);
+  });
+
+  describe('memory pressure', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('drops to one slot on critical and restores the cap after the recovery time', async () => {
+      const scheduler = new WorkScheduler();
+      scheduler.configure({ maxConcurrency: 4, memoryRecoveryTime: 1000 });
+      const started: string[] = [];
+
+      scheduler.handleMemoryPressure('critical');
+      const first = work(scheduler, 'interactive', started, 'first');
+      work(scheduler, 'interactive', started, 'second');
+      await flush();
+      expect(started).toEqual(['first']);
+      expect(scheduler.getStats()).toMatchObject({ concurrency: 1, memoryPressure: 'critical' });
+
+      // Queued calls start when pressure ends, without waiting for another call
+      jest.advanceTimersByTime(1000);
+      await flush();
+      expect(started).toEqual(['first', 'second']);
+      expect(scheduler.getStats()).toMatchObject({ concurrency: 4, memoryPressure: null });
+      first.finish();
+    });
+
+    it('halves the cap on warning', () => {
+      const scheduler = new WorkScheduler();
+      scheduler.configure({ maxConcurrency: 4 });
+      scheduler.handleMemoryPressure('warning');
+      expect(scheduler.getStats().concurrency).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { Detector } from '../detector';
+import type { Detection } from '../detector';
+import { analyzeSensitiveContent, batchAnalyzeSensitiveContent } from '../sensitiveContent';
+import { installMockVisionML } from '../testing';
+import type { MockVisionML, MockVisionMLOptions } from '../testing';
+
+const LABELS = ['FACE_FEMALE', 'FEMALE_BREAST_EXPOSED'];
+
+function detection(className: string, score: number, box: Detection['box'] = [0, 0, 50, 50]): Detection {
+  return { box, score, className, classIndex: LABELS.indexOf(className) };
+}
+
+const EXPOSED = detection('FEMALE_BREAST_EXPOSED', 0.9);
+
+describe('MockVisionML', () => {
+  let mock: MockVisionML;
+
+  function install(options: MockVisionMLOptions): MockVisionML {
+    mock = installMockVisionML(options);
+    return mock;
+  }
+
+  afterEach(() => mock.uninstall());
+
+  describe('detect', () => {
+    it('returns the scripted detections above the threshold, flagged by the content policy', async () => {
+      const face = detection('FACE_FEMALE', 0.8);
+      install({ images: { 'file:///photo.jpg': [face, EXPOSED, detection('FACE_FEMALE', 0.2)] } });
+      const detector = await Detector.create('/model.onnx', LABELS);
+
+      const result = await detector.detect('file:///photo.jpg');
+      expect(result.detections.map(item => item.score)).toEqual([0.8, 0.9]);
+      expect(result.flaggedDetections).toEqual([EXPOSED]);
+      expect(result.isFlagged).toBe(true);
+      expect(mock.callsTo('detect')).toHaveLength(1);
+    });
+
+    it('applies per-class thresholds and the minimum box area', async () => {
+      const small = detection('FEMALE_BREAST_EXPOSED', 0.9, [0, 0, 5, 5]);
+      install({ images: { 'file:///photo.jpg': { detections: [small], width: 100, height: 100 } } });
+      const detector = await Detector.create('/model.onnx', LABELS);
+      const flaggedLabels = ['FEMALE_BREAST_EXPOSED'];
+
+      expect((await detector.detect('file:///photo.jpg', { policy: { flaggedLabels } })).isFlagged).toBe(true);
+      expect(
+        (await detector.detect('file:///photo.jpg', { policy: { flaggedLabels, minBoxArea: 0.01 } })).isFlagged
+      ).toBe(false);
+      expect(
+        (
+          await detector.detect('file:///photo.jpg', {
+            policy: { flaggedLabels, classThresholds: { FEMALE_BREAST_EXPOSED: 0.95 } }
+          })
+        ).isFlagged
+      ).toBe(false);
+    });
+
+    it('rejects with the injected failure', async () => {
+      install({ images: { 'file:///photo.jpg': [] } });
+      const detector = await Detector.create('/model.onnx', LABELS);
+      mock.failNext('detect', 'INFERENCE_ERROR');
+
+      await expect(detector.detect('file:///photo.jpg')).rejects.toMatchObject({ code: 'INFERENCE_ERROR' });
+      await expect(detector.detect('file:///photo.jpg')).resolves.toMatchObject({ isFlagged: false });
+    });
+  });
+
+  describe('analyzeVideo', () => {
+    const video = { duration: 30, timeline: { 0: [], 10: [EXPOSED], 16: [] } };
+
+    it('samples the scripted timeline at the sample interval', async () => {
+      install({ videos: { 'video-1': video } });
+      const detector = await Detector.create('/model.onnx', LABELS);
+      const progress: number[] = [];
+
+      const result = await detector.analyzeVideo('video-1', {
+        sampleInterval: 5,
+        timeline: true,
+        onProgress: event => progress.push(event.progress)
+      });
+      expect(result).toMatchObject({ isNSFW: true, nsfwTimestamps: [10, 15], firstNSFWTimestamp: 10 });
+      expect(result.timeline?.segments).toEqual([
+        { start: 10, end: 15, peakScore: 0.9, classes: ['FEMALE_BREAST_EXPOSED'] }
+      ]);
+      expect(progress[progress.length - 1]).toBe(1);
+    });
+
+    it('only samples inside startTime/endTime', async () => {
+      install({ videos: { 'video-1': video } });
+      const detector = await Detector.create('/model.onnx', LABELS);
+
+      const result = await detector.analyzeVideo('video-1', { sampleInterval: 5, startTime: 20, endTime: 30 });
+      expect(result).toMatchObject({ isNSFW: false, startTime: 20, endTime: 30 });
+    });
+
+    it('rejects with VIDEO_ANALYSIS_CANCELLED when aborted mid-scan', async () => {
+      install({ videos: { 'video-1': video }, latency: 5 });
+      const detector = await Detector.create('/model.onnx', LABELS);
+      const controller = new AbortController();
+
+      const scan = detector.analyzeVideo('video-1', {
+        sampleInterval: 1,
+        signal: controller.signal,
+        onProgress: () => controller.abort()
+      });
+      await expect(scan).rejects.toMatchObject({ code: 'VIDEO_ANALYSIS_CANCELLED' });
+      expect(mock.callsTo('cancelVideoAnalysis')).toHaveLength(1);
+    });
+
+    it('rejects with VIDEO_ANALYSIS_CANCELLED when aborted before the scan starts', async () => {
+      install({ videos: { 'video-1': video } });
+      const detector = await Detector.create('/model.onnx', LABELS);
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(detector.analyzeVideo('video-1', { signal: controller.signal })).rejects.toMatchObject({
+        code: 'VIDEO_ANALYSIS_CANCELLED'
+      });
+    });
+  });
+
+  describe('Sensitive Content Analysis', () => {
+    it.each([
+      ['disabled', 'disabled_by_user'],
+      ['unsupported_os', 'ios_version'],
+      ['framework_unavailable', 'framework_unavailable']
+    ] as const)('reports %s as unavailable with reason %s', async (sca, reason) => {
+      install({ sca, images: { 'asset-1': [EXPOSED] } });
+
+      await expect(analyzeSensitiveContent('asset-1')).resolves.toMatchObject({ available: false, reason });
+      await expect(batchAnalyzeSensitiveContent(['asset-1'])).resolves.toMatchObject({
+        available: false,
+        reason,
+        results: []
+      });
+    });
+
+    it('is unsupported on Android', async () => {
+      install({ platform: 'android', sca: 'enabled', images: { 'asset-1': [EXPOSED] } });
+      await expect(analyzeSensitiveContent('asset-1')).resolves.toMatchObject({
+        available: false,
+        reason: 'unsupported_platform'
+      });
+    });
+
+    it('derives the verdict from the scripted detections once enabled', async () => {
+      install({ sca: 'enabled', images: { 'asset-1': [EXPOSED], 'asset-2': [] } });
+      const result = await batchAnalyzeSensitiveContent(['asset-1', 'asset-2']);
+      expect(result.results).toEqual([
+        { assetId: 'asset-1', isSensitive: true },
+        { assetId: 'asset-2', isSensitive: false }
+      ]);
+    });
+  });
+});
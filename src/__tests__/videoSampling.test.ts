@@ -0,0 +1,118 @@
+import { Detector } from '../detector';
+import { installMockVisionML } from '../testing';
+import { runSampledScan } from '../videoSampling';
+import type { SampledFrame, VideoSamplingDriver } from '../videoSampling';
+
+/** Driver that records visited timestamps; frames near the threshold at `near` */
+function fakeDriver(near: number[] = [], overrides: Partial<VideoSamplingDriver> = {}) {
+  const visited: number[] = [];
+  const progress: number[] = [];
+  const driver: VideoSamplingDriver = {
+    platform: 'ios',
+    isCancelled: () => false,
+    analyzeFrame: async (timestamp): Promise<SampledFrame> => {
+      visited.push(timestamp);
+      return {
+        isNSFW: false,
+        confidence: 0,
+        detections: [],
+        flaggedDetections: [],
+        width: 640,
+        height: 360,
+        nearThreshold: near.includes(timestamp)
+      };
+    },
+    hasHuman: async () => true,
+    onProgress: value => progress.push(value),
+    ...overrides
+  };
+  return { driver, visited, progress };
+}
+
+describe('runSampledScan', () => {
+  describe('startTime/endTime', () => {
+    it('samples only inside the window, plus a frame near its end', async () => {
+      const { driver, visited } = fakeDriver();
+      const result = await runSampledScan('sampled', 30, 5, driver, { startTime: 10, endTime: 20 });
+
+      expect(visited).toEqual([10, 15, 19.5]);
+      expect(result).toMatchObject({ startTime: 10, endTime: 20, videoDuration: 30, totalFramesAnalyzed: 3 });
+    });
+
+    it('clamps endTime to the duration', async () => {
+      const { driver } = fakeDriver();
+      await expect(runSampledScan('sampled', 30, 5, driver, { startTime: 20, endTime: 60 })).resolves.toMatchObject({
+        startTime: 20,
+        endTime: 30
+      });
+    });
+
+    it.each([
+      ['starts after the video', { startTime: 40 }],
+      ['is empty', { startTime: 10, endTime: 10 }],
+      ['ends before it starts', { startTime: 10, endTime: 5 }]
+    ])('rejects a window that %s with INVALID_VIDEO_RANGE', async (_name, range) => {
+      const { driver, visited } = fakeDriver();
+      await expect(runSampledScan('sampled', 30, 5, driver, range)).rejects.toMatchObject({
+        code: 'INVALID_VIDEO_RANGE'
+      });
+      expect(visited).toEqual([]);
+    });
+  });
+
+  describe('adaptive', () => {
+    it('halves the spacing around near-threshold frames each round, down to 0.5s', async () => {
+      const { driver, visited, progress } = fakeDriver([8]);
+      await runSampledScan('adaptive', 20, 4, driver);
+
+      expect(visited).toEqual([0, 4, 8, 12, 16, 19.5, 6, 10, 7, 9, 7.5, 8.5]);
+      expect(progress[progress.length - 1]).toBe(1);
+      expect([...progress].sort((a, b) => a - b)).toEqual(progress);
+    });
+
+    it('stays inside the window and never visits a timestamp twice', async () => {
+      const { driver, visited } = fakeDriver([10, 12]);
+      await runSampledScan('adaptive', 30, 2, driver, { startTime: 10, endTime: 14 });
+
+      expect(visited.every(t => t >= 10 && t <= 14)).toBe(true);
+      expect(new Set(visited).size).toBe(visited.length);
+      expect(visited).toEqual([10, 12, 13.5, 11, 13, 10.5, 11.5, 12.5]);
+    });
+
+    it('skips refinement when no frame is near the threshold', async () => {
+      const { driver, visited } = fakeDriver();
+      await runSampledScan('adaptive', 20, 4, driver);
+      expect(visited).toEqual([0, 4, 8, 12, 16, 19.5]);
+    });
+  });
+
+  it('rejects with VIDEO_ANALYSIS_CANCELLED and drops partial results when cancelled', async () => {
+    let frames = 0;
+    const { driver, visited } = fakeDriver([], { isCancelled: () => frames >= 2 });
+    const analyzeFrame = driver.analyzeFrame;
+    driver.analyzeFrame = timestamp => {
+      frames++;
+      return analyzeFrame(timestamp);
+    };
+
+    await expect(runSampledScan('sampled', 30, 5, driver)).rejects.toMatchObject({ code: 'VIDEO_ANALYSIS_CANCELLED' });
+    expect(visited).toEqual([0, 5]);
+  });
+});
+
+describe('analyzeVideo range validation', () => {
+  it.each([
+    ['a negative startTime', { startTime: -1 }],
+    ['an endTime at startTime', { startTime: 5, endTime: 5 }],
+    ['a non-finite endTime', { endTime: Infinity }]
+  ])('rejects %s before calling the native module', async (_name, range) => {
+    const mock = installMockVisionML({ videos: { 'video-1': { duration: 30 } } });
+    try {
+      const detector = await Detector.create('/model.onnx', ['FACE_FEMALE']);
+      await expect(detector.analyzeVideo('video-1', range)).rejects.toMatchObject({ code: 'INVALID_VIDEO_RANGE' });
+      expect(mock.callsTo('analyzeVideo')).toHaveLength(0);
+    } finally {
+      mock.uninstall();
+    }
+  });
+});
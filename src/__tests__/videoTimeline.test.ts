@@ -0,0 +1,77 @@
+import type { Detection } from '../detector';
+import { exportVideoTimeline, mergeVideoSegments } from '../videoTimeline';
+import type { VideoFrameResult } from '../videoTimeline';
+
+function frame(timestamp: number, flagged: Array<[string, number]> = []): VideoFrameResult {
+  const detections: Detection[] = flagged.map(([className, score]) => ({
+    className,
+    score,
+    classIndex: 0,
+    box: [0, 0, 10, 10]
+  }));
+  return {
+    timestamp,
+    detections,
+    flaggedDetections: detections,
+    isFlagged: detections.length > 0,
+    width: 640,
+    height: 360
+  };
+}
+
+describe('mergeVideoSegments', () => {
+  it('merges flagged frames within the gap tolerance, bridging unflagged samples', () => {
+    const segments = mergeVideoSegments(
+      [frame(0, [['A', 0.7]]), frame(1), frame(2, [['B', 0.9]]), frame(3), frame(4), frame(5, [['A', 0.8]])],
+      2
+    );
+
+    expect(segments).toEqual([
+      { start: 0, end: 2, peakScore: 0.9, classes: ['A', 'B'] },
+      { start: 5, end: 5, peakScore: 0.8, classes: ['A'] }
+    ]);
+  });
+
+  it('sorts frames that arrive out of order', () => {
+    const segments = mergeVideoSegments([frame(4, [['A', 0.8]]), frame(0, [['A', 0.7]]), frame(2, [['A', 0.6]])], 2);
+    expect(segments).toEqual([{ start: 0, end: 4, peakScore: 0.8, classes: ['A'] }]);
+  });
+
+  it('does not split on float rounding of sample timestamps', () => {
+    let timestamp = 0;
+    const frames: VideoFrameResult[] = [];
+    for (let i = 0; i < 4; i++) {
+      frames.push(frame(timestamp, [['A', 0.7]]));
+      timestamp += 0.1;
+    }
+    expect(mergeVideoSegments(frames, 0.1)).toHaveLength(1);
+  });
+});
+
+describe('exportVideoTimeline', () => {
+  it('writes one WebVTT cue per segment with hh:mm:ss.ttt timestamps', () => {
+    const vtt = exportVideoTimeline(
+      {
+        frames: [],
+        segments: [
+          { start: 12, end: 16, peakScore: 0.912, classes: ['A', 'B'] },
+          { start: 3725.5, end: 3725.5, peakScore: 0.7, classes: ['A'] }
+        ],
+        gapTolerance: 5
+      },
+      'webvtt'
+    );
+
+    expect(vtt).toBe(
+      'WEBVTT\n\n' +
+        '1\n00:00:12.000 --> 00:00:16.000\nA, B (peak 0.91)\n\n' +
+        '2\n01:02:05.500 --> 01:02:06.500\nA (peak 0.70)\n'
+    );
+  });
+
+  it('leaves frames out of JSON unless includeFrames', () => {
+    const timeline = { frames: [frame(0, [['A', 0.7]])], segments: [], gapTolerance: 5 };
+    expect(JSON.parse(exportVideoTimeline(timeline, 'json'))).toEqual({ gapTolerance: 5, segments: [] });
+    expect(JSON.parse(exportVideoTimeline(timeline, 'json', { includeFrames: true })).frames).toHaveLength(1);
+  });
+});
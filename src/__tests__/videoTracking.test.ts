@@ -0,0 +1,82 @@
+import type { Detection } from '../detector';
+import type { BoxXYXY } from '../geometry';
+import type { VideoFrameResult } from '../videoTimeline';
+import { trackVideoFrames } from '../videoTracking';
+
+function detection(className: string, box: BoxXYXY, score = 0.8): Detection {
+  return { className, box, score, classIndex: 0 };
+}
+
+function frame(timestamp: number, detections: Detection[], flagged = detections): VideoFrameResult {
+  return {
+    timestamp,
+    detections,
+    flaggedDetections: flagged,
+    isFlagged: flagged.length > 0,
+    width: 100,
+    height: 100
+  };
+}
+
+describe('trackVideoFrames', () => {
+  it('follows an overlapping box across samples as one track', () => {
+    const { tracks, trackCount } = trackVideoFrames(
+      [
+        frame(0, [detection('A', [0, 0, 20, 20], 0.7)]),
+        frame(1, [detection('A', [2, 0, 22, 20], 0.9)]),
+        frame(2, [detection('A', [4, 0, 24, 20], 0.8)])
+      ],
+      1
+    );
+
+    expect(trackCount).toBe(1);
+    expect(tracks[0]).toEqual({
+      id: 1,
+      className: 'A',
+      firstSeen: 0,
+      lastSeen: 2,
+      peakScore: 0.9,
+      peakTimestamp: 1,
+      peakBox: [2, 0, 22, 20],
+      frameCount: 3,
+      isFlagged: true
+    });
+  });
+
+  it('numbers tracks from 1 in order of first appearance, even for out-of-order frames', () => {
+    const { tracks } = trackVideoFrames(
+      [frame(1, [detection('B', [60, 60, 80, 80])]), frame(0, [detection('A', [0, 0, 20, 20])])],
+      1
+    );
+    expect(tracks.map(track => [track.id, track.className])).toEqual([
+      [1, 'A'],
+      [2, 'B']
+    ]);
+  });
+
+  it('starts a new track after a gap longer than the tolerance', () => {
+    const box: BoxXYXY = [0, 0, 20, 20];
+    const { tracks } = trackVideoFrames([frame(0, [detection('A', box)]), frame(3, [detection('A', box)])], 1);
+    expect(tracks.map(track => track.id)).toEqual([1, 2]);
+  });
+
+  it('never links detections of different classes', () => {
+    const box: BoxXYXY = [0, 0, 20, 20];
+    const { countsByClass } = trackVideoFrames([frame(0, [detection('A', box)]), frame(1, [detection('B', box)])], 1);
+    expect(countsByClass).toEqual({ A: 1, B: 1 });
+  });
+
+  it('links moving boxes by centroid distance where IoU fails', () => {
+    const frames = [frame(0, [detection('A', [0, 0, 10, 10])]), frame(1, [detection('A', [12, 0, 22, 10])])];
+    expect(trackVideoFrames(frames, 1).trackCount).toBe(2);
+    expect(trackVideoFrames(frames, 1, { method: 'centroid' }).trackCount).toBe(1);
+  });
+
+  it("tracks unflagged detections with include: 'all'", () => {
+    const flagged = detection('A', [0, 0, 20, 20]);
+    const clean = detection('B', [60, 60, 80, 80]);
+    const result = trackVideoFrames([frame(0, [flagged, clean], [flagged])], 1, { include: 'all' });
+    expect(result.trackCount).toBe(2);
+    expect(result.flaggedTrackCount).toBe(1);
+  });
+});
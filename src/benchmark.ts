@@ -0,0 +1,148 @@
+import type { ExecutionProvider, ImageInput } from './detector';
+import { toNativeImageSource } from './imageSource';
+import { scheduleNative } from './native';
+
+// MARK: - Benchmark Types
+
+/**
+ * Pipeline stage timed by benchmark()
+ * - decode: image load, resize and letterbox
+ * - preprocess: HWC → NCHW tensor conversion and normalization
+ * - inference: ONNX Runtime session run
+ * - parse: best-class parse of the output tensor
+ * - nms: NMS over the parsed candidates
+ * - recovery: all-class parse, flagged-class recovery and policy evaluation
+ * - total: the whole detect() pipeline
+ */
+export type BenchmarkStage = 'decode' | 'preprocess' | 'inference' | 'parse' | 'nms' | 'recovery' | 'total';
+
+/**
+ * Distribution of one stage's duration over the measured iterations (fractional ms)
+ */
+export interface BenchmarkStats {
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+/**
+ * Options for benchmark()
+ */
+export interface BenchmarkOptions {
+  /** Measured runs (default: 20) */
+  iterations?: number;
+  /** Unmeasured runs first, so provider compilation and caches don't skew the numbers (default: 3) */
+  warmup?: number;
+  /** Minimum confidence threshold, affects parse/NMS time (default: 0.6) */
+  confidenceThreshold?: number;
+  /** IoU threshold for NMS (default: 0.45) */
+  iouThreshold?: number;
+}
+
+/**
+ * Result from benchmark()
+ */
+export interface BenchmarkResult {
+  /** Measured runs */
+  iterations: number;
+  /** Unmeasured warm-up runs */
+  warmup: number;
+  /** Timing distribution of every stage */
+  stages: Record<BenchmarkStage, BenchmarkStats>;
+  /** App memory in bytes before the first run (iOS: physical footprint, Android: native + Java heap) */
+  baselineMemory: number;
+  /** Highest app memory in bytes sampled during the runs, same measure as baselineMemory */
+  peakMemory: number;
+  /** Provider the detector's session is running on */
+  executionProvider: ExecutionProvider;
+}
+
+interface NativeBenchmarkResult {
+  /** Stage timings of each measured run */
+  samples: Record<BenchmarkStage, number>[];
+  baselineMemory: number;
+  peakMemory: number;
+  executionProvider: ExecutionProvider;
+}
+
+const BENCHMARK_STAGES: readonly BenchmarkStage[] = [
+  'decode',
+  'preprocess',
+  'inference',
+  'parse',
+  'nms',
+  'recovery',
+  'total'
+];
+
+// MARK: - Benchmark
+
+/**
+ * Time the detection pipeline stage by stage over repeated runs on one image
+ *
+ * Runs are sequential on the native side, bypass the result cache and
+ * don't cross the bridge between iterations, so the numbers reflect the
+ * pipeline rather than JS scheduling.
+ *
+ * ```typescript
+ * const small = await benchmark(detector320, sampleUri, { iterations: 30 });
+ * const large = await benchmark(detector640, sampleUri, { iterations: 30 });
+ * const useLarge = large.stages.total.p95 < 150 && large.peakMemory - large.baselineMemory < 200e6;
+ * ```
+ *
+ * @param detectorId - Detector instance ID from createDetector()
+ * @param image - File or data URI, photo asset ID, or raw RGBA pixels
+ * @param options - Iteration counts and detection thresholds
+ * @returns Per-stage min/mean/p50/p95/p99/max, peak memory and the execution provider
+ */
+export async function benchmark(
+  detectorId: string,
+  image: ImageInput,
+  options: BenchmarkOptions = {}
+): Promise<BenchmarkResult> {
+  const { confidenceThreshold = 0.6, iouThreshold = 0.45 } = options;
+  const iterations = Math.max(1, Math.floor(options.iterations ?? 20));
+  const warmup = Math.max(0, Math.floor(options.warmup ?? 3));
+
+  const result = await scheduleNative<NativeBenchmarkResult>(
+    { detectorId },
+    'benchmark',
+    detectorId,
+    toNativeImageSource(image),
+    iterations,
+    warmup,
+    confidenceThreshold,
+    iouThreshold
+  );
+
+  const stages = {} as Record<BenchmarkStage, BenchmarkStats>;
+  for (const stage of BENCHMARK_STAGES) {
+    stages[stage] = benchmarkStats(result.samples.map(sample => sample[stage] ?? 0));
+  }
+
+  return {
+    iterations,
+    warmup,
+    stages,
+    baselineMemory: result.baselineMemory,
+    peakMemory: result.peakMemory,
+    executionProvider: result.executionProvider
+  };
+}
+
+/** Stats over non-empty samples (nearest-rank percentiles) */
+function benchmarkStats(samples: number[]): BenchmarkStats {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    p50: percentile(0.5),
+    p95: percentile(0.95),
+    p99: percentile(0.99)
+  };
+}
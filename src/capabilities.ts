@@ -0,0 +1,99 @@
+import { callNative } from './native';
+
+// MARK: - Capability Types
+
+/**
+ * Why a feature is unavailable
+ * - unsupported_platform: not implemented on this platform (e.g. SCA on Android)
+ * - ios_version: needs a newer iOS (SCA: 17.0, Live Activities: 16.1)
+ * - framework_unavailable: the framework or execution provider is missing from this build
+ * - disabled_by_user: turned off in Settings (Sensitive Content Warning, Live Activities)
+ * - simulator: not supported in the iOS Simulator
+ * - not_implemented: the native side is a stub that succeeds without doing anything
+ */
+export type CapabilityUnavailableReason =
+  | 'unsupported_platform'
+  | 'ios_version'
+  | 'framework_unavailable'
+  | 'disabled_by_user'
+  | 'simulator'
+  | 'not_implemented';
+
+/**
+ * Availability of one feature
+ */
+export interface FeatureCapability {
+  /** Whether calls for this feature do real work on this device */
+  available: boolean;
+  /** Set when not available */
+  reason?: CapabilityUnavailableReason;
+}
+
+/**
+ * ONNX Runtime hardware acceleration
+ */
+export interface AccelerationCapability extends FeatureCapability {
+  /** Provider new detectors try first: CoreML (iOS), NNAPI (Android), or CPU when neither is built in */
+  provider: 'coreml' | 'nnapi' | 'cpu';
+  /** Execution providers compiled into ONNX Runtime, e.g. ['CoreMLExecutionProvider', 'CPUExecutionProvider'] */
+  availableProviders: string[];
+}
+
+/**
+ * On-device image analyzers behind analyzeAnimals/analyzeHumanPose/analyzeComprehensive
+ */
+export interface AnalyzerCapabilities {
+  /** Apple Vision (iOS) or Google ML Kit (Android) */
+  framework: 'vision' | 'mlkit';
+  animals: FeatureCapability;
+  /** Unavailable in the iOS Simulator, where pose requests return no humans */
+  humanPose: FeatureCapability;
+  comprehensive: FeatureCapability;
+}
+
+/**
+ * Video scan progress shown outside the app
+ */
+export interface ProgressNotificationCapability extends FeatureCapability {
+  /** Live Activity (iOS) or foreground service notification (Android) */
+  kind: 'live_activity' | 'notification';
+}
+
+/**
+ * What this device supports, with a reason for everything it doesn't
+ */
+export interface VisionMLCapabilities {
+  platform: 'ios' | 'android';
+  /** OS version string, e.g. '17.4' or '14' */
+  osVersion: string;
+  /** Running in the iOS Simulator or an Android emulator */
+  isSimulator: boolean;
+  acceleration: AccelerationCapability;
+  analyzers: AnalyzerCapabilities;
+  /** Apple Sensitive Content Analysis (iOS 17+) */
+  sensitiveContent: {
+    image: FeatureCapability;
+    video: FeatureCapability;
+  };
+  progressNotifications: ProgressNotificationCapability;
+}
+
+/**
+ * Report which feature families work on this device
+ *
+ * Cheap to call; state that can change while the app runs (the Sensitive
+ * Content Warning and Live Activity settings) is read fresh every time.
+ *
+ * ```typescript
+ * const { sensitiveContent } = await getCapabilities();
+ * if (!sensitiveContent.image.available) {
+ *   // e.g. 'unsupported_platform' on Android, 'disabled_by_user' on iOS
+ *   console.log('SCA pre-filter off:', sensitiveContent.image.reason);
+ * }
+ * ```
+ *
+ * @returns Per-feature availability and reasons
+ */
+export async function getCapabilities(): Promise<VisionMLCapabilities> {
+  return callNative('getCapabilities');
+}
@@ -0,0 +1,127 @@
+import type { CreateDetectorResult, ImageInput, ModelConfig, RuntimeOptions } from './detector';
+import { toNativeImageSource } from './imageSource';
+import { callNative } from './native';
+
+// MARK: - Classifier Types
+
+/**
+ * Function applied to the model output before ranking
+ * - none: the model already outputs probabilities
+ * - softmax: logits of mutually exclusive classes
+ * - sigmoid: independent per-class logits (multi-label)
+ */
+export type ClassifierActivation = 'none' | 'softmax' | 'sigmoid';
+
+/**
+ * Preprocessing and output settings of a classification model
+ * Preprocessing fields default to NudeNet's like ModelConfig; most ImageNet-style
+ * classifiers want `letterbox: 'stretch'` with ImageNet mean/std.
+ */
+export interface ClassifierConfig extends Omit<ModelConfig, 'outputLayout'> {
+  /** Applied to the output scores (default: 'softmax') */
+  activation?: ClassifierActivation;
+}
+
+/**
+ * Result from createClassifier
+ */
+export interface CreateClassifierResult extends Omit<CreateDetectorResult, 'detectorId'> {
+  /** Unique classifier instance ID */
+  classifierId: string;
+}
+
+/**
+ * One ranked class label
+ */
+export interface Classification {
+  /** Class label */
+  label: string;
+  /** Index of the label in classLabels */
+  index: number;
+  /** Score after the activation (0-1 unless activation is 'none') */
+  score: number;
+}
+
+/**
+ * Options for classify()
+ */
+export interface ClassificationOptions {
+  /** Maximum number of labels returned (default: 5) */
+  topK?: number;
+  /** Drop labels scoring below this (default: 0) */
+  minScore?: number;
+}
+
+/**
+ * Result from classify()
+ */
+export interface ClassificationResult {
+  /** Highest score first, at most topK */
+  predictions: Classification[];
+  /** ONNX inference time in milliseconds */
+  inferenceTime: number;
+  /** Total time in milliseconds */
+  totalTime: number;
+}
+
+// MARK: - Classifier
+
+/**
+ * Create an image classifier
+ *
+ * Loading, execution providers, warm-up and preprocessing are the same as
+ * createDetector(); the output tensor is read as one score per class label.
+ *
+ * ```typescript
+ * const { classifierId } = await createClassifier(modelPath, IMAGENET_LABELS, 224, {
+ *   letterbox: 'stretch',
+ *   mean: [0.485, 0.456, 0.406],
+ *   std: [0.229, 0.224, 0.225]
+ * });
+ * const { predictions } = await classify(classifierId, photoUri, { topK: 3 });
+ * ```
+ *
+ * @param modelPath - Absolute path to .onnx model file
+ * @param classLabels - Class label of each output score, in output order
+ * @param inputSize - Model input size (default: 224)
+ * @param config - Preprocessing and activation
+ * @param runtime - Execution provider chain, threading, graph optimization and warm-up
+ * @returns Classifier instance with unique ID and the provider in use
+ */
+export async function createClassifier(
+  modelPath: string,
+  classLabels: string[],
+  inputSize: number = 224,
+  config?: ClassifierConfig,
+  runtime?: RuntimeOptions
+): Promise<CreateClassifierResult> {
+  return callNative('createClassifier', modelPath, classLabels, inputSize, config ?? null, runtime ?? null);
+}
+
+/**
+ * Classify an image
+ *
+ * Rejects with INFERENCE_ERROR when the model outputs a different number
+ * of scores than there are class labels.
+ *
+ * @param classifierId - Classifier instance ID from createClassifier()
+ * @param image - File or data URI, photo asset ID, or raw RGBA pixels
+ * @param options - Number of labels and minimum score
+ * @returns The top-k labels with their scores
+ */
+export async function classify(
+  classifierId: string,
+  image: ImageInput,
+  options: ClassificationOptions = {}
+): Promise<ClassificationResult> {
+  const { topK = 5, minScore = 0 } = options;
+  return callNative('classify', classifierId, toNativeImageSource(image), topK, minScore);
+}
+
+/**
+ * Dispose of a classifier instance and free resources
+ * @param classifierId - Classifier instance ID to dispose
+ */
+export async function disposeClassifier(classifierId: string): Promise<{ success: boolean }> {
+  return callNative('disposeModel', classifierId);
+}
@@ -0,0 +1,50 @@
+import type { ContentPolicy, Detection } from './detector';
+
+// MARK: - Content Policy
+//
+// TypeScript port of the flagging rules in ContentPolicy.swift / ContentPolicy.kt.
+// Used by the testing backend so fake detections are flagged exactly like real
+// ones; keep it in sync with the native policies.
+
+/**
+ * Minimum score for a flagged label
+ * @param fallbackThreshold - Detection confidence threshold, used when the policy sets none
+ */
+export function policyThreshold(policy: ContentPolicy, className: string, fallbackThreshold: number): number {
+  return policy.classThresholds?.[className] ?? policy.defaultThreshold ?? fallbackThreshold;
+}
+
+/**
+ * Whether a detection counts as flagged content under `policy`
+ * minBoxArea only applies when the image size is known.
+ */
+export function isFlagged(
+  detection: Detection,
+  policy: ContentPolicy,
+  fallbackThreshold: number,
+  imageWidth = 0,
+  imageHeight = 0
+): boolean {
+  if (!policy.flaggedLabels.includes(detection.className)) return false;
+  if (detection.score < policyThreshold(policy, detection.className, fallbackThreshold)) return false;
+
+  const minBoxArea = policy.minBoxArea ?? 0;
+  if (minBoxArea > 0 && imageWidth > 0 && imageHeight > 0) {
+    const [x1, y1, x2, y2] = detection.box;
+    if (((x2 - x1) * (y2 - y1)) / (imageWidth * imageHeight) < minBoxArea) return false;
+  }
+  return true;
+}
+
+/**
+ * Whether a detection of a flagged label scores within `margin` of its threshold, on either side
+ */
+export function isNearThreshold(
+  detection: Detection,
+  policy: ContentPolicy,
+  fallbackThreshold: number,
+  margin: number
+): boolean {
+  if (!policy.flaggedLabels.includes(detection.className)) return false;
+  return Math.abs(detection.score - policyThreshold(policy, detection.className, fallbackThreshold)) <= margin;
+}
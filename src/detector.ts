@@ -0,0 +1,828 @@
+/// <reference lib="esnext.disposable" />
+
+import { benchmark } from './benchmark';
+import type { BenchmarkOptions, BenchmarkResult } from './benchmark';
+import { VisionMLError, isVisionMLError } from './errors';
+import { imageCacheId, toNativeImageSource } from './imageSource';
+import { createDetectorFromManifest } from './manifest';
+import type { DetectionDefaults, ModelMetadata } from './manifest';
+import { callNative, scheduleNative } from './native';
+import { redactImage } from './redaction';
+import type { RedactionDetectOptions, RedactionOptions, RedactionResult } from './redaction';
+import { registerDetectorModel, withResultCache } from './resultCache';
+import { trackDetector, untrackDetector } from './scheduler';
+import type { WorkPriority } from './scheduler';
+import { analyzeVideo, quickCheckVideo } from './video';
+import type { QuickCheckOptions, VideoAnalysisOptions, VideoAnalysisResult, VideoInput } from './video';
+
+/**
+ * Detection result with bounding box coordinates
+ * Note: Box coordinates are in original image space, not model input space
+ */
+export interface Detection {
+  /** Bounding box [x1, y1, x2, y2] in original image coordinates */
+  box: [number, number, number, number];
+  /** Confidence score (0.0 - 1.0) */
+  score: number;
+  /** Class index */
+  classIndex: number;
+  /** Class label */
+  className: string;
+}
+
+/**
+ * Content policy deciding which detections count as flagged
+ *
+ * Matches on class labels, so it works for any model regardless of label order.
+ */
+export interface ContentPolicy {
+  /** Class labels that count as flagged content */
+  flaggedLabels: string[];
+  /** Per-class minimum scores, keyed by class label */
+  classThresholds?: Record<string, number>;
+  /** Minimum score for flagged labels without their own threshold (default: the detection confidenceThreshold) */
+  defaultThreshold?: number;
+  /** Minimum box area as a fraction of the image area, 0.0 - 1.0 (default: 0) */
+  minBoxArea?: number;
+}
+
+/**
+ * Default policy: NudeNet exposed classes
+ * Used by detect() and the video functions when no policy is given
+ */
+export const NUDENET_CONTENT_POLICY: ContentPolicy = {
+  flaggedLabels: [
+    'BUTTOCKS_EXPOSED',
+    'FEMALE_BREAST_EXPOSED',
+    'FEMALE_GENITALIA_EXPOSED',
+    'ANUS_EXPOSED',
+    'MALE_GENITALIA_EXPOSED'
+  ]
+};
+
+/**
+ * Inference result with detections and timing information
+ */
+export interface InferenceResult {
+  /** Array of detected objects with bounding boxes in original image space */
+  detections: Detection[];
+  /** Subset of detections flagged by the content policy */
+  flaggedDetections: Detection[];
+  /** Whether any detection was flagged by the content policy */
+  isFlagged: boolean;
+  /** Image decode and resize time in milliseconds */
+  decodeTime: number;
+  /** ONNX inference time in milliseconds */
+  inferenceTime: number;
+  /** Post-processing time (YOLO parse + NMS) in milliseconds */
+  postProcessTime: number;
+  /** Total pipeline time in milliseconds */
+  totalTime: number;
+  /** Parser diagnostics, only present when detect() was called with `debug: true` */
+  debug?: InferenceDebugInfo;
+}
+
+/**
+ * Diagnostics returned with `debug: true`, for tuning thresholds without rebuilding native code
+ */
+export interface InferenceDebugInfo {
+  /** Predictions in the output tensor (e.g. 6300 for NudeNet 320n) */
+  numPredictions: number;
+  /** Best-class candidates above candidateThreshold that survived the box size filter, before NMS */
+  candidateCount: number;
+  /** Score floor the native parser applies instead of confidenceThreshold */
+  candidateThreshold: number;
+  /** The candidates themselves (can be thousands on noisy images) */
+  preNMSDetections: Detection[];
+  /** Highest score of every class over all predictions, keyed by class label */
+  maxClassScores: Record<string, number>;
+  /** Output tensor shape as reported by ONNX Runtime, e.g. [1, 22, 6300] */
+  outputShape: number[];
+  /** Output layout the tensor was decoded with */
+  outputLayout: ModelOutputLayout;
+  /** Placement of the original image in the model input: model = original * scale + pad */
+  letterbox: {
+    mode: LetterboxMode;
+    scaleX: number;
+    scaleY: number;
+    padX: number;
+    padY: number;
+  };
+  /** Per-stage durations in fractional milliseconds */
+  timing: {
+    /** Image load, resize and letterbox */
+    decode: number;
+    /** HWC → NCHW conversion and normalization */
+    preprocess: number;
+    /** ONNX Runtime session run */
+    inference: number;
+    /** Best-class parse of the output tensor */
+    parse: number;
+    /** NMS over the parsed candidates */
+    nms: number;
+    /** All-class parse, flagged-class recovery and policy evaluation */
+    recovery: number;
+  };
+}
+
+/**
+ * Decoded image pixels, e.g. a camera frame already in JS
+ */
+export interface RawImageInput {
+  /** 8-bit RGBA, row-major, no row padding: width * height * 4 bytes (alpha is ignored) */
+  data: ArrayBuffer | Uint8Array | Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/**
+ * Image accepted by detect()
+ * - string: file:// URI, absolute path, or `data:image/...;base64,` URI
+ * - { assetId }: Photos local identifier (iOS) or MediaStore image ID (Android)
+ * - RawImageInput: RGBA pixels with their size
+ *
+ * Boxes are always in the coordinates of the image as given (EXIF orientation applied).
+ */
+export type ImageInput = string | { assetId: string } | RawImageInput;
+
+/**
+ * Detection options
+ */
+export interface DetectionOptions {
+  /** Minimum confidence threshold (default: 0.6) */
+  confidenceThreshold?: number;
+  /** IoU threshold for NMS (default: 0.45) */
+  iouThreshold?: number;
+  /** Content policy deciding which detections are flagged (default: NUDENET_CONTENT_POLICY) */
+  policy?: ContentPolicy;
+  /** Attach an InferenceDebugInfo block to the result (default: false) */
+  debug?: boolean;
+  /** Scheduler lane (default: 'interactive'; 'background' for detectBatch() and detectBatchStream()) */
+  priority?: WorkPriority;
+  /** Aborting while the call is still queued rejects it with WORK_CANCELLED */
+  signal?: AbortSignal;
+}
+
+/**
+ * Layout of the raw model output tensor
+ * - yolov5: [1, numPredictions, 5 + numClasses] (cx, cy, w, h, objectness, class scores)
+ * - yolov8_transposed: [1, 4 + numClasses, numPredictions] (Ultralytics YOLOv8 export, NudeNet)
+ * - yolov8_row_major: [1, numPredictions, 4 + numClasses]
+ */
+export type ModelOutputLayout = 'yolov5' | 'yolov8_transposed' | 'yolov8_row_major';
+
+/**
+ * How the image is fitted into the square model input
+ * - top_left: pad right/bottom (NudeNet)
+ * - center: pad evenly on both sides (Ultralytics)
+ * - stretch: resize without padding, aspect ratio not preserved
+ */
+export type LetterboxMode = 'top_left' | 'center' | 'stretch';
+
+/**
+ * Model-specific preprocessing and output decoding settings
+ * Every field is optional; defaults match NudeNet YOLOv8.
+ */
+export interface ModelConfig {
+  /** Output tensor layout (default: 'yolov8_transposed') */
+  outputLayout?: ModelOutputLayout;
+  /** Letterbox style used when the model was trained (default: 'top_left') */
+  letterbox?: LetterboxMode;
+  /** Per-channel mean in input channel order, applied after scaling pixels to 0-1 (default: [0, 0, 0]) */
+  mean?: [number, number, number];
+  /** Per-channel standard deviation in input channel order (default: [1, 1, 1]) */
+  std?: [number, number, number];
+  /** Channel order of the input tensor (default: 'rgb') */
+  channelOrder?: 'rgb' | 'bgr';
+  /** Input tensor name (default: the model's first input) */
+  inputName?: string;
+  /** Output tensor name (default: the model's first output) */
+  outputName?: string;
+}
+
+/**
+ * ONNX Runtime execution provider
+ * - coreml: Apple CoreML, Neural Engine/GPU (iOS)
+ * - nnapi: Android Neural Networks API, GPU/NPU (Android)
+ * - xnnpack: optimized CPU kernels (both platforms)
+ * - cpu: default CPU kernels, always available
+ */
+export type ExecutionProvider = 'coreml' | 'nnapi' | 'xnnpack' | 'cpu';
+
+/**
+ * ONNX Runtime graph optimization level
+ */
+export type GraphOptimizationLevel = 'disabled' | 'basic' | 'extended' | 'all';
+
+/**
+ * ONNX Runtime session settings
+ * Every field is optional; defaults match earlier releases (platform accelerator, CPU fallback).
+ */
+export interface RuntimeOptions {
+  /**
+   * Providers to try in order until the model loads; 'cpu' is always the last resort.
+   * Providers of the other platform are skipped (default: ['coreml'] on iOS, ['nnapi'] on Android)
+   */
+  executionProviders?: ExecutionProvider[];
+  /** Intra-op thread count, 0 lets ONNX Runtime decide (default: 1 on iOS, 0 on Android) */
+  intraOpNumThreads?: number;
+  /** Graph optimizations applied when the session is created (default: 'all') */
+  graphOptimizationLevel?: GraphOptimizationLevel;
+  /**
+   * Run one inference on a blank input before createDetector() resolves, so CoreML/NNAPI
+   * compilation doesn't land on the first detect() (default: false)
+   */
+  warmup?: boolean;
+}
+
+/**
+ * Result from createDetector
+ */
+export interface CreateDetectorResult {
+  /** Unique detector instance ID */
+  detectorId: string;
+  /** Success status */
+  success: boolean;
+  /** Status message */
+  message: string;
+  /** Provider the model actually loaded with, after any fallback */
+  executionProvider: ExecutionProvider;
+  /** Warm-up inference time in milliseconds, only present with `warmup: true` */
+  warmupTime?: number;
+}
+
+/**
+ * Create a new ONNX detector instance
+ * @param modelPath - Absolute path to .onnx model file
+ * @param classLabels - Array of class label strings
+ * @param inputSize - Model input size (default: 320)
+ * @param config - Output layout and preprocessing for non-NudeNet models
+ * @param runtime - Execution provider chain, threading, graph optimization and warm-up
+ * @returns Detector instance with unique ID and the provider in use
+ */
+export async function createDetector(
+  modelPath: string,
+  classLabels: string[],
+  inputSize: number = 320,
+  config?: ModelConfig,
+  runtime?: RuntimeOptions
+): Promise<CreateDetectorResult> {
+  const result = await callNative<CreateDetectorResult>(
+    'createDetector',
+    modelPath,
+    classLabels,
+    inputSize,
+    config ?? null,
+    runtime ?? null
+  );
+  if (result.success) {
+    registerDetectorModel(result.detectorId, modelPath, classLabels, inputSize, config ?? {});
+    trackDetector(result.detectorId, () => disposeDetector(result.detectorId));
+  }
+  return result;
+}
+
+/**
+ * Detect objects in image using ONNX model
+ *
+ * Full native pipeline:
+ * 1. Decode image (HEIC/JPEG supported)
+ * 2. Resize to model input size (hardware-accelerated)
+ * 3. Convert to NCHW tensor format
+ * 4. Run ONNX inference with CoreML acceleration
+ * 5. Parse YOLO output (25,200 predictions)
+ * 6. Apply Non-Maximum Suppression
+ *
+ * With a ResultCache installed (setResultCache()), photo assets and files
+ * whose modification date hasn't changed since they were last detected with
+ * the same model and options resolve from the cache.
+ *
+ * @param detectorId - Detector instance ID from createDetector()
+ * @param image - File or data URI, photo asset ID, or raw RGBA pixels
+ * @param options - Detection options (confidence/IoU thresholds, content policy)
+ * @returns Inference result with detections in original image coordinates
+ */
+export async function detect(
+  detectorId: string,
+  image: ImageInput,
+  options: DetectionOptions = {}
+): Promise<InferenceResult> {
+  const {
+    confidenceThreshold = 0.6,
+    iouThreshold = 0.45,
+    policy = null,
+    debug = false,
+    priority,
+    signal
+  } = options;
+
+  const source = toNativeImageSource(image);
+  const run = () =>
+    scheduleNative<InferenceResult>(
+      { priority, signal, detectorId },
+      'detect',
+      detectorId,
+      source,
+      confidenceThreshold,
+      iouThreshold,
+      policy,
+      debug
+    );
+
+  // Debug output is for tuning against the live model, never replayed
+  if (debug) {
+    return run();
+  }
+  return withResultCache('detect', imageCacheId(source), detectorId, { confidenceThreshold, iouThreshold, policy }, run);
+}
+
+/**
+ * Dispose of a specific detector instance and free resources
+ * @param detectorId - Detector instance ID to dispose
+ */
+export async function disposeDetector(detectorId: string): Promise<{ success: boolean }> {
+  const result = await callNative<{ success: boolean }>('disposeDetector', detectorId);
+  liveDetectors.delete(detectorId);
+  untrackDetector(detectorId);
+  return result;
+}
+
+/**
+ * Dispose of all detector instances and free resources
+ */
+export async function disposeAllDetectors(): Promise<{ success: boolean }> {
+  const result = await callNative<{ success: boolean }>('disposeAllDetectors');
+  liveDetectors.clear();
+  untrackDetector();
+  return result;
+}
+
+// MARK: - Batch Detection Types
+
+/**
+ * Single result in batch detection
+ */
+export interface BatchDetectionItem {
+  /** Image URI */
+  imageUri: string;
+  /** Position of the image in the input array */
+  index: number;
+  /** Inference result, if detection succeeded */
+  result?: InferenceResult;
+  /** Error, if detection failed for this image */
+  error?: VisionMLError;
+}
+
+/**
+ * Distribution of per-image totalTime (ms) across successful items
+ */
+export interface BatchTimingStats {
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p95: number;
+}
+
+/**
+ * Result from batch detection
+ */
+export interface BatchDetectionResult {
+  /** Array of results for each image, in input order */
+  results: BatchDetectionItem[];
+  /** Total number of images analyzed */
+  totalAnalyzed: number;
+  /** Number of images with at least one flagged detection */
+  flaggedCount: number;
+  /** Number of images that failed */
+  failedCount: number;
+  /** totalTime distribution (null when no image succeeded) */
+  timing: BatchTimingStats | null;
+  /** Wall-clock time for the whole batch (ms) */
+  elapsedTime: number;
+}
+
+/**
+ * Options for batch detection
+ */
+export interface BatchDetectionOptions extends DetectionOptions {
+  /** Maximum number of images in flight at once (default: 2) */
+  concurrency?: number;
+  /**
+   * Stops starting new images and drops queued ones when aborted;
+   * the batch then rejects with BATCH_DETECTION_CANCELLED
+   */
+  signal?: AbortSignal;
+  /** Called as each image finishes, in completion order */
+  onResult?: (item: BatchDetectionItem, completed: number, total: number) => void;
+}
+
+/**
+ * Stream detection results for many images as they finish
+ *
+ * Items are yielded in completion order, not input order. Breaking out of
+ * the loop stops new images from being started.
+ *
+ * ```typescript
+ * for await (const item of detectBatchStream(detectorId, uris, { concurrency: 3 })) {
+ *   if (item.result?.isFlagged) markFlagged(item.imageUri);
+ * }
+ * ```
+ *
+ * @param detectorId - Detector instance ID from createDetector()
+ * @param imageUris - file:// URIs to images
+ * @param options - Detection options plus concurrency and cancellation
+ */
+export async function* detectBatchStream(
+  detectorId: string,
+  imageUris: string[],
+  options: Omit<BatchDetectionOptions, 'onResult'> = {}
+): AsyncGenerator<BatchDetectionItem, void, undefined> {
+  const { concurrency = 2, signal, priority = 'background', ...detectionOptions } = options;
+  const limit = Math.max(1, Math.floor(concurrency));
+
+  const completed: BatchDetectionItem[] = [];
+  let wake: (() => void) | null = null;
+  let nextIndex = 0;
+  let running = 0;
+  let stopped = false;
+  let dropped = false;
+
+  const runItem = async (index: number): Promise<BatchDetectionItem | null> => {
+    const imageUri = imageUris[index];
+    try {
+      return { imageUri, index, result: await detect(detectorId, imageUri, { ...detectionOptions, priority, signal }) };
+    } catch (error) {
+      // Still queued when aborted, so never started: no item, like the images after it
+      if (signal?.aborted && isVisionMLError(error, 'WORK_CANCELLED')) {
+        return null;
+      }
+      return { imageUri, index, error: VisionMLError.from(error) };
+    }
+  };
+
+  const fill = () => {
+    while (!stopped && !signal?.aborted && running < limit && nextIndex < imageUris.length) {
+      running++;
+      runItem(nextIndex++).then((item) => {
+        running--;
+        if (item) {
+          completed.push(item);
+        } else {
+          dropped = true;
+        }
+        fill();
+        wake?.();
+        wake = null;
+      });
+    }
+  };
+
+  try {
+    fill();
+    while (true) {
+      const item = completed.shift();
+      if (item) {
+        yield item;
+        continue;
+      }
+      if (running === 0) {
+        break;
+      }
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+    }
+  } finally {
+    stopped = true;
+  }
+
+  if (signal?.aborted && (dropped || nextIndex < imageUris.length)) {
+    throw new VisionMLError('BATCH_DETECTION_CANCELLED', 'Batch detection was cancelled');
+  }
+}
+
+/**
+ * Run detection on many images with a concurrency limit
+ *
+ * Per-image failures do not reject the batch; they are reported on the
+ * item's `error` field, like batchAnalyzeSensitiveContent().
+ *
+ * @param detectorId - Detector instance ID from createDetector()
+ * @param imageUris - file:// URIs to images
+ * @param options - Detection options plus concurrency, cancellation and a per-result callback
+ * @returns Batch results in input order with aggregate stats
+ */
+export async function detectBatch(
+  detectorId: string,
+  imageUris: string[],
+  options: BatchDetectionOptions = {}
+): Promise<BatchDetectionResult> {
+  const { onResult, ...streamOptions } = options;
+  const startTime = Date.now();
+  const results: BatchDetectionItem[] = new Array(imageUris.length);
+  let completedCount = 0;
+
+  for await (const item of detectBatchStream(detectorId, imageUris, streamOptions)) {
+    results[item.index] = item;
+    completedCount++;
+    onResult?.(item, completedCount, imageUris.length);
+  }
+
+  const times = results
+    .filter((item) => item.result)
+    .map((item) => item.result!.totalTime)
+    .sort((a, b) => a - b);
+
+  return {
+    results,
+    totalAnalyzed: results.length,
+    flaggedCount: results.filter((item) => item.result?.isFlagged).length,
+    failedCount: results.filter((item) => item.error).length,
+    timing: times.length > 0 ? timingStats(times) : null,
+    elapsedTime: Date.now() - startTime
+  };
+}
+
+/** Stats over ascending-sorted, non-empty samples (nearest-rank percentiles) */
+function timingStats(sorted: number[]): BatchTimingStats {
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    p50: percentile(0.5),
+    p95: percentile(0.95)
+  };
+}
+
+// MARK: - Detector Handle
+
+/** Detector handles that have been created and not yet disposed, keyed by detector ID */
+const liveDetectors = new Map<string, Detector>();
+
+/**
+ * Symbol.asyncDispose, or the key Babel's `await using` helper falls back to on engines
+ * without it. Nothing is installed on Symbol; apps that need the real symbol polyfill it.
+ */
+const asyncDisposeSymbol: typeof Symbol.asyncDispose =
+  Symbol.asyncDispose ?? (Symbol.for('Symbol.asyncDispose') as typeof Symbol.asyncDispose);
+
+/**
+ * Object-oriented handle around a native detector
+ *
+ * Wraps the detector ID so it cannot be used after disposal or leaked silently:
+ * every method rejects with `DETECTOR_DISPOSED` once dispose() has been called,
+ * and `Detector.live()` lists handles that are still holding native resources.
+ *
+ * ```typescript
+ * await using detector = await Detector.create(modelPath, labels, 640);
+ * const result = await detector.detect(imageUri);
+ * ```
+ */
+export class Detector {
+  /** Native detector instance ID */
+  readonly id: string;
+  /** Model file the detector was created from */
+  readonly modelPath: string;
+  /** Class labels passed at creation */
+  readonly classLabels: readonly string[];
+  /** Model input size */
+  readonly inputSize: number;
+  /** Model config passed at creation ({} = NudeNet defaults) */
+  readonly config: Readonly<ModelConfig>;
+  /** Provider the model loaded with, after any fallback */
+  readonly executionProvider: ExecutionProvider;
+  /** Thresholds used when a call doesn't pass its own (the manifest's for fromManifest(), else none) */
+  readonly defaults: Readonly<DetectionDefaults>;
+  /** Model inputs and outputs, only known for handles from fromManifest() */
+  readonly metadata: ModelMetadata | null;
+  /** Creation time (ms since epoch) */
+  readonly createdAt: number;
+
+  private disposal: Promise<void> | null = null;
+
+  private constructor(
+    id: string,
+    modelPath: string,
+    classLabels: string[],
+    inputSize: number,
+    config: ModelConfig,
+    executionProvider: ExecutionProvider,
+    defaults: DetectionDefaults = {},
+    metadata: ModelMetadata | null = null
+  ) {
+    this.id = id;
+    this.modelPath = modelPath;
+    this.classLabels = [...classLabels];
+    this.inputSize = inputSize;
+    this.config = { ...config };
+    this.executionProvider = executionProvider;
+    this.defaults = { ...defaults };
+    this.metadata = metadata;
+    this.createdAt = Date.now();
+  }
+
+  /**
+   * Load a model and return a handle to it
+   * Unlike createDetector(), a `success: false` result rejects with `DETECTOR_CREATE_ERROR`
+   * @param modelPath - Absolute path to .onnx model file
+   * @param classLabels - Array of class label strings
+   * @param inputSize - Model input size (default: 320)
+   * @param config - Output layout and preprocessing for non-NudeNet models
+   * @param runtime - Execution provider chain, threading, graph optimization and warm-up
+   */
+  static async create(
+    modelPath: string,
+    classLabels: string[],
+    inputSize: number = 320,
+    config: ModelConfig = {},
+    runtime: RuntimeOptions = {}
+  ): Promise<Detector> {
+    const result = await createDetector(modelPath, classLabels, inputSize, config, runtime);
+    if (!result.success) {
+      throw new VisionMLError(
+        'DETECTOR_CREATE_ERROR',
+        result.message || `Failed to create detector from '${modelPath}'`
+      );
+    }
+
+    const detector = new Detector(
+      result.detectorId,
+      modelPath,
+      classLabels,
+      inputSize,
+      config,
+      result.executionProvider
+    );
+    liveDetectors.set(detector.id, detector);
+    return detector;
+  }
+
+  /**
+   * Load a model from a JSON manifest and return a handle to it
+   * The manifest's default thresholds apply to every call that doesn't pass its own.
+   * @param manifestPath - Absolute path or file:// URI of the manifest
+   * @param runtime - Execution provider chain, threading, graph optimization and warm-up
+   * @see createDetectorFromManifest
+   */
+  static async fromManifest(manifestPath: string, runtime: RuntimeOptions = {}): Promise<Detector> {
+    const result = await createDetectorFromManifest(manifestPath, runtime);
+    if (!result.success) {
+      throw new VisionMLError(
+        'DETECTOR_CREATE_ERROR',
+        result.message || `Failed to create detector from manifest '${manifestPath}'`
+      );
+    }
+
+    const { model, labels, inputSize, config, defaults } = result.manifest;
+    const detector = new Detector(
+      result.detectorId,
+      model,
+      labels,
+      inputSize,
+      config,
+      result.executionProvider,
+      defaults,
+      result.metadata
+    );
+    liveDetectors.set(detector.id, detector);
+    return detector;
+  }
+
+  /**
+   * Handles that have not been disposed yet, oldest first
+   * Useful for spotting detectors that were never released
+   */
+  static live(): Detector[] {
+    return Array.from(liveDetectors.values());
+  }
+
+  /** Whether dispose() (or disposeDetector/disposeAllDetectors) has released this detector */
+  get isDisposed(): boolean {
+    return liveDetectors.get(this.id) !== this;
+  }
+
+  /**
+   * Run detection on an image
+   * @see detect
+   */
+  detect(image: ImageInput, options: DetectionOptions = {}): Promise<InferenceResult> {
+    return this.run(() => detect(this.id, image, this.withDefaults(options)));
+  }
+
+  /**
+   * Run detection on many images with a concurrency limit
+   * @see detectBatch
+   */
+  detectBatch(imageUris: string[], options: BatchDetectionOptions = {}): Promise<BatchDetectionResult> {
+    return this.run(() => detectBatch(this.id, imageUris, this.withDefaults(options)));
+  }
+
+  /**
+   * Detect and redact the flagged regions of an image in one native call
+   * @see redactImage
+   */
+  redact(
+    imageUri: string,
+    options: RedactionOptions & Omit<RedactionDetectOptions, 'detectorId'> = {}
+  ): Promise<RedactionResult> {
+    const { confidenceThreshold, iouThreshold, policy, ...redactionOptions } = this.withDefaults(options);
+    return this.run(() =>
+      redactImage(imageUri, { detectorId: this.id, confidenceThreshold, iouThreshold, policy }, redactionOptions)
+    );
+  }
+
+  /**
+   * Analyze a video for flagged content
+   * @see analyzeVideo
+   */
+  analyzeVideo(video: VideoInput, options: VideoAnalysisOptions = {}): Promise<VideoAnalysisResult> {
+    const confidenceThreshold = options.confidenceThreshold ?? this.defaults.confidenceThreshold;
+    return this.run(() => analyzeVideo(this.id, video, { ...options, confidenceThreshold }));
+  }
+
+  /**
+   * Quick first-hit check of a video
+   * @see quickCheckVideo
+   */
+  quickCheckVideo(
+    video: VideoInput,
+    confidenceThreshold: number = this.defaults.confidenceThreshold ?? 0.6,
+    options: QuickCheckOptions = {}
+  ): Promise<VideoAnalysisResult> {
+    return this.run(() => quickCheckVideo(this.id, video, confidenceThreshold, options));
+  }
+
+  /**
+   * Time the detection pipeline stage by stage over repeated runs
+   * @see benchmark
+   */
+  benchmark(image: ImageInput, options: BenchmarkOptions = {}): Promise<BenchmarkResult> {
+    return this.run(() => benchmark(this.id, image, this.withDefaults(options)));
+  }
+
+  /**
+   * Release the native detector
+   * Safe to call more than once; later calls wait for the first one
+   */
+  dispose(): Promise<void> {
+    if (!this.disposal) {
+      const wasLive = !this.isDisposed;
+      liveDetectors.delete(this.id);
+      untrackDetector(this.id);
+      this.disposal = wasLive ? this.release() : Promise.resolve();
+    }
+    return this.disposal;
+  }
+
+  /**
+   * dispose() for `await using`
+   */
+  [asyncDisposeSymbol](): Promise<void> {
+    return this.dispose();
+  }
+
+  private async release(): Promise<void> {
+    try {
+      await callNative('disposeDetector', this.id);
+    } catch (error) {
+      // Already gone natively (e.g. released by disposeAllDetectors from another caller)
+      if (!isVisionMLError(error, 'DETECTOR_NOT_FOUND')) {
+        throw error;
+      }
+    }
+  }
+
+  private async run<T>(call: () => Promise<T>): Promise<T> {
+    this.assertLive();
+    try {
+      return await call();
+    } catch (error) {
+      // Disposed while the call was in flight
+      if (this.isDisposed && isVisionMLError(error, 'DETECTOR_NOT_FOUND')) {
+        throw this.disposedError();
+      }
+      throw error;
+    }
+  }
+
+  /** Fill in the handle's default thresholds where the caller left them out */
+  private withDefaults<T extends DetectionDefaults>(options: T): T {
+    return {
+      ...options,
+      confidenceThreshold: options.confidenceThreshold ?? this.defaults.confidenceThreshold,
+      iouThreshold: options.iouThreshold ?? this.defaults.iouThreshold
+    };
+  }
+
+  private assertLive(): void {
+    if (this.isDisposed) {
+      throw this.disposedError();
+    }
+  }
+
+  private disposedError(): VisionMLError {
+    return new VisionMLError('DETECTOR_DISPOSED', `Detector '${this.id}' has been disposed`);
+  }
+}
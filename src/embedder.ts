@@ -0,0 +1,192 @@
+import type { CreateDetectorResult, ImageInput, ModelConfig, RuntimeOptions } from './detector';
+import { VisionMLError } from './errors';
+import { toNativeImageSource } from './imageSource';
+import { callNative } from './native';
+
+// MARK: - Embedder Types
+
+/**
+ * Preprocessing settings of an embedding model
+ * Defaults match ModelConfig (NudeNet's); CLIP-style encoders usually want
+ * `letterbox: 'stretch'` with their own mean/std.
+ */
+export type EmbedderConfig = Omit<ModelConfig, 'outputLayout'>;
+
+/**
+ * Result from createEmbedder
+ */
+export interface CreateEmbedderResult extends Omit<CreateDetectorResult, 'detectorId'> {
+  /** Unique embedder instance ID */
+  embedderId: string;
+}
+
+/**
+ * Options for embed()
+ */
+export interface EmbeddingOptions {
+  /** Scale the embedding to unit length, so cosine similarity is a dot product (default: true) */
+  normalize?: boolean;
+}
+
+/**
+ * Result from embed()
+ */
+export interface EmbeddingResult {
+  /** The flattened model output */
+  embedding: Float32Array;
+  /** Length of the embedding */
+  dimensions: number;
+  /** ONNX inference time in milliseconds */
+  inferenceTime: number;
+  /** Total time in milliseconds */
+  totalTime: number;
+}
+
+/**
+ * Candidate ranked by rankBySimilarity()
+ */
+export interface SimilarityMatch {
+  /** Index of the candidate in the array passed in */
+  index: number;
+  /** Cosine similarity to the query (-1 to 1) */
+  score: number;
+}
+
+/** Embedding from embed() or any numeric vector */
+type EmbeddingVector = Float32Array | readonly number[];
+
+// MARK: - Embedder
+
+/**
+ * Create an image embedder
+ *
+ * Loading, execution providers, warm-up and preprocessing are the same as
+ * createDetector(); the model's output tensor is returned as the embedding.
+ *
+ * ```typescript
+ * const { embedderId } = await createEmbedder(clipVisionPath, 224, { letterbox: 'stretch' });
+ * const query = await embed(embedderId, photoUri);
+ * const matches = rankBySimilarity(query.embedding, libraryEmbeddings, 10);
+ * ```
+ *
+ * @param modelPath - Absolute path to .onnx model file
+ * @param inputSize - Model input size (default: 224)
+ * @param config - Preprocessing
+ * @param runtime - Execution provider chain, threading, graph optimization and warm-up
+ * @returns Embedder instance with unique ID and the provider in use
+ */
+export async function createEmbedder(
+  modelPath: string,
+  inputSize: number = 224,
+  config?: EmbedderConfig,
+  runtime?: RuntimeOptions
+): Promise<CreateEmbedderResult> {
+  return callNative('createEmbedder', modelPath, inputSize, config ?? null, runtime ?? null);
+}
+
+/**
+ * Compute the embedding of an image
+ * @param embedderId - Embedder instance ID from createEmbedder()
+ * @param image - File or data URI, photo asset ID, or raw RGBA pixels
+ * @param options - Normalization
+ * @returns The embedding as a Float32Array
+ */
+export async function embed(
+  embedderId: string,
+  image: ImageInput,
+  options: EmbeddingOptions = {}
+): Promise<EmbeddingResult> {
+  const { normalize = true } = options;
+  const result = await callNative<{ embedding: number[]; inferenceTime: number; totalTime: number }>(
+    'embed',
+    embedderId,
+    toNativeImageSource(image),
+    normalize
+  );
+  return {
+    embedding: Float32Array.from(result.embedding),
+    dimensions: result.embedding.length,
+    inferenceTime: result.inferenceTime,
+    totalTime: result.totalTime
+  };
+}
+
+/**
+ * Dispose of an embedder instance and free resources
+ * @param embedderId - Embedder instance ID to dispose
+ */
+export async function disposeEmbedder(embedderId: string): Promise<{ success: boolean }> {
+  return callNative('disposeModel', embedderId);
+}
+
+// MARK: - Similarity
+
+/**
+ * Cosine similarity of two embeddings
+ * Zero vectors have similarity 0 to everything.
+ *
+ * @param a - First embedding
+ * @param b - Second embedding, same length as a
+ * @returns Similarity from -1 to 1
+ * @throws VisionMLError EMBEDDING_SIZE_MISMATCH when the lengths differ
+ */
+export function cosineSimilarity(a: EmbeddingVector, b: EmbeddingVector): number {
+  if (a.length !== b.length) {
+    throw new VisionMLError(
+      'EMBEDDING_SIZE_MISMATCH',
+      `Cannot compare embeddings of ${a.length} and ${b.length} dimensions`
+    );
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Scale an embedding to unit length (L2)
+ * @param embedding - Embedding to normalize; left unchanged
+ * @returns A new normalized Float32Array (all zeros for a zero vector)
+ */
+export function normalizeEmbedding(embedding: EmbeddingVector): Float32Array {
+  const result = Float32Array.from(embedding);
+  let norm = 0;
+  for (let i = 0; i < result.length; i++) {
+    norm += result[i] * result[i];
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < result.length; i++) {
+      result[i] /= norm;
+    }
+  }
+  return result;
+}
+
+/**
+ * Rank candidate embeddings by cosine similarity to a query
+ * @param query - Query embedding
+ * @param candidates - Embeddings to rank, each the query's length
+ * @param topK - Maximum number of matches returned (default: all)
+ * @returns Matches with the most similar first
+ * @throws VisionMLError EMBEDDING_SIZE_MISMATCH when a candidate's length differs
+ */
+export function rankBySimilarity(
+  query: EmbeddingVector,
+  candidates: readonly EmbeddingVector[],
+  topK: number = candidates.length
+): SimilarityMatch[] {
+  return candidates
+    .map((candidate, index) => ({ index, score: cosineSimilarity(query, candidate) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, Math.max(0, topK));
+}
@@ -0,0 +1,140 @@
+/**
+ * Stable error codes for every rejection from this library
+ *
+ * Native modules reject with these codes; anything unrecognized is
+ * reported as 'UNKNOWN' with the original code kept in `nativeCode`.
+ */
+export const VISION_ML_ERROR_CODES = [
+  /** NativeModules.VisionML is missing (not linked, or app not rebuilt) */
+  'MODULE_NOT_LINKED',
+  /** Model failed to load in createDetector() */
+  'DETECTOR_CREATE_ERROR',
+  /** createDetectorFromManifest() manifest is unreadable, not JSON, or lacks its model file or labels */
+  'MANIFEST_INVALID',
+  /** Model file's SHA-256 differs from the one in its manifest */
+  'MODEL_INTEGRITY_ERROR',
+  /** Manifest labels or inputSize don't fit the model's real input/output shapes */
+  'MODEL_SHAPE_MISMATCH',
+  /** No detector with the given ID (never created, or already disposed) */
+  'DETECTOR_NOT_FOUND',
+  /** Detector exists but its ONNX session is not ready */
+  'DETECTOR_NOT_READY',
+  /** Detector handle was used after dispose() */
+  'DETECTOR_DISPOSED',
+  /** Model failed to load in createClassifier()/createEmbedder() */
+  'MODEL_CREATE_ERROR',
+  /** No classifier or embedder with the given ID (never created, or already disposed) */
+  'MODEL_NOT_FOUND',
+  /** cosineSimilarity()/rankBySimilarity() got embeddings of different lengths */
+  'EMBEDDING_SIZE_MISMATCH',
+  /** Image decode, ONNX inference or post-processing failed */
+  'INFERENCE_ERROR',
+  /** detectBatch()/detectBatchStream() was cancelled through its AbortSignal */
+  'BATCH_DETECTION_CANCELLED',
+  /** A queued native call was cancelled through the scheduler (cancelQueued() or its AbortSignal) before it started */
+  'WORK_CANCELLED',
+  /** No photo/video asset with the given ID */
+  'ASSET_NOT_FOUND',
+  /** detect() input is malformed (bad data URI, raw buffer size not width x height x 4) */
+  'INVALID_IMAGE_INPUT',
+  /** Asset exists but its image data could not be loaded */
+  'IMAGE_LOAD_FAILED',
+  /** redactImage() could not render or write the output, or its options are invalid */
+  'REDACTION_ERROR',
+  /** Asset is not a video */
+  'NOT_VIDEO',
+  /** Video file is missing or could not be loaded */
+  'VIDEO_LOAD_FAILED',
+  /** analyzeVideo() startTime/endTime select no part of the video */
+  'INVALID_VIDEO_RANGE',
+  /** A frame could not be extracted from the video */
+  'FRAME_EXTRACTION_FAILED',
+  /** Video analysis failed for another reason */
+  'VIDEO_ANALYSIS_ERROR',
+  /** Video analysis was cancelled through its AbortSignal */
+  'VIDEO_ANALYSIS_CANCELLED',
+  /** LibraryScanner checkpoint does not match the asset list */
+  'INVALID_CHECKPOINT',
+  /** YOLO label file or COCO annotations passed to the evaluation parsers are malformed */
+  'INVALID_ANNOTATIONS',
+  /** ML Kit analysis failed (Android) */
+  'ML_KIT_ERROR',
+  /** Sensitive Content Analysis failed on an image (iOS 17+) */
+  'SCA_ERROR',
+  /** Sensitive Content Analysis failed on a video (iOS 17+) */
+  'SCA_VIDEO_ERROR',
+  /** Unrecognized error; see nativeCode and cause */
+  'UNKNOWN'
+] as const;
+
+/**
+ * Error code union for VisionMLError
+ */
+export type VisionMLErrorCode = typeof VISION_ML_ERROR_CODES[number];
+
+const KNOWN_CODES = new Set<string>(VISION_ML_ERROR_CODES);
+
+/**
+ * Error thrown by every exported function of this library
+ *
+ * ```typescript
+ * try {
+ *   await detect(detectorId, uri);
+ * } catch (e) {
+ *   if (isVisionMLError(e, 'DETECTOR_NOT_FOUND')) {
+ *     // recreate the detector and retry
+ *   }
+ * }
+ * ```
+ */
+export class VisionMLError extends Error {
+  /** Stable error code */
+  readonly code: VisionMLErrorCode;
+  /** Code reported by the native module, when it differs from `code` */
+  readonly nativeCode?: string;
+  /** Original error, if this one wraps another */
+  readonly cause?: unknown;
+
+  constructor(
+    code: VisionMLErrorCode,
+    message: string,
+    options: { nativeCode?: string; cause?: unknown } = {}
+  ) {
+    super(message);
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, VisionMLError.prototype);
+    this.name = 'VisionMLError';
+    this.code = code;
+    this.nativeCode = options.nativeCode;
+    this.cause = options.cause;
+  }
+
+  /**
+   * Normalize any thrown value (native rejection, Error, string) into a VisionMLError
+   */
+  static from(error: unknown): VisionMLError {
+    if (error instanceof VisionMLError) {
+      return error;
+    }
+
+    const nativeCode =
+      typeof error === 'object' && error !== null && typeof (error as { code?: unknown }).code === 'string'
+        ? (error as { code: string }).code
+        : undefined;
+    const message =
+      error instanceof Error ? error.message : typeof error === 'string' ? error : 'Unknown error';
+
+    if (nativeCode && KNOWN_CODES.has(nativeCode)) {
+      return new VisionMLError(nativeCode as VisionMLErrorCode, message, { cause: error });
+    }
+
+    return new VisionMLError('UNKNOWN', message, { nativeCode, cause: error });
+  }
+}
+
+/**
+ * Check whether a value is a VisionMLError, optionally with a specific code
+ */
+export function isVisionMLError(error: unknown, code?: VisionMLErrorCode): error is VisionMLError {
+  return error instanceof VisionMLError && (code === undefined || error.code === code);
+}
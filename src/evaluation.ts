@@ -0,0 +1,532 @@
+import { detect } from './detector';
+import type { Detection, DetectionOptions, ImageInput, InferenceResult } from './detector';
+import { VisionMLError } from './errors';
+import { cxcywhToXyxy, denormalizeBox, iou, xywhToXyxy } from './geometry';
+import type { BoxXYXY, Size } from './geometry';
+
+// MARK: - Evaluation Types
+//
+// Everything except evaluateDetector() is plain computation on boxes, so results
+// exported from a device (or produced by another pipeline) can be scored in Node
+// with the same code the app runs on device.
+
+/**
+ * Annotated object in an image
+ */
+export interface GroundTruthBox {
+  /** [x1, y1, x2, y2] in original image pixels, the same space as Detection.box */
+  box: BoxXYXY;
+  /** Class label */
+  className: string;
+}
+
+/**
+ * Annotations of one image from parseCocoAnnotations()
+ */
+export interface GroundTruthImage {
+  /** COCO image ID */
+  id: number | string;
+  /** Image file name as listed in the dataset */
+  fileName: string;
+  width: number;
+  height: number;
+  boxes: GroundTruthBox[];
+}
+
+/**
+ * COCO detection dataset (instances JSON); only the fields read by parseCocoAnnotations()
+ */
+export interface CocoDataset {
+  images: Array<{ id: number | string; file_name: string; width: number; height: number }>;
+  annotations: Array<{
+    image_id: number | string;
+    category_id: number | string;
+    /** [x, y, width, height] in pixels */
+    bbox: [number, number, number, number];
+    iscrowd?: number;
+  }>;
+  categories: Array<{ id: number | string; name: string }>;
+}
+
+/**
+ * Detections of one image with its annotations, for evaluateDetections()
+ */
+export interface EvaluationSample {
+  groundTruth: GroundTruthBox[];
+  /** Detections as returned in InferenceResult.detections */
+  detections: Detection[];
+}
+
+/**
+ * Options for evaluateDetections()
+ */
+export interface EvaluationOptions {
+  /** Classes to evaluate, in confusion matrix order (default: every label in the ground truth and detections) */
+  classLabels?: string[];
+  /** Score at which precision, recall, F1 and the confusion matrix are taken (default: 0.6, detect()'s default) */
+  confidenceThreshold?: number;
+  /** IoU a detection needs with a ground-truth box to match it, outside of AP (default: 0.5) */
+  matchIoU?: number;
+  /** Scores of the threshold sweeps (default: 0.05 to 0.95 in steps of 0.05) */
+  sweepThresholds?: number[];
+}
+
+/**
+ * Match counts at one confidence threshold
+ */
+export interface PrecisionRecall {
+  truePositives: number;
+  falsePositives: number;
+  /** Ground-truth boxes no detection matched */
+  falseNegatives: number;
+  /** 0 when there are no detections */
+  precision: number;
+  /** 0 when there is no ground truth */
+  recall: number;
+  f1: number;
+}
+
+/**
+ * Precision and recall when only detections scoring at least `threshold` are kept
+ */
+export interface ThresholdSweepPoint extends PrecisionRecall {
+  threshold: number;
+}
+
+/**
+ * Metrics of one class, with precision/recall at the evaluation's confidenceThreshold
+ */
+export interface ClassEvaluation extends PrecisionRecall {
+  className: string;
+  /** Ground-truth boxes of the class */
+  groundTruthCount: number;
+  /** Average precision at IoU 0.5 (null without ground truth) */
+  ap50: number | null;
+  /** Average precision averaged over IoU 0.5, 0.55, … 0.95 (null without ground truth) */
+  ap50to95: number | null;
+  /** Precision/recall of this class at each sweep threshold, e.g. to pick ContentPolicy.classThresholds */
+  sweep: ThresholdSweepPoint[];
+}
+
+/**
+ * Class-agnostic matching of detections to ground truth
+ */
+export interface ConfusionMatrix {
+  /** Row and column labels: the evaluated classes followed by 'background' */
+  labels: string[];
+  /**
+   * counts[actual][predicted]: the background row counts detections that matched
+   * nothing, the background column ground-truth boxes nothing matched
+   */
+  counts: number[][];
+}
+
+/**
+ * Result from evaluateDetections()/evaluateDetector()
+ * Top-level precision/recall sum the matches of every evaluated class.
+ */
+export interface EvaluationReport extends PrecisionRecall {
+  /** Images evaluated */
+  imageCount: number;
+  /** Per-class metrics, in classLabels order */
+  classes: ClassEvaluation[];
+  /** Mean ap50 over classes with ground truth */
+  mAP50: number;
+  /** Mean ap50to95 over classes with ground truth (COCO mAP) */
+  mAP50to95: number;
+  confusionMatrix: ConfusionMatrix;
+  /** Precision/recall over all classes at each sweep threshold */
+  sweep: ThresholdSweepPoint[];
+}
+
+/**
+ * Image with its annotations, for evaluateDetector()
+ */
+export interface EvaluationImage {
+  /** Image passed to detect() */
+  image: ImageInput;
+  groundTruth: GroundTruthBox[];
+  /** Precomputed result; detect() is skipped for this image when given */
+  result?: InferenceResult;
+}
+
+/**
+ * Options for evaluateDetector()
+ */
+export interface DetectorEvaluationOptions extends EvaluationOptions {
+  /**
+   * Options of each detect() call. confidenceThreshold defaults to 0.01 (the native
+   * parser's candidate floor) so low-scoring detections count toward AP, and
+   * priority to 'background'.
+   */
+  detection?: DetectionOptions;
+  /** Called after each image */
+  onProgress?: (completed: number, total: number) => void;
+}
+
+/** IoU thresholds of COCO mAP@0.5:0.95 */
+const COCO_IOU_THRESHOLDS = Array.from({ length: 10 }, (_, i) => (50 + i * 5) / 100);
+
+const DEFAULT_SWEEP_THRESHOLDS = Array.from({ length: 19 }, (_, i) => (i + 1) * 5 / 100);
+
+/** Detection with whether it matched a ground-truth box */
+interface ScoredMatch {
+  score: number;
+  matched: boolean;
+}
+
+// MARK: - Ground Truth
+
+/**
+ * Parse one YOLO label file ("class cx cy w h" per line, normalized 0-1)
+ * Extra columns, such as a confidence in exported predictions, are ignored.
+ *
+ * @param text - Contents of the .txt label file
+ * @param classLabels - Class label of each class index
+ * @param imageSize - Size of the image the labels belong to
+ * @returns Boxes in image pixels
+ * @throws VisionMLError INVALID_ANNOTATIONS for a malformed line or unknown class index
+ */
+export function parseYoloLabels(text: string, classLabels: readonly string[], imageSize: Size): GroundTruthBox[] {
+  const boxes: GroundTruthBox[] = [];
+  text.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+    const line = rawLine.trim();
+    if (!line) {
+      return;
+    }
+
+    const fields = line.split(/\s+/).map(Number);
+    if (fields.length < 5 || fields.slice(0, 5).some(value => !Number.isFinite(value))) {
+      throw new VisionMLError(
+        'INVALID_ANNOTATIONS',
+        `YOLO label line ${lineIndex + 1} is not "class cx cy w h": '${line}'`
+      );
+    }
+
+    const [classIndex, cx, cy, width, height] = fields;
+    const className = Number.isInteger(classIndex) ? classLabels[classIndex] : undefined;
+    if (className === undefined) {
+      throw new VisionMLError(
+        'INVALID_ANNOTATIONS',
+        `YOLO label line ${lineIndex + 1} has class ${classIndex}, but classLabels has ${classLabels.length} entries`
+      );
+    }
+
+    boxes.push({ box: denormalizeBox(cxcywhToXyxy([cx, cy, width, height]), imageSize), className });
+  });
+  return boxes;
+}
+
+/**
+ * Parse a COCO detection dataset
+ * Crowd annotations (`iscrowd: 1`) are skipped; category names become class labels.
+ *
+ * @param dataset - Parsed dataset or its JSON text
+ * @returns Every image of the dataset with its boxes, in dataset order
+ * @throws VisionMLError INVALID_ANNOTATIONS for invalid JSON or references to unknown images/categories
+ */
+export function parseCocoAnnotations(dataset: CocoDataset | string): GroundTruthImage[] {
+  let coco: CocoDataset;
+  try {
+    coco = typeof dataset === 'string' ? JSON.parse(dataset) : dataset;
+  } catch (error) {
+    throw new VisionMLError('INVALID_ANNOTATIONS', 'COCO annotations are not valid JSON', { cause: error });
+  }
+  if (!Array.isArray(coco?.images) || !Array.isArray(coco.annotations) || !Array.isArray(coco.categories)) {
+    throw new VisionMLError('INVALID_ANNOTATIONS', 'COCO annotations need images, annotations and categories arrays');
+  }
+
+  const categories = new Map(coco.categories.map(category => [String(category.id), category.name]));
+  const images = new Map<string, GroundTruthImage>();
+  for (const image of coco.images) {
+    images.set(String(image.id), {
+      id: image.id,
+      fileName: image.file_name,
+      width: image.width,
+      height: image.height,
+      boxes: []
+    });
+  }
+
+  for (const annotation of coco.annotations) {
+    if (annotation.iscrowd) {
+      continue;
+    }
+    const image = images.get(String(annotation.image_id));
+    const className = categories.get(String(annotation.category_id));
+    if (!image || className === undefined) {
+      throw new VisionMLError(
+        'INVALID_ANNOTATIONS',
+        `COCO annotation references unknown ${image ? 'category' : 'image'} ` +
+          `${image ? annotation.category_id : annotation.image_id}`
+      );
+    }
+    image.boxes.push({ box: xywhToXyxy(annotation.bbox), className });
+  }
+
+  return Array.from(images.values());
+}
+
+// MARK: - Evaluation
+
+/**
+ * Score detections against ground truth
+ *
+ * AP uses COCO's rules: per class, detections are matched highest score first,
+ * each to the unmatched ground-truth box it overlaps most, and AP is the
+ * 101-point interpolated area under the precision/recall curve. Classes
+ * without ground truth are left out of mAP. Boxes of labels outside
+ * classLabels are ignored.
+ *
+ * ```typescript
+ * const report = evaluateDetections(
+ *   exported.map(item => ({ groundTruth: item.labels, detections: item.result.detections })),
+ *   { classLabels, confidenceThreshold: 0.5 }
+ * );
+ * console.log(report.mAP50, report.classes.map(c => [c.className, c.recall]));
+ * ```
+ *
+ * @param samples - Detections and ground truth of each image
+ * @param options - Classes, operating threshold, match IoU and sweep thresholds
+ * @returns Per-class and overall precision/recall, AP, confusion matrix and threshold sweeps
+ */
+export function evaluateDetections(
+  samples: readonly EvaluationSample[],
+  options: EvaluationOptions = {}
+): EvaluationReport {
+  const {
+    confidenceThreshold = 0.6,
+    matchIoU = 0.5,
+    sweepThresholds = DEFAULT_SWEEP_THRESHOLDS
+  } = options;
+  const classLabels = options.classLabels ?? labelsIn(samples);
+
+  const classes = classLabels.map((className): ClassEvaluation => {
+    const groundTruthCount = samples.reduce(
+      (count, sample) => count + sample.groundTruth.filter(truth => truth.className === className).length,
+      0
+    );
+    const matches = matchClass(samples, className, matchIoU);
+    const aps = COCO_IOU_THRESHOLDS.map(threshold =>
+      averagePrecision(matchClass(samples, className, threshold), groundTruthCount)
+    );
+
+    return {
+      className,
+      groundTruthCount,
+      ...countAt(matches, groundTruthCount, confidenceThreshold),
+      ap50: aps[0],
+      ap50to95: groundTruthCount > 0 ? mean(aps as number[]) : null,
+      sweep: sweepThresholds.map(threshold => ({ threshold, ...countAt(matches, groundTruthCount, threshold) }))
+    };
+  });
+
+  const evaluated = classes.filter(evaluation => evaluation.groundTruthCount > 0);
+  return {
+    imageCount: samples.length,
+    classes,
+    mAP50: mean(evaluated.map(evaluation => evaluation.ap50 as number)),
+    mAP50to95: mean(evaluated.map(evaluation => evaluation.ap50to95 as number)),
+    ...sumCounts(classes),
+    confusionMatrix: confusionMatrix(samples, classLabels, confidenceThreshold, matchIoU),
+    sweep: sweepThresholds.map((threshold, index) => ({
+      threshold,
+      ...sumCounts(classes.map(evaluation => evaluation.sweep[index]))
+    }))
+  };
+}
+
+/**
+ * Run detect() on annotated images and score the results
+ *
+ * Goes through the full pipeline (decode, letterbox, inference, NMS) one
+ * image at a time, so the numbers reflect what the app sees.
+ *
+ * ```typescript
+ * const truth = parseCocoAnnotations(await readFile(annotationsPath, 'utf8'));
+ * const report = await evaluateDetector(
+ *   detectorId,
+ *   truth.map(item => ({ image: `${imagesDir}/${item.fileName}`, groundTruth: item.boxes })),
+ *   { classLabels, onProgress: (done, total) => console.log(`${done}/${total}`) }
+ * );
+ * ```
+ *
+ * @param detectorId - Detector instance ID from createDetector()
+ * @param images - Images with their ground truth, optionally with precomputed results
+ * @param options - detect() options, progress callback and evaluation options
+ * @returns The evaluation report of all images
+ */
+export async function evaluateDetector(
+  detectorId: string,
+  images: readonly EvaluationImage[],
+  options: DetectorEvaluationOptions = {}
+): Promise<EvaluationReport> {
+  const { detection = {}, onProgress, ...evaluationOptions } = options;
+  const detectionOptions: DetectionOptions = {
+    priority: 'background',
+    ...detection,
+    confidenceThreshold: detection.confidenceThreshold ?? 0.01
+  };
+
+  const samples: EvaluationSample[] = [];
+  for (const item of images) {
+    const result = item.result ?? (await detect(detectorId, item.image, detectionOptions));
+    samples.push({ groundTruth: item.groundTruth, detections: result.detections });
+    onProgress?.(samples.length, images.length);
+  }
+  return evaluateDetections(samples, evaluationOptions);
+}
+
+// MARK: - Matching
+
+/** Greedy COCO matching of one class over all images, highest score first */
+function matchClass(samples: readonly EvaluationSample[], className: string, iouThreshold: number): ScoredMatch[] {
+  const matches: ScoredMatch[] = [];
+  for (const sample of samples) {
+    const truths = sample.groundTruth.filter(truth => truth.className === className);
+    const detections = sample.detections
+      .filter(detection => detection.className === className)
+      .sort((a, b) => b.score - a.score);
+    const used = truths.map(() => false);
+
+    for (const detection of detections) {
+      const match = bestMatch(detection.box, truths, used, iouThreshold);
+      if (match >= 0) {
+        used[match] = true;
+      }
+      matches.push({ score: detection.score, matched: match >= 0 });
+    }
+  }
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+/** Index of the unused ground-truth box overlapping `box` most with IoU >= threshold, or -1 */
+function bestMatch(box: BoxXYXY, truths: readonly GroundTruthBox[], used: readonly boolean[], threshold: number): number {
+  let best = -1;
+  let bestIoU = -1;
+  truths.forEach((truth, index) => {
+    const overlap = used[index] ? -1 : iou(box, truth.box);
+    if (overlap >= threshold && overlap > bestIoU) {
+      best = index;
+      bestIoU = overlap;
+    }
+  });
+  return best;
+}
+
+/** COCO 101-point interpolated AP of score-sorted matches (null without ground truth) */
+function averagePrecision(matches: readonly ScoredMatch[], groundTruthCount: number): number | null {
+  if (groundTruthCount === 0) {
+    return null;
+  }
+
+  const precisions: number[] = [];
+  const recalls: number[] = [];
+  let truePositives = 0;
+  matches.forEach((match, index) => {
+    truePositives += match.matched ? 1 : 0;
+    precisions.push(truePositives / (index + 1));
+    recalls.push(truePositives / groundTruthCount);
+  });
+
+  // Precision envelope: the best precision at this recall or any higher one
+  for (let i = precisions.length - 2; i >= 0; i--) {
+    precisions[i] = Math.max(precisions[i], precisions[i + 1]);
+  }
+
+  let sum = 0;
+  let index = 0;
+  for (let step = 0; step <= 100; step++) {
+    while (index < recalls.length && recalls[index] < step / 100) {
+      index++;
+    }
+    sum += index < precisions.length ? precisions[index] : 0;
+  }
+  return sum / 101;
+}
+
+/** Counts when only matches scoring at least `threshold` are kept (greedy matching is prefix-stable) */
+function countAt(matches: readonly ScoredMatch[], groundTruthCount: number, threshold: number): PrecisionRecall {
+  let truePositives = 0;
+  let falsePositives = 0;
+  for (const match of matches) {
+    if (match.score < threshold) {
+      break;
+    }
+    if (match.matched) {
+      truePositives++;
+    } else {
+      falsePositives++;
+    }
+  }
+  return precisionRecall(truePositives, falsePositives, groundTruthCount - truePositives);
+}
+
+function sumCounts(counts: readonly PrecisionRecall[]): PrecisionRecall {
+  return precisionRecall(
+    counts.reduce((sum, count) => sum + count.truePositives, 0),
+    counts.reduce((sum, count) => sum + count.falsePositives, 0),
+    counts.reduce((sum, count) => sum + count.falseNegatives, 0)
+  );
+}
+
+function precisionRecall(truePositives: number, falsePositives: number, falseNegatives: number): PrecisionRecall {
+  const precision = truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0;
+  const recall = truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 0;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+  return { truePositives, falsePositives, falseNegatives, precision, recall, f1 };
+}
+
+/** Class-agnostic greedy matching at the operating threshold */
+function confusionMatrix(
+  samples: readonly EvaluationSample[],
+  classLabels: readonly string[],
+  confidenceThreshold: number,
+  matchIoU: number
+): ConfusionMatrix {
+  const classIndex = new Map(classLabels.map((label, index) => [label, index]));
+  const background = classLabels.length;
+  const counts = Array.from({ length: background + 1 }, () => new Array<number>(background + 1).fill(0));
+
+  for (const sample of samples) {
+    const truths = sample.groundTruth.filter(truth => classIndex.has(truth.className));
+    const detections = sample.detections
+      .filter(detection => detection.score >= confidenceThreshold && classIndex.has(detection.className))
+      .sort((a, b) => b.score - a.score);
+    const used = truths.map(() => false);
+
+    for (const detection of detections) {
+      const predicted = classIndex.get(detection.className)!;
+      const match = bestMatch(detection.box, truths, used, matchIoU);
+      if (match >= 0) {
+        used[match] = true;
+        counts[classIndex.get(truths[match].className)!][predicted]++;
+      } else {
+        counts[background][predicted]++;
+      }
+    }
+    truths.forEach((truth, index) => {
+      if (!used[index]) {
+        counts[classIndex.get(truth.className)!][background]++;
+      }
+    });
+  }
+
+  return { labels: [...classLabels, 'background'], counts };
+}
+
+/** Every label in the samples, ground truth first, in first-seen order */
+function labelsIn(samples: readonly EvaluationSample[]): string[] {
+  const labels = new Set<string>();
+  for (const sample of samples) {
+    sample.groundTruth.forEach(truth => labels.add(truth.className));
+  }
+  for (const sample of samples) {
+    sample.detections.forEach(detection => labels.add(detection.className));
+  }
+  return Array.from(labels);
+}
+
+function mean(values: readonly number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
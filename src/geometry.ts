@@ -0,0 +1,293 @@
+import type { Detection } from './detector';
+import type { BoundingBox } from './vision';
+
+// MARK: - Geometry Types
+//
+// Pure TypeScript with no runtime imports, so it works the same in plain Node
+// (tests, servers). Everything here is re-exported from the package root.
+
+/** [x1, y1, x2, y2] corners (the Detection.box format) */
+export type BoxXYXY = [number, number, number, number];
+
+/** [x, y, width, height] with x/y at the top-left corner */
+export type BoxXYWH = [number, number, number, number];
+
+/** [centerX, centerY, width, height] (YOLO format) */
+export type BoxCXCYWH = [number, number, number, number];
+
+export type BoxFormat = 'xyxy' | 'xywh' | 'cxcywh';
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+/**
+ * How an image is fitted into a view, matching <Image resizeMode>
+ * - contain: scale to fit inside the view, centered (letterboxed)
+ * - cover: scale to fill the view, centered (cropped)
+ * - stretch: scale each axis independently to fill the view
+ * - center: like contain, but never scaled up
+ */
+export type ResizeMode = 'contain' | 'cover' | 'stretch' | 'center';
+
+/**
+ * Image → view mapping: viewX = imageX * scaleX + offsetX
+ */
+export interface ViewTransform {
+  scaleX: number;
+  scaleY: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+// MARK: - Box Conversions
+
+export function xyxyToXywh([x1, y1, x2, y2]: BoxXYXY): BoxXYWH {
+  return [x1, y1, x2 - x1, y2 - y1];
+}
+
+export function xywhToXyxy([x, y, width, height]: BoxXYWH): BoxXYXY {
+  return [x, y, x + width, y + height];
+}
+
+export function xyxyToCxcywh([x1, y1, x2, y2]: BoxXYXY): BoxCXCYWH {
+  return [(x1 + x2) / 2, (y1 + y2) / 2, x2 - x1, y2 - y1];
+}
+
+export function cxcywhToXyxy([cx, cy, width, height]: BoxCXCYWH): BoxXYXY {
+  return [cx - width / 2, cy - height / 2, cx + width / 2, cy + height / 2];
+}
+
+/**
+ * Convert a box between formats
+ */
+export function convertBox(
+  box: [number, number, number, number],
+  from: BoxFormat,
+  to: BoxFormat
+): [number, number, number, number] {
+  if (from === to) {
+    return [...box];
+  }
+  const xyxy = from === 'xyxy' ? box : from === 'xywh' ? xywhToXyxy(box) : cxcywhToXyxy(box);
+  return to === 'xyxy' ? [...xyxy] : to === 'xywh' ? xyxyToXywh(xyxy) : xyxyToCxcywh(xyxy);
+}
+
+/**
+ * Scale a pixel-space xyxy box to 0.0 - 1.0
+ */
+export function normalizeBox([x1, y1, x2, y2]: BoxXYXY, imageSize: Size): BoxXYXY {
+  const { width, height } = imageSize;
+  return [x1 / width, y1 / height, x2 / width, y2 / height];
+}
+
+/**
+ * Scale a normalized (0.0 - 1.0) xyxy box to pixels
+ */
+export function denormalizeBox([x1, y1, x2, y2]: BoxXYXY, imageSize: Size): BoxXYXY {
+  const { width, height } = imageSize;
+  return [x1 * width, y1 * height, x2 * width, y2 * height];
+}
+
+/**
+ * Convert a Vision BoundingBox (normalized x/y/width/height) to a pixel xyxy box with a top-left origin
+ * @param origin - 'bottom-left' for Apple Vision results (default), 'top-left' if already flipped
+ */
+export function boundingBoxToXyxy(
+  box: BoundingBox,
+  imageSize: Size,
+  origin: 'bottom-left' | 'top-left' = 'bottom-left'
+): BoxXYXY {
+  const top = origin === 'bottom-left' ? 1 - box.y - box.height : box.y;
+  return denormalizeBox([box.x, top, box.x + box.width, top + box.height], imageSize);
+}
+
+/**
+ * Convert a pixel xyxy box with a top-left origin to a Vision BoundingBox
+ * @see boundingBoxToXyxy
+ */
+export function xyxyToBoundingBox(
+  box: BoxXYXY,
+  imageSize: Size,
+  origin: 'bottom-left' | 'top-left' = 'bottom-left'
+): BoundingBox {
+  const [x1, y1, x2, y2] = normalizeBox(box, imageSize);
+  return {
+    x: x1,
+    y: origin === 'bottom-left' ? 1 - y2 : y1,
+    width: x2 - x1,
+    height: y2 - y1
+  };
+}
+
+// MARK: - View Mapping
+
+/**
+ * Compute how an image is placed inside a view for a resize mode
+ */
+export function getViewTransform(imageSize: Size, viewSize: Size, resizeMode: ResizeMode = 'contain'): ViewTransform {
+  const ratioX = viewSize.width / imageSize.width;
+  const ratioY = viewSize.height / imageSize.height;
+
+  if (resizeMode === 'stretch') {
+    return { scaleX: ratioX, scaleY: ratioY, offsetX: 0, offsetY: 0 };
+  }
+
+  let scale: number;
+  switch (resizeMode) {
+    case 'cover':
+      scale = Math.max(ratioX, ratioY);
+      break;
+    case 'center':
+      scale = Math.min(1, ratioX, ratioY);
+      break;
+    default:
+      scale = Math.min(ratioX, ratioY);
+  }
+
+  return {
+    scaleX: scale,
+    scaleY: scale,
+    offsetX: (viewSize.width - imageSize.width * scale) / 2,
+    offsetY: (viewSize.height - imageSize.height * scale) / 2
+  };
+}
+
+/**
+ * Map an original-image xyxy box into view coordinates
+ * With 'cover' the result can extend past the view edges; clip it if needed.
+ */
+export function mapBoxToView(
+  [x1, y1, x2, y2]: BoxXYXY,
+  imageSize: Size,
+  viewSize: Size,
+  resizeMode: ResizeMode = 'contain'
+): BoxXYXY {
+  const { scaleX, scaleY, offsetX, offsetY } = getViewTransform(imageSize, viewSize, resizeMode);
+  return [x1 * scaleX + offsetX, y1 * scaleY + offsetY, x2 * scaleX + offsetX, y2 * scaleY + offsetY];
+}
+
+/**
+ * Map a view-space xyxy box (e.g. a touch region) back to original-image coordinates
+ */
+export function mapBoxFromView(
+  [x1, y1, x2, y2]: BoxXYXY,
+  imageSize: Size,
+  viewSize: Size,
+  resizeMode: ResizeMode = 'contain'
+): BoxXYXY {
+  const { scaleX, scaleY, offsetX, offsetY } = getViewTransform(imageSize, viewSize, resizeMode);
+  return [(x1 - offsetX) / scaleX, (y1 - offsetY) / scaleY, (x2 - offsetX) / scaleX, (y2 - offsetY) / scaleY];
+}
+
+/**
+ * Map every detection's box into view coordinates
+ */
+export function mapDetectionsToView<T extends Detection>(
+  detections: T[],
+  imageSize: Size,
+  viewSize: Size,
+  resizeMode: ResizeMode = 'contain'
+): T[] {
+  return detections.map((detection) => ({
+    ...detection,
+    box: mapBoxToView(detection.box, imageSize, viewSize, resizeMode)
+  }));
+}
+
+/**
+ * Clamp an xyxy box to [0, width] x [0, height]
+ */
+export function clipBox([x1, y1, x2, y2]: BoxXYXY, size: Size): BoxXYXY {
+  const clampX = (x: number) => Math.min(Math.max(x, 0), size.width);
+  const clampY = (y: number) => Math.min(Math.max(y, 0), size.height);
+  return [clampX(x1), clampY(y1), clampX(x2), clampY(y2)];
+}
+
+// MARK: - Post-processing
+
+/**
+ * Area of an xyxy box
+ */
+export function boxArea([x1, y1, x2, y2]: BoxXYXY): number {
+  return Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+}
+
+/**
+ * Intersection over Union between two xyxy boxes (same math as native NMS.calculateIoU)
+ * @returns IoU value (0.0 to 1.0)
+ */
+export function iou(box1: BoxXYXY, box2: BoxXYXY): number {
+  const intersectionWidth = Math.max(0, Math.min(box1[2], box2[2]) - Math.max(box1[0], box2[0]));
+  const intersectionHeight = Math.max(0, Math.min(box1[3], box2[3]) - Math.max(box1[1], box2[1]));
+  const intersection = intersectionWidth * intersectionHeight;
+
+  const area1 = (box1[2] - box1[0]) * (box1[3] - box1[1]);
+  const area2 = (box2[2] - box2[0]) * (box2[3] - box2[1]);
+  const union = area1 + area2 - intersection;
+
+  return union > 0 ? intersection / union : 0;
+}
+
+export interface NMSOptions {
+  /** IoU above which the lower-scoring box is suppressed (default: 0.45) */
+  iouThreshold?: number;
+  /** Only suppress boxes of the same class (default: false, like native NMS) */
+  classAware?: boolean;
+}
+
+/**
+ * Non-Maximum Suppression, mirroring native NMS.apply
+ * Highest score first; a box is dropped when its IoU with a kept box exceeds the threshold.
+ */
+export function nms<T extends Detection>(detections: T[], options: NMSOptions = {}): T[] {
+  const { iouThreshold = 0.45, classAware = false } = options;
+  const sorted = [...detections].sort((a, b) => b.score - a.score);
+  const keep: T[] = [];
+  const suppressed = new Set<number>();
+
+  for (let i = 0; i < sorted.length; i++) {
+    if (suppressed.has(i)) continue;
+    keep.push(sorted[i]);
+
+    for (let j = i + 1; j < sorted.length; j++) {
+      if (suppressed.has(j)) continue;
+      if (classAware && sorted[j].classIndex !== sorted[i].classIndex) continue;
+      if (iou(sorted[i].box, sorted[j].box) > iouThreshold) {
+        suppressed.add(j);
+      }
+    }
+  }
+
+  return keep;
+}
+
+export interface DetectionFilter {
+  /** Keep only these class labels */
+  labels?: string[];
+  /** Drop these class labels */
+  excludeLabels?: string[];
+  /** Minimum score for every detection */
+  minScore?: number;
+  /** Per-label minimum scores, overriding minScore */
+  classThresholds?: Record<string, number>;
+  /** Minimum box area in pixels */
+  minArea?: number;
+}
+
+/**
+ * Filter detections by label, score and size
+ */
+export function filterDetections<T extends Detection>(detections: T[], filter: DetectionFilter): T[] {
+  const { labels, excludeLabels, minScore = 0, classThresholds = {}, minArea = 0 } = filter;
+  const include = labels ? new Set(labels) : null;
+  const exclude = new Set(excludeLabels ?? []);
+
+  return detections.filter((detection) => {
+    if (include && !include.has(detection.className)) return false;
+    if (exclude.has(detection.className)) return false;
+    if (detection.score < (classThresholds[detection.className] ?? minScore)) return false;
+    return boxArea(detection.box) >= minArea;
+  });
+}
@@ -0,0 +1,86 @@
+import type { ImageInput, RawImageInput } from './detector';
+import { VisionMLError } from './errors';
+
+// MARK: - Image Sources
+//
+// detect() accepts several kinds of image input; the native modules receive
+// exactly one of these dictionaries:
+//   { uri }                      file:// URI, absolute path or data: URI
+//   { assetId }                  Photos local identifier / MediaStore ID
+//   { rgba, width, height }      base64 of the raw RGBA bytes
+// Raw pixels are base64 encoded because the bridge has no binary type.
+
+/**
+ * Image source in the shape the native detect() methods expect
+ */
+export type NativeImageSource =
+  | { uri: string }
+  | { assetId: string }
+  | { rgba: string; width: number; height: number };
+
+/**
+ * Convert a detect() input to its native dictionary, validating raw pixel buffers
+ */
+export function toNativeImageSource(input: ImageInput): NativeImageSource {
+  if (typeof input === 'string') {
+    return { uri: input };
+  }
+  if ('assetId' in input) {
+    return { assetId: input.assetId };
+  }
+  return rawImageSource(input);
+}
+
+/**
+ * Asset ID or file URI the result cache keys a source by; null for data URIs and raw pixels
+ */
+export function imageCacheId(source: NativeImageSource): string | null {
+  if ('assetId' in source) {
+    return source.assetId;
+  }
+  if ('uri' in source && !source.uri.startsWith('data:')) {
+    return source.uri;
+  }
+  return null;
+}
+
+function rawImageSource({ data, width, height }: RawImageInput): NativeImageSource {
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    throw new VisionMLError('INVALID_IMAGE_INPUT', `Invalid raw image size ${width}x${height}`);
+  }
+  const bytes = data instanceof ArrayBuffer ? new Uint8Array(data) : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  const expected = width * height * 4;
+  if (bytes.byteLength !== expected) {
+    throw new VisionMLError(
+      'INVALID_IMAGE_INPUT',
+      `Raw image buffer is ${bytes.byteLength} bytes, expected ${expected} (${width}x${height} RGBA)`
+    );
+  }
+  return { rgba: encodeBase64(bytes), width, height };
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Standard base64 with padding; neither Buffer nor btoa exists in every RN runtime
+ */
+function encodeBase64(bytes: Uint8Array): string {
+  const chunks: string[] = [];
+  // Build in slices so huge frames don't create one enormous intermediate array
+  const sliceSize = 3 * 16384;
+  for (let start = 0; start < bytes.length; start += sliceSize) {
+    const end = Math.min(start + sliceSize, bytes.length);
+    let chunk = '';
+    for (let i = start; i < end; i += 3) {
+      const b0 = bytes[i];
+      const b1 = i + 1 < end ? bytes[i + 1] : 0;
+      const b2 = i + 2 < end ? bytes[i + 2] : 0;
+      chunk += BASE64_ALPHABET[b0 >> 2];
+      chunk += BASE64_ALPHABET[((b0 & 0x03) << 4) | (b1 >> 4)];
+      chunk += i + 1 < end ? BASE64_ALPHABET[((b1 & 0x0f) << 2) | (b2 >> 6)] : '=';
+      chunk += i + 2 < end ? BASE64_ALPHABET[b2 & 0x3f] : '=';
+    }
+    chunks.push(chunk);
+  }
+  return chunks.join('');
+}
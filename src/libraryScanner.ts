@@ -0,0 +1,442 @@
+import type { Detector, DetectionOptions, ImageInput, InferenceResult } from './detector';
+import { VisionMLError, isVisionMLError } from './errors';
+import { getPlatformOS } from './native';
+import { getModelIdentity, hashString, stableStringify } from './resultCache';
+import {
+  analyzeSensitiveContent,
+  analyzeVideoSensitiveContent,
+  getSensitiveContentAnalysisStatus
+} from './sensitiveContent';
+import type { VideoAnalysisOptions, VideoAnalysisResult } from './video';
+import { analyzeComprehensive } from './vision';
+
+// MARK: - Library Scan Types
+
+/**
+ * Scan stages, cheapest first
+ * - sca: Apple Sensitive Content Analysis (iOS 17+, user opt-in)
+ * - vision: Vision/ML Kit hints from analyzeComprehensive() (photos only, opt-in)
+ * - onnx: detect() for photos, analyzeVideo() for videos
+ */
+export type LibraryScanStage = 'sca' | 'vision' | 'onnx';
+
+/**
+ * Asset to scan
+ */
+export interface LibraryScanAsset {
+  /** Photo/video asset identifier from MediaLibrary */
+  assetId: string;
+  /** Media type (default: 'photo') */
+  mediaType?: 'photo' | 'video';
+  /** file:// URI used for ONNX detection of photos (otherwise resolveImageUri, or the asset itself) */
+  uri?: string;
+}
+
+/**
+ * Outcome for a single asset
+ */
+export interface LibraryScanItem {
+  /** Asset ID */
+  assetId: string;
+  /** Media type */
+  mediaType: 'photo' | 'video';
+  /** Whether the asset was flagged */
+  isFlagged: boolean;
+  /** Stage that produced the verdict */
+  decidedBy: LibraryScanStage;
+  /** ONNX result for photos that reached the onnx stage */
+  detection?: InferenceResult;
+  /** ONNX result for videos that reached the onnx stage */
+  video?: VideoAnalysisResult;
+  /** Error if no stage could produce a verdict */
+  error?: VisionMLError;
+}
+
+/**
+ * Per-stage counters
+ */
+export interface LibraryScanStageStats {
+  /** Assets this stage ran on */
+  processed: number;
+  /** Assets cleared by this stage, so later stages were skipped */
+  cleared: number;
+  /** Assets where this stage failed (they move on to the next stage) */
+  failed: number;
+  /** Assets this stage did not run on (unavailable, not applicable, or cleared earlier) */
+  skipped: number;
+  /** skipped / completed assets (0.0 - 1.0) */
+  skipRate: number;
+}
+
+/**
+ * Serializable scan state, for resuming after pause or app restart
+ * Only valid with the same asset list, in the same order, and the same model and options.
+ */
+export interface LibraryScanCheckpoint {
+  version: 2;
+  /** Number of assets in the scan */
+  assetCount: number;
+  /** Hash of the ordered asset IDs and media types, the detector's model and the scan options */
+  scanHash: string;
+  /** Index of the next asset to scan */
+  nextIndex: number;
+  /** Assets flagged so far */
+  flaggedAssetIds: string[];
+  /** Assets that failed so far */
+  failedAssetIds: string[];
+  /** Stage counters so far */
+  stages: Record<LibraryScanStage, LibraryScanStageStats>;
+}
+
+/**
+ * Result from LibraryScanner.run()
+ */
+export interface LibraryScanSummary {
+  /** 'paused' when pause() stopped the scan before the end */
+  status: 'completed' | 'paused';
+  /** Assets scanned so far (including previous runs) */
+  completed: number;
+  /** Total number of assets */
+  total: number;
+  /** Whether Sensitive Content Analysis was used */
+  scaAvailable: boolean;
+  /** Assets flagged so far */
+  flaggedAssetIds: string[];
+  /** Assets that failed so far */
+  failedAssetIds: string[];
+  /** Per-stage counters */
+  stages: Record<LibraryScanStage, LibraryScanStageStats>;
+}
+
+/**
+ * Options for LibraryScanner
+ */
+export interface LibraryScanOptions {
+  /** Use Sensitive Content Analysis when enabled (default: true) */
+  useSensitiveContentAnalysis?: boolean;
+  /**
+   * Clear photos with no people, or that look like screenshots, using Vision hints (default: false)
+   * Saves ONNX runs, but misses sensitive content the hints can't see, e.g. close-ups without a face.
+   */
+  useVisionHints?: boolean;
+  /** Resolve a photo asset to a file:// URI for detect() (default: detect reads the asset by ID) */
+  resolveImageUri?: (assetId: string) => Promise<string>;
+  /** Options for detect() on photos (priority defaults to 'background') */
+  detectionOptions?: DetectionOptions;
+  /** Options for analyzeVideo() on videos (observer callbacks and signal are managed by the scanner) */
+  videoOptions?: Omit<VideoAnalysisOptions, 'signal' | 'onProgress' | 'onDetection'>;
+  /** Checkpoint from a previous scan to resume from */
+  checkpoint?: LibraryScanCheckpoint;
+  /** Called after each asset is scanned */
+  onItem?: (item: LibraryScanItem, completed: number, total: number) => void;
+}
+
+// MARK: - Library Scanner
+
+const STAGES: LibraryScanStage[] = ['sca', 'vision', 'onnx'];
+
+/**
+ * What a checkpoint must have been taken with: asset order, model and everything that decides a verdict
+ * Scheduling priority, abort signals and file URIs don't change results, so they're left out.
+ */
+function hashScan(detector: Detector, assets: LibraryScanAsset[], options: LibraryScanOptions): string {
+  const { useSensitiveContentAnalysis = true, useVisionHints = false, detectionOptions, videoOptions } = options;
+  return hashString(
+    stableStringify({
+      assets: assets.map(asset => [asset.assetId, asset.mediaType ?? 'photo']),
+      model: getModelIdentity(detector.id) ?? detector.modelPath,
+      useSensitiveContentAnalysis,
+      useVisionHints,
+      // Undefined keys are left out of the hash
+      detectionOptions: { ...detectionOptions, priority: undefined, signal: undefined },
+      videoOptions: { ...videoOptions, priority: undefined }
+    })
+  );
+}
+
+function emptyStageStats(): Record<LibraryScanStage, LibraryScanStageStats> {
+  const stats = {} as Record<LibraryScanStage, LibraryScanStageStats>;
+  for (const stage of STAGES) {
+    stats[stage] = { processed: 0, cleared: 0, failed: 0, skipped: 0, skipRate: 0 };
+  }
+  return stats;
+}
+
+/**
+ * Tiered library scan: SCA → Vision hints → ONNX
+ *
+ * Each asset goes through the cheapest available stage first and only
+ * reaches the ONNX detector if no earlier stage could clear it:
+ * 1. Sensitive Content Analysis, when the user has enabled it (iOS 17+).
+ *    Clean results are final; sensitive ones go to ONNX for boxes.
+ * 2. Vision hints (photos only, with `useVisionHints: true`): no people detected, or a likely screenshot.
+ * 3. detect() for photos, analyzeVideo() for videos.
+ *
+ * On Android (or with SCA disabled) the sca stage is skipped and ML Kit
+ * provides the Vision hints.
+ *
+ * ```typescript
+ * const scanner = new LibraryScanner(detector, assets, {
+ *   resolveImageUri: async id => (await MediaLibrary.getAssetInfoAsync(id)).localUri!,
+ *   checkpoint: await loadCheckpoint()
+ * });
+ * AppState.addEventListener('change', s => s !== 'active' && scanner.pause());
+ * const summary = await scanner.run();
+ * await saveCheckpoint(scanner.checkpoint());
+ * ```
+ */
+export class LibraryScanner {
+  private readonly detector: Detector;
+  private readonly assets: LibraryScanAsset[];
+  private readonly options: LibraryScanOptions;
+  private readonly scanHash: string;
+
+  private nextIndex = 0;
+  private flaggedAssetIds: string[] = [];
+  private failedAssetIds: string[] = [];
+  private stages = emptyStageStats();
+
+  private running: Promise<LibraryScanSummary> | null = null;
+  private pauseRequested = false;
+  private videoAbort: AbortController | null = null;
+  private scaAvailable = false;
+
+  constructor(detector: Detector, assets: Array<string | LibraryScanAsset>, options: LibraryScanOptions = {}) {
+    this.detector = detector;
+    this.assets = assets.map((asset) => (typeof asset === 'string' ? { assetId: asset } : asset));
+    this.options = options;
+    this.scanHash = hashScan(detector, this.assets, options);
+
+    const { checkpoint } = options;
+    if (checkpoint) {
+      if (checkpoint.version !== 2 || checkpoint.assetCount !== this.assets.length) {
+        throw new VisionMLError(
+          'INVALID_CHECKPOINT',
+          `Checkpoint does not match this scan (${checkpoint.assetCount} assets, expected ${this.assets.length})`
+        );
+      }
+      if (checkpoint.scanHash !== this.scanHash) {
+        throw new VisionMLError(
+          'INVALID_CHECKPOINT',
+          'Checkpoint is from a different asset list, asset order, model or scan options'
+        );
+      }
+      this.nextIndex = checkpoint.nextIndex;
+      this.flaggedAssetIds = [...checkpoint.flaggedAssetIds];
+      this.failedAssetIds = [...checkpoint.failedAssetIds];
+      for (const stage of STAGES) {
+        this.stages[stage] = { ...checkpoint.stages[stage] };
+      }
+    }
+  }
+
+  /** Whether run() is in progress */
+  get isRunning(): boolean {
+    return this.running !== null;
+  }
+
+  /**
+   * Scan from the current position until done or paused
+   * Calling run() while already running returns the same promise.
+   */
+  run(): Promise<LibraryScanSummary> {
+    if (!this.running) {
+      this.pauseRequested = false;
+      this.running = this.scan().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Stop after the current asset
+   * A video scan in progress is cancelled and repeated on the next run().
+   */
+  pause(): void {
+    this.pauseRequested = true;
+    this.videoAbort?.abort();
+  }
+
+  /**
+   * Continue a paused scan
+   * @see run
+   */
+  resume(): Promise<LibraryScanSummary> {
+    return this.run();
+  }
+
+  /**
+   * Serializable snapshot of the scan state (JSON-safe)
+   */
+  checkpoint(): LibraryScanCheckpoint {
+    return {
+      version: 2,
+      assetCount: this.assets.length,
+      scanHash: this.scanHash,
+      nextIndex: this.nextIndex,
+      flaggedAssetIds: [...this.flaggedAssetIds],
+      failedAssetIds: [...this.failedAssetIds],
+      stages: this.stageStats()
+    };
+  }
+
+  private async scan(): Promise<LibraryScanSummary> {
+    this.scaAvailable = await this.checkSensitiveContentAnalysis();
+
+    while (this.nextIndex < this.assets.length && !this.pauseRequested) {
+      const asset = this.assets[this.nextIndex];
+      const outcome = await this.scanAsset(asset);
+      if (!outcome) {
+        // Interrupted by pause(); the asset is scanned again on resume
+        break;
+      }
+
+      const { item, ran, failed } = outcome;
+      for (const stage of STAGES) {
+        if (!ran.includes(stage)) {
+          this.stages[stage].skipped++;
+        } else {
+          this.stages[stage].processed++;
+          if (failed.includes(stage)) {
+            this.stages[stage].failed++;
+          } else if (stage === item.decidedBy && !item.isFlagged && stage !== 'onnx') {
+            this.stages[stage].cleared++;
+          }
+        }
+      }
+      if (item.isFlagged) this.flaggedAssetIds.push(item.assetId);
+      if (item.error) this.failedAssetIds.push(item.assetId);
+
+      this.nextIndex++;
+      this.options.onItem?.(item, this.nextIndex, this.assets.length);
+    }
+
+    return {
+      status: this.nextIndex < this.assets.length ? 'paused' : 'completed',
+      completed: this.nextIndex,
+      total: this.assets.length,
+      scaAvailable: this.scaAvailable,
+      flaggedAssetIds: [...this.flaggedAssetIds],
+      failedAssetIds: [...this.failedAssetIds],
+      stages: this.stageStats()
+    };
+  }
+
+  /**
+   * Run the stages for one asset
+   * @returns null if pause() interrupted the asset
+   */
+  private async scanAsset(
+    asset: LibraryScanAsset
+  ): Promise<{ item: LibraryScanItem; ran: LibraryScanStage[]; failed: LibraryScanStage[] } | null> {
+    const mediaType = asset.mediaType ?? 'photo';
+    const ran: LibraryScanStage[] = [];
+    const failed: LibraryScanStage[] = [];
+    const done = (item: Omit<LibraryScanItem, 'assetId' | 'mediaType'>) => ({
+      item: { assetId: asset.assetId, mediaType, ...item },
+      ran,
+      failed
+    });
+
+    let scaSensitive = false;
+    if (this.scaAvailable) {
+      ran.push('sca');
+      try {
+        const result =
+          mediaType === 'video'
+            ? await analyzeVideoSensitiveContent(asset.assetId, { priority: 'background' })
+            : await analyzeSensitiveContent(asset.assetId, { priority: 'background' });
+        if (result.available && !result.isSensitive) {
+          return done({ isFlagged: false, decidedBy: 'sca' });
+        }
+        scaSensitive = result.isSensitive;
+      } catch {
+        failed.push('sca');
+      }
+    }
+
+    // SCA already flagged it: go straight to ONNX for boxes
+    if (mediaType === 'photo' && !scaSensitive && this.options.useVisionHints === true) {
+      ran.push('vision');
+      try {
+        const hints = await analyzeComprehensive(asset.assetId, {
+          requests: ['faces', 'humans', 'rectangles'],
+          priority: 'background'
+        });
+        const noPeople = hints.hasHumans === false && !hints.faceCount;
+        if (noPeople || hints.likelyScreenshot === true) {
+          return done({ isFlagged: false, decidedBy: 'vision' });
+        }
+      } catch {
+        failed.push('vision');
+      }
+    }
+
+    ran.push('onnx');
+    try {
+      if (mediaType === 'video') {
+        this.videoAbort = new AbortController();
+        const video = await this.detector.analyzeVideo({ assetId: asset.assetId }, {
+          ...this.options.videoOptions,
+          signal: this.videoAbort.signal
+        });
+        return done({ isFlagged: video.isNSFW, decidedBy: 'onnx', video });
+      }
+
+      const image = asset.uri ?? (await this.resolveImage(asset.assetId));
+      const detection = await this.detector.detect(image, {
+        priority: 'background',
+        ...this.options.detectionOptions
+      });
+      return done({ isFlagged: detection.isFlagged, decidedBy: 'onnx', detection });
+    } catch (error) {
+      if (this.pauseRequested && isVisionMLError(error, 'VIDEO_ANALYSIS_CANCELLED')) {
+        return null;
+      }
+      // A disposed detector fails every remaining asset; stop instead
+      if (isVisionMLError(error, 'DETECTOR_DISPOSED')) {
+        throw error;
+      }
+      failed.push('onnx');
+      return done({
+        isFlagged: scaSensitive,
+        decidedBy: scaSensitive ? 'sca' : 'onnx',
+        error: VisionMLError.from(error)
+      });
+    } finally {
+      this.videoAbort = null;
+    }
+  }
+
+  private async resolveImage(assetId: string): Promise<ImageInput> {
+    if (!this.options.resolveImageUri) {
+      return { assetId };
+    }
+    return this.options.resolveImageUri(assetId);
+  }
+
+  private async checkSensitiveContentAnalysis(): Promise<boolean> {
+    if (getPlatformOS() !== 'ios' || this.options.useSensitiveContentAnalysis === false) {
+      return false;
+    }
+    try {
+      const status = await getSensitiveContentAnalysisStatus();
+      return status.available && status.enabled;
+    } catch {
+      return false;
+    }
+  }
+
+  private stageStats(): Record<LibraryScanStage, LibraryScanStageStats> {
+    const stats = emptyStageStats();
+    for (const stage of STAGES) {
+      const counts = this.stages[stage];
+      stats[stage] = {
+        ...counts,
+        skipRate: this.nextIndex > 0 ? counts.skipped / this.nextIndex : 0
+      };
+    }
+    return stats;
+  }
+}
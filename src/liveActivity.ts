@@ -0,0 +1,72 @@
+import { callNative } from './native';
+import type { VideoScanMode } from './video';
+
+// MARK: - Live Activity Types
+
+/**
+ * Result from starting a Live Activity
+ */
+export interface LiveActivityResult {
+  /** Activity ID if started successfully */
+  activityId: string | null;
+  /** Whether the activity was started */
+  success: boolean;
+}
+
+/**
+ * Check if Live Activities are available on this device
+ * Requires iOS 16.1+ and user permission. Always false on Android, where the
+ * progress notification is not implemented yet (see getCapabilities()).
+ */
+export async function isLiveActivityAvailable(): Promise<boolean> {
+  return callNative('isLiveActivityAvailable');
+}
+
+/**
+ * Start a Live Activity for video scanning
+ * Shows progress on Dynamic Island and Lock Screen
+ *
+ * @param videoName - Display name of the video
+ * @param videoDuration - Duration in seconds
+ * @param scanMode - Scan mode being used
+ * @returns Activity ID and success status
+ */
+export async function startVideoScanActivity(
+  videoName: string,
+  videoDuration: number,
+  scanMode: VideoScanMode
+): Promise<LiveActivityResult> {
+  return callNative('startVideoScanActivity', videoName, videoDuration, scanMode);
+}
+
+/**
+ * Update Live Activity progress
+ *
+ * @param progress - Progress from 0.0 to 1.0
+ * @param phase - Current phase description
+ * @param nsfwCount - Number of NSFW frames found so far
+ * @param framesAnalyzed - Total frames analyzed so far
+ */
+export async function updateVideoScanActivity(
+  progress: number,
+  phase: string,
+  nsfwCount: number,
+  framesAnalyzed: number
+): Promise<boolean> {
+  return callNative('updateVideoScanActivity', progress, phase, nsfwCount, framesAnalyzed);
+}
+
+/**
+ * End Live Activity with final results
+ *
+ * @param nsfwCount - Final count of NSFW frames
+ * @param framesAnalyzed - Total frames analyzed
+ * @param isNSFW - Whether any NSFW content was found
+ */
+export async function endVideoScanActivity(
+  nsfwCount: number,
+  framesAnalyzed: number,
+  isNSFW: boolean
+): Promise<boolean> {
+  return callNative('endVideoScanActivity', nsfwCount, framesAnalyzed, isNSFW);
+}
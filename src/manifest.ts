@@ -0,0 +1,128 @@
+import { disposeDetector } from './detector';
+import type { CreateDetectorResult, DetectionOptions, ModelConfig, RuntimeOptions } from './detector';
+import { callNative } from './native';
+import { registerDetectorModel } from './resultCache';
+import { trackDetector } from './scheduler';
+
+// MARK: - Manifest Types
+
+/**
+ * Detection thresholds a manifest recommends for its model
+ */
+export type DetectionDefaults = Pick<DetectionOptions, 'confidenceThreshold' | 'iouThreshold'>;
+
+/**
+ * JSON model manifest read by createDetectorFromManifest()
+ *
+ * ```json
+ * {
+ *   "model": "nudenet-320n.onnx",
+ *   "labels": ["FEMALE_GENITALIA_COVERED", "FACE_FEMALE", "..."],
+ *   "inputSize": 320,
+ *   "sha256": "9f2c…",
+ *   "config": { "outputLayout": "yolov8_transposed" },
+ *   "defaults": { "confidenceThreshold": 0.5 }
+ * }
+ * ```
+ */
+export interface ModelManifest {
+  /** Model file: absolute path, or relative to the manifest's directory */
+  model: string;
+  /** Class label of each output class, in output order */
+  labels: string[];
+  /** Model input size (default: 320) */
+  inputSize?: number;
+  /** Hex SHA-256 the model file must have, checked before the model loads */
+  sha256?: string;
+  /** Output layout and preprocessing (default: NudeNet's) */
+  config?: ModelConfig;
+  /** Thresholds used by Detector.fromManifest() handles when a call doesn't pass its own */
+  defaults?: DetectionDefaults;
+  /** Free-form model name */
+  name?: string;
+  /** Free-form model version */
+  version?: string;
+}
+
+/**
+ * Manifest as loaded, with `model` resolved to an absolute path and the optional fields filled in
+ */
+export interface ResolvedModelManifest extends ModelManifest {
+  inputSize: number;
+  config: ModelConfig;
+  defaults: DetectionDefaults;
+}
+
+/**
+ * One model input or output as reported by ONNX Runtime
+ */
+export interface TensorMetadata {
+  /** Tensor name */
+  name: string;
+  /** Dimensions; dynamic ones (batch, number of predictions) are -1 */
+  shape: number[];
+  /** ONNX element type, e.g. 'float', 'float16', 'uint8', 'int64' */
+  type: string;
+}
+
+/**
+ * Inputs and outputs of a loaded model, in session order
+ */
+export interface ModelMetadata {
+  inputs: TensorMetadata[];
+  outputs: TensorMetadata[];
+}
+
+/**
+ * Result from createDetectorFromManifest
+ */
+export interface CreateDetectorFromManifestResult extends CreateDetectorResult {
+  /** The manifest the detector was created from */
+  manifest: ResolvedModelManifest;
+  /** The model's inputs and outputs */
+  metadata: ModelMetadata;
+}
+
+// MARK: - Manifest Loading
+
+/**
+ * Create a detector from a JSON model manifest
+ *
+ * Unlike createDetector(), nothing is taken on trust: before the detector is
+ * returned the model file is checked against the manifest's SHA-256 (when it
+ * has one), and the labels and inputSize against the model's real tensor
+ * shapes. Output dimensions the model leaves dynamic are checked with one
+ * zero-input inference.
+ *
+ * ```typescript
+ * const { detectorId, manifest, metadata } = await createDetectorFromManifest(`${modelsDir}/nudenet.json`);
+ * const result = await detect(detectorId, photoUri, manifest.defaults);
+ * ```
+ *
+ * Rejects with:
+ * - MANIFEST_INVALID: unreadable or malformed manifest, or the model file is missing
+ * - MODEL_INTEGRITY_ERROR: the model file's SHA-256 differs from the manifest's
+ * - MODEL_SHAPE_MISMATCH: the labels don't match the output's class count for the
+ *   configured layout, or inputSize doesn't match a fixed input size
+ * - DETECTOR_CREATE_ERROR: the model failed to load
+ *
+ * @param manifestPath - Absolute path or file:// URI of the manifest
+ * @param runtime - Execution provider chain, threading, graph optimization and warm-up
+ * @returns Detector instance with unique ID, the resolved manifest and the model's input/output metadata
+ */
+export async function createDetectorFromManifest(
+  manifestPath: string,
+  runtime?: RuntimeOptions
+): Promise<CreateDetectorFromManifestResult> {
+  const result = await callNative<CreateDetectorFromManifestResult>(
+    'createDetectorFromManifest',
+    manifestPath,
+    runtime ?? null
+  );
+  if (result.success) {
+    const { model, labels, inputSize, config } = result.manifest;
+    registerDetectorModel(result.detectorId, model, labels, inputSize, config);
+    trackDetector(result.detectorId, () => disposeDetector(result.detectorId));
+  }
+  return result;
+}
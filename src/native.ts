@@ -0,0 +1,155 @@
+import type { EmitterSubscription } from 'react-native';
+import { VisionMLError } from './errors';
+import { getScheduler } from './scheduler';
+import type { MemoryPressureLevel, WorkOptions } from './scheduler';
+
+// Native event names emitted during video scans
+export const VIDEO_PROGRESS_EVENT = 'VisionMLVideoProgress';
+export const VIDEO_DETECTION_EVENT = 'VisionMLVideoDetection';
+
+// Emitted by a backend when the app returns to the foreground; the native module uses AppState instead
+export const APP_FOREGROUND_EVENT = 'VisionMLAppForeground';
+
+// Native event for OS memory warnings, with { level: MemoryPressureLevel }
+export const MEMORY_WARNING_EVENT = 'VisionMLMemoryWarning';
+
+// Calls that control or report on other work; they never wait in the scheduler's queue
+const UNSCHEDULED_METHODS = new Set([
+  'disposeDetector',
+  'disposeAllDetectors',
+  'disposeModel',
+  'cancelVideoAnalysis',
+  'getCapabilities',
+  'getModificationDates',
+  'getSensitiveContentAnalysisStatus',
+  'openSensitiveContentSettings',
+  'isLiveActivityAvailable',
+  'startVideoScanActivity',
+  'updateVideoScanActivity',
+  'endVideoScanActivity'
+]);
+
+/**
+ * Replacement for the native module, installed by react-native-vision-ml/testing
+ *
+ * When set, no code path touches react-native, so the library runs in plain Node.
+ */
+export interface NativeBackend {
+  /** Value reported as Platform.OS to platform-specific code paths */
+  readonly platform: 'ios' | 'android';
+  /** Handle a call to the native method `method` */
+  call(method: string, args: unknown[]): Promise<unknown>;
+  /** Subscribe to a native event */
+  addListener(eventName: string, listener: (event: unknown) => void): { remove(): void };
+}
+
+let backend: NativeBackend | null = null;
+
+// Created lazily so importing the module never touches the native side
+let eventEmitter: import('react-native').NativeEventEmitter | null = null;
+
+// Memory warnings are subscribed on the first scheduled call, and again after the backend changes
+let memoryWarningSubscription: { remove(): void } | null = null;
+
+/**
+ * Route every native call through a backend instead of NativeModules.VisionML (null restores the native module)
+ */
+export function setNativeBackend(next: NativeBackend | null): void {
+  memoryWarningSubscription?.remove();
+  memoryWarningSubscription = null;
+  backend = next;
+}
+
+// Loaded on first use rather than imported, so an installed backend never requires it
+function reactNative(): typeof import('react-native') {
+  return require('react-native');
+}
+
+/**
+ * Get the native module, failing clearly when it isn't linked
+ */
+export function getNativeModule() {
+  const { VisionML } = reactNative().NativeModules;
+  if (!VisionML) {
+    throw new VisionMLError(
+      'MODULE_NOT_LINKED',
+      "react-native-vision-ml: native module 'VisionML' not found. " +
+        'Make sure the package is installed, pods are installed (iOS), and the app was rebuilt.'
+    );
+  }
+  return VisionML;
+}
+
+/**
+ * Platform.OS, or the installed backend's platform
+ */
+export function getPlatformOS(): string {
+  return backend ? backend.platform : reactNative().Platform.OS;
+}
+
+/**
+ * Call a native method in the scheduler's interactive lane, normalizing any rejection into a VisionMLError
+ */
+export function callNative<T>(method: string, ...args: unknown[]): Promise<T> {
+  return scheduleNative<T>({}, method, ...args);
+}
+
+/**
+ * Call a native method through the scheduler with a lane, abort signal and the detector it uses
+ */
+export async function scheduleNative<T>(work: WorkOptions, method: string, ...args: unknown[]): Promise<T> {
+  if (UNSCHEDULED_METHODS.has(method)) {
+    return invokeNative<T>(method, args);
+  }
+  if (!memoryWarningSubscription) {
+    memoryWarningSubscription = addNativeListener<{ level: MemoryPressureLevel }>(MEMORY_WARNING_EVENT, event =>
+      getScheduler().handleMemoryPressure(event.level)
+    );
+  }
+  return getScheduler().schedule(() => invokeNative<T>(method, args), work);
+}
+
+async function invokeNative<T>(method: string, args: unknown[]): Promise<T> {
+  try {
+    if (backend) {
+      return (await backend.call(method, args)) as T;
+    }
+    return await getNativeModule()[method](...args);
+  } catch (error) {
+    throw VisionMLError.from(error);
+  }
+}
+
+/**
+ * Subscribe to an event emitted by the native module
+ */
+export function addNativeListener<T>(
+  eventName: string,
+  listener: (event: T) => void
+): Pick<EmitterSubscription, 'remove'> {
+  if (backend) {
+    // Events carry the payload the native module sends for `eventName`
+    return backend.addListener(eventName, event => listener(event as T));
+  }
+  if (!eventEmitter) {
+    eventEmitter = new (reactNative().NativeEventEmitter)(getNativeModule());
+  }
+  return eventEmitter.addListener(eventName, listener);
+}
+
+/**
+ * Subscribe to the app returning to the foreground (AppState becoming 'active' after 'background'/'inactive')
+ */
+export function addForegroundListener(listener: () => void): { remove(): void } {
+  if (backend) {
+    return backend.addListener(APP_FOREGROUND_EVENT, listener);
+  }
+  const { AppState } = reactNative();
+  let previous = AppState.currentState;
+  return AppState.addEventListener('change', next => {
+    if (next === 'active' && previous !== 'active') {
+      listener();
+    }
+    previous = next;
+  });
+}
@@ -0,0 +1,393 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Detector } from './detector';
+import type { DetectionOptions, ImageInput, InferenceResult, ModelConfig, RuntimeOptions } from './detector';
+import { VisionMLError, isVisionMLError } from './errors';
+import { addForegroundListener } from './native';
+import { getSensitiveContentAnalysisStatus, openSensitiveContentSettings } from './sensitiveContent';
+import type { OpenSettingsResult, SensitiveContentAnalysisStatus } from './sensitiveContent';
+import type {
+  VideoAnalysisOptions,
+  VideoAnalysisResult,
+  VideoInput,
+  VideoScanDetection,
+  VideoScanProgress
+} from './video';
+
+// MARK: - Hook Types
+//
+// Every hook ignores results that arrive after its inputs changed or its
+// component unmounted, so fast navigation never applies stale state.
+
+/**
+ * Model to load with useDetector(); same arguments as Detector.create()
+ */
+export interface DetectorConfig {
+  /** Absolute path to .onnx model file */
+  modelPath: string;
+  /** Array of class label strings */
+  classLabels: string[];
+  /** Model input size (default: 320) */
+  inputSize?: number;
+  /** Output layout and preprocessing for non-NudeNet models */
+  config?: ModelConfig;
+  /** Execution provider chain, threading, graph optimization and warm-up */
+  runtime?: RuntimeOptions;
+}
+
+/**
+ * Progress of an asynchronous hook
+ * - idle: nothing to do yet (missing input)
+ * - loading: running
+ * - ready: finished with a value
+ * - error: finished with an error
+ */
+export type HookStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+/**
+ * State returned by useDetector()
+ */
+export interface DetectorState {
+  /** The loaded detector, null until status is 'ready' */
+  detector: Detector | null;
+  status: HookStatus;
+  error: VisionMLError | null;
+}
+
+/**
+ * State returned by useDetection()
+ */
+export interface DetectionState {
+  /** Result for the current image, null until status is 'ready' */
+  result: InferenceResult | null;
+  status: HookStatus;
+  error: VisionMLError | null;
+  /** Run detection again, e.g. after the image file was rewritten */
+  refresh(): void;
+}
+
+/**
+ * Options for useVideoScan()
+ * The hook owns the abort signal; onProgress/onDetection are still called.
+ */
+export interface VideoScanHookOptions extends Omit<VideoAnalysisOptions, 'signal'> {
+  /** Start scanning as soon as a detector and video are given (default: true); otherwise nothing runs until the first restart() */
+  autoStart?: boolean;
+}
+
+/**
+ * Progress of a useVideoScan() scan
+ * - idle: not started
+ * - scanning: running
+ * - done: finished, result is set
+ * - cancelled: stopped by cancel()
+ * - error: failed, error is set
+ */
+export type VideoScanStatus = 'idle' | 'scanning' | 'done' | 'cancelled' | 'error';
+
+/**
+ * State returned by useVideoScan()
+ */
+export interface VideoScanState {
+  status: VideoScanStatus;
+  /** Latest progress update, null before the first one */
+  progress: VideoScanProgress | null;
+  /** Flagged frames found so far, in the order they were reported */
+  detections: VideoScanDetection[];
+  /** Final result, null until status is 'done' */
+  result: VideoAnalysisResult | null;
+  error: VisionMLError | null;
+  /** Stop the running scan after the current frame */
+  cancel(): void;
+  /** Start the scan again from the beginning (or for the first time with autoStart: false) */
+  restart(): void;
+}
+
+/**
+ * State returned by useSensitiveContentStatus()
+ */
+export interface SensitiveContentStatusState {
+  /** Latest status, null until the first check resolves */
+  status: SensitiveContentAnalysisStatus | null;
+  /** Whether a check is running */
+  loading: boolean;
+  error: VisionMLError | null;
+  /** Check again now */
+  refresh(): void;
+  /** openSensitiveContentSettings(); the status is re-checked when the user comes back */
+  openSettings(): Promise<OpenSettingsResult>;
+}
+
+// MARK: - Detector
+
+/**
+ * Load a detector for the lifetime of a component
+ *
+ * The detector is disposed when the component unmounts or the config changes,
+ * including when that happens before loading finished. Pass null to load nothing.
+ *
+ * ```tsx
+ * const { detector, status, error } = useDetector({ modelPath, classLabels: NUDENET_LABELS, inputSize: 320 });
+ * if (status === 'error') return <Text>{error?.message}</Text>;
+ * ```
+ *
+ * @param config - Model to load; compared by value, so an inline object doesn't reload every render
+ * @returns The detector once ready, with loading/error state
+ */
+export function useDetector(config: DetectorConfig | null): DetectorState {
+  const [state, setState] = useState<DetectorState>(IDLE_DETECTOR);
+  const key = config ? valueKey(config) : null;
+
+  useEffect(() => {
+    if (!config) {
+      setState(IDLE_DETECTOR);
+      return;
+    }
+
+    let active = true;
+    let loaded: Detector | null = null;
+    setState({ detector: null, status: 'loading', error: null });
+
+    Detector.create(config.modelPath, config.classLabels, config.inputSize, config.config, config.runtime).then(
+      detector => {
+        loaded = detector;
+        if (active) {
+          setState({ detector, status: 'ready', error: null });
+        } else {
+          // Unmounted or reconfigured while loading
+          detector.dispose().catch(() => {});
+        }
+      },
+      error => {
+        if (active) setState({ detector: null, status: 'error', error: VisionMLError.from(error) });
+      }
+    );
+
+    return () => {
+      active = false;
+      loaded?.dispose().catch(() => {});
+    };
+  }, [key]);
+
+  return state;
+}
+
+// MARK: - Detection
+
+/**
+ * Run detect() on an image whenever the detector, image or options change
+ *
+ * ```tsx
+ * const { detector } = useDetector(config);
+ * const { result, status } = useDetection(detector, photo.uri, { confidenceThreshold: 0.5 });
+ * ```
+ *
+ * @param detector - Detector from useDetector() (null while it loads)
+ * @param image - File URI, photo asset ID or raw pixels (null to skip)
+ * @param options - Detection options, compared by value
+ * @returns The latest result with loading/error state
+ */
+export function useDetection(
+  detector: Detector | null,
+  image: ImageInput | null,
+  options: DetectionOptions = {}
+): DetectionState {
+  const [state, setState] = useState<Omit<DetectionState, 'refresh'>>(IDLE_DETECTION);
+  const [runCount, setRunCount] = useState(0);
+  const refresh = useCallback(() => setRunCount(count => count + 1), []);
+  const optionsKey = valueKey(options);
+
+  useEffect(() => {
+    if (!detector || image === null) {
+      setState(IDLE_DETECTION);
+      return;
+    }
+
+    let active = true;
+    setState(previous => ({ ...previous, status: 'loading', error: null }));
+    detector.detect(image, options).then(
+      result => {
+        if (active) setState({ result, status: 'ready', error: null });
+      },
+      error => {
+        if (active) setState({ result: null, status: 'error', error: VisionMLError.from(error) });
+      }
+    );
+
+    return () => {
+      active = false;
+    };
+  }, [detector, imageKey(image), optionsKey, runCount]);
+
+  return { ...state, refresh };
+}
+
+// MARK: - Video Scan
+
+/**
+ * Scan a video with progress, incremental detections and cancellation
+ *
+ * The scan is cancelled when the component unmounts or the detector, video
+ * or options change.
+ *
+ * ```tsx
+ * const scan = useVideoScan(detector, assetId, { mode: 'thorough' });
+ * <ProgressBar value={scan.progress?.progress ?? 0} />
+ * <Button title="Stop" onPress={scan.cancel} disabled={scan.status !== 'scanning'} />
+ * ```
+ *
+ * @param detector - Detector from useDetector() (null while it loads)
+ * @param video - MediaLibrary asset ID or video file URI (null to skip)
+ * @param options - analyzeVideo() options, compared by value, plus autoStart
+ * @returns Scan status, progress, detections so far and the final result
+ */
+export function useVideoScan(
+  detector: Detector | null,
+  video: VideoInput | null,
+  options: VideoScanHookOptions = {}
+): VideoScanState {
+  const [state, setState] = useState<Omit<VideoScanState, 'cancel' | 'restart'>>(IDLE_VIDEO_SCAN);
+  const [runCount, setRunCount] = useState(0);
+  const controller = useRef<AbortController | null>(null);
+  // Callbacks are read at call time so new closures don't restart the scan
+  const latestOptions = useRef(options);
+  latestOptions.current = options;
+
+  const { autoStart = true } = options;
+  const optionsKey = valueKey(options);
+  const cancel = useCallback(() => controller.current?.abort(), []);
+  const restart = useCallback(() => setRunCount(count => count + 1), []);
+
+  useEffect(() => {
+    if (!detector || video === null || (!autoStart && runCount === 0)) {
+      setState(IDLE_VIDEO_SCAN);
+      return;
+    }
+
+    let active = true;
+    const scan = new AbortController();
+    controller.current = scan;
+    setState({ ...IDLE_VIDEO_SCAN, status: 'scanning' });
+
+    const { autoStart: _autoStart, ...analysisOptions } = latestOptions.current;
+    detector
+      .analyzeVideo(video, {
+        ...analysisOptions,
+        signal: scan.signal,
+        onProgress: progress => {
+          if (active) setState(previous => ({ ...previous, progress }));
+          latestOptions.current.onProgress?.(progress);
+        },
+        onDetection: detection => {
+          if (active) setState(previous => ({ ...previous, detections: [...previous.detections, detection] }));
+          latestOptions.current.onDetection?.(detection);
+        }
+      })
+      .then(
+        result => {
+          if (active) setState(previous => ({ ...previous, status: 'done', result }));
+        },
+        error => {
+          if (!active) return;
+          if (isVisionMLError(error, 'VIDEO_ANALYSIS_CANCELLED')) {
+            setState(previous => ({ ...previous, status: 'cancelled' }));
+          } else {
+            setState(previous => ({ ...previous, status: 'error', error: VisionMLError.from(error) }));
+          }
+        }
+      );
+
+    return () => {
+      active = false;
+      scan.abort();
+      if (controller.current === scan) controller.current = null;
+    };
+  }, [detector, video === null ? null : valueKey(video), optionsKey, runCount]);
+
+  return { ...state, cancel, restart };
+}
+
+// MARK: - Sensitive Content Status
+
+/**
+ * Sensitive Content Analysis status, re-checked whenever the app returns to the foreground
+ *
+ * The user enables SCA in iOS Settings, so after openSettings() the status
+ * updates by itself once they switch back to the app.
+ *
+ * ```tsx
+ * const sca = useSensitiveContentStatus();
+ * if (sca.status?.available && !sca.status.enabled) {
+ *   return <Button title="Enable in Settings" onPress={sca.openSettings} />;
+ * }
+ * ```
+ *
+ * @returns The latest status with loading/error state
+ */
+export function useSensitiveContentStatus(): SensitiveContentStatusState {
+  const [state, setState] = useState<Omit<SensitiveContentStatusState, 'refresh' | 'openSettings'>>({
+    status: null,
+    loading: true,
+    error: null
+  });
+  const mounted = useRef(true);
+  // Only the newest check may update state
+  const latestCheck = useRef(0);
+
+  const refresh = useCallback(() => {
+    const check = ++latestCheck.current;
+    setState(previous => ({ ...previous, loading: true }));
+    getSensitiveContentAnalysisStatus().then(
+      status => {
+        if (mounted.current && check === latestCheck.current) setState({ status, loading: false, error: null });
+      },
+      error => {
+        if (mounted.current && check === latestCheck.current) {
+          setState(previous => ({ ...previous, loading: false, error: VisionMLError.from(error) }));
+        }
+      }
+    );
+  }, []);
+
+  const openSettings = useCallback(() => openSensitiveContentSettings(), []);
+
+  useEffect(() => {
+    mounted.current = true;
+    refresh();
+    const subscription = addForegroundListener(refresh);
+    return () => {
+      mounted.current = false;
+      subscription.remove();
+    };
+  }, [refresh]);
+
+  return { ...state, refresh, openSettings };
+}
+
+// MARK: - Helpers
+
+const IDLE_DETECTOR: DetectorState = { detector: null, status: 'idle', error: null };
+const IDLE_DETECTION: Omit<DetectionState, 'refresh'> = { result: null, status: 'idle', error: null };
+const IDLE_VIDEO_SCAN: Omit<VideoScanState, 'cancel' | 'restart'> = {
+  status: 'idle',
+  progress: null,
+  detections: [],
+  result: null,
+  error: null
+};
+
+/**
+ * Dependency key comparing plain objects by value (functions are ignored)
+ */
+function valueKey(value: unknown): string {
+  return JSON.stringify(value) ?? '';
+}
+
+/**
+ * Dependency key for an image: URIs and asset IDs by value, raw pixel buffers by identity
+ */
+function imageKey(image: ImageInput | null): unknown {
+  if (image === null || typeof image === 'string') {
+    return image;
+  }
+  return 'assetId' in image ? `asset:${image.assetId}` : image;
+}
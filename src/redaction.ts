@@ -0,0 +1,119 @@
+import type { ContentPolicy, Detection, InferenceResult } from './detector';
+import { VisionMLError } from './errors';
+import { scheduleNative } from './native';
+
+// MARK: - Redaction Types
+
+/**
+ * How a redacted region is obscured
+ * - blur: Gaussian blur (Android approximates it with a smooth downscale)
+ * - pixelate: large square blocks
+ * - fill: solid color
+ */
+export type RedactionStyle = 'blur' | 'pixelate' | 'fill';
+
+/**
+ * Output file format (HEIC is iOS only)
+ */
+export type RedactionFormat = 'jpeg' | 'png' | 'heic';
+
+/**
+ * Options for redactImage()
+ */
+export interface RedactionOptions {
+  /** How regions are obscured (default: 'blur') */
+  style?: RedactionStyle;
+  /** Blur radius in pixels (default: a sixth of each region's shorter side, at least 4) */
+  blurRadius?: number;
+  /** Pixelation block size in pixels (default: a sixth of each region's shorter side, at least 4) */
+  pixelSize?: number;
+  /** Fill color for style 'fill', as '#RRGGBB' (default: '#000000') */
+  fillColor?: string;
+  /** Pixels added on every side of each box, clamped to the image (default: 0) */
+  padding?: number;
+  /** Only redact detections with these class labels (default: all) */
+  labels?: string[];
+  /** Never redact detections with these class labels */
+  excludeLabels?: string[];
+  /** Output format (default: 'jpeg') */
+  format?: RedactionFormat;
+  /** Lossy compression quality 0-1 for JPEG/HEIC (default: 0.9) */
+  quality?: number;
+  /** Output path or file:// URI (default: a new file in the temporary/cache directory) */
+  outputPath?: string;
+}
+
+/**
+ * Run detect() and redact its flagged detections in the same native call
+ */
+export interface RedactionDetectOptions {
+  /** Detector instance ID from createDetector() */
+  detectorId: string;
+  /** Minimum confidence threshold (default: 0.6) */
+  confidenceThreshold?: number;
+  /** IoU threshold for NMS (default: 0.45) */
+  iouThreshold?: number;
+  /** Content policy deciding which detections are redacted (default: NUDENET_CONTENT_POLICY) */
+  policy?: ContentPolicy;
+}
+
+/**
+ * Result from redactImage()
+ */
+export interface RedactionResult {
+  /** file:// URI of the written image */
+  uri: string;
+  /** Output size, equal to the original image with EXIF orientation applied */
+  width: number;
+  height: number;
+  /** Detections that passed the label filters and were redacted (boxes without padding) */
+  redactedDetections: Detection[];
+  /** Detection result, only present when redactImage() ran detect() itself */
+  detection?: InferenceResult;
+  /** Total time in milliseconds */
+  totalTime: number;
+}
+
+const FILL_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// MARK: - Redaction
+
+/**
+ * Write a copy of an image with detected regions blurred, pixelated or filled
+ *
+ * The output is rendered upright (EXIF orientation applied), the same space
+ * detection boxes are reported in, so boxes from detect() line up exactly.
+ *
+ * ```typescript
+ * // Redact boxes you already have
+ * const { uri } = await redactImage(imageUri, result.flaggedDetections, { style: 'pixelate', padding: 8 });
+ *
+ * // Or detect and redact in one native call
+ * const redacted = await redactImage(imageUri, { detectorId }, { excludeLabels: ['FACE_FEMALE'] });
+ * ```
+ *
+ * @param imageUri - file:// URI or absolute path to the image
+ * @param detectionsOrPolicy - Detections to redact, or detector settings to detect the flagged ones first
+ * @param options - Style, padding, label filters and output format
+ * @returns URI of the redacted image and the regions that were redacted
+ */
+export async function redactImage(
+  imageUri: string,
+  detectionsOrPolicy: Detection[] | RedactionDetectOptions,
+  options: RedactionOptions = {}
+): Promise<RedactionResult> {
+  if (options.fillColor !== undefined && !FILL_COLOR_PATTERN.test(options.fillColor)) {
+    throw new VisionMLError('REDACTION_ERROR', `fillColor must be '#RRGGBB', got '${options.fillColor}'`);
+  }
+
+  const target = Array.isArray(detectionsOrPolicy)
+    ? { detections: detectionsOrPolicy }
+    : {
+        detectorId: detectionsOrPolicy.detectorId,
+        confidenceThreshold: detectionsOrPolicy.confidenceThreshold ?? 0.6,
+        iouThreshold: detectionsOrPolicy.iouThreshold ?? 0.45,
+        policy: detectionsOrPolicy.policy ?? null
+      };
+
+  return scheduleNative({ detectorId: target.detectorId }, 'redactImage', imageUri, target, options);
+}
@@ -0,0 +1,508 @@
+import { VisionMLError } from './errors';
+import type { ModelConfig } from './detector';
+import { callNative } from './native';
+
+// MARK: - Result Cache Types
+
+/**
+ * Key-value store behind a ResultCache
+ *
+ * Shaped like AsyncStorage, so `storage: AsyncStorage` works as-is; SQLite or
+ * MMKV need a thin wrapper with these four methods.
+ */
+export interface ResultCacheStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  /** Every key in the store; keys without the cache's keyPrefix are ignored */
+  getAllKeys(): Promise<readonly string[]>;
+}
+
+/**
+ * Function whose results an entry holds
+ * - detect: detect()
+ * - video: analyzeVideo()
+ * - quick_check_video: quickCheckVideo()
+ * - sensitive_content: analyzeSensitiveContent() / batchAnalyzeSensitiveContent()
+ * - video_sensitive_content: analyzeVideoSensitiveContent() / batchAnalyzeVideosSensitiveContent()
+ */
+export type ResultCacheKind = 'detect' | 'video' | 'quick_check_video' | 'sensitive_content' | 'video_sensitive_content';
+
+/**
+ * Options for new ResultCache()
+ */
+export interface ResultCacheOptions {
+  /** Where entries are kept (default: a new MemoryCacheStorage, emptied when the app exits) */
+  storage?: ResultCacheStorage;
+  /** Entries kept before the least recently used ones are evicted (default: 50000) */
+  maxEntries?: number;
+  /** Results whose JSON is longer than this many characters are not stored (default: 100000) */
+  maxEntrySize?: number;
+  /** Milliseconds an entry stays valid even if the asset is unchanged (default: no limit) */
+  maxAge?: number;
+  /** Prefix of every storage key, so the cache can share a store with app data (default: 'visionml:') */
+  keyPrefix?: string;
+}
+
+/**
+ * Identifies one cached result
+ */
+export interface ResultCacheKey {
+  kind: ResultCacheKind;
+  /** Model identity from getModelIdentity(), or 'sca' for Sensitive Content Analysis */
+  model: string;
+  /** Thresholds, policy and any other options the result depends on */
+  params: unknown;
+  /** Asset ID or file URI */
+  assetId: string;
+  /** Asset modification time (ms since epoch); an entry stored for another time is stale */
+  modifiedAt: number;
+}
+
+/**
+ * Selects entries for ResultCache.invalidate(); every given field must match
+ */
+export interface ResultCacheFilter {
+  /** Entries for this asset ID or file URI */
+  assetId?: string;
+  /** Entries produced by this detector's model, which any detector created with the same inputs shares */
+  detectorId?: string;
+  /** Entries of this kind */
+  kind?: ResultCacheKind;
+}
+
+/**
+ * Counters since the cache was created or resetStats() was called
+ */
+export interface ResultCacheStats {
+  /** Lookups answered from the cache */
+  hits: number;
+  /** Lookups with no current entry: never stored, asset modified since, or expired */
+  misses: number;
+  /** Entries stored */
+  writes: number;
+  /** Entries removed to stay within maxEntries */
+  evictions: number;
+  /** Storage calls that failed; the affected lookups ran natively as if uncached */
+  errors: number;
+  /** Entries currently stored */
+  entries: number;
+  /** hits / (hits + misses), 0 before the first lookup */
+  hitRate: number;
+}
+
+/** Model identity of Sensitive Content Analysis results, which have no detector */
+const SCA_MODEL = 'sca';
+
+interface CacheEntry {
+  modifiedAt: number;
+  storedAt: number;
+  result: unknown;
+}
+
+// MARK: - Storage
+
+/**
+ * In-memory ResultCacheStorage, the default
+ */
+export class MemoryCacheStorage implements ResultCacheStorage {
+  private readonly items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async getAllKeys(): Promise<readonly string[]> {
+    return Array.from(this.items.keys());
+  }
+}
+
+// MARK: - Result Cache
+
+/**
+ * Cache of detect(), video and SCA results keyed by asset, modification date and model
+ *
+ * Once installed with setResultCache(), detect(), analyzeVideo(),
+ * quickCheckVideo() and the SCA functions consult it whenever they are given
+ * a photo asset ID or file URI: an asset whose modification date is unchanged
+ * since it was last analyzed with the same model and options resolves from the
+ * cache without running native inference. Editing the photo, or changing the
+ * model, thresholds or policy, makes the old entry a miss.
+ *
+ * ```typescript
+ * import AsyncStorage from '@react-native-async-storage/async-storage';
+ *
+ * setResultCache(new ResultCache({ storage: AsyncStorage, maxEntries: 100_000 }));
+ * const result = await detect(detectorId, { assetId }); // native on first launch, cached after
+ * ```
+ */
+export class ResultCache {
+  private readonly storage: ResultCacheStorage;
+  private readonly maxEntries: number;
+  private readonly maxEntrySize: number;
+  private readonly maxAge: number;
+  private readonly keyPrefix: string;
+
+  // Storage keys, least recently used first; loaded from storage on first use
+  private index: Promise<Set<string>> | null = null;
+  private counters = { hits: 0, misses: 0, writes: 0, evictions: 0, errors: 0 };
+
+  constructor(options: ResultCacheOptions = {}) {
+    this.storage = options.storage ?? new MemoryCacheStorage();
+    this.maxEntries = Math.max(1, Math.floor(options.maxEntries ?? 50_000));
+    this.maxEntrySize = options.maxEntrySize ?? 100_000;
+    this.maxAge = options.maxAge ?? Infinity;
+    this.keyPrefix = options.keyPrefix ?? 'visionml:';
+  }
+
+  /**
+   * Stored result for a key, or null when there is no current one
+   * Stale and expired entries are removed as they are found.
+   */
+  async get<T>(key: ResultCacheKey): Promise<T | null> {
+    const index = await this.loadIndex();
+    const storageKey = this.storageKey(key);
+    if (!index.has(storageKey)) {
+      this.counters.misses++;
+      return null;
+    }
+
+    let entry: CacheEntry | null = null;
+    try {
+      const value = await this.storage.getItem(storageKey);
+      entry = value === null ? null : JSON.parse(value);
+    } catch {
+      this.counters.errors++;
+    }
+
+    if (!entry || entry.modifiedAt !== key.modifiedAt || Date.now() - entry.storedAt > this.maxAge) {
+      this.counters.misses++;
+      await this.remove(index, storageKey);
+      return null;
+    }
+
+    // Most recently used goes last
+    index.delete(storageKey);
+    index.add(storageKey);
+    this.counters.hits++;
+    return entry.result as T;
+  }
+
+  /**
+   * Store a result, replacing any entry for an older version of the asset
+   */
+  async set<T>(key: ResultCacheKey, result: T): Promise<void> {
+    const entry: CacheEntry = { modifiedAt: key.modifiedAt, storedAt: Date.now(), result };
+    const value = JSON.stringify(entry);
+    if (value.length > this.maxEntrySize) {
+      return;
+    }
+
+    const index = await this.loadIndex();
+    const storageKey = this.storageKey(key);
+    try {
+      await this.storage.setItem(storageKey, value);
+    } catch {
+      this.counters.errors++;
+      return;
+    }
+    index.delete(storageKey);
+    index.add(storageKey);
+    this.counters.writes++;
+
+    for (const oldest of index) {
+      if (index.size <= this.maxEntries) break;
+      await this.remove(index, oldest);
+      this.counters.evictions++;
+    }
+  }
+
+  /**
+   * Remove the entries matching a filter
+   *
+   * ```typescript
+   * await cache.invalidate({ assetId });            // one photo, every model
+   * await cache.invalidate({ detectorId });         // retrained model shipped at the same path
+   * await cache.invalidate({ kind: 'sensitive_content' });
+   * ```
+   *
+   * @param filter - Asset, detector and kind to match (an empty filter matches everything)
+   * @returns Number of entries removed
+   */
+  async invalidate(filter: ResultCacheFilter): Promise<number> {
+    let model: string | undefined;
+    if (filter.detectorId !== undefined) {
+      model = getModelIdentity(filter.detectorId) ?? undefined;
+      if (model === undefined) {
+        throw new VisionMLError('DETECTOR_NOT_FOUND', `Detector '${filter.detectorId}' was not created in this session`);
+      }
+    }
+    const assetId = filter.assetId !== undefined ? encodeURIComponent(filter.assetId) : undefined;
+
+    const index = await this.loadIndex();
+    const matching = Array.from(index).filter(storageKey => {
+      const [kind, keyModel, , keyAsset] = storageKey.slice(this.keyPrefix.length).split('|');
+      return (
+        (filter.kind === undefined || kind === filter.kind) &&
+        (model === undefined || keyModel === model) &&
+        (assetId === undefined || keyAsset === assetId)
+      );
+    });
+    for (const storageKey of matching) {
+      await this.remove(index, storageKey);
+    }
+    return matching.length;
+  }
+
+  /**
+   * Remove every entry
+   */
+  async clear(): Promise<void> {
+    await this.invalidate({});
+  }
+
+  /**
+   * Hit/miss counters and the current entry count
+   */
+  async getStats(): Promise<ResultCacheStats> {
+    const index = await this.loadIndex();
+    const { hits, misses } = this.counters;
+    return {
+      ...this.counters,
+      entries: index.size,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : 0
+    };
+  }
+
+  /**
+   * Zero the counters (entries are kept)
+   */
+  resetStats(): void {
+    this.counters = { hits: 0, misses: 0, writes: 0, evictions: 0, errors: 0 };
+  }
+
+  private storageKey(key: ResultCacheKey): string {
+    // Every part but the asset is free of '|'; the asset is encoded so it is too
+    const params = hashString(stableStringify(key.params));
+    return `${this.keyPrefix}${key.kind}|${key.model}|${params}|${encodeURIComponent(key.assetId)}`;
+  }
+
+  private loadIndex(): Promise<Set<string>> {
+    if (!this.index) {
+      this.index = this.storage.getAllKeys().then(
+        keys => new Set(keys.filter(key => key.startsWith(this.keyPrefix))),
+        () => {
+          // Start empty; entries already in storage are overwritten as assets are analyzed again
+          this.counters.errors++;
+          return new Set<string>();
+        }
+      );
+    }
+    return this.index;
+  }
+
+  private async remove(index: Set<string>, storageKey: string): Promise<void> {
+    index.delete(storageKey);
+    try {
+      await this.storage.removeItem(storageKey);
+    } catch {
+      this.counters.errors++;
+    }
+  }
+}
+
+// MARK: - Active Cache
+
+let activeCache: ResultCache | null = null;
+
+/**
+ * Make detect(), the video functions and the SCA functions use a cache (null turns caching off)
+ * Caching is off until this is called.
+ */
+export function setResultCache(cache: ResultCache | null): void {
+  activeCache = cache;
+}
+
+/**
+ * The cache set with setResultCache(), or null when caching is off
+ */
+export function getResultCache(): ResultCache | null {
+  return activeCache;
+}
+
+// MARK: - Model Identity
+
+/** Model identity per detector ID, kept after disposal so invalidate({ detectorId }) still works */
+const detectorModels = new Map<string, string>();
+
+/**
+ * Record the model identity of a detector; called by createDetector() when it succeeds
+ */
+export function registerDetectorModel(
+  detectorId: string,
+  modelPath: string,
+  classLabels: string[],
+  inputSize: number,
+  config: ModelConfig
+): void {
+  detectorModels.set(detectorId, hashString(stableStringify({ modelPath, classLabels, inputSize, config })));
+}
+
+/**
+ * Identity hash of the model behind a detector, as used in result cache keys
+ *
+ * Derived from the createDetector() inputs (modelPath, classLabels, inputSize
+ * and config), so every detector created from the same inputs shares it.
+ * Replacing the model file at the same path keeps the identity; version the
+ * path or call invalidate({ detectorId }) when shipping a new model.
+ *
+ * @param detectorId - Detector instance ID from createDetector()
+ * @returns The identity, or null for IDs not created in this session
+ */
+export function getModelIdentity(detectorId: string): string | null {
+  return detectorModels.get(detectorId) ?? null;
+}
+
+// MARK: - Cached Calls
+
+/**
+ * Cached results of a batch of assets, and a way to store the rest once computed
+ */
+export interface CachedLookup<T> {
+  /** Current results, keyed by asset ID or file URI */
+  cached: Map<string, T>;
+  /** Assets still to analyze, in input order */
+  missing: string[];
+  /** Store a freshly computed result (ignored for assets without a modification date) */
+  store(assetId: string, result: T): Promise<void>;
+}
+
+/**
+ * Look up a batch of assets in the active cache
+ *
+ * @param kind - Function the results belong to
+ * @param assetIds - Asset IDs or file URIs
+ * @param detectorId - Detector producing the results (omit for SCA)
+ * @param params - Options the results depend on
+ * @returns null when caching is off, the detector is unknown or modification dates are unavailable
+ */
+export async function lookupCachedResults<T>(
+  kind: ResultCacheKind,
+  assetIds: string[],
+  detectorId?: string,
+  params: unknown = null
+): Promise<CachedLookup<T> | null> {
+  const cache = activeCache;
+  const model = detectorId === undefined ? SCA_MODEL : getModelIdentity(detectorId);
+  if (!cache || !model || assetIds.length === 0) {
+    return null;
+  }
+
+  let dates: Record<string, number | null>;
+  try {
+    dates = await callNative('getModificationDates', Array.from(new Set(assetIds)));
+  } catch {
+    return null;
+  }
+
+  const keyFor = (assetId: string): ResultCacheKey | null => {
+    const modifiedAt = dates[assetId];
+    return typeof modifiedAt === 'number' ? { kind, model, params, assetId, modifiedAt } : null;
+  };
+
+  const cached = new Map<string, T>();
+  const missing: string[] = [];
+  for (const assetId of assetIds) {
+    const key = keyFor(assetId);
+    const result = cached.get(assetId) ?? (key ? await cache.get<T>(key) : null);
+    if (result !== null) {
+      cached.set(assetId, result);
+    } else {
+      missing.push(assetId);
+    }
+  }
+
+  return {
+    cached,
+    missing,
+    store: async (assetId, result) => {
+      const key = keyFor(assetId);
+      if (key) await cache.set(key, result);
+    }
+  };
+}
+
+/**
+ * Run a single-asset native call through the active cache
+ *
+ * @param kind - Function the result belongs to
+ * @param assetId - Asset ID or file URI, null for inputs that can't be cached
+ * @param detectorId - Detector producing the result (omit for SCA)
+ * @param params - Options the result depends on
+ * @param compute - The uncached call
+ * @param cacheable - Whether a computed result may be stored (default: always)
+ */
+export async function withResultCache<T>(
+  kind: ResultCacheKind,
+  assetId: string | null,
+  detectorId: string | undefined,
+  params: unknown,
+  compute: () => Promise<T>,
+  cacheable: (result: T) => boolean = () => true
+): Promise<T> {
+  const lookup = assetId !== null ? await lookupCachedResults<T>(kind, [assetId], detectorId, params) : null;
+  const cached = lookup?.cached.get(assetId!);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const result = await compute();
+  if (lookup && cacheable(result)) {
+    await lookup.store(assetId!, result);
+  }
+  return result;
+}
+
+// MARK: - Hashing
+
+/**
+ * JSON with object keys sorted, so equal options hash equally whatever order they were written in
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const fields = Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * 53-bit string hash (cyrb53) in base 36
+ */
+export function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
@@ -0,0 +1,412 @@
+import { VisionMLError } from './errors';
+
+// MARK: - Scheduler Types
+
+/**
+ * Lane a native call waits in
+ * - interactive: work the user is waiting on, e.g. detect() for the photo on screen; always started first
+ * - background: batches, library scans, video analysis and evaluation
+ */
+export type WorkPriority = 'interactive' | 'background';
+
+/**
+ * Memory pressure reported by the OS
+ * - warning: Android onTrimMemory() RUNNING_MODERATE, RUNNING_LOW and BACKGROUND
+ * - critical: iOS memory warnings, Android onLowMemory() and onTrimMemory() RUNNING_CRITICAL and above
+ */
+export type MemoryPressureLevel = 'warning' | 'critical';
+
+/**
+ * Options for WorkScheduler.configure()
+ */
+export interface SchedulerOptions {
+  /** Native calls running at once across both lanes (default: 2) */
+  maxConcurrency?: number;
+  /**
+   * Background calls running at once (default: maxConcurrency)
+   * Queued interactive calls always take the next free slot; set this below maxConcurrency
+   * to also keep slots free for interactive calls that haven't been queued yet.
+   */
+  maxBackgroundConcurrency?: number;
+  /** Milliseconds without a new memory warning before concurrency is restored (default: 30000) */
+  memoryRecoveryTime?: number;
+  /**
+   * Dispose detectors with no queued or running work on memory warnings (default: false)
+   * Their Detector handles, including useDetector()'s, then reject with DETECTOR_DISPOSED.
+   */
+  disposeIdleDetectors?: boolean;
+  /**
+   * On a 'warning', only detectors unused for this many milliseconds are disposed;
+   * 'critical' disposes every idle one (default: 30000)
+   */
+  idleDetectorTimeout?: number;
+}
+
+/**
+ * Options for one scheduled native call
+ */
+export interface WorkOptions {
+  /**
+   * Lane to wait in (default: 'interactive')
+   * A background call holds its slot until it finishes, so one long analyzeVideo() can fill the lane.
+   */
+  priority?: WorkPriority;
+  /** Aborting while the call is still queued rejects it with WORK_CANCELLED; started calls run to completion */
+  signal?: AbortSignal;
+  /** Detector the call uses, so it isn't disposed as idle while the call is queued or running */
+  detectorId?: string;
+}
+
+/**
+ * Snapshot from WorkScheduler.getStats()
+ */
+export interface SchedulerStats {
+  /** Calls running per lane */
+  running: Record<WorkPriority, number>;
+  /** Calls waiting per lane */
+  queued: Record<WorkPriority, number>;
+  /** Lanes that don't start queued calls */
+  paused: Record<WorkPriority, boolean>;
+  /** Current concurrency cap, lowered under memory pressure */
+  concurrency: number;
+  /** Memory pressure the cap is lowered for, null once recovered */
+  memoryPressure: MemoryPressureLevel | null;
+}
+
+/** Native call waiting for a slot */
+interface QueuedWork {
+  priority: WorkPriority;
+  detectorId?: string;
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+  /** Removes the AbortSignal listener */
+  detach: () => void;
+}
+
+/** Scheduled work of a created detector */
+interface DetectorActivity {
+  /** Calls queued or running */
+  pending: number;
+  /** When the last call finished, or the detector was created (ms since epoch) */
+  lastUsed: number;
+  /** Releases the detector when memory pressure finds it idle */
+  dispose: () => Promise<unknown>;
+}
+
+const WORK_PRIORITIES: readonly WorkPriority[] = ['interactive', 'background'];
+
+// MARK: - Scheduler
+
+/**
+ * Queue every native call goes through
+ *
+ * Interactive calls are always started before background ones, and
+ * background calls never take the last free slot, so a detect() for the
+ * photo on screen doesn't wait behind hundreds of queued scan calls. The
+ * cap drops when the OS reports memory pressure and comes back after
+ * `memoryRecoveryTime` without further warnings.
+ *
+ * ```typescript
+ * const scheduler = getScheduler();
+ * scheduler.configure({ maxConcurrency: 3 });
+ * scheduler.pause('background');    // e.g. while the camera is open
+ * scheduler.resume('background');
+ * scheduler.cancelQueued('background');
+ * ```
+ *
+ * Disposal, cancellation, status and Live Activity calls bypass the queue.
+ */
+export class WorkScheduler {
+  private options: Required<Omit<SchedulerOptions, 'maxBackgroundConcurrency'>> &
+    Pick<SchedulerOptions, 'maxBackgroundConcurrency'> = {
+    maxConcurrency: 2,
+    maxBackgroundConcurrency: undefined,
+    memoryRecoveryTime: 30_000,
+    disposeIdleDetectors: false,
+    idleDetectorTimeout: 30_000
+  };
+
+  private readonly queues: Record<WorkPriority, QueuedWork[]> = { interactive: [], background: [] };
+  private readonly running: Record<WorkPriority, number> = { interactive: 0, background: 0 };
+  private readonly paused: Record<WorkPriority, boolean> = { interactive: false, background: false };
+  private readonly pressureListeners = new Set<(level: MemoryPressureLevel) => void>();
+  private memoryPressure: MemoryPressureLevel | null = null;
+  /** When memory pressure ends unless another warning arrives (ms since epoch) */
+  private memoryPressureUntil = 0;
+  /** Starts queued calls again once memory pressure ends */
+  private recoveryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Change concurrency and memory-pressure settings; omitted options keep their current value
+   */
+  configure(options: SchedulerOptions): void {
+    this.options = { ...this.options, ...options };
+    this.drain();
+  }
+
+  /**
+   * Run `run` once a slot in its lane is free
+   * @returns What `run` resolves to
+   * @throws VisionMLError WORK_CANCELLED when cancelled before it started
+   */
+  schedule<T>(run: () => Promise<T>, options: WorkOptions = {}): Promise<T> {
+    const { priority = 'interactive', signal, detectorId } = options;
+    if (signal?.aborted) {
+      return Promise.reject(cancelledError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        if (this.remove(work)) {
+          reject(cancelledError());
+        }
+      };
+      const work: QueuedWork = {
+        priority,
+        detectorId,
+        run,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        detach: () => signal?.removeEventListener('abort', onAbort)
+      };
+
+      signal?.addEventListener('abort', onAbort);
+      const activity = detectorId ? detectorActivity.get(detectorId) : undefined;
+      if (activity) {
+        activity.pending++;
+      }
+      this.queues[priority].push(work);
+      this.drain();
+    });
+  }
+
+  /**
+   * Stop starting queued calls in a lane (both when omitted); running calls finish
+   */
+  pause(lane?: WorkPriority): void {
+    for (const priority of lanes(lane)) {
+      this.paused[priority] = true;
+    }
+  }
+
+  /**
+   * Start queued calls in a lane again (both when omitted)
+   */
+  resume(lane?: WorkPriority): void {
+    for (const priority of lanes(lane)) {
+      this.paused[priority] = false;
+    }
+    this.drain();
+  }
+
+  /**
+   * Reject the calls waiting in a lane (both when omitted) with WORK_CANCELLED
+   * @returns Number of calls cancelled
+   */
+  cancelQueued(lane?: WorkPriority): number {
+    let cancelled = 0;
+    for (const priority of lanes(lane)) {
+      for (const work of this.queues[priority].splice(0)) {
+        this.settle(work);
+        work.reject(cancelledError());
+        cancelled++;
+      }
+    }
+    return cancelled;
+  }
+
+  /**
+   * Running and queued calls per lane, pause state and the current cap
+   */
+  getStats(): SchedulerStats {
+    return {
+      running: { ...this.running },
+      queued: { interactive: this.queues.interactive.length, background: this.queues.background.length },
+      paused: { ...this.paused },
+      concurrency: this.concurrency(),
+      memoryPressure: this.currentPressure()
+    };
+  }
+
+  /**
+   * Lower concurrency for memory pressure: halved on 'warning', 1 on 'critical'
+   * Called for the native module's memory warnings; call it yourself for app-level signals.
+   */
+  handleMemoryPressure(level: MemoryPressureLevel): void {
+    this.memoryPressure = this.currentPressure() === 'critical' ? 'critical' : level;
+    this.memoryPressureUntil = Date.now() + this.options.memoryRecoveryTime;
+    this.scheduleRecovery();
+    this.pressureListeners.forEach(listener => listener(level));
+  }
+
+  /**
+   * Subscribe to memory pressure, e.g. to drop app caches along with idle detectors
+   */
+  onMemoryPressure(listener: (level: MemoryPressureLevel) => void): { remove(): void } {
+    this.pressureListeners.add(listener);
+    return { remove: () => this.pressureListeners.delete(listener) };
+  }
+
+  /**
+   * Detectors with nothing queued or running that memory pressure `level` should dispose
+   */
+  idleDetectorIds(level: MemoryPressureLevel): string[] {
+    if (!this.options.disposeIdleDetectors) {
+      return [];
+    }
+    const idleSince = Date.now() - (level === 'critical' ? 0 : this.options.idleDetectorTimeout);
+    return Array.from(detectorActivity.entries())
+      .filter(([, activity]) => activity.pending === 0 && activity.lastUsed <= idleSince)
+      .map(([detectorId]) => detectorId);
+  }
+
+  // MARK: - Queue
+
+  /** Start queued calls while there are free slots, interactive first */
+  private drain(): void {
+    while (true) {
+      const total = this.running.interactive + this.running.background;
+      const concurrency = this.concurrency();
+      if (total >= concurrency) {
+        return;
+      }
+
+      const backgroundLimit = Math.min(concurrency, Math.max(1, this.options.maxBackgroundConcurrency ?? concurrency));
+      const priority = WORK_PRIORITIES.find(
+        lane =>
+          !this.paused[lane] &&
+          this.queues[lane].length > 0 &&
+          (lane === 'interactive' || this.running.background < backgroundLimit)
+      );
+      if (!priority) {
+        return;
+      }
+      this.start(this.queues[priority].shift()!);
+    }
+  }
+
+  private start(work: QueuedWork): void {
+    work.detach();
+    this.running[work.priority]++;
+
+    new Promise<unknown>(resolve => resolve(work.run()))
+      .then(work.resolve, work.reject)
+      .finally(() => {
+        this.running[work.priority]--;
+        this.settle(work);
+        this.drain();
+      });
+  }
+
+  /** Take queued work out of its lane; false once it has started */
+  private remove(work: QueuedWork): boolean {
+    const queue = this.queues[work.priority];
+    const index = queue.indexOf(work);
+    if (index < 0) {
+      return false;
+    }
+    queue.splice(index, 1);
+    this.settle(work);
+    return true;
+  }
+
+  /** Bookkeeping for work that finished or left the queue */
+  private settle(work: QueuedWork): void {
+    work.detach();
+    const activity = work.detectorId ? detectorActivity.get(work.detectorId) : undefined;
+    if (activity) {
+      activity.pending = Math.max(0, activity.pending - 1);
+      activity.lastUsed = Date.now();
+    }
+  }
+
+  /** Drain when the recovery time passes, instead of waiting for the next call */
+  private scheduleRecovery(): void {
+    if (this.recoveryTimer) {
+      clearTimeout(this.recoveryTimer);
+    }
+    this.recoveryTimer = setTimeout(() => {
+      this.recoveryTimer = null;
+      if (this.currentPressure()) {
+        this.scheduleRecovery();
+      } else {
+        this.drain();
+      }
+    }, Math.max(0, this.memoryPressureUntil - Date.now()));
+  }
+
+  private concurrency(): number {
+    const max = Math.max(1, Math.floor(this.options.maxConcurrency));
+    switch (this.currentPressure()) {
+      case 'critical':
+        return 1;
+      case 'warning':
+        return Math.max(1, Math.floor(max / 2));
+      default:
+        return max;
+    }
+  }
+
+  /** Memory pressure, cleared once the recovery time has passed */
+  private currentPressure(): MemoryPressureLevel | null {
+    if (this.memoryPressure && Date.now() >= this.memoryPressureUntil) {
+      this.memoryPressure = null;
+    }
+    return this.memoryPressure;
+  }
+}
+
+const sharedScheduler = new WorkScheduler();
+
+/**
+ * The scheduler every native call of the package goes through
+ */
+export function getScheduler(): WorkScheduler {
+  return sharedScheduler;
+}
+
+// MARK: - Detector Activity
+
+/** Created, not yet disposed detectors by ID */
+const detectorActivity = new Map<string, DetectorActivity>();
+
+// Idle detector disposal is subscribed when the first detector is tracked, not at import
+let idleDetectorSubscription: { remove(): void } | null = null;
+
+/**
+ * Record a created detector, for idle disposal through `dispose`
+ */
+export function trackDetector(detectorId: string, dispose: () => Promise<unknown>): void {
+  detectorActivity.set(detectorId, { pending: 0, lastUsed: Date.now(), dispose });
+  if (!idleDetectorSubscription) {
+    idleDetectorSubscription = sharedScheduler.onMemoryPressure(level => {
+      for (const idleDetectorId of sharedScheduler.idleDetectorIds(level)) {
+        // Already-released detectors have nothing left to free
+        detectorActivity
+          .get(idleDetectorId)
+          ?.dispose()
+          .catch(() => {});
+      }
+    });
+  }
+}
+
+/**
+ * Forget a disposed detector (every detector when no ID is given)
+ */
+export function untrackDetector(detectorId?: string): void {
+  if (detectorId === undefined) {
+    detectorActivity.clear();
+  } else {
+    detectorActivity.delete(detectorId);
+  }
+}
+
+function lanes(lane?: WorkPriority): readonly WorkPriority[] {
+  return lane ? [lane] : WORK_PRIORITIES;
+}
+
+function cancelledError(): VisionMLError {
+  return new VisionMLError('WORK_CANCELLED', 'Native call was cancelled before it started');
+}
@@ -0,0 +1,368 @@
+import { callNative, scheduleNative } from './native';
+import { lookupCachedResults } from './resultCache';
+import type { WorkPriority } from './scheduler';
+
+// MARK: - Sensitive Content Analysis Types (iOS 17+)
+//
+// On Android every SCA function resolves with `available: false` and
+// reason 'unsupported_platform'; see getCapabilities().
+
+/**
+ * Status of Apple's Sensitive Content Analysis feature
+ */
+export interface SensitiveContentAnalysisStatus {
+  /** Whether SCA is available on this iOS version */
+  available: boolean;
+  /** Whether the user has enabled Sensitive Content Warning in Settings */
+  enabled: boolean;
+  /** Policy level: 'disabled', 'simple_interventions', 'descriptive_interventions', 'unsupported' */
+  policy: 'disabled' | 'simple_interventions' | 'descriptive_interventions' | 'unsupported' | 'unknown';
+  /** URL scheme to open Settings (may not work on all iOS versions) */
+  settingsURL?: string;
+  /** iOS version string (absent on Android) */
+  iosVersion?: string;
+  /** Reason if not available */
+  reason?: string;
+}
+
+/**
+ * Result from opening Settings
+ */
+export interface OpenSettingsResult {
+  /** Whether Settings was opened */
+  opened: boolean;
+  /** Which URL was used */
+  url: string | null;
+}
+
+/**
+ * Options for analyzeSensitiveContent() and analyzeVideoSensitiveContent()
+ */
+export interface SensitiveContentOptions {
+  /** Scheduler lane (default: 'interactive') */
+  priority?: WorkPriority;
+}
+
+/**
+ * Result from single image sensitive content analysis
+ */
+export interface SensitiveContentResult {
+  /** Whether SCA was available to use */
+  available: boolean;
+  /** Whether the image contains sensitive content */
+  isSensitive: boolean;
+  /** Asset ID that was analyzed */
+  assetId?: string;
+  /** Reason if not available: 'disabled_by_user', 'ios_version', 'framework_unavailable', 'unsupported_platform' (Android) */
+  reason?: 'disabled_by_user' | 'ios_version' | 'framework_unavailable' | 'unsupported_platform';
+}
+
+/**
+ * Single result in batch analysis
+ */
+export interface BatchSensitiveContentItem {
+  /** Asset ID */
+  assetId: string;
+  /** Whether sensitive content was detected */
+  isSensitive: boolean;
+  /** Error message if analysis failed */
+  error?: string;
+}
+
+/**
+ * Result from batch sensitive content analysis
+ */
+export interface BatchSensitiveContentResult {
+  /** Whether SCA was available to use */
+  available: boolean;
+  /** Array of results for each asset */
+  results: BatchSensitiveContentItem[];
+  /** Total number of assets analyzed */
+  totalAnalyzed?: number;
+  /** Number of sensitive items found */
+  sensitiveCount?: number;
+  /** Reason if not available */
+  reason?: 'disabled_by_user' | 'ios_version' | 'framework_unavailable' | 'unsupported_platform';
+}
+
+/** What the result cache keeps of an image SCA result */
+interface ImageVerdict {
+  isSensitive: boolean;
+}
+
+/** What the result cache keeps of a video SCA result */
+interface VideoVerdict {
+  isSensitive: boolean;
+  duration?: number;
+}
+
+/**
+ * Get the status of Apple's Sensitive Content Analysis feature
+ *
+ * Returns whether SCA is available and enabled. The user must enable
+ * "Sensitive Content Warning" in iOS Settings > Privacy & Security > Sensitive Content Warning
+ *
+ * @returns Status object with availability, policy, and settings URL
+ */
+export async function getSensitiveContentAnalysisStatus(): Promise<SensitiveContentAnalysisStatus> {
+  return callNative('getSensitiveContentAnalysisStatus');
+}
+
+/**
+ * Whether SCA can analyze right now; cached verdicts are only served while it can,
+ * otherwise the native call reports why it can't
+ */
+async function isAnalysisEnabled(): Promise<boolean> {
+  const status = await getSensitiveContentAnalysisStatus();
+  return status.available && status.enabled;
+}
+
+/**
+ * Open iOS Settings to the Sensitive Content Warning section
+ *
+ * Attempts to deep link directly to the Sensitive Content Warning toggle.
+ * Falls back to Privacy settings, then general Settings.
+ *
+ * @returns Whether Settings was opened and which URL was used
+ */
+export async function openSensitiveContentSettings(): Promise<OpenSettingsResult> {
+  return callNative('openSensitiveContentSettings');
+}
+
+/**
+ * Analyze a single image for sensitive content using Apple's SCA
+ *
+ * This is MUCH faster than ONNX (~20ms vs ~150ms) but only returns
+ * a boolean result - no bounding boxes or confidence scores.
+ *
+ * Perfect for pre-filtering: if SCA says "not sensitive", skip ONNX.
+ * If SCA says "sensitive", run ONNX for detailed detection.
+ *
+ * Requires iOS 17+ and user to enable Sensitive Content Warning in Settings.
+ *
+ * @param assetId - Photo asset identifier from MediaLibrary
+ * @param options - Scheduler lane
+ * @returns Analysis result with isSensitive boolean
+ */
+export async function analyzeSensitiveContent(
+  assetId: string,
+  options: SensitiveContentOptions = {}
+): Promise<SensitiveContentResult> {
+  const lookup = await lookupCachedResults<ImageVerdict>('sensitive_content', [assetId]);
+  const cached = lookup?.cached.get(assetId);
+  if (cached && (await isAnalysisEnabled())) {
+    return { available: true, isSensitive: cached.isSensitive, assetId };
+  }
+
+  const result = await scheduleNative<SensitiveContentResult>(
+    { priority: options.priority },
+    'analyzeSensitiveContent',
+    assetId
+  );
+  if (result.available) {
+    await lookup?.store(assetId, { isSensitive: result.isSensitive });
+  }
+  return result;
+}
+
+/**
+ * Batch analyze multiple images for sensitive content
+ *
+ * Uses Apple's SCA for fast pre-filtering. Process results to identify
+ * which photos need detailed ONNX scanning.
+ *
+ * Typical workflow:
+ * 1. Get all photo IDs from library
+ * 2. Run batchAnalyzeSensitiveContent() - very fast
+ * 3. Filter to only sensitiveCount photos
+ * 4. Run ONNX only on those for bounding boxes
+ *
+ * This can skip 60-80% of photos that are clearly clean.
+ *
+ * With a ResultCache installed (setResultCache()), only photos modified since
+ * their last analysis are sent to SCA; results are returned in input order.
+ * Cached results are only returned while Sensitive Content Warning is still enabled.
+ *
+ * @param assetIds - Array of photo asset identifiers
+ * @returns Batch results with per-photo analysis
+ */
+export async function batchAnalyzeSensitiveContent(
+  assetIds: string[]
+): Promise<BatchSensitiveContentResult> {
+  const lookup = await lookupCachedResults<ImageVerdict>('sensitive_content', assetIds);
+  if (!lookup || (lookup.missing.length === 0 && !(await isAnalysisEnabled()))) {
+    return scheduleNative({ priority: 'background' }, 'batchAnalyzeSensitiveContent', assetIds);
+  }
+
+  const analyzed = new Map<string, BatchSensitiveContentItem>();
+  if (lookup.missing.length > 0) {
+    const fresh = await scheduleNative<BatchSensitiveContentResult>(
+      { priority: 'background' },
+      'batchAnalyzeSensitiveContent',
+      lookup.missing
+    );
+    if (!fresh.available) {
+      return fresh;
+    }
+    for (const item of fresh.results) {
+      analyzed.set(item.assetId, item);
+      if (!item.error) await lookup.store(item.assetId, { isSensitive: item.isSensitive });
+    }
+  }
+
+  const results = assetIds.map((assetId): BatchSensitiveContentItem => {
+    const cached = lookup.cached.get(assetId);
+    if (cached) return { assetId, isSensitive: cached.isSensitive };
+    // Left out of the native results, so there's no verdict to report
+    return analyzed.get(assetId) ?? { assetId, isSensitive: false, error: 'not_analyzed' };
+  });
+  return {
+    available: true,
+    results,
+    totalAnalyzed: results.length,
+    sensitiveCount: results.filter(item => item.isSensitive).length
+  };
+}
+
+// MARK: - SCA Video Analysis Types (iOS 17+)
+
+/**
+ * Result from single video sensitive content analysis
+ */
+export interface VideoSensitiveContentResult {
+  /** Whether SCA was available to use */
+  available: boolean;
+  /** Whether the video contains sensitive content */
+  isSensitive: boolean;
+  /** Asset ID that was analyzed */
+  assetId?: string;
+  /** Analysis time in milliseconds */
+  analysisTime?: number;
+  /** Video duration in seconds */
+  videoDuration?: number;
+  /** Reason if not available: 'disabled_by_user', 'ios_version', 'framework_unavailable', 'unsupported_platform' (Android) */
+  reason?: 'disabled_by_user' | 'ios_version' | 'framework_unavailable' | 'unsupported_platform';
+}
+
+/**
+ * Single result in batch video analysis
+ */
+export interface BatchVideoSensitiveContentItem {
+  /** Asset ID */
+  assetId: string;
+  /** Whether sensitive content was detected */
+  isSensitive: boolean;
+  /** Video duration in seconds */
+  duration?: number;
+  /** Error message if analysis failed */
+  error?: string;
+}
+
+/**
+ * Result from batch video sensitive content analysis
+ */
+export interface BatchVideoSensitiveContentResult {
+  /** Whether SCA was available to use */
+  available: boolean;
+  /** Array of results for each video */
+  results: BatchVideoSensitiveContentItem[];
+  /** Total number of videos analyzed */
+  totalAnalyzed?: number;
+  /** Number of sensitive videos found */
+  sensitiveCount?: number;
+  /** Reason if not available */
+  reason?: 'disabled_by_user' | 'ios_version' | 'framework_unavailable' | 'unsupported_platform';
+}
+
+/**
+ * Analyze a video for sensitive content using Apple's SCA
+ *
+ * Much faster than ONNX frame-by-frame analysis. Uses Apple's native
+ * video analysis which streams through the video efficiently.
+ * Returns a simple boolean - perfect for filtering videos.
+ *
+ * Short-circuits on first sensitive detection for speed.
+ *
+ * Requires iOS 17+ and user to enable Sensitive Content Warning in Settings.
+ *
+ * @param assetId - Video asset identifier from MediaLibrary
+ * @param options - Scheduler lane
+ * @returns Analysis result with isSensitive boolean
+ */
+export async function analyzeVideoSensitiveContent(
+  assetId: string,
+  options: SensitiveContentOptions = {}
+): Promise<VideoSensitiveContentResult> {
+  const lookup = await lookupCachedResults<VideoVerdict>('video_sensitive_content', [assetId]);
+  const cached = lookup?.cached.get(assetId);
+  if (cached && (await isAnalysisEnabled())) {
+    return { available: true, isSensitive: cached.isSensitive, assetId, analysisTime: 0, videoDuration: cached.duration };
+  }
+
+  const result = await scheduleNative<VideoSensitiveContentResult>(
+    { priority: options.priority },
+    'analyzeVideoSensitiveContent',
+    assetId
+  );
+  if (result.available) {
+    await lookup?.store(assetId, { isSensitive: result.isSensitive, duration: result.videoDuration });
+  }
+  return result;
+}
+
+/**
+ * Batch analyze multiple videos for sensitive content using SCA
+ *
+ * Uses Apple's SCA for fast video pre-filtering. Much more efficient
+ * than ONNX frame sampling for initial screening.
+ *
+ * Typical workflow:
+ * 1. Get all video IDs from library
+ * 2. Run batchAnalyzeVideosSensitiveContent() - fast native analysis
+ * 3. Filter to only sensitiveCount videos
+ * 4. Optionally run ONNX on those for frame timestamps
+ *
+ * With a ResultCache installed (setResultCache()), only videos modified since
+ * their last analysis are sent to SCA; results are returned in input order.
+ * Cached results are only returned while Sensitive Content Warning is still enabled.
+ *
+ * @param assetIds - Array of video asset identifiers
+ * @returns Batch results with per-video analysis
+ */
+export async function batchAnalyzeVideosSensitiveContent(
+  assetIds: string[]
+): Promise<BatchVideoSensitiveContentResult> {
+  const lookup = await lookupCachedResults<VideoVerdict>('video_sensitive_content', assetIds);
+  if (!lookup || (lookup.missing.length === 0 && !(await isAnalysisEnabled()))) {
+    return scheduleNative({ priority: 'background' }, 'batchAnalyzeVideosSensitiveContent', assetIds);
+  }
+
+  const analyzed = new Map<string, BatchVideoSensitiveContentItem>();
+  if (lookup.missing.length > 0) {
+    const fresh = await scheduleNative<BatchVideoSensitiveContentResult>(
+      { priority: 'background' },
+      'batchAnalyzeVideosSensitiveContent',
+      lookup.missing
+    );
+    if (!fresh.available) {
+      return fresh;
+    }
+    for (const item of fresh.results) {
+      analyzed.set(item.assetId, item);
+      if (!item.error) await lookup.store(item.assetId, { isSensitive: item.isSensitive, duration: item.duration });
+    }
+  }
+
+  const results = assetIds.map((assetId): BatchVideoSensitiveContentItem => {
+    const cached = lookup.cached.get(assetId);
+    if (cached) return { assetId, isSensitive: cached.isSensitive, duration: cached.duration };
+    // Left out of the native results, so there's no verdict to report
+    return analyzed.get(assetId) ?? { assetId, isSensitive: false, error: 'not_analyzed' };
+  });
+  return {
+    available: true,
+    results,
+    totalAnalyzed: results.length,
+    sensitiveCount: results.filter(item => item.isSensitive).length
+  };
+}
@@ -0,0 +1,1193 @@
+import { NUDENET_CONTENT_POLICY } from './detector';
+import type {
+  ContentPolicy,
+  CreateDetectorResult,
+  Detection,
+  ExecutionProvider,
+  InferenceDebugInfo,
+  InferenceResult,
+  ModelConfig,
+  RuntimeOptions
+} from './detector';
+import type { FeatureCapability, VisionMLCapabilities } from './capabilities';
+import type { ClassificationResult, CreateClassifierResult } from './classifier';
+import { isFlagged, isNearThreshold } from './contentPolicy';
+import type { CreateEmbedderResult } from './embedder';
+import type { VisionMLErrorCode } from './errors';
+import type { NativeImageSource } from './imageSource';
+import type { CreateDetectorFromManifestResult, ModelManifest, TensorMetadata } from './manifest';
+import {
+  APP_FOREGROUND_EVENT,
+  MEMORY_WARNING_EVENT,
+  VIDEO_DETECTION_EVENT,
+  VIDEO_PROGRESS_EVENT,
+  setNativeBackend
+} from './native';
+import type { NativeBackend } from './native';
+import type { RedactionOptions, RedactionResult } from './redaction';
+import type { MemoryPressureLevel } from './scheduler';
+import type {
+  BatchSensitiveContentResult,
+  BatchVideoSensitiveContentResult,
+  SensitiveContentAnalysisStatus,
+  SensitiveContentResult,
+  VideoSensitiveContentResult
+} from './sensitiveContent';
+import type { VideoScanMode, VideoScanProgress, VideoScanDetection } from './video';
+import { ADAPTIVE_MARGIN, runSampledScan } from './videoSampling';
+import type { NativeVideoAnalysisResult, SampledScanOptions } from './videoSampling';
+import type { NativeVideoSource } from './videoSource';
+import type {
+  AnimalAnalysis,
+  ComprehensiveAnalysis,
+  ComprehensiveAnalysisOptions,
+  ComprehensiveAnalysisRequest,
+  HumanPoseAnalysis
+} from './vision';
+
+// MARK: - Testing
+//
+// In-memory stand-in for the native module, exposed as 'react-native-vision-ml/testing'.
+// While installed, every export of the package runs against it and nothing requires
+// react-native, so app code can be tested in Jest or plain Node on CI:
+//
+// ```typescript
+// const mock = installMockVisionML({
+//   images: { 'file:///beach.jpg': [{ box: [0, 0, 50, 50], score: 0.9, classIndex: 3, className: 'FEMALE_BREAST_EXPOSED' }] },
+//   videos: { 'video-1': { duration: 30, timeline: { 0: [], 12: [exposed], 14: [] } } },
+//   sca: 'enabled'
+// });
+// const detector = await Detector.create('/model.onnx', labels);
+// expect((await detector.detect('file:///beach.jpg')).isFlagged).toBe(true);
+// mock.uninstall();
+// ```
+
+/**
+ * Apple Sensitive Content Analysis state to simulate (iOS only)
+ * - enabled: iOS 17+ with Sensitive Content Warning turned on
+ * - disabled: iOS 17+ with the setting off (the default)
+ * - unsupported_os: iOS 16 or earlier
+ * - framework_unavailable: built without the SensitiveContentAnalysis framework
+ */
+export type MockSCAState = 'enabled' | 'disabled' | 'unsupported_os' | 'framework_unavailable';
+
+/**
+ * Rejection to simulate, as the native module would report it
+ */
+export interface MockError {
+  /** Native error code, normally a VisionMLErrorCode */
+  code: VisionMLErrorCode | (string & {});
+  /** Error message (default: a generic message naming the code) */
+  message?: string;
+}
+
+/**
+ * Injected failure for a native method
+ */
+export interface MockFailure extends MockError {
+  /** Number of calls to fail before the method recovers (default: every call) */
+  times?: number;
+  /** Only fail calls whose native arguments match */
+  when?: (args: unknown[]) => boolean;
+}
+
+/**
+ * Scripted photo, keyed by file URI or asset ID
+ */
+export interface MockImage {
+  /**
+   * Detections returned by detect(), as if they were the native post-NMS output
+   * flaggedDetections/isFlagged are derived from them with the real content policy rules.
+   */
+  detections?: Detection[];
+  /** Image size, used for ContentPolicy.minBoxArea */
+  width?: number;
+  height?: number;
+  /** SCA verdict (default: whether NUDENET_CONTENT_POLICY flags a detection at 0.6) */
+  sensitive?: boolean;
+  /** Full analyzeComprehensive() result; each call returns the fields its options select (default: {}) */
+  vision?: ComprehensiveAnalysis;
+  /** analyzeAnimals() result (default: no animals) */
+  animals?: AnimalAnalysis;
+  /** analyzeHumanPose() result (default: no humans) */
+  pose?: HumanPoseAnalysis;
+  /** classify() scores by class label, after the activation (default: 0 for every label) */
+  classification?: Record<string, number>;
+  /** Raw embed() output before normalization (default: 512 zeros) */
+  embedding?: number[];
+  /** Modification time (ms since epoch) reported to the result cache; change it to simulate an edit (default: 0) */
+  modifiedAt?: number;
+  /** Every call on this image rejects with this error */
+  error?: MockError;
+}
+
+/**
+ * Scripted video, keyed by asset ID
+ */
+export interface MockVideo {
+  /** Duration in seconds */
+  duration: number;
+  /**
+   * Keyframes: detections visible from each timestamp (seconds) until the next one
+   * `{ 0: [], 12: [exposed], 14: [] }` shows `exposed` between 12s and 14s.
+   */
+  timeline?: Record<number, Detection[]>;
+  /** [start, end] ranges where the Vision human pre-filter sees people (default: wherever the timeline has detections) */
+  humans?: Array<[number, number]>;
+  /** Frame size, used for ContentPolicy.minBoxArea */
+  width?: number;
+  height?: number;
+  /** SCA verdict (default: whether NUDENET_CONTENT_POLICY flags any keyframe at 0.6) */
+  sensitive?: boolean;
+  /** Modification time (ms since epoch) reported to the result cache (default: 0) */
+  modifiedAt?: number;
+  /** Every call on this video rejects with this error */
+  error?: MockError;
+}
+
+/**
+ * Scripted model manifest, keyed by manifest path
+ */
+export interface MockManifest {
+  /** The manifest's JSON; a relative `model` is resolved against the manifest's directory */
+  manifest: ModelManifest;
+  /** SHA-256 of the model file (default: the manifest's, so the integrity check passes) */
+  sha256?: string;
+  /** Model inputs (default: one float input 'images' of [1, 3, inputSize, inputSize]) */
+  inputs?: TensorMetadata[];
+  /** Model outputs (default: one float output 'output0' that fits the labels and layout) */
+  outputs?: TensorMetadata[];
+}
+
+/**
+ * Options for MockVisionML
+ */
+export interface MockVisionMLOptions {
+  /** Platform to behave like (default: 'ios') */
+  platform?: 'ios' | 'android';
+  /** Scripted photos by file URI or asset ID; a bare array is shorthand for `{ detections }` */
+  images?: Record<string, MockImage | Detection[]>;
+  /** Scripted videos by asset ID or file URI */
+  videos?: Record<string, MockVideo>;
+  /** Scripted model manifests by path, for createDetectorFromManifest() */
+  manifests?: Record<string, MockManifest>;
+  /** Sensitive Content Analysis state (default: 'disabled') */
+  sca?: MockSCAState;
+  /** Whether Live Activities are available on iOS (default: true; never on Android) */
+  liveActivities?: boolean;
+  /** Behave like the iOS Simulator or an Android emulator (default: false) */
+  simulator?: boolean;
+  /** Execution providers that fail to load, to exercise the createDetector() fallback chain (default: none) */
+  failingProviders?: ExecutionProvider[];
+  /** Milliseconds each detect() call and each analyzed video frame takes (default: 0) */
+  latency?: number;
+}
+
+/**
+ * A native call received by the mock
+ */
+export interface MockCall {
+  method: string;
+  args: unknown[];
+}
+
+interface MockDetector {
+  classLabels: string[];
+  inputSize: number;
+  config: ModelConfig;
+  executionProvider: ExecutionProvider;
+}
+
+type Handler = (args: unknown[]) => unknown;
+
+/** Second argument of the native redactImage(): boxes to redact, or a detector to find them with */
+interface NativeRedactionTarget {
+  detections?: Detection[];
+  detectorId?: string;
+  confidenceThreshold?: number;
+  policy?: ContentPolicy | null;
+}
+
+// Length of the embedding of an unscripted image
+const DEFAULT_EMBEDDING_SIZE = 512;
+
+const SCA_UNAVAILABLE_REASONS = {
+  disabled: 'disabled_by_user',
+  unsupported_os: 'ios_version',
+  framework_unavailable: 'framework_unavailable'
+} as const;
+
+let installed: MockVisionML | null = null;
+
+/**
+ * Fake native backend with scripted photos, videos, SCA state and failures
+ */
+export class MockVisionML implements NativeBackend {
+  readonly platform: 'ios' | 'android';
+  /** Every native call received, oldest first */
+  readonly calls: MockCall[] = [];
+  /** Current Sensitive Content Analysis state */
+  scaState: MockSCAState;
+  /** Whether Live Activities are available (iOS) */
+  liveActivities: boolean;
+  /** Whether this is the iOS Simulator or an Android emulator */
+  readonly simulator: boolean;
+  /** Execution providers that fail to load ('cpu' never fails) */
+  failingProviders: ExecutionProvider[];
+  /** Milliseconds each detect() call and each analyzed video frame takes */
+  latency: number;
+
+  private readonly images = new Map<string, MockImage>();
+  private readonly videos = new Map<string, MockVideo>();
+  private readonly manifests = new Map<string, MockManifest>();
+  private readonly failures = new Map<string, MockFailure[]>();
+  private readonly listeners = new Map<string, Set<(event: unknown) => void>>();
+  private readonly detectors = new Map<string, MockDetector>();
+  // Class labels by classifier ID
+  private readonly classifiers = new Map<string, string[]>();
+  private readonly embedders = new Set<string>();
+  private readonly scans = new Map<string, { cancelled: boolean }>();
+  private detectorCounter = 0;
+  private activityCounter = 0;
+  private redactionCounter = 0;
+
+  constructor(options: MockVisionMLOptions = {}) {
+    this.platform = options.platform ?? 'ios';
+    this.scaState = options.sca ?? 'disabled';
+    this.liveActivities = options.liveActivities ?? true;
+    this.simulator = options.simulator ?? false;
+    this.failingProviders = [...(options.failingProviders ?? [])];
+    this.latency = options.latency ?? 0;
+    for (const [key, image] of Object.entries(options.images ?? {})) {
+      this.setImage(key, image);
+    }
+    for (const [key, video] of Object.entries(options.videos ?? {})) {
+      this.setVideo(key, video);
+    }
+    for (const [path, manifest] of Object.entries(options.manifests ?? {})) {
+      this.setManifest(path, manifest);
+    }
+  }
+
+  /** Route the package's native calls to this mock */
+  install(): this {
+    installed = this;
+    setNativeBackend(this);
+    return this;
+  }
+
+  /** Restore NativeModules.VisionML (no-op if another mock was installed since) */
+  uninstall(): void {
+    if (installed === this) {
+      installed = null;
+      setNativeBackend(null);
+    }
+  }
+
+  /** Script (or replace) a photo by file URI or asset ID */
+  setImage(key: string, image: MockImage | Detection[]): void {
+    this.images.set(key, Array.isArray(image) ? { detections: image } : image);
+  }
+
+  /** Script (or replace) a video by asset ID */
+  setVideo(key: string, video: MockVideo): void {
+    this.videos.set(key, video);
+  }
+
+  /** Script (or replace) a model manifest by path */
+  setManifest(path: string, manifest: MockManifest): void {
+    this.manifests.set(path, manifest);
+  }
+
+  /** Fail calls to a native method, e.g. `mock.fail('detect', { code: 'INFERENCE_ERROR', times: 2 })` */
+  fail(method: string, failure: MockFailure): void {
+    const list = this.failures.get(method) ?? [];
+    list.push({ ...failure });
+    this.failures.set(method, list);
+  }
+
+  /** Fail only the next call to a native method */
+  failNext(method: string, code: MockError['code'], message?: string): void {
+    this.fail(method, { code, message, times: 1 });
+  }
+
+  /** Remove all injected failures */
+  clearFailures(): void {
+    this.failures.clear();
+  }
+
+  /** Arguments of every call to a native method, oldest first */
+  callsTo(method: string): unknown[][] {
+    return this.calls.filter(call => call.method === method).map(call => call.args);
+  }
+
+  /** Simulate the app returning to the foreground, e.g. from the Settings deep link */
+  foreground(): void {
+    this.emit(APP_FOREGROUND_EVENT, {});
+  }
+
+  /** Simulate an OS memory warning; iOS only sends 'critical' */
+  memoryWarning(level: MemoryPressureLevel = 'critical'): void {
+    this.emit(MEMORY_WARNING_EVENT, { level });
+  }
+
+  /** IDs of detectors that have been created and not disposed */
+  get detectorIds(): string[] {
+    return Array.from(this.detectors.keys());
+  }
+
+  // MARK: - NativeBackend
+
+  async call(method: string, args: unknown[]): Promise<unknown> {
+    this.calls.push({ method, args });
+
+    const failure = this.takeFailure(method, args);
+    if (failure) {
+      throw nativeError(failure);
+    }
+
+    const handler = this.handlers[method];
+    if (!handler) {
+      // What the bridge does for a method the native module doesn't export
+      throw new TypeError(`VisionML.${method} is not a function`);
+    }
+    return handler(args);
+  }
+
+  addListener(eventName: string, listener: (event: unknown) => void): { remove(): void } {
+    const set = this.listeners.get(eventName) ?? new Set();
+    set.add(listener);
+    this.listeners.set(eventName, set);
+    return { remove: () => set.delete(listener) };
+  }
+
+  // MARK: - Native Methods
+
+  private readonly handlers: Record<string, Handler> = {
+    createDetector: ([, classLabels, inputSize, config, runtime]): CreateDetectorResult =>
+      this.addDetector(
+        stringArrayArg(classLabels, 'classLabels'),
+        numberArg(inputSize, 'inputSize'),
+        optionalMapArg<ModelConfig>(config, 'config') ?? {},
+        optionalMapArg<RuntimeOptions>(runtime, 'runtime')
+      ),
+
+    createDetectorFromManifest: ([manifestUri, runtime]): CreateDetectorFromManifestResult => {
+      const manifestPath = stringArg(manifestUri, 'manifestPath');
+      const path = manifestPath.replace(/^file:\/\//, '');
+      const scripted = this.manifests.get(manifestPath) ?? this.manifests.get(path);
+      if (!scripted) {
+        throw nativeError({ code: 'MANIFEST_INVALID', message: `Cannot read '${path}': no such file` });
+      }
+
+      const { model, labels, inputSize = 320, sha256, config = {}, defaults = {}, name, version } = scripted.manifest;
+      if (!model || !labels?.length) {
+        throw nativeError({
+          code: 'MANIFEST_INVALID',
+          message: `Invalid manifest '${path}': "model" and a non-empty "labels" array are required`
+        });
+      }
+      const modelPath = model.startsWith('/') ? model : `${path.slice(0, path.lastIndexOf('/') + 1)}${model}`;
+      const actualHash = (scripted.sha256 ?? sha256)?.toLowerCase();
+      if (sha256 && actualHash !== sha256.toLowerCase()) {
+        throw nativeError({
+          code: 'MODEL_INTEGRITY_ERROR',
+          message: `SHA-256 of '${modelPath}' is ${actualHash} but the manifest expects ${sha256.toLowerCase()}`
+        });
+      }
+
+      const metadata = {
+        inputs: scripted.inputs ?? [{ name: 'images', shape: [1, 3, inputSize, inputSize], type: 'float' }],
+        outputs: scripted.outputs ?? [
+          { name: 'output0', shape: mockOutputShape(labels.length, config), type: 'float' }
+        ]
+      };
+      checkManifestShapes(labels.length, inputSize, config, metadata.inputs, metadata.outputs);
+
+      const resolved = {
+        model: modelPath,
+        labels: [...labels],
+        inputSize,
+        config,
+        defaults,
+        ...(sha256 ? { sha256: sha256.toLowerCase() } : {}),
+        ...(name !== undefined ? { name } : {}),
+        ...(version !== undefined ? { version } : {})
+      };
+      return {
+        ...this.addDetector(labels, inputSize, config, optionalMapArg<RuntimeOptions>(runtime, 'runtime')),
+        manifest: resolved,
+        metadata
+      };
+    },
+
+    detect: async ([detectorId, source, confidenceThreshold, , policy, debug]) => {
+      const detector = this.requireDetector(stringArg(detectorId, 'detectorId'));
+      const image = this.sourceImage(mapArg<NativeImageSource>(source, 'source'));
+      await this.wait();
+      return this.inferenceResult(
+        detector,
+        image,
+        numberArg(confidenceThreshold, 'confidenceThreshold'),
+        optionalMapArg<ContentPolicy>(policy, 'policy'),
+        booleanArg(debug, 'debug')
+      );
+    },
+
+    benchmark: async ([detectorId, source, iterations, warmup]) => {
+      const detector = this.requireDetector(stringArg(detectorId, 'detectorId'));
+      this.sourceImage(mapArg<NativeImageSource>(source, 'source'));
+      const warmupRuns = numberArg(warmup, 'warmup');
+      const runs = warmupRuns + numberArg(iterations, 'iterations');
+      const samples = [];
+      for (let run = 0; run < runs; run++) {
+        await this.wait();
+        if (run >= warmupRuns) {
+          const latency = this.latency;
+          samples.push({ decode: 0, preprocess: 0, inference: latency, parse: 0, nms: 0, recovery: 0, total: latency });
+        }
+      }
+      return { samples, baselineMemory: 0, peakMemory: 0, executionProvider: detector.executionProvider };
+    },
+
+    redactImage: async ([imageUri, redactionTarget, options]): Promise<RedactionResult> => {
+      const image = this.image(stringArg(imageUri, 'imageUri'));
+      const target = mapArg<NativeRedactionTarget>(redactionTarget, 'target');
+      const redaction = optionalMapArg<RedactionOptions>(options, 'options') ?? {};
+      let detection: InferenceResult | undefined;
+      let detections: Detection[];
+      if (target.detectorId !== undefined) {
+        const detector = this.requireDetector(target.detectorId);
+        await this.wait();
+        const { confidenceThreshold = 0.6, policy = null } = target;
+        detection = this.inferenceResult(detector, image, confidenceThreshold, policy, false);
+        detections = detection.flaggedDetections;
+      } else {
+        detections = target.detections ?? [];
+      }
+      if (redaction.format === 'heic' && this.platform === 'android') {
+        throw nativeError({ code: 'REDACTION_ERROR', message: 'Redaction failed: HEIC output is only supported on iOS' });
+      }
+
+      this.redactionCounter += 1;
+      const extension = redaction.format === 'png' ? 'png' : redaction.format === 'heic' ? 'heic' : 'jpg';
+      const outputPath = redaction.outputPath ?? `/tmp/redacted-${this.redactionCounter}.${extension}`;
+      return {
+        uri: outputPath.startsWith('file://') ? outputPath : `file://${outputPath}`,
+        width: image.width ?? 0,
+        height: image.height ?? 0,
+        redactedDetections: copyDetections(detections).filter(
+          d => !redaction.excludeLabels?.includes(d.className) && (redaction.labels?.includes(d.className) ?? true)
+        ),
+        ...(detection ? { detection } : {}),
+        totalTime: this.latency
+      };
+    },
+
+    createClassifier: ([, classLabels, , , runtime]): CreateClassifierResult => {
+      this.detectorCounter += 1;
+      const classifierId = `mock_classifier_${this.detectorCounter}`;
+      this.classifiers.set(classifierId, [...stringArrayArg(classLabels, 'classLabels')]);
+      return { classifierId, ...this.modelCreated('Classifier', optionalMapArg<RuntimeOptions>(runtime, 'runtime')) };
+    },
+
+    classify: async ([modelId, source, topK, minScore]): Promise<ClassificationResult> => {
+      const classifierId = stringArg(modelId, 'classifierId');
+      const classLabels = this.classifiers.get(classifierId);
+      if (!classLabels) throw modelNotFound('Classifier', classifierId);
+      const image = this.sourceImage(mapArg<NativeImageSource>(source, 'source'));
+      await this.wait();
+      const predictions = classLabels
+        .map((label, index) => ({ label, index, score: image.classification?.[label] ?? 0 }))
+        .filter(prediction => prediction.score >= numberArg(minScore, 'minScore'))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, Math.max(0, numberArg(topK, 'topK')));
+      return { predictions, inferenceTime: this.latency, totalTime: this.latency };
+    },
+
+    createEmbedder: ([, , , runtime]): CreateEmbedderResult => {
+      this.detectorCounter += 1;
+      const embedderId = `mock_embedder_${this.detectorCounter}`;
+      this.embedders.add(embedderId);
+      return { embedderId, ...this.modelCreated('Embedder', optionalMapArg<RuntimeOptions>(runtime, 'runtime')) };
+    },
+
+    embed: async ([modelId, source, normalize]) => {
+      const embedderId = stringArg(modelId, 'embedderId');
+      if (!this.embedders.has(embedderId)) throw modelNotFound('Embedder', embedderId);
+      const image = this.sourceImage(mapArg<NativeImageSource>(source, 'source'));
+      await this.wait();
+      const raw = image.embedding ?? new Array<number>(DEFAULT_EMBEDDING_SIZE).fill(0);
+      const norm = booleanArg(normalize, 'normalize')
+        ? Math.sqrt(raw.reduce((sum, value) => sum + value * value, 0))
+        : 0;
+      return {
+        embedding: norm > 0 ? raw.map(value => value / norm) : [...raw],
+        inferenceTime: this.latency,
+        totalTime: this.latency
+      };
+    },
+
+    disposeModel: ([id]) => {
+      const modelId = stringArg(id, 'modelId');
+      if (!this.classifiers.delete(modelId) && !this.embedders.delete(modelId)) {
+        throw nativeError({ code: 'MODEL_NOT_FOUND', message: `Model with ID '${modelId}' not found` });
+      }
+      return { success: true, message: 'Model disposed' };
+    },
+
+    disposeDetector: ([id]) => {
+      const detectorId = stringArg(id, 'detectorId');
+      this.requireDetector(detectorId);
+      this.detectors.delete(detectorId);
+      return { success: true, message: 'Detector disposed' };
+    },
+
+    disposeAllDetectors: () => {
+      this.detectors.clear();
+      return { success: true, message: 'All detectors disposed' };
+    },
+
+    analyzeVideo: ([detectorId, source, mode, sampleInterval, confidenceThreshold, policy, scanId, timeline, range]) =>
+      this.scanVideo(
+        stringArg(detectorId, 'detectorId'),
+        mapArg<NativeVideoSource>(source, 'source'),
+        stringArg(mode, 'mode') as VideoScanMode,
+        numberArg(sampleInterval, 'sampleInterval'),
+        numberArg(confidenceThreshold, 'confidenceThreshold'),
+        optionalMapArg<ContentPolicy>(policy, 'policy'),
+        stringArg(scanId, 'scanId'),
+        {
+          timeline: booleanArg(timeline, 'timeline'),
+          ...optionalMapArg<Pick<SampledScanOptions, 'startTime' | 'endTime'>>(range, 'range')
+        }
+      ),
+
+    quickCheckVideo: ([detectorId, source, confidenceThreshold, policy, scanId]) =>
+      this.scanVideo(
+        stringArg(detectorId, 'detectorId'),
+        mapArg<NativeVideoSource>(source, 'source'),
+        'quick_check',
+        0,
+        numberArg(confidenceThreshold, 'confidenceThreshold'),
+        optionalMapArg<ContentPolicy>(policy, 'policy'),
+        stringArg(scanId, 'scanId'),
+        {}
+      ),
+
+    cancelVideoAnalysis: ([scanId]) => {
+      const scan = this.scans.get(stringArg(scanId, 'scanId'));
+      if (scan) scan.cancelled = true;
+      return scan !== undefined;
+    },
+
+    analyzeAnimals: ([assetId]): AnimalAnalysis =>
+      this.image(stringArg(assetId, 'assetId')).animals ?? { animals: [], count: 0 },
+
+    analyzeHumanPose: ([assetId]): HumanPoseAnalysis => {
+      const image = this.image(stringArg(assetId, 'assetId'));
+      // Pose requests find nobody in the iOS Simulator
+      if (this.simulator && this.platform === 'ios') return { humans: [], humanCount: 0 };
+      return image.pose ?? { humans: [], humanCount: 0 };
+    },
+
+    analyzeComprehensive: ([assetId, options]): ComprehensiveAnalysis =>
+      selectComprehensiveFields(
+        this.image(stringArg(assetId, 'assetId')).vision ?? {},
+        mapArg<Required<ComprehensiveAnalysisOptions>>(options, 'options')
+      ),
+
+    isLiveActivityAvailable: () => this.platform === 'ios' && this.liveActivities,
+
+    startVideoScanActivity: () => {
+      // Android's progress notification is a stub that reports success
+      if (this.platform === 'android') return { activityId: null, success: true };
+      if (!this.liveActivities) return { activityId: null, success: false };
+      this.activityCounter += 1;
+      return { activityId: `mock_activity_${this.activityCounter}`, success: true };
+    },
+
+    updateVideoScanActivity: () => this.platform === 'android' || this.liveActivities,
+
+    endVideoScanActivity: () => this.platform === 'android' || this.liveActivities,
+
+    getSensitiveContentAnalysisStatus: (): SensitiveContentAnalysisStatus => {
+      if (this.platform === 'android') {
+        return {
+          available: false,
+          enabled: false,
+          policy: 'unsupported',
+          reason: 'Sensitive Content Analysis is only available on iOS'
+        };
+      }
+      switch (this.scaState) {
+        case 'enabled':
+          return { available: true, enabled: true, policy: 'simple_interventions', iosVersion: '17.0' };
+        case 'disabled':
+          return { available: true, enabled: false, policy: 'disabled', iosVersion: '17.0' };
+        case 'unsupported_os':
+          return {
+            available: false,
+            enabled: false,
+            policy: 'unsupported',
+            reason: 'Requires iOS 17.0 or later',
+            iosVersion: '16.7'
+          };
+        case 'framework_unavailable':
+          return {
+            available: false,
+            enabled: false,
+            policy: 'unsupported',
+            reason: 'SensitiveContentAnalysis framework not available',
+            iosVersion: '17.0'
+          };
+      }
+    },
+
+    openSensitiveContentSettings: () =>
+      this.platform === 'android' ? { opened: false, url: null } : { opened: true, url: 'Privacy' },
+
+    analyzeSensitiveContent: ([assetId]): SensitiveContentResult => {
+      const reason = this.scaUnavailableReason();
+      if (reason) {
+        return { available: false, isSensitive: false, reason };
+      }
+      const id = stringArg(assetId, 'assetId');
+      return { available: true, isSensitive: imageIsSensitive(this.image(id)), assetId: id };
+    },
+
+    batchAnalyzeSensitiveContent: ([assetIds]): BatchSensitiveContentResult => {
+      const reason = this.scaUnavailableReason();
+      if (reason) {
+        return { available: false, results: [], reason };
+      }
+      const results = stringArrayArg(assetIds, 'assetIds').map(assetId => {
+        const image = this.images.get(assetId) ?? {};
+        return image.error
+          ? { assetId, isSensitive: false, error: errorMessage(image.error) }
+          : { assetId, isSensitive: imageIsSensitive(image) };
+      });
+      return {
+        available: true,
+        results,
+        totalAnalyzed: results.length,
+        sensitiveCount: results.filter(item => item.isSensitive).length
+      };
+    },
+
+    analyzeVideoSensitiveContent: ([assetId]): VideoSensitiveContentResult => {
+      const reason = this.scaUnavailableReason();
+      if (reason) {
+        return { available: false, isSensitive: false, reason };
+      }
+      const id = stringArg(assetId, 'assetId');
+      const video = this.video(id);
+      return {
+        available: true,
+        isSensitive: videoIsSensitive(video),
+        assetId: id,
+        analysisTime: this.latency,
+        videoDuration: video.duration
+      };
+    },
+
+    batchAnalyzeVideosSensitiveContent: ([assetIds]): BatchVideoSensitiveContentResult => {
+      const reason = this.scaUnavailableReason();
+      if (reason) {
+        return { available: false, results: [], reason };
+      }
+      const results = stringArrayArg(assetIds, 'assetIds').map(assetId => {
+        const video = this.videos.get(assetId);
+        if (!video) return { assetId, isSensitive: false, error: 'asset_not_found' };
+        if (video.error) return { assetId, isSensitive: false, error: errorMessage(video.error) };
+        return { assetId, isSensitive: videoIsSensitive(video), duration: video.duration };
+      });
+      return {
+        available: true,
+        results,
+        totalAnalyzed: results.length,
+        sensitiveCount: results.filter(item => item.isSensitive).length
+      };
+    },
+
+    getModificationDates: ([ids]): Record<string, number> => {
+      const dates: Record<string, number> = {};
+      for (const id of stringArrayArg(ids, 'assetIds')) {
+        dates[id] = (this.videos.get(id) ?? this.images.get(id))?.modifiedAt ?? 0;
+      }
+      return dates;
+    },
+
+    getCapabilities: (): VisionMLCapabilities => {
+      const unavailable = (reason: FeatureCapability['reason']): FeatureCapability => ({ available: false, reason });
+      const scaReason = this.scaUnavailableReason();
+      const sca: FeatureCapability = scaReason ? unavailable(scaReason) : { available: true };
+
+      if (this.platform === 'android') {
+        return {
+          platform: 'android',
+          osVersion: '14',
+          isSimulator: this.simulator,
+          acceleration: {
+            available: true,
+            provider: 'nnapi',
+            availableProviders: ['CPUExecutionProvider', 'NnapiExecutionProvider']
+          },
+          analyzers: {
+            framework: 'mlkit',
+            animals: { available: true },
+            humanPose: { available: true },
+            comprehensive: { available: true }
+          },
+          sensitiveContent: { image: sca, video: sca },
+          progressNotifications: { ...unavailable('not_implemented'), kind: 'notification' }
+        };
+      }
+
+      return {
+        platform: 'ios',
+        osVersion: this.scaState === 'unsupported_os' ? '16.7' : '17.0',
+        isSimulator: this.simulator,
+        acceleration: {
+          available: true,
+          provider: 'coreml',
+          availableProviders: ['CoreMLExecutionProvider', 'CPUExecutionProvider']
+        },
+        analyzers: {
+          framework: 'vision',
+          animals: { available: true },
+          humanPose: this.simulator ? unavailable('simulator') : { available: true },
+          comprehensive: { available: true }
+        },
+        sensitiveContent: { image: sca, video: sca },
+        progressNotifications: {
+          ...(this.liveActivities ? { available: true } : unavailable('disabled_by_user')),
+          kind: 'live_activity'
+        }
+      };
+    }
+  };
+
+  // MARK: - Helpers
+
+  /** First requested provider this platform has and that loads, like the native fallback chain */
+  private loadedProvider(requested?: ExecutionProvider[]): ExecutionProvider {
+    const supported: ExecutionProvider[] =
+      this.platform === 'ios' ? ['coreml', 'xnnpack', 'cpu'] : ['nnapi', 'xnnpack', 'cpu'];
+    const chain = requested ?? [supported[0]];
+    return (
+      chain.find(provider => supported.includes(provider) && !this.failingProviders.includes(provider)) ?? 'cpu'
+    );
+  }
+
+  /** Why SCA calls resolve `available: false`, or null when they analyze */
+  private scaUnavailableReason(): NonNullable<SensitiveContentResult['reason']> | null {
+    if (this.platform === 'android') return 'unsupported_platform';
+    return this.scaState === 'enabled' ? null : SCA_UNAVAILABLE_REASONS[this.scaState];
+  }
+
+  private takeFailure(method: string, args: unknown[]): MockFailure | null {
+    const list = this.failures.get(method);
+    const failure = list?.find(candidate => !candidate.when || candidate.when(args));
+    if (!list || !failure) return null;
+
+    if (failure.times !== undefined) {
+      failure.times -= 1;
+      if (failure.times <= 0) {
+        list.splice(list.indexOf(failure), 1);
+      }
+    }
+    return failure;
+  }
+
+  private requireDetector(detectorId: string): MockDetector {
+    const detector = this.detectors.get(detectorId);
+    if (!detector) {
+      throw nativeError({
+        code: 'DETECTOR_NOT_FOUND',
+        message: `Detector with ID '${detectorId}' not found. Create a detector first.`
+      });
+    }
+    return detector;
+  }
+
+  /** Register a detector the way createDetector() does */
+  private addDetector(
+    classLabels: string[],
+    inputSize: number,
+    config: ModelConfig,
+    runtime: RuntimeOptions | null
+  ): CreateDetectorResult {
+    this.detectorCounter += 1;
+    const detectorId = `mock_detector_${this.detectorCounter}`;
+    const options: RuntimeOptions = runtime ?? {};
+    const executionProvider = this.loadedProvider(options.executionProviders);
+    this.detectors.set(detectorId, { classLabels: [...classLabels], inputSize, config, executionProvider });
+    return {
+      detectorId,
+      success: true,
+      message: 'Detector created successfully',
+      executionProvider,
+      ...(options.warmup ? { warmupTime: this.latency } : {})
+    };
+  }
+
+  /** Common fields of createClassifier()/createEmbedder() results */
+  private modelCreated(kind: 'Classifier' | 'Embedder', runtime: RuntimeOptions | null) {
+    const options: RuntimeOptions = runtime ?? {};
+    return {
+      success: true,
+      message: `${kind} created successfully`,
+      executionProvider: this.loadedProvider(options.executionProviders),
+      ...(options.warmup ? { warmupTime: this.latency } : {})
+    };
+  }
+
+  /** Scripted photo; unscripted photos are clean */
+  private image(key: string): MockImage {
+    const image = this.images.get(key) ?? {};
+    if (image.error) throw nativeError(image.error);
+    return image;
+  }
+
+  /** Scripted image for a detect() source; raw pixel buffers are always clean */
+  private sourceImage(source: NativeImageSource): MockImage {
+    if ('uri' in source) return this.image(source.uri);
+    if ('assetId' in source) return this.image(source.assetId);
+    return { width: source.width, height: source.height };
+  }
+
+  /** Scripted video; unscripted videos don't exist */
+  private video(assetId: string): MockVideo {
+    const video = this.videos.get(assetId);
+    if (!video) {
+      throw nativeError({ code: 'ASSET_NOT_FOUND', message: 'Video asset not found' });
+    }
+    if (video.error) throw nativeError(video.error);
+    return video;
+  }
+
+  /** Scripted video for an analyzeVideo() source; unscripted files don't exist */
+  private sourceVideo(source: NativeVideoSource): MockVideo {
+    if ('assetId' in source) return this.video(source.assetId);
+    const video = this.videos.get(source.uri);
+    if (!video) {
+      throw nativeError({ code: 'VIDEO_LOAD_FAILED', message: 'Video file not found' });
+    }
+    if (video.error) throw nativeError(video.error);
+    return video;
+  }
+
+  private wait(): Promise<void> {
+    return this.latency > 0 ? new Promise(resolve => setTimeout(resolve, this.latency)) : Promise.resolve();
+  }
+
+  private inferenceResult(
+    detector: MockDetector,
+    image: MockImage,
+    confidenceThreshold: number,
+    policy: ContentPolicy | null,
+    debug: boolean
+  ): InferenceResult {
+    const detections = aboveThreshold(image.detections ?? [], confidenceThreshold);
+    const flaggedDetections = detections.filter(detection =>
+      isFlagged(detection, policy ?? NUDENET_CONTENT_POLICY, confidenceThreshold, image.width, image.height)
+    );
+
+    const result: InferenceResult = {
+      detections,
+      flaggedDetections,
+      isFlagged: flaggedDetections.length > 0,
+      decodeTime: 0,
+      inferenceTime: this.latency,
+      postProcessTime: 0,
+      totalTime: this.latency
+    };
+    if (debug) {
+      // Pre-NMS candidates include the ones below confidenceThreshold
+      result.debug = debugInfo(detector, image.detections ?? [], this.latency);
+    }
+    return result;
+  }
+
+  private async scanVideo(
+    detectorId: string,
+    source: NativeVideoSource,
+    mode: VideoScanMode,
+    sampleInterval: number,
+    confidenceThreshold: number,
+    policy: ContentPolicy | null,
+    scanId: string,
+    options: SampledScanOptions
+  ): Promise<NativeVideoAnalysisResult> {
+    this.requireDetector(detectorId);
+    const video = this.sourceVideo(source);
+    const scan = { cancelled: false };
+    this.scans.set(scanId, scan);
+
+    try {
+      return await runSampledScan(mode, video.duration, sampleInterval, {
+        platform: this.platform,
+        isCancelled: () => scan.cancelled,
+        analyzeFrame: async timestamp => {
+          await this.wait();
+          const detections = aboveThreshold(detectionsAt(video, timestamp), confidenceThreshold);
+          const flagged = detections.filter(detection =>
+            isFlagged(detection, policy ?? NUDENET_CONTENT_POLICY, confidenceThreshold, video.width, video.height)
+          );
+          return {
+            isNSFW: flagged.length > 0,
+            confidence: flagged.reduce((max, detection) => Math.max(max, detection.score), 0),
+            detections,
+            flaggedDetections: flagged,
+            width: video.width ?? 0,
+            height: video.height ?? 0,
+            nearThreshold: detections.some(detection =>
+              isNearThreshold(detection, policy ?? NUDENET_CONTENT_POLICY, confidenceThreshold, ADAPTIVE_MARGIN)
+            )
+          };
+        },
+        hasHuman: async timestamp =>
+          video.humans
+            ? video.humans.some(([start, end]) => timestamp >= start && timestamp <= end)
+            : detectionsAt(video, timestamp).length > 0,
+        onProgress: (progress, phase, framesAnalyzed, nsfwFrameCount) =>
+          this.emit<VideoScanProgress>(VIDEO_PROGRESS_EVENT, { scanId, progress, phase, framesAnalyzed, nsfwFrameCount }),
+        onDetection: (timestamp, confidence) =>
+          this.emit<VideoScanDetection>(VIDEO_DETECTION_EVENT, { scanId, timestamp, confidence })
+      }, options);
+    } finally {
+      this.scans.delete(scanId);
+    }
+  }
+
+  private emit<T>(eventName: string, event: T): void {
+    this.listeners.get(eventName)?.forEach(listener => listener(event));
+  }
+}
+
+/**
+ * Create a MockVisionML and route the package's native calls to it
+ */
+export function installMockVisionML(options: MockVisionMLOptions = {}): MockVisionML {
+  return new MockVisionML(options).install();
+}
+
+/**
+ * Restore NativeModules.VisionML after installMockVisionML()
+ */
+export function uninstallMockVisionML(): void {
+  installed?.uninstall();
+}
+
+// MARK: - Private Helpers
+
+// The bridge converts each argument to the type in the native method's signature
+// and rejects the call when it can't; maps are passed through and read field by field.
+
+function stringArg(value: unknown, name: string): string {
+  if (typeof value !== 'string') throw argumentError(name, 'a string', value);
+  return value;
+}
+
+function numberArg(value: unknown, name: string): number {
+  if (typeof value !== 'number') throw argumentError(name, 'a number', value);
+  return value;
+}
+
+function booleanArg(value: unknown, name: string): boolean {
+  if (typeof value !== 'boolean') throw argumentError(name, 'a boolean', value);
+  return value;
+}
+
+function stringArrayArg(value: unknown, name: string): string[] {
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+    throw argumentError(name, 'an array of strings', value);
+  }
+  return value;
+}
+
+function mapArg<T extends object>(value: unknown, name: string): T {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw argumentError(name, 'an object', value);
+  }
+  return value as T;
+}
+
+function optionalMapArg<T extends object>(value: unknown, name: string): T | null {
+  return value === null || value === undefined ? null : mapArg<T>(value, name);
+}
+
+function argumentError(name: string, expected: string, value: unknown): TypeError {
+  const actual = value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value;
+  return new TypeError(`VisionML: expected ${name} to be ${expected}, got ${actual}`);
+}
+
+function nativeError(error: MockError): Error {
+  return Object.assign(new Error(errorMessage(error)), { code: error.code });
+}
+
+function modelNotFound(kind: 'Classifier' | 'Embedder', modelId: string): Error {
+  const article = kind === 'Embedder' ? 'an' : 'a';
+  return nativeError({
+    code: 'MODEL_NOT_FOUND',
+    message: `${kind} with ID '${modelId}' not found. Create ${article} ${kind.toLowerCase()} first.`
+  });
+}
+
+/** Output shape of a model that fits its labels, with a dynamic number of predictions */
+function mockOutputShape(numClasses: number, config: ModelConfig): number[] {
+  switch (config.outputLayout ?? 'yolov8_transposed') {
+    case 'yolov8_transposed':
+      return [1, 4 + numClasses, -1];
+    case 'yolov8_row_major':
+      return [1, -1, 4 + numClasses];
+    case 'yolov5':
+      return [1, -1, 5 + numClasses];
+  }
+}
+
+/** The native manifest shape checks, on scripted metadata (a dynamic class dimension always fits) */
+function checkManifestShapes(
+  numLabels: number,
+  inputSize: number,
+  config: ModelConfig,
+  inputs: TensorMetadata[],
+  outputs: TensorMetadata[]
+): void {
+  const input = config.inputName ? inputs.find(tensor => tensor.name === config.inputName) : inputs[0];
+  if (input?.shape.length === 4 && input.shape.slice(2).some(dim => dim > 0 && dim !== inputSize)) {
+    throw nativeError({
+      code: 'MODEL_SHAPE_MISMATCH',
+      message:
+        `Model input '${input.name}' has shape [${input.shape.join(', ')}] ` +
+        `but the manifest's inputSize is ${inputSize}`
+    });
+  }
+
+  const output = config.outputName ? outputs.find(tensor => tensor.name === config.outputName) : outputs[0];
+  if (!output) {
+    return;
+  }
+  const layout = config.outputLayout ?? 'yolov8_transposed';
+  const shape = `[${output.shape.join(', ')}]`;
+  if (output.shape.length !== 3) {
+    throw nativeError({
+      code: 'MODEL_SHAPE_MISMATCH',
+      message: `Model output '${output.name}' has shape ${shape}; detectors need a 3-dimensional YOLO output`
+    });
+  }
+  const columns = output.shape[layout === 'yolov8_transposed' ? 1 : 2];
+  const classes = columns - (layout === 'yolov5' ? 5 : 4);
+  if (columns > 0 && classes !== numLabels) {
+    throw nativeError({
+      code: 'MODEL_SHAPE_MISMATCH',
+      message:
+        `Model output '${output.name}' has shape ${shape}, which is ${classes} classes ` +
+        `in the ${layout} layout, but the manifest lists ${numLabels} labels`
+    });
+  }
+}
+
+function errorMessage(error: MockError): string {
+  return error.message ?? `Simulated ${error.code}`;
+}
+
+// Result fields each analyzeComprehensive() request produces
+const COMPREHENSIVE_FIELDS: Record<ComprehensiveAnalysisRequest, (keyof ComprehensiveAnalysis)[]> = {
+  scenes: ['scenes'],
+  faces: ['faces', 'faceCount'],
+  animals: ['animals', 'animalCount'],
+  humans: ['humanCount', 'hasHumans'],
+  text: ['hasText', 'textRegions', 'texts'],
+  rectangles: ['rectangles', 'likelyScreenshot', 'detectedRectangles']
+};
+
+/**
+ * The part of a scripted analysis that the native analyzers would return for these options
+ */
+function selectComprehensiveFields(
+  analysis: ComprehensiveAnalysis,
+  options: Required<ComprehensiveAnalysisOptions>
+): ComprehensiveAnalysis {
+  const selected: Record<string, unknown> = {};
+  for (const request of options.requests) {
+    for (const field of COMPREHENSIVE_FIELDS[request]) {
+      if (analysis[field] !== undefined) selected[field] = analysis[field];
+    }
+  }
+
+  const result = selected as ComprehensiveAnalysis;
+  if (result.scenes) result.scenes = result.scenes.slice(0, Math.max(0, options.maxScenes));
+  if (!options.includeText) delete result.texts;
+  if (!options.includeRectangleCorners) delete result.detectedRectangles;
+  if (result.faces && !options.includeFaceLandmarks) {
+    result.faces = result.faces.map(({ landmarks: _landmarks, captureQuality: _quality, ...face }) => face);
+  }
+  return result;
+}
+
+function copyDetections(detections: Detection[]): Detection[] {
+  return detections.map(detection => ({ ...detection, box: [...detection.box] }));
+}
+
+/**
+ * Copies of the detections the native post-processing keeps at this confidence threshold
+ */
+function aboveThreshold(detections: Detection[], confidenceThreshold: number): Detection[] {
+  return copyDetections(detections.filter(detection => detection.score >= confidenceThreshold));
+}
+
+function imageIsSensitive(image: MockImage): boolean {
+  return (
+    image.sensitive ??
+    (image.detections ?? []).some(detection => isFlagged(detection, NUDENET_CONTENT_POLICY, 0.6))
+  );
+}
+
+function videoIsSensitive(video: MockVideo): boolean {
+  return (
+    video.sensitive ??
+    Object.values(video.timeline ?? {}).some(detections =>
+      detections.some(detection => isFlagged(detection, NUDENET_CONTENT_POLICY, 0.6))
+    )
+  );
+}
+
+/**
+ * Detections of the last keyframe at or before `timestamp`
+ */
+function detectionsAt(video: MockVideo, timestamp: number): Detection[] {
+  let current: Detection[] = [];
+  let currentTime = -Infinity;
+  for (const [key, detections] of Object.entries(video.timeline ?? {})) {
+    const time = Number(key);
+    if (time <= timestamp && time > currentTime) {
+      current = detections;
+      currentTime = time;
+    }
+  }
+  return current;
+}
+
+function debugInfo(detector: MockDetector, detections: Detection[], latency: number): InferenceDebugInfo {
+  const maxClassScores: Record<string, number> = {};
+  for (const label of detector.classLabels) {
+    maxClassScores[label] = 0;
+  }
+  for (const detection of detections) {
+    maxClassScores[detection.className] = Math.max(maxClassScores[detection.className] ?? 0, detection.score);
+  }
+
+  return {
+    numPredictions: detections.length,
+    candidateCount: detections.length,
+    candidateThreshold: 0.01,
+    preNMSDetections: copyDetections(detections),
+    maxClassScores,
+    outputShape: [],
+    outputLayout: detector.config.outputLayout ?? 'yolov8_transposed',
+    letterbox: { mode: detector.config.letterbox ?? 'top_left', scaleX: 1, scaleY: 1, padX: 0, padY: 0 },
+    timing: { decode: 0, preprocess: 0, inference: latency, parse: 0, nms: 0, recovery: 0 }
+  };
+}
@@ -0,0 +1,407 @@
+import type { ContentPolicy } from './detector';
+import { VisionMLError, isVisionMLError } from './errors';
+import { VIDEO_DETECTION_EVENT, VIDEO_PROGRESS_EVENT, addNativeListener, callNative, scheduleNative } from './native';
+import { withResultCache } from './resultCache';
+import type { WorkPriority } from './scheduler';
+import type { NativeVideoAnalysisResult } from './videoSampling';
+import { toNativeVideoSource, videoCacheId } from './videoSource';
+import { mergeVideoSegments } from './videoTimeline';
+import type { VideoTimeline } from './videoTimeline';
+import { trackVideoFrames } from './videoTracking';
+import type { VideoTracking, VideoTrackingOptions } from './videoTracking';
+
+let videoScanCounter = 0;
+
+// MARK: - Video Analysis Types
+
+/**
+ * Video scan mode determines sampling strategy
+ */
+export type VideoScanMode =
+  | 'quick_check'         // Just check start, middle, end (3 frames, fastest)
+  | 'sampled'             // Check at regular intervals
+  | 'thorough'            // Vision human detection first, then ONNX only on human frames (best for newer devices)
+  | 'binary_search'       // Start at middle, expand outward (fallback for older devices)
+  | 'full_short_circuit'  // Check every N seconds, stop at first detection
+  | 'adaptive';           // Check at intervals, then densify around frames scoring near the threshold
+
+/**
+ * Video to analyze
+ * - string: a file when it starts with file:// or '/', otherwise a MediaLibrary asset ID
+ * - { uri }: file:// URI or absolute path, e.g. a freshly recorded or downloaded clip
+ * - { assetId }: Photos local identifier / MediaStore ID or content:// URI
+ */
+export type VideoInput = string | { uri: string } | { assetId: string };
+
+/**
+ * Result from video analysis
+ * A frame counts as NSFW when it has a detection flagged by the content policy
+ */
+export interface VideoAnalysisResult {
+  /** Whether any NSFW content was detected */
+  isNSFW: boolean;
+  /** Number of frames with NSFW content */
+  nsfwFrameCount: number;
+  /** Total frames that were analyzed */
+  totalFramesAnalyzed: number;
+  /** Timestamp of first NSFW frame (seconds), null if none found */
+  firstNSFWTimestamp: number | null;
+  /** All timestamps where NSFW was detected (seconds) */
+  nsfwTimestamps: number[];
+  /** Highest NSFW confidence score found */
+  highestConfidence: number;
+  /** Total processing time in milliseconds */
+  totalProcessingTime: number;
+  /** Video duration in seconds */
+  videoDuration: number;
+  /** Start of the scanned window (seconds); 0 without `startTime` */
+  startTime: number;
+  /** End of the scanned window (seconds); videoDuration without `endTime` */
+  endTime: number;
+  /** Scan mode that was used */
+  scanMode: string;
+  /** Frames where Vision detected humans (thorough mode only) */
+  humanFramesDetected: number;
+  /** Per-frame detections and merged flagged segments, only present with `timeline: true` */
+  timeline?: VideoTimeline;
+  /** Detections linked across frames into distinct objects, only present with `tracking` */
+  tracking?: VideoTracking;
+}
+
+/**
+ * Phase of a running video scan
+ * - 'human_scan': Vision human pre-filter pass (thorough mode only)
+ * - 'analyzing': ONNX analysis of sampled frames
+ */
+export type VideoScanPhase = 'human_scan' | 'analyzing';
+
+/**
+ * Progress update emitted while a video scan is running
+ */
+export interface VideoScanProgress {
+  /** ID of the scan this update belongs to */
+  scanId: string;
+  /** Progress from 0.0 to 1.0 */
+  progress: number;
+  /** Current scan phase */
+  phase: VideoScanPhase;
+  /** Frames run through ONNX so far */
+  framesAnalyzed: number;
+  /** Frames with NSFW content found so far */
+  nsfwFrameCount: number;
+}
+
+/**
+ * Emitted each time a sampled frame is found to contain NSFW content
+ */
+export interface VideoScanDetection {
+  /** ID of the scan this detection belongs to */
+  scanId: string;
+  /** Frame timestamp (seconds) */
+  timestamp: number;
+  /** Highest NSFW confidence score in the frame */
+  confidence: number;
+}
+
+/**
+ * Progress callbacks, cancellation and scheduling for a video scan
+ */
+export interface VideoScanObserver {
+  /** Called as frames are analyzed; values can be passed straight to updateVideoScanActivity() */
+  onProgress?: (progress: VideoScanProgress) => void;
+  /** Called for every frame with NSFW content, before the scan completes */
+  onDetection?: (detection: VideoScanDetection) => void;
+  /**
+   * Aborting the signal stops the scan after the current frame, or removes it from the scheduler's queue.
+   * The returned promise then rejects with code 'VIDEO_ANALYSIS_CANCELLED'.
+   */
+  signal?: AbortSignal;
+  /** Scheduler lane (default: 'background' for analyzeVideo(), 'interactive' for quickCheckVideo()) */
+  priority?: WorkPriority;
+}
+
+/**
+ * Options for video analysis
+ */
+export interface VideoAnalysisOptions extends VideoScanObserver {
+  /** Scan mode (default: 'sampled') */
+  mode?: VideoScanMode;
+  /** Seconds between samples for 'sampled', 'full_short_circuit' and 'adaptive' modes (default: 5.0) */
+  sampleInterval?: number;
+  /** Only scan from this many seconds into the video (default: 0) */
+  startTime?: number;
+  /** Only scan up to this many seconds into the video, clamped to the duration (default: the duration) */
+  endTime?: number;
+  /** Minimum confidence threshold (default: 0.6) */
+  confidenceThreshold?: number;
+  /** Content policy deciding which frames are NSFW (default: NUDENET_CONTENT_POLICY) */
+  policy?: ContentPolicy;
+  /** Return every analyzed frame's detections and merged flagged segments in `timeline` (default: false) */
+  timeline?: boolean;
+  /** Largest gap in seconds bridged between flagged frames of one segment (default: sampleInterval) */
+  segmentGapTolerance?: number;
+  /** Link detections across frames into tracks, returned in `tracking`; true uses the default options (default: false) */
+  tracking?: boolean | VideoTrackingOptions;
+  /** Longest gap in seconds a track is carried across without a detection (default: sampleInterval) */
+  trackGapTolerance?: number;
+}
+
+/**
+ * Options for quickCheckVideo
+ */
+export interface QuickCheckOptions extends VideoScanObserver {
+  /** Content policy deciding which frames are NSFW (default: NUDENET_CONTENT_POLICY) */
+  policy?: ContentPolicy;
+}
+
+/**
+ * Run a native video scan with its events routed to the observer
+ * Subscriptions are removed when the scan settles
+ */
+async function runVideoScan<T extends VideoAnalysisResult>(
+  observer: VideoScanObserver,
+  start: (scanId: string) => Promise<T>
+): Promise<T> {
+  const { onProgress, onDetection, signal } = observer;
+
+  if (signal?.aborted) {
+    throw new VisionMLError('VIDEO_ANALYSIS_CANCELLED', 'Video analysis was cancelled');
+  }
+
+  videoScanCounter += 1;
+  const scanId = `video_scan_${Date.now()}_${videoScanCounter}`;
+
+  const subscriptions: Array<{ remove(): void }> = [];
+  if (onProgress) {
+    subscriptions.push(
+      addNativeListener<VideoScanProgress>(VIDEO_PROGRESS_EVENT, event => {
+        if (event.scanId === scanId) onProgress(event);
+      })
+    );
+  }
+  if (onDetection) {
+    subscriptions.push(
+      addNativeListener<VideoScanDetection>(VIDEO_DETECTION_EVENT, event => {
+        if (event.scanId === scanId) onDetection(event);
+      })
+    );
+  }
+
+  const onAbort = () => {
+    // The scan promise reports the cancellation; nothing to surface here
+    callNative('cancelVideoAnalysis', scanId).catch(() => {});
+  };
+  signal?.addEventListener('abort', onAbort);
+
+  let result: T;
+  try {
+    result = await start(scanId);
+  } catch (error) {
+    // Aborted while still queued behind other work, or failed after the abort
+    if (signal?.aborted && !isVisionMLError(error, 'VIDEO_ANALYSIS_CANCELLED')) {
+      throw new VisionMLError('VIDEO_ANALYSIS_CANCELLED', 'Video analysis was cancelled', { cause: error });
+    }
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    subscriptions.forEach(subscription => subscription.remove());
+  }
+
+  // The scan can finish before the native cancel reaches it; an aborted scan never resolves
+  if (signal?.aborted) {
+    throw new VisionMLError('VIDEO_ANALYSIS_CANCELLED', 'Video analysis was cancelled');
+  }
+  return result;
+}
+
+/**
+ * Analyze a video for NSFW content
+ *
+ * Uses Apple Vision framework for human detection pre-filtering,
+ * then runs ONNX NSFW detection only on frames with humans.
+ * Memory-efficient: processes one frame at a time.
+ *
+ * Scan Modes:
+ * - 'quick_check': Just check start, middle, end (3 frames, fastest)
+ * - 'sampled': Sample at regular intervals, analyze all samples
+ * - 'thorough': Use Vision to find human frames first, then ONNX those (best for newer devices)
+ * - 'binary_search': Start at middle, expand when NSFW found (fallback for older devices)
+ * - 'full_short_circuit': Sample every N seconds, stop at first detection
+ * - 'adaptive': Sample every N seconds, then halve the spacing around frames
+ *   scoring within 0.15 of the threshold, up to 3 rounds (down to 0.5s)
+ *
+ * The 'thorough' mode is recommended for newer devices as it:
+ * 1. Uses fast Vision framework to scan all frames for humans (~10ms/frame)
+ * 2. Only runs expensive ONNX on frames with humans (~200ms/frame)
+ * 3. Can skip 60-90% of frames in typical videos
+ *
+ * Use 'binary_search' on older devices where Vision framework is slow.
+ *
+ * Videos outside the library can be scanned by file URI, and `startTime` /
+ * `endTime` limit the scan to part of the clip. Timestamps in the result are
+ * always seconds from the start of the video:
+ *
+ * ```typescript
+ * const result = await analyzeVideo(detectorId, 'file:///tmp/upload.mp4', {
+ *   mode: 'adaptive',
+ *   startTime: 30,
+ *   endTime: 90
+ * });
+ * ```
+ *
+ * Pass `onProgress` / `onDetection` to follow the scan while it runs, and
+ * `signal` to cancel it:
+ *
+ * ```typescript
+ * const controller = new AbortController();
+ * const result = await analyzeVideo(detectorId, assetId, {
+ *   mode: 'thorough',
+ *   signal: controller.signal,
+ *   onProgress: p => updateVideoScanActivity(p.progress, p.phase, p.nsfwFrameCount, p.framesAnalyzed),
+ * });
+ * ```
+ *
+ * Pass `timeline: true` to get every analyzed frame's detections plus the
+ * flagged stretches merged into `{ start, end, peakScore, classes }` segments,
+ * ready for exportVideoTimeline().
+ *
+ * `nsfwFrameCount` counts every flagged sample, so one region visible for
+ * 40 samples is 40 hits. Pass `tracking` to link detections between samples
+ * into tracks with stable IDs, first/last seen timestamps and peak scores;
+ * `tracking.flaggedTrackCount` then counts distinct occurrences:
+ *
+ * ```typescript
+ * const { tracking } = await analyzeVideo(detectorId, assetId, { sampleInterval: 1, tracking: true });
+ * console.log(`${tracking!.flaggedTrackCount} distinct occurrences`);
+ * ```
+ *
+ * With a ResultCache installed (setResultCache()), an unchanged video scanned
+ * again with the same model and options resolves from the cache without
+ * progress or detection events.
+ *
+ * @param detectorId - Detector instance ID from createDetector()
+ * @param video - MediaLibrary asset ID or video file URI
+ * @param options - Analysis options, progress callbacks and abort signal
+ * @returns Video analysis result with humanFramesDetected count
+ */
+export async function analyzeVideo(
+  detectorId: string,
+  video: VideoInput,
+  options: VideoAnalysisOptions = {}
+): Promise<VideoAnalysisResult> {
+  const {
+    mode = 'sampled',
+    sampleInterval = 5.0,
+    confidenceThreshold = 0.6,
+    policy = null,
+    startTime,
+    endTime,
+    timeline = false,
+    segmentGapTolerance = sampleInterval,
+    tracking = false,
+    trackGapTolerance = sampleInterval,
+    priority = 'background',
+    signal
+  } = options;
+  // Tracks are built from the per-frame detections the timeline carries
+  const withFrames = timeline || tracking !== false;
+
+  const range = videoRange(startTime, endTime);
+  const source = toNativeVideoSource(video);
+
+  // The native result (with frames) is cached, so segments and tracks are rebuilt with the current options
+  const { frames, ...result } = await withResultCache(
+    'video',
+    videoCacheId(source),
+    detectorId,
+    { mode, sampleInterval, confidenceThreshold, policy, timeline: withFrames, range },
+    () =>
+      runVideoScan(options, scanId =>
+        scheduleNative<NativeVideoAnalysisResult>(
+          { priority, signal, detectorId },
+          'analyzeVideo',
+          detectorId,
+          source,
+          mode,
+          sampleInterval,
+          confidenceThreshold,
+          policy,
+          scanId,
+          withFrames,
+          range
+        )
+      )
+  );
+
+  return {
+    ...result,
+    ...(timeline
+      ? {
+          timeline: {
+            frames: frames ?? [],
+            segments: mergeVideoSegments(frames ?? [], segmentGapTolerance),
+            gapTolerance: segmentGapTolerance
+          }
+        }
+      : {}),
+    ...(tracking !== false
+      ? { tracking: trackVideoFrames(frames ?? [], trackGapTolerance, tracking === true ? {} : tracking) }
+      : {})
+  };
+}
+
+/**
+ * Quick check a video (start, middle, end only)
+ *
+ * Fastest video analysis - only checks 3 frames.
+ * Good for initial screening, may miss content in between.
+ *
+ * @param detectorId - Detector instance ID from createDetector()
+ * @param video - MediaLibrary asset ID or video file URI
+ * @param confidenceThreshold - Minimum confidence threshold (default: 0.6)
+ * @param options - Content policy, progress callbacks and abort signal
+ * @returns Video analysis result
+ */
+export async function quickCheckVideo(
+  detectorId: string,
+  video: VideoInput,
+  confidenceThreshold: number = 0.6,
+  options: QuickCheckOptions = {}
+): Promise<VideoAnalysisResult> {
+  const { policy = null, priority = 'interactive', signal } = options;
+  const source = toNativeVideoSource(video);
+
+  return withResultCache('quick_check_video', videoCacheId(source), detectorId, { confidenceThreshold, policy }, () =>
+    runVideoScan(options, scanId =>
+      scheduleNative<VideoAnalysisResult>(
+        { priority, signal, detectorId },
+        'quickCheckVideo',
+        detectorId,
+        source,
+        confidenceThreshold,
+        policy,
+        scanId
+      )
+    )
+  );
+}
+
+/**
+ * Validate a startTime/endTime window; null when the whole video is scanned
+ * Native clamps endTime to the duration and rejects windows past the end.
+ */
+function videoRange(startTime?: number, endTime?: number): { startTime?: number; endTime?: number } | null {
+  if (startTime === undefined && endTime === undefined) {
+    return null;
+  }
+  if (
+    (startTime !== undefined && !(Number.isFinite(startTime) && startTime >= 0)) ||
+    (endTime !== undefined && !(Number.isFinite(endTime) && endTime > (startTime ?? 0)))
+  ) {
+    throw new VisionMLError('INVALID_VIDEO_RANGE', `Invalid video range ${startTime ?? 0}-${endTime ?? 'end'}s`);
+  }
+  return {
+    ...(startTime !== undefined ? { startTime } : {}),
+    ...(endTime !== undefined ? { endTime } : {})
+  };
+}
@@ -0,0 +1,345 @@
+import type { Detection } from './detector';
+import { VisionMLError } from './errors';
+import type { VideoAnalysisResult, VideoScanMode, VideoScanPhase } from './video';
+import type { VideoFrameResult } from './videoTimeline';
+
+// MARK: - Video Sampling
+//
+// TypeScript port of the frame sampling in VideoAnalyzer.swift / VideoAnalyzer.kt:
+// which timestamps each scan mode visits, in what order, when it stops early, and
+// how the result and progress are derived from the visited frames. Used by the
+// testing backend so fake videos go through the same plans as real ones; keep it
+// in sync with the native analyzers.
+
+/** Ratios of the scanned window visited by quick_check (start, middle, end) */
+const QUICK_CHECK_POINTS = [0.0, 0.5, 1.0];
+/** Seconds around the middle (and around each hit) visited by binary_search */
+const BINARY_SEARCH_WINDOW = 5.0;
+/** Expansion rounds for binary_search */
+const BINARY_SEARCH_DEPTH = 3;
+/** Score distance from a threshold that adaptive treats as near (detection runs this much lower) */
+export const ADAPTIVE_MARGIN = 0.15;
+/** Seconds; adaptive stops refining below this spacing */
+const ADAPTIVE_MIN_INTERVAL = 0.5;
+/** Refinement rounds for adaptive */
+const ADAPTIVE_DEPTH = 3;
+
+/**
+ * analyzeVideo() result as the native modules resolve it: `frames` is only sent when the timeline was requested
+ */
+export type NativeVideoAnalysisResult = VideoAnalysisResult & { frames?: VideoFrameResult[] };
+
+/**
+ * Outcome of analyzing one sampled frame
+ */
+export interface SampledFrame {
+  /** Whether the frame has a detection flagged by the content policy */
+  isNSFW: boolean;
+  /** Highest flagged score in the frame (0 when not NSFW) */
+  confidence: number;
+  /** All detections after NMS */
+  detections: Detection[];
+  /** Subset of detections flagged by the content policy */
+  flaggedDetections: Detection[];
+  /** Analyzed frame size */
+  width: number;
+  height: number;
+  /** A flagged label scored within ADAPTIVE_MARGIN of its threshold (used by 'adaptive') */
+  nearThreshold: boolean;
+}
+
+/**
+ * Frame source and event sink for a sampled scan
+ */
+export interface VideoSamplingDriver {
+  /** Platform whose analyzer is mirrored ('thorough' has no human pre-filter on Android) */
+  platform: 'ios' | 'android';
+  /** Analyze the frame at `timestamp`; null when it cannot be extracted (the frame is skipped, like native) */
+  analyzeFrame(timestamp: number): Promise<SampledFrame | null>;
+  /** Vision human pre-filter for 'thorough' mode on iOS */
+  hasHuman(timestamp: number): Promise<boolean>;
+  /** Checked before every frame */
+  isCancelled(): boolean;
+  onProgress?(progress: number, phase: VideoScanPhase, framesAnalyzed: number, nsfwFrameCount: number): void;
+  onDetection?(timestamp: number, confidence: number): void;
+}
+
+/**
+ * Optional parts of a scan plan
+ */
+export interface SampledScanOptions {
+  /** Return every analyzed frame as `frames`, like the native analyzers with the timeline requested */
+  timeline?: boolean;
+  /** Start of the scanned window (seconds) */
+  startTime?: number;
+  /** End of the scanned window (seconds), clamped to the duration */
+  endTime?: number;
+}
+
+interface FrameResult extends SampledFrame {
+  timestamp: number;
+}
+
+/**
+ * Part of the video a scan covers (seconds)
+ */
+interface ScanWindow {
+  start: number;
+  end: number;
+}
+
+/**
+ * Run a scan plan over a video of `duration` seconds
+ * Rejects with VIDEO_ANALYSIS_CANCELLED when the driver reports cancellation, discarding partial results,
+ * and with INVALID_VIDEO_RANGE when startTime/endTime select no part of the video.
+ */
+export async function runSampledScan(
+  mode: VideoScanMode,
+  duration: number,
+  sampleInterval: number,
+  driver: VideoSamplingDriver,
+  options: SampledScanOptions = {}
+): Promise<NativeVideoAnalysisResult> {
+  const { timeline = false } = options;
+  const startTime = Date.now();
+  const interval = sampleInterval > 0 ? sampleInterval : 5.0;
+
+  const window: ScanWindow = {
+    start: Math.max(0, options.startTime ?? 0),
+    end: Math.min(duration, options.endTime ?? duration)
+  };
+  const length = window.end - window.start;
+  if ((options.startTime !== undefined || options.endTime !== undefined) && length <= 0) {
+    throw new VisionMLError('INVALID_VIDEO_RANGE', 'startTime/endTime window is empty or outside the video');
+  }
+  const results: FrameResult[] = [];
+  let phase: VideoScanPhase = 'analyzing';
+  let nsfwFrameCount = 0;
+
+  const progress = (value: number) =>
+    driver.onProgress?.(Math.min(Math.max(value, 0), 1), phase, results.length, nsfwFrameCount);
+
+  const analyze = async (timestamp: number): Promise<FrameResult | null> => {
+    const frame = await driver.analyzeFrame(timestamp);
+    if (!frame) return null;
+    const result = { ...frame, timestamp };
+    results.push(result);
+    if (result.isNSFW) {
+      nsfwFrameCount += 1;
+      driver.onDetection?.(timestamp, result.confidence);
+    }
+    return result;
+  };
+
+  let humanFrames = 0;
+
+  switch (mode) {
+    case 'quick_check': {
+      const timestamps = QUICK_CHECK_POINTS.map(point => window.start + point * Math.max(0.1, length - 0.1));
+      for (const [index, timestamp] of timestamps.entries()) {
+        if (driver.isCancelled()) break;
+        progress(index / timestamps.length);
+        await analyze(timestamp);
+      }
+      break;
+    }
+
+    case 'sampled':
+    case 'full_short_circuit': {
+      const timestamps = sampledTimestamps(window, interval);
+      for (const [index, timestamp] of timestamps.entries()) {
+        if (driver.isCancelled()) break;
+        progress(index / timestamps.length);
+        const result = await analyze(timestamp);
+        if (result?.isNSFW && mode === 'full_short_circuit') break;
+      }
+      break;
+    }
+
+    case 'thorough': {
+      let candidates = intervalTimestamps(window, interval);
+
+      if (driver.platform === 'ios') {
+        // Phase 1: Vision human pre-filter (0-50%)
+        phase = 'human_scan';
+        const totalFrames = Math.floor(length / interval) + 1;
+        const humans: number[] = [];
+        for (const [index, timestamp] of candidates.entries()) {
+          if (driver.isCancelled()) break;
+          progress((index / totalFrames) * 0.5);
+          if (await driver.hasHuman(timestamp)) {
+            humans.push(timestamp);
+          }
+        }
+        candidates = humans;
+        phase = 'analyzing';
+
+        if (candidates.length === 0) {
+          if (driver.isCancelled()) break;
+          // No humans = no NSFW content
+          return {
+            isNSFW: false,
+            nsfwFrameCount: 0,
+            totalFramesAnalyzed: Math.floor(length / interval),
+            firstNSFWTimestamp: null,
+            nsfwTimestamps: [],
+            highestConfidence: 0,
+            totalProcessingTime: Date.now() - startTime,
+            videoDuration: duration,
+            startTime: window.start,
+            endTime: window.end,
+            scanMode: mode,
+            humanFramesDetected: 0,
+            ...(timeline ? { frames: [] } : {})
+          };
+        }
+      }
+
+      // Phase 2: ONNX on candidate frames (50-100% on iOS)
+      const offset = driver.platform === 'ios' ? 0.5 : 0;
+      const span = 1 - offset;
+      for (const [index, timestamp] of candidates.entries()) {
+        if (driver.isCancelled()) break;
+        progress(offset + (index / candidates.length) * span);
+        await analyze(timestamp);
+      }
+      humanFrames = candidates.length;
+      break;
+    }
+
+    case 'binary_search': {
+      const analyzed = new Set<number>();
+      const expected = Math.max(1, Math.min(50, Math.floor(length / 2)));
+      const middle = window.start + length / 2.0;
+
+      // Start with middle ± window
+      let queue: number[] = [];
+      for (let offset = -BINARY_SEARCH_WINDOW; offset <= BINARY_SEARCH_WINDOW; offset += 1.0) {
+        const t = middle + offset;
+        if (t >= window.start && t <= window.end) queue.push(t);
+      }
+
+      for (let depth = 0; depth < BINARY_SEARCH_DEPTH && queue.length > 0; depth++) {
+        if (driver.isCancelled()) break;
+        const nextQueue: number[] = [];
+
+        for (const timestamp of queue) {
+          const rounded = Math.round(timestamp * 2) / 2;
+          if (analyzed.has(rounded)) continue;
+          analyzed.add(rounded);
+
+          progress(analyzed.size / expected);
+          const result = await analyze(timestamp);
+
+          // Expand around hits
+          if (result?.isNSFW) {
+            const before = timestamp - BINARY_SEARCH_WINDOW;
+            const after = timestamp + BINARY_SEARCH_WINDOW;
+            if (before >= window.start) nextQueue.push(before);
+            if (after <= window.end) nextQueue.push(after);
+          }
+        }
+
+        queue = nextQueue;
+      }
+      break;
+    }
+
+    case 'adaptive': {
+      const visited = new Set<number>();
+
+      // Pass 1: regular samples (0-50%)
+      const timestamps = sampledTimestamps(window, interval);
+      for (const [index, timestamp] of timestamps.entries()) {
+        if (driver.isCancelled()) break;
+        visited.add(Math.round(timestamp * 10) / 10);
+        progress((index / timestamps.length) * 0.5);
+        await analyze(timestamp);
+      }
+
+      // Pass 2: halve the spacing around near-threshold frames each round (50-100%)
+      let step = interval;
+      for (let depth = 0; depth < ADAPTIVE_DEPTH; depth++) {
+        step /= 2;
+        if (driver.isCancelled() || step < ADAPTIVE_MIN_INTERVAL) break;
+
+        const queue: number[] = [];
+        for (const frame of results.filter(result => result.nearThreshold)) {
+          for (const t of [frame.timestamp - step, frame.timestamp + step]) {
+            const rounded = Math.round(t * 10) / 10;
+            if (t >= window.start && t <= window.end && !visited.has(rounded)) {
+              visited.add(rounded);
+              queue.push(t);
+            }
+          }
+        }
+        if (queue.length === 0) break;
+
+        for (const [index, timestamp] of queue.entries()) {
+          if (driver.isCancelled()) break;
+          progress(0.5 + ((depth + index / queue.length) / ADAPTIVE_DEPTH) * 0.5);
+          await analyze(timestamp);
+        }
+      }
+      break;
+    }
+  }
+
+  // Partial results are discarded when the caller cancelled mid-scan
+  if (driver.isCancelled()) {
+    throw new VisionMLError('VIDEO_ANALYSIS_CANCELLED', 'Video analysis was cancelled');
+  }
+
+  const nsfwFrames = results.filter(frame => frame.isNSFW);
+  progress(1.0);
+
+  return {
+    isNSFW: nsfwFrames.length > 0,
+    nsfwFrameCount: nsfwFrames.length,
+    totalFramesAnalyzed: results.length,
+    firstNSFWTimestamp: nsfwFrames.length > 0 ? nsfwFrames[0].timestamp : null,
+    nsfwTimestamps: nsfwFrames.map(frame => frame.timestamp).sort((a, b) => a - b),
+    highestConfidence: results.reduce((max, frame) => Math.max(max, frame.confidence), 0),
+    totalProcessingTime: Date.now() - startTime,
+    videoDuration: duration,
+    startTime: window.start,
+    endTime: window.end,
+    scanMode: mode,
+    humanFramesDetected: humanFrames,
+    ...(timeline ? { frames: [...results].sort((a, b) => a.timestamp - b.timestamp).map(toVideoFrame) } : {})
+  };
+}
+
+function toVideoFrame(frame: FrameResult): VideoFrameResult {
+  return {
+    timestamp: frame.timestamp,
+    detections: frame.detections,
+    flaggedDetections: frame.flaggedDetections,
+    isFlagged: frame.isNSFW,
+    width: frame.width,
+    height: frame.height
+  };
+}
+
+/**
+ * start, start + interval, ... while inside the window
+ */
+function intervalTimestamps(window: ScanWindow, interval: number): number[] {
+  const timestamps: number[] = [];
+  for (let t = window.start; t < window.end; t += interval) {
+    timestamps.push(t);
+  }
+  return timestamps;
+}
+
+/**
+ * intervalTimestamps() plus a near-end frame, as 'sampled' visits them
+ */
+function sampledTimestamps(window: ScanWindow, interval: number): number[] {
+  const timestamps = intervalTimestamps(window, interval);
+  // Include near-end frame
+  if ((timestamps[timestamps.length - 1] ?? window.start) < window.end - 1.0) {
+    timestamps.push(Math.max(window.start, window.end - 0.5));
+  }
+  return timestamps;
+}
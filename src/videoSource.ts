@@ -0,0 +1,31 @@
+import type { VideoInput } from './video';
+
+// MARK: - Video Sources
+//
+// analyzeVideo() accepts asset IDs and video files; the native modules
+// receive exactly one of these dictionaries:
+//   { uri }        file:// URI or absolute path to a video file
+//   { assetId }    Photos local identifier / MediaStore ID or content:// URI
+
+/**
+ * Video source in the shape the native analyzeVideo() methods expect
+ */
+export type NativeVideoSource = { uri: string } | { assetId: string };
+
+/**
+ * Convert an analyzeVideo() input to its native dictionary
+ * Bare strings are files when they look like one (file:// or absolute path), asset IDs otherwise.
+ */
+export function toNativeVideoSource(input: VideoInput): NativeVideoSource {
+  if (typeof input !== 'string') {
+    return 'uri' in input ? { uri: input.uri } : { assetId: input.assetId };
+  }
+  return input.startsWith('file://') || input.startsWith('/') ? { uri: input } : { assetId: input };
+}
+
+/**
+ * Asset ID or file URI the result cache keys a source by
+ */
+export function videoCacheId(source: NativeVideoSource): string {
+  return 'uri' in source ? source.uri : source.assetId;
+}
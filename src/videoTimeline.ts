@@ -0,0 +1,172 @@
+import type { Detection } from './detector';
+
+// MARK: - Video Timeline Types
+
+/**
+ * One analyzed frame of a video scan run with `timeline: true`
+ */
+export interface VideoFrameResult {
+  /** Frame timestamp (seconds) */
+  timestamp: number;
+  /** All detections after NMS */
+  detections: Detection[];
+  /** Subset of detections flagged by the content policy */
+  flaggedDetections: Detection[];
+  /** Whether the frame has a flagged detection */
+  isFlagged: boolean;
+  /** Size of the analyzed frame, the space of its boxes (iOS scales frames down to 640px) */
+  width: number;
+  height: number;
+}
+
+/**
+ * Flagged stretch of a video, merged from consecutive flagged frames
+ */
+export interface VideoSegment {
+  /** Timestamp of the first flagged frame (seconds) */
+  start: number;
+  /** Timestamp of the last flagged frame (seconds); equals start for a single frame */
+  end: number;
+  /** Highest flagged score in the segment */
+  peakScore: number;
+  /** Flagged class labels in the segment, in order of first appearance */
+  classes: string[];
+}
+
+/**
+ * Per-frame detections and merged flagged segments of a video scan
+ */
+export interface VideoTimeline {
+  /** Every analyzed frame in timestamp order */
+  frames: VideoFrameResult[];
+  /** Flagged segments in timestamp order */
+  segments: VideoSegment[];
+  /** Gap tolerance the segments were merged with (seconds) */
+  gapTolerance: number;
+}
+
+/**
+ * Export format for exportVideoTimeline()
+ * - json: `{ segments }` (plus `frames` with `includeFrames`)
+ * - webvtt: one cue per segment, for player chapter/caption tracks
+ */
+export type VideoTimelineExportFormat = 'json' | 'webvtt';
+
+/**
+ * Options for exportVideoTimeline()
+ */
+export interface VideoTimelineExportOptions {
+  /** Include per-frame detections in JSON output (default: false) */
+  includeFrames?: boolean;
+  /** Minimum WebVTT cue length in seconds, so single-frame segments stay visible in players (default: 1) */
+  minCueDuration?: number;
+}
+
+/**
+ * Slack when comparing gaps between sample timestamps, which come from repeated
+ * float addition, so rounding noise doesn't split segments or drop tracks
+ */
+export const GAP_EPSILON = 1e-6;
+
+// MARK: - Segments
+
+/**
+ * Merge flagged frames into segments
+ *
+ * Flagged frames at most `gapTolerance` seconds apart join the same segment,
+ * even if an unflagged frame was sampled between them. Frames may be in any
+ * order (binary_search visits them out of order).
+ *
+ * @param frames - Analyzed frames from VideoTimeline.frames
+ * @param gapTolerance - Largest gap in seconds bridged between flagged frames
+ * @returns Segments in timestamp order
+ */
+export function mergeVideoSegments(frames: VideoFrameResult[], gapTolerance: number): VideoSegment[] {
+  const flagged = frames
+    .filter(frame => frame.isFlagged)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const segments: VideoSegment[] = [];
+  let current: VideoSegment | null = null;
+
+  for (const frame of flagged) {
+    const peakScore = frame.flaggedDetections.reduce((max, detection) => Math.max(max, detection.score), 0);
+    if (current && frame.timestamp - current.end <= gapTolerance + GAP_EPSILON) {
+      current.end = frame.timestamp;
+      current.peakScore = Math.max(current.peakScore, peakScore);
+    } else {
+      current = { start: frame.timestamp, end: frame.timestamp, peakScore, classes: [] };
+      segments.push(current);
+    }
+    for (const detection of frame.flaggedDetections) {
+      if (!current.classes.includes(detection.className)) {
+        current.classes.push(detection.className);
+      }
+    }
+  }
+
+  return segments;
+}
+
+// MARK: - Export
+
+/**
+ * Serialize a timeline for reviewers' tools
+ *
+ * ```typescript
+ * const result = await analyzeVideo(detectorId, assetId, { timeline: true });
+ * const vtt = exportVideoTimeline(result.timeline!, 'webvtt');
+ * // WEBVTT
+ * //
+ * // 1
+ * // 00:00:12.000 --> 00:00:16.000
+ * // FEMALE_BREAST_EXPOSED (peak 0.91)
+ * ```
+ *
+ * @param timeline - Timeline from VideoAnalysisResult.timeline
+ * @param format - 'json' or 'webvtt'
+ * @param options - Frame inclusion (JSON) and minimum cue length (WebVTT)
+ * @returns File contents
+ */
+export function exportVideoTimeline(
+  timeline: VideoTimeline,
+  format: VideoTimelineExportFormat,
+  options: VideoTimelineExportOptions = {}
+): string {
+  const { includeFrames = false, minCueDuration = 1 } = options;
+
+  if (format === 'json') {
+    return JSON.stringify(
+      {
+        gapTolerance: timeline.gapTolerance,
+        segments: timeline.segments,
+        ...(includeFrames ? { frames: timeline.frames } : {})
+      },
+      null,
+      2
+    );
+  }
+
+  const cues = timeline.segments.map((segment, index) => {
+    const end = Math.max(segment.end, segment.start + minCueDuration);
+    return [
+      String(index + 1),
+      `${formatCueTime(segment.start)} --> ${formatCueTime(end)}`,
+      `${segment.classes.join(', ')} (peak ${segment.peakScore.toFixed(2)})`
+    ].join('\n');
+  });
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+/**
+ * Seconds as a WebVTT timestamp (hh:mm:ss.ttt)
+ */
+function formatCueTime(seconds: number): string {
+  const totalMs = Math.round(Math.max(0, seconds) * 1000);
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length: number) => String(value).padStart(length, '0');
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(secs, 2)}.${pad(ms, 3)}`;
+}
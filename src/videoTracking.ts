@@ -0,0 +1,203 @@
+import type { Detection } from './detector';
+import { iou } from './geometry';
+import type { BoxXYXY } from './geometry';
+import { GAP_EPSILON } from './videoTimeline';
+import type { VideoFrameResult } from './videoTimeline';
+
+// MARK: - Video Tracking Types
+
+/**
+ * How detections in consecutive samples are linked
+ * - iou: boxes overlap by at least iouThreshold (objects that move little between samples)
+ * - centroid: box centers are within maxCentroidDistance (faster motion, changing box sizes)
+ */
+export type VideoTrackingMethod = 'iou' | 'centroid';
+
+/**
+ * Options for trackVideoFrames() and analyzeVideo()'s `tracking`
+ */
+export interface VideoTrackingOptions {
+  /** Matching method (default: 'iou') */
+  method?: VideoTrackingMethod;
+  /** Smallest IoU linking a detection to a track with 'iou' (default: 0.3) */
+  iouThreshold?: number;
+  /** Largest center distance linking a detection to a track with 'centroid', as a fraction of the frame diagonal (default: 0.15) */
+  maxCentroidDistance?: number;
+  /** Track only policy-flagged detections, or every detection (default: 'flagged') */
+  include?: 'flagged' | 'all';
+}
+
+/**
+ * One object followed across samples
+ */
+export interface VideoTrack {
+  /** Stable ID, numbered from 1 in order of first appearance */
+  id: number;
+  /** Class label; detections only join tracks of their own class */
+  className: string;
+  /** Timestamp of the first sample the object was detected in (seconds) */
+  firstSeen: number;
+  /** Timestamp of the last sample the object was detected in (seconds) */
+  lastSeen: number;
+  /** Highest score of the object */
+  peakScore: number;
+  /** Timestamp of peakScore (seconds) */
+  peakTimestamp: number;
+  /** Box at peakTimestamp, in the frame's pixels */
+  peakBox: BoxXYXY;
+  /** Samples the object was detected in */
+  frameCount: number;
+  /** Whether the content policy flagged the object in any sample (always true with include: 'flagged') */
+  isFlagged: boolean;
+}
+
+/**
+ * Tracks of a video scan run with `tracking`
+ */
+export interface VideoTracking {
+  /** Tracks in order of first appearance */
+  tracks: VideoTrack[];
+  /** Distinct objects: tracks.length */
+  trackCount: number;
+  /** Tracks with a flagged detection */
+  flaggedTrackCount: number;
+  /** Tracks per class label */
+  countsByClass: Record<string, number>;
+  /** Longest gap in seconds a track was carried across without a detection */
+  gapTolerance: number;
+}
+
+/** Track being built, with the box of its latest detection to match against */
+interface ActiveTrack extends VideoTrack {
+  lastBox: BoxXYXY;
+}
+
+/** Candidate link between a track and a detection; lower cost links first */
+interface TrackMatch {
+  track: ActiveTrack;
+  detection: number;
+  cost: number;
+}
+
+// MARK: - Tracking
+
+/**
+ * Link detections across sampled frames into tracks
+ *
+ * Frames are visited in timestamp order (binary_search samples out of order).
+ * In each frame, detections are greedily matched to the same-class tracks last
+ * seen at most `gapTolerance` seconds earlier, closest match first; unmatched
+ * detections start new tracks. The same region flagged in 40 samples is then
+ * one track instead of 40 hits.
+ *
+ * ```typescript
+ * const result = await analyzeVideo(detectorId, assetId, { sampleInterval: 1, timeline: true });
+ * const { flaggedTrackCount } = trackVideoFrames(result.timeline!.frames, 1, { method: 'centroid' });
+ * ```
+ *
+ * @param frames - Analyzed frames from VideoTimeline.frames
+ * @param gapTolerance - Longest gap in seconds a track survives without a detection, usually the sample interval
+ * @param options - Matching method, its threshold and which detections to track
+ * @returns Tracks and track-level counts
+ */
+export function trackVideoFrames(
+  frames: VideoFrameResult[],
+  gapTolerance: number,
+  options: VideoTrackingOptions = {}
+): VideoTracking {
+  const { method = 'iou', iouThreshold = 0.3, maxCentroidDistance = 0.15, include = 'flagged' } = options;
+  const sorted = [...frames].sort((a, b) => a.timestamp - b.timestamp);
+  const tracks: ActiveTrack[] = [];
+
+  for (const frame of sorted) {
+    const detections = include === 'flagged' ? frame.flaggedDetections : frame.detections;
+    const flagged = detections.map(
+      detection => include === 'flagged' || frame.flaggedDetections.some(other => isSameDetection(detection, other))
+    );
+    const diagonal = Math.hypot(frame.width, frame.height) || 1;
+
+    const candidates = tracks.filter(track => frame.timestamp - track.lastSeen <= gapTolerance + GAP_EPSILON);
+    const matches: TrackMatch[] = [];
+    candidates.forEach(track => {
+      detections.forEach((detection, index) => {
+        if (detection.className !== track.className) {
+          return;
+        }
+        if (method === 'iou') {
+          const overlap = iou(track.lastBox, detection.box);
+          if (overlap >= iouThreshold) {
+            matches.push({ track, detection: index, cost: -overlap });
+          }
+        } else {
+          const distance = centroidDistance(track.lastBox, detection.box) / diagonal;
+          if (distance <= maxCentroidDistance) {
+            matches.push({ track, detection: index, cost: distance });
+          }
+        }
+      });
+    });
+    matches.sort((a, b) => a.cost - b.cost);
+
+    const matchedTracks = new Set<ActiveTrack>();
+    const matchedDetections = new Set<number>();
+    for (const match of matches) {
+      if (matchedTracks.has(match.track) || matchedDetections.has(match.detection)) {
+        continue;
+      }
+      matchedTracks.add(match.track);
+      matchedDetections.add(match.detection);
+      extendTrack(match.track, detections[match.detection], flagged[match.detection], frame.timestamp);
+    }
+
+    detections.forEach((detection, index) => {
+      if (!matchedDetections.has(index)) {
+        tracks.push({
+          id: tracks.length + 1,
+          className: detection.className,
+          firstSeen: frame.timestamp,
+          lastSeen: frame.timestamp,
+          peakScore: detection.score,
+          peakTimestamp: frame.timestamp,
+          peakBox: detection.box,
+          frameCount: 1,
+          isFlagged: flagged[index],
+          lastBox: detection.box
+        });
+      }
+    });
+  }
+
+  const countsByClass: Record<string, number> = {};
+  for (const track of tracks) {
+    countsByClass[track.className] = (countsByClass[track.className] ?? 0) + 1;
+  }
+
+  return {
+    tracks: tracks.map(({ lastBox, ...track }) => track),
+    trackCount: tracks.length,
+    flaggedTrackCount: tracks.filter(track => track.isFlagged).length,
+    countsByClass,
+    gapTolerance
+  };
+}
+
+function extendTrack(track: ActiveTrack, detection: Detection, flagged: boolean, timestamp: number): void {
+  track.lastSeen = timestamp;
+  track.lastBox = detection.box;
+  track.frameCount += 1;
+  track.isFlagged = track.isFlagged || flagged;
+  if (detection.score > track.peakScore) {
+    track.peakScore = detection.score;
+    track.peakTimestamp = timestamp;
+    track.peakBox = detection.box;
+  }
+}
+
+function centroidDistance(box1: BoxXYXY, box2: BoxXYXY): number {
+  return Math.hypot((box1[0] + box1[2] - box2[0] - box2[2]) / 2, (box1[1] + box1[3] - box2[1] - box2[3]) / 2);
+}
+
+/** flaggedDetections are copies after crossing the bridge, so compare by value */
+function isSameDetection(a: Detection, b: Detection): boolean {
+  return a.className === b.className && a.score === b.score && a.box.every((value, index) => value === b.box[index]);
+}
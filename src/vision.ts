@@ -0,0 +1,258 @@
+import { callNative, scheduleNative } from './native';
+import type { WorkPriority } from './scheduler';
+
+// MARK: - Vision Framework Types
+
+/**
+ * Normalized 0-1 box
+ * Face and animal boxes keep each framework's origin: bottom-left for Apple Vision, top-left for ML Kit.
+ */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Label {
+  identifier: string;
+  confidence: number;
+}
+
+export interface AnimalDetection {
+  boundingBox: BoundingBox;
+  confidence: number;
+  labels: Label[];
+}
+
+export interface AnimalAnalysis {
+  animals: AnimalDetection[];
+  count: number;
+}
+
+export interface BodyPoint {
+  x: number;
+  y: number;
+  confidence: number;
+}
+
+export interface HumanPose {
+  points: Record<string, BodyPoint>;
+  pointCount: number;
+}
+
+export interface HumanPoseAnalysis {
+  humans: HumanPose[];
+  humanCount: number;
+}
+
+/**
+ * Point normalized 0-1 to the analyzed image, origin at the top-left on both platforms
+ */
+export interface ImagePoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Face landmark regions common to Apple Vision and ML Kit
+ */
+export type FaceLandmarkRegion =
+  | 'faceContour'
+  | 'leftEye'
+  | 'rightEye'
+  | 'leftEyebrow'
+  | 'rightEyebrow'
+  | 'nose'
+  | 'outerLips'
+  | 'innerLips'
+  | 'leftPupil'
+  | 'rightPupil';
+
+export interface FaceDetection {
+  boundingBox: BoundingBox;
+  confidence: number;
+  /** Landmark outlines, only with `includeFaceLandmarks` (ML Kit outlines only the most prominent face) */
+  landmarks?: Partial<Record<FaceLandmarkRegion, ImagePoint[]>>;
+  /** Capture quality 0-1 for picking the best shot of a face, only with `includeFaceLandmarks` (iOS only) */
+  captureQuality?: number;
+}
+
+/**
+ * A recognized line of text
+ */
+export interface RecognizedText {
+  text: string;
+  /** Recognition confidence 0-1 (iOS only) */
+  confidence?: number;
+  /** Line bounds, normalized 0-1 with the origin at the top-left on both platforms */
+  boundingBox: BoundingBox;
+}
+
+/**
+ * A detected rectangle (document, screen, sign) as four corners
+ * ML Kit has no rectangle detector; Android reports the corners of text blocks instead.
+ */
+export interface DetectedRectangle {
+  topLeft: ImagePoint;
+  topRight: ImagePoint;
+  bottomRight: ImagePoint;
+  bottomLeft: ImagePoint;
+  /** Detection confidence 0-1 (iOS only) */
+  confidence?: number;
+}
+
+/**
+ * Analyses analyzeComprehensive() can run
+ * - scenes: scene classification (VNClassifyImageRequest / ML Kit image labeling)
+ * - faces: face detection
+ * - animals: cat/dog detection (Android: animal image labels)
+ * - humans: body pose detection
+ * - text: text recognition
+ * - rectangles: rectangle detection (Android: approximated from text blocks)
+ */
+export type ComprehensiveAnalysisRequest = 'scenes' | 'faces' | 'animals' | 'humans' | 'text' | 'rectangles';
+
+/**
+ * Options for analyzeComprehensive()
+ */
+export interface ComprehensiveAnalysisOptions {
+  /** Analyses to run; the result only has the fields of these (default: all) */
+  requests?: ComprehensiveAnalysisRequest[];
+  /** Maximum scene labels returned, highest confidence first (default: 10) */
+  maxScenes?: number;
+  /** Return the recognized text lines in `texts` (default: false) */
+  includeText?: boolean;
+  /** Add landmarks and capture quality to each face (default: false) */
+  includeFaceLandmarks?: boolean;
+  /** Return the corners of each rectangle in `detectedRectangles` (default: false) */
+  includeRectangleCorners?: boolean;
+  /** Scheduler lane (default: 'interactive') */
+  priority?: WorkPriority;
+}
+
+/** Every analysis, the default for ComprehensiveAnalysisOptions.requests */
+export const COMPREHENSIVE_ANALYSIS_REQUESTS: readonly ComprehensiveAnalysisRequest[] = [
+  'scenes',
+  'faces',
+  'animals',
+  'humans',
+  'text',
+  'rectangles'
+];
+
+export interface ComprehensiveAnalysis {
+  // Scene Classification (VNClassifyImageRequest)
+  scenes?: Array<{ identifier: string; confidence: number }>;
+
+  // Face Detection
+  faces?: FaceDetection[];
+  faceCount?: number;
+
+  // Animal Detection (VNRecognizeAnimalsRequest)
+  animals?: AnimalDetection[];
+  animalCount?: number;
+
+  // Human Pose Detection (VNDetectHumanBodyPoseRequest)
+  humanCount?: number;
+  hasHumans?: boolean;
+
+  // Text Detection
+  hasText?: boolean;
+  textRegions?: number;
+  /** Recognized lines, only with `includeText` */
+  texts?: RecognizedText[];
+
+  // Rectangle Detection (screenshots, documents)
+  rectangles?: number;
+  likelyScreenshot?: boolean;
+  /** Rectangle corners, only with `includeRectangleCorners` */
+  detectedRectangles?: DetectedRectangle[];
+}
+
+/**
+ * Detect animals in photos using VNRecognizeAnimalsRequest
+ * Currently supports cats and dogs with bounding boxes
+ *
+ * Use cases:
+ * - Filter pet photos for batch scanning
+ * - Identify photos that are unlikely to be NSFW
+ * - Provide additional metadata for photo organization
+ *
+ * @param assetId - Photo asset identifier from MediaLibrary
+ * @returns Animal detection results with bounding boxes and labels
+ */
+export async function analyzeAnimals(assetId: string): Promise<AnimalAnalysis> {
+  return callNative('analyzeAnimals', assetId);
+}
+
+/**
+ * Detect human body poses using VNDetectHumanBodyPoseRequest
+ * Returns up to 19 body joint points with confidence scores
+ *
+ * Use cases:
+ * - Detect fitness/exercise photos
+ * - Identify dance or sports photos
+ * - Provide additional context for scene understanding
+ *
+ * Note: Does not work in iOS Simulator, requires physical device
+ *
+ * @param assetId - Photo asset identifier from MediaLibrary
+ * @returns Human pose analysis with joint points
+ */
+export async function analyzeHumanPose(assetId: string): Promise<HumanPoseAnalysis> {
+  return callNative('analyzeHumanPose', assetId);
+}
+
+/**
+ * Comprehensive Vision framework analysis
+ * Runs the selected Vision detectors (all by default) in one pass:
+ * - VNClassifyImageRequest (scene classification, ~1000 categories)
+ * - VNDetectFaceRectanglesRequest (face detection)
+ * - VNRecognizeAnimalsRequest (cat/dog detection)
+ * - VNDetectHumanBodyPoseRequest (pose estimation)
+ * - VNRecognizeTextRequest (text detection)
+ * - VNDetectRectanglesRequest (screenshot detection)
+ *
+ * Use cases:
+ * - Deep photo analysis for categorization
+ * - Pre-screening before API calls
+ * - Rich metadata extraction for search
+ *
+ * Performance: ~200-400ms on modern devices with every request; pick only
+ * the analyses you need to cut that down.
+ *
+ * ```typescript
+ * // Search indexing: text and scene labels only
+ * const { texts, scenes } = await analyzeComprehensive(assetId, {
+ *   requests: ['text', 'scenes'],
+ *   includeText: true,
+ *   maxScenes: 5
+ * });
+ * ```
+ *
+ * @param assetId - Photo asset identifier from MediaLibrary
+ * @param options - Analyses to run and opt-in detailed output
+ * @returns Comprehensive analysis results
+ */
+export async function analyzeComprehensive(
+  assetId: string,
+  options: ComprehensiveAnalysisOptions = {}
+): Promise<ComprehensiveAnalysis> {
+  const {
+    requests = COMPREHENSIVE_ANALYSIS_REQUESTS,
+    maxScenes = 10,
+    includeText = false,
+    includeFaceLandmarks = false,
+    includeRectangleCorners = false,
+    priority
+  } = options;
+
+  return scheduleNative({ priority }, 'analyzeComprehensive', assetId, {
+    requests: [...requests],
+    maxScenes,
+    includeText,
+    includeFaceLandmarks,
+    includeRectangleCorners
+  });
+}